@@ -1,5 +1,60 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+// How exports mark the recording's clicks. `size` is the ripple's final radius in pixels of
+// the exported frame, and `duration` is how long each click stays marked, in seconds.
+export interface IClickEffects {
+  enabled: boolean;
+  ripple: boolean;
+  halo: boolean;
+  magnify: boolean;
+  color: string;
+  size: number;
+  duration: number;
+  magnification: number;
+}
+
+export type CursorTheme = 'light' | 'dark' | 'dot' | 'ring';
+
+// The cursor exports draw in place of the captured one, following a smoothed path through the
+// recorded pointer positions. `size` is its height as a fraction of the frame's, `smoothing`
+// how far jitter is evened out from 0 to 1, and `idleDelay` how many seconds the pointer
+// stays still before it is hidden.
+export interface ICursorSettings {
+  enabled: boolean;
+  theme: CursorTheme;
+  size: number;
+  smoothing: number;
+  hideWhenIdle: boolean;
+  idleDelay: number;
+}
+
+export type KeystrokePosition = 'top-left' | 'top-center' | 'top-right' | 'bottom-left' | 'bottom-center' | 'bottom-right';
+
+// Keycaps exports show for the recording's key presses: `shortcuts` for shortcuts and
+// special keys, `typing` for the text typed so far. `size` is the font height as a fraction
+// of the frame's, and `duration` how many seconds a caption stays after its key.
+export interface IKeystrokeOverlay {
+  enabled: boolean;
+  shortcuts: boolean;
+  typing: boolean;
+  position: KeystrokePosition;
+  theme: 'dark' | 'light';
+  size: number;
+  duration: number;
+}
+
+export type TypingAudio = 'mute' | 'narration';
+
+// Runs of at least `minKeys` key presses in a row are played `speed` times faster on export,
+// easing in and out of the speed. With `audio` set to `narration` the narration keeps its
+// normal speed over the run instead of being muted.
+export interface ITypingSpeedUp {
+  enabled: boolean;
+  minKeys: number;
+  speed: number;
+  audio: TypingAudio;
+}
+
 export interface IProject extends Document {
   title: string;
   description?: string;
@@ -17,6 +72,10 @@ export interface IProject extends Document {
     audioQuality: 'standard' | 'high';
     autoSave: boolean;
     backgroundMusic: boolean;
+    clickEffects: IClickEffects;
+    cursor: ICursorSettings;
+    keystrokes: IKeystrokeOverlay;
+    typingSpeedUp: ITypingSpeedUp;
   };
   metadata: {
     duration?: number;
@@ -93,6 +152,138 @@ const projectSchema = new Schema<IProject>({
     backgroundMusic: {
       type: Boolean,
       default: false
+    },
+    clickEffects: {
+      enabled: {
+        type: Boolean,
+        default: false
+      },
+      ripple: {
+        type: Boolean,
+        default: true
+      },
+      halo: {
+        type: Boolean,
+        default: true
+      },
+      magnify: {
+        type: Boolean,
+        default: false
+      },
+      color: {
+        type: String,
+        default: '#facc15'
+      },
+      size: {
+        type: Number,
+        min: 10,
+        max: 200,
+        default: 40
+      },
+      duration: {
+        type: Number,
+        min: 0.2,
+        max: 3,
+        default: 0.6
+      },
+      magnification: {
+        type: Number,
+        min: 1.25,
+        max: 4,
+        default: 2
+      }
+    },
+    cursor: {
+      enabled: {
+        type: Boolean,
+        default: false
+      },
+      theme: {
+        type: String,
+        enum: ['light', 'dark', 'dot', 'ring'],
+        default: 'light'
+      },
+      size: {
+        type: Number,
+        min: 0.02,
+        max: 0.1,
+        default: 0.04
+      },
+      smoothing: {
+        type: Number,
+        min: 0,
+        max: 1,
+        default: 0.5
+      },
+      hideWhenIdle: {
+        type: Boolean,
+        default: true
+      },
+      idleDelay: {
+        type: Number,
+        min: 0.5,
+        max: 10,
+        default: 2
+      }
+    },
+    keystrokes: {
+      enabled: {
+        type: Boolean,
+        default: false
+      },
+      shortcuts: {
+        type: Boolean,
+        default: true
+      },
+      typing: {
+        type: Boolean,
+        default: true
+      },
+      position: {
+        type: String,
+        enum: ['top-left', 'top-center', 'top-right', 'bottom-left', 'bottom-center', 'bottom-right'],
+        default: 'bottom-center'
+      },
+      theme: {
+        type: String,
+        enum: ['dark', 'light'],
+        default: 'dark'
+      },
+      size: {
+        type: Number,
+        min: 0.02,
+        max: 0.08,
+        default: 0.035
+      },
+      duration: {
+        type: Number,
+        min: 0.5,
+        max: 5,
+        default: 1.5
+      }
+    },
+    typingSpeedUp: {
+      enabled: {
+        type: Boolean,
+        default: false
+      },
+      minKeys: {
+        type: Number,
+        min: 5,
+        max: 100,
+        default: 15
+      },
+      speed: {
+        type: Number,
+        min: 1.5,
+        max: 8,
+        default: 3
+      },
+      audio: {
+        type: String,
+        enum: ['mute', 'narration'],
+        default: 'narration'
+      }
     }
   },
   metadata: {
@@ -1,7 +1,8 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+// `move` events are pointer positions sampled while the pointer moves
 export interface IUIEvent {
-  type: 'click' | 'keypress' | 'hover' | 'scroll' | 'navigation';
+  type: 'click' | 'keypress' | 'hover' | 'scroll' | 'navigation' | 'move';
   timestamp: number;
   coordinates?: { x: number; y: number };
   element?: string;
@@ -9,13 +10,155 @@ export interface IUIEvent {
   metadata?: Record<string, any>;
 }
 
+export type MarkerSource = 'teleprompter' | 'manual';
+
+// A named point in the recording, in seconds from its start
+export interface IRecordingMarker {
+  time: number;
+  label: string;
+  source: MarkerSource;
+  segmentId?: string;
+}
+
+export type TrackKind = 'webcam' | 'microphone' | 'systemAudio';
+
+export const TRACK_KINDS: TrackKind[] = ['webcam', 'microphone', 'systemAudio'];
+export const AUDIO_TRACK_KINDS: TrackKind[] = ['microphone', 'systemAudio'];
+
+export type AnnotationKind = 'callout' | 'arrow' | 'rectangle' | 'badge' | 'spotlight';
+
+export const ANNOTATION_KINDS: AnnotationKind[] = ['callout', 'arrow', 'rectangle', 'badge', 'spotlight'];
+
+// Styling of an `annotation` visual effect, stored in its properties. Every annotation is
+// drawn in the effect's region: a spotlight dims everything outside it, and an arrow runs
+// from the `arrowFrom` corner to the opposite one.
+export interface IAnnotationProperties {
+  kind: AnnotationKind;
+  text?: string;
+  color: string;
+  textColor: string;
+  fontSize: number;
+  strokeWidth: number;
+  opacity: number;
+  arrowFrom: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+  // Seconds spent fading in after startTime and out before endTime
+  fadeIn: number;
+  fadeOut: number;
+}
+
+export type Easing = 'linear' | 'ease-in-out' | 'spring';
+
+export const EASINGS: Easing[] = ['linear', 'ease-in-out', 'spring'];
+
+export type KeyframeProperty = 'x' | 'y' | 'width' | 'height' | 'scale' | 'opacity' | 'strength';
+
+export const KEYFRAME_PROPERTIES: KeyframeProperty[] = ['x', 'y', 'width', 'height', 'scale', 'opacity', 'strength'];
+
+// A change to a visual effect part-way through it. `time` is in seconds from the effect's
+// start, and the effect eases from its previous value of each property set here along
+// `easing`. Position and size are in the effect's coordinates; the rest are its properties.
+export type IEffectKeyframe = {
+  time: number;
+  easing: Easing;
+} & Partial<Record<KeyframeProperty, number>>;
+
+export interface IRecordingTrack {
+  kind: TrackKind;
+  key: string;
+  mimeType: string;
+  offset: number;
+  audioKey?: string;
+  muted: boolean;
+}
+
+export interface IWebcamOverlay {
+  enabled: boolean;
+  shape: 'circle' | 'rounded' | 'rectangle';
+  size: number;
+  position: { x: number; y: number };
+  hiddenRanges: Array<{ startTime: number; endTime: number }>;
+  chromaKey: {
+    enabled: boolean;
+    color: string;
+    similarity: number;
+    blend: number;
+  };
+}
+
+// Footage re-recorded for one section. It replaces exactly startTime..endTime of the
+// original, so everything outside the section keeps its timing.
+export interface IPunchIn {
+  _id: mongoose.Types.ObjectId;
+  key: string;
+  mimeType: string;
+  startTime: number;
+  endTime: number;
+  hasAudio: boolean;
+  createdAt: Date;
+}
+
+export type IdleRangeAction = 'suggested' | 'cut' | 'speed' | 'dismissed';
+
+export const IDLE_RANGE_ACTIONS: IdleRangeAction[] = ['suggested', 'cut', 'speed', 'dismissed'];
+
+// A stretch where nothing is said or done, found by the dead-time analysis. Exports leave out
+// `cut` ranges and play `speed` ranges `speed` times faster; the others play as recorded.
+export interface IIdleRange {
+  _id: mongoose.Types.ObjectId;
+  startTime: number;
+  endTime: number;
+  action: IdleRangeAction;
+  speed: number;
+}
+
+// Region of the captured frame, in pixels of the recording's resolution
+export interface ICaptureCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// What ffprobe found in the uploaded file, measured rather than taken from the client
+export interface IMediaInfo {
+  container: string;
+  duration: number;
+  // Bits per second over the whole file
+  bitrate: number;
+  video?: {
+    codec: string;
+    width: number;
+    height: number;
+    // Average over the packets actually present; MediaRecorder files rarely match a nominal rate
+    frameRate: number;
+    variableFrameRate: boolean;
+    pixelFormat?: string;
+  };
+  audio?: {
+    codec: string;
+    channels: number;
+    sampleRate: number;
+    bitrate?: number;
+  };
+  probedAt: Date;
+}
+
 export interface IRecording extends Document {
   project: mongoose.Types.ObjectId;
   title: string;
-  originalVideoUrl: string;
-  processedVideoUrl?: string;
-  audioUrl?: string;
-  thumbnailUrl?: string;
+  takeGroup: mongoose.Types.ObjectId;
+  takeNumber: number;
+  isActiveTake: boolean;
+  originalVideoKey: string;
+  processedVideoKey?: string;
+  audioKey?: string;
+  thumbnailKey?: string;
+  tracks: IRecordingTrack[];
+  punchIns: IPunchIn[];
+  idleRanges: IIdleRange[];
+  webcamOverlay?: IWebcamOverlay;
+  crop?: ICaptureCrop;
+  media?: IMediaInfo;
   duration: number;
   fileSize: number;
   resolution: {
@@ -23,13 +166,14 @@ export interface IRecording extends Document {
     height: number;
   };
   uiEvents: IUIEvent[];
+  markers: IRecordingMarker[];
   script: {
     segments: Array<{
       id: string;
       text: string;
       startTime: number;
       endTime: number;
-      audioUrl?: string;
+      audioKey?: string;
       voiceSettings?: {
         voice: string;
         speed: number;
@@ -39,11 +183,13 @@ export interface IRecording extends Document {
     originalTranscript?: string;
   };
   visualEffects: Array<{
+    _id?: mongoose.Types.ObjectId;
     type: 'blur' | 'zoom' | 'highlight' | 'annotation';
     startTime: number;
     endTime: number;
     coordinates?: { x: number; y: number; width: number; height: number };
     properties?: Record<string, any>;
+    keyframes?: IEffectKeyframe[];
   }>;
   subtitles: Array<{
     text: string;
@@ -52,7 +198,7 @@ export interface IRecording extends Document {
     style?: Record<string, any>;
   }>;
   backgroundAudio?: {
-    url: string;
+    key: string;
     volume: number;
     fadeIn: number;
     fadeOut: number;
@@ -64,10 +210,10 @@ export interface IRecording extends Document {
   updatedAt: Date;
 }
 
-const uiEventSchema = new Schema<IUIEvent>({
+export const uiEventSchema = new Schema<IUIEvent>({
   type: {
     type: String,
-    enum: ['click', 'keypress', 'hover', 'scroll', 'navigation'],
+    enum: ['click', 'keypress', 'hover', 'scroll', 'navigation', 'move'],
     required: true
   },
   timestamp: {
@@ -83,6 +229,112 @@ const uiEventSchema = new Schema<IUIEvent>({
   metadata: Schema.Types.Mixed
 }, { _id: false });
 
+export const markerSchema = new Schema<IRecordingMarker>({
+  time: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  label: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200
+  },
+  source: {
+    type: String,
+    enum: ['teleprompter', 'manual'],
+    required: true
+  },
+  // Script segment the teleprompter advanced to at this point
+  segmentId: String
+}, { _id: false });
+
+const cropSchema = new Schema<ICaptureCrop>({
+  x: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  y: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  width: {
+    type: Number,
+    required: true,
+    min: 16
+  },
+  height: {
+    type: Number,
+    required: true,
+    min: 16
+  }
+}, { _id: false });
+
+const mediaInfoSchema = new Schema<IMediaInfo>({
+  container: {
+    type: String,
+    required: true
+  },
+  duration: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  bitrate: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  video: new Schema({
+    codec: {
+      type: String,
+      required: true
+    },
+    width: {
+      type: Number,
+      required: true
+    },
+    height: {
+      type: Number,
+      required: true
+    },
+    frameRate: {
+      type: Number,
+      min: 0,
+      default: 0
+    },
+    variableFrameRate: {
+      type: Boolean,
+      default: false
+    },
+    pixelFormat: String
+  }, { _id: false }),
+  audio: new Schema({
+    codec: {
+      type: String,
+      required: true
+    },
+    channels: {
+      type: Number,
+      min: 0,
+      default: 0
+    },
+    sampleRate: {
+      type: Number,
+      min: 0,
+      default: 0
+    },
+    bitrate: Number
+  }, { _id: false }),
+  probedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
 const recordingSchema = new Schema<IRecording>({
   project: {
     type: Schema.Types.ObjectId,
@@ -95,13 +347,171 @@ const recordingSchema = new Schema<IRecording>({
     trim: true,
     maxlength: 200
   },
-  originalVideoUrl: {
+  // Takes of one logical recording share the id of its first take. Only the active take is
+  // listed and exported by default; the others keep their assets for comparison.
+  takeGroup: {
+    type: Schema.Types.ObjectId,
+    ref: 'Recording'
+  },
+  takeNumber: {
+    type: Number,
+    min: 1,
+    default: 1
+  },
+  isActiveTake: {
+    type: Boolean,
+    default: true
+  },
+  // Storage is private: only keys are persisted, clients get signed URLs from /media
+  originalVideoKey: {
     type: String,
     required: true
   },
-  processedVideoUrl: String,
-  audioUrl: String,
-  thumbnailUrl: String,
+  processedVideoKey: String,
+  audioKey: String,
+  thumbnailKey: String,
+  // Extra media captured alongside the screen, stored as separate files
+  tracks: [{
+    kind: {
+      type: String,
+      enum: TRACK_KINDS,
+      required: true
+    },
+    key: {
+      type: String,
+      required: true
+    },
+    mimeType: {
+      type: String,
+      required: true
+    },
+    // Seconds after the start of the screen recording at which the track begins
+    offset: {
+      type: Number,
+      default: 0
+    },
+    // 16 kHz mono WAV extracted from an audio track for transcription
+    audioKey: String,
+    // Muted audio tracks are left out of the preview mix and exports
+    muted: {
+      type: Boolean,
+      default: false
+    }
+  }],
+  punchIns: [{
+    key: {
+      type: String,
+      required: true
+    },
+    mimeType: {
+      type: String,
+      required: true
+    },
+    startTime: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    endTime: {
+      type: Number,
+      required: true
+    },
+    // The re-recorded audio replaces the original audio tracks for the section
+    hasAudio: {
+      type: Boolean,
+      default: false
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  // Times are on the recording's timeline, like everything else stored with it
+  idleRanges: [{
+    startTime: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    endTime: {
+      type: Number,
+      required: true
+    },
+    action: {
+      type: String,
+      enum: IDLE_RANGE_ACTIONS,
+      default: 'suggested'
+    },
+    speed: {
+      type: Number,
+      min: 1.25,
+      max: 16,
+      default: 4
+    }
+  }],
+  // Size and position are fractions of the frame; position places the overlay within the free space
+  webcamOverlay: {
+    enabled: {
+      type: Boolean,
+      default: true
+    },
+    shape: {
+      type: String,
+      enum: ['circle', 'rounded', 'rectangle'],
+      default: 'circle'
+    },
+    size: {
+      type: Number,
+      min: 0.05,
+      max: 0.5,
+      default: 0.2
+    },
+    position: {
+      x: {
+        type: Number,
+        min: 0,
+        max: 1,
+        default: 1
+      },
+      y: {
+        type: Number,
+        min: 0,
+        max: 1,
+        default: 1
+      }
+    },
+    hiddenRanges: [{
+      startTime: Number,
+      endTime: Number,
+      _id: false
+    }],
+    chromaKey: {
+      enabled: {
+        type: Boolean,
+        default: false
+      },
+      color: {
+        type: String,
+        default: '#00ff00'
+      },
+      similarity: {
+        type: Number,
+        min: 0.01,
+        max: 1,
+        default: 0.15
+      },
+      blend: {
+        type: Number,
+        min: 0,
+        max: 1,
+        default: 0.05
+      }
+    }
+  },
+  // Applied when exporting; the original file and uiEvents stay in full-frame pixels
+  crop: cropSchema,
+  // Set from the file at ingest; duration and resolution below are overwritten from it
+  media: mediaInfoSchema,
   duration: {
     type: Number,
     required: true,
@@ -123,6 +533,7 @@ const recordingSchema = new Schema<IRecording>({
     }
   },
   uiEvents: [uiEventSchema],
+  markers: [markerSchema],
   script: {
     segments: [{
       id: {
@@ -141,7 +552,7 @@ const recordingSchema = new Schema<IRecording>({
         type: Number,
         required: true
       },
-      audioUrl: String,
+      audioKey: String,
       voiceSettings: {
         voice: String,
         speed: Number,
@@ -170,7 +581,26 @@ const recordingSchema = new Schema<IRecording>({
       width: Number,
       height: Number
     },
-    properties: Schema.Types.Mixed
+    properties: Schema.Types.Mixed,
+    keyframes: [{
+      _id: false,
+      time: {
+        type: Number,
+        required: true
+      },
+      easing: {
+        type: String,
+        enum: EASINGS,
+        default: 'ease-in-out'
+      },
+      x: Number,
+      y: Number,
+      width: Number,
+      height: Number,
+      scale: Number,
+      opacity: Number,
+      strength: Number
+    }]
   }],
   subtitles: [{
     text: {
@@ -188,7 +618,7 @@ const recordingSchema = new Schema<IRecording>({
     style: Schema.Types.Mixed
   }],
   backgroundAudio: {
-    url: String,
+    key: String,
     volume: {
       type: Number,
       min: 0,
@@ -220,8 +650,17 @@ const recordingSchema = new Schema<IRecording>({
   timestamps: true
 });
 
+// A first take starts its own group
+recordingSchema.pre('save', function(next) {
+  if (!this.takeGroup) {
+    this.takeGroup = this._id as mongoose.Types.ObjectId;
+  }
+  next();
+});
+
 // Indexes for better query performance
 recordingSchema.index({ project: 1, createdAt: -1 });
 recordingSchema.index({ processingStatus: 1 });
+recordingSchema.index({ takeGroup: 1, takeNumber: 1 });
 
 export const Recording = mongoose.model<IRecording>('Recording', recordingSchema);
\ No newline at end of file
@@ -0,0 +1,185 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IRecordingMarker, IUIEvent, TrackKind, TRACK_KINDS, markerSchema, uiEventSchema } from './Recording.js';
+
+// How long a session lives after its last chunk
+export const UPLOAD_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface IUploadSession extends Document {
+  owner: mongoose.Types.ObjectId;
+  project: mongoose.Types.ObjectId;
+  recording?: mongoose.Types.ObjectId;
+  track?: TrackKind;
+  trackOffset: number;
+  screenUpload?: mongoose.Types.ObjectId;
+  takeOf?: mongoose.Types.ObjectId;
+  punchIn?: {
+    startTime: number;
+    endTime: number;
+    hasAudio: boolean;
+  };
+  title: string;
+  filename: string;
+  mimeType: string;
+  storageKey: string;
+  storageUploadId: string;
+  totalSize?: number;
+  chunkSize: number;
+  receivedBytes: number;
+  parts: Array<{
+    partNumber: number;
+    etag: string;
+    size: number;
+  }>;
+  duration: number;
+  resolution: {
+    width: number;
+    height: number;
+  };
+  uiEvents: IUIEvent[];
+  markers: IRecordingMarker[];
+  status: 'active' | 'completing' | 'completed' | 'aborted';
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const punchInSectionSchema = new Schema({
+  startTime: {
+    type: Number,
+    required: true
+  },
+  endTime: {
+    type: Number,
+    required: true
+  },
+  hasAudio: {
+    type: Boolean,
+    default: false
+  }
+}, { _id: false });
+
+const uploadSessionSchema = new Schema<IUploadSession>({
+  owner: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  project: {
+    type: Schema.Types.ObjectId,
+    ref: 'Project',
+    required: true
+  },
+  recording: {
+    type: Schema.Types.ObjectId,
+    ref: 'Recording'
+  },
+  // Set when the upload is an extra track for an existing recording rather than a new one
+  track: {
+    type: String,
+    enum: TRACK_KINDS
+  },
+  trackOffset: {
+    type: Number,
+    default: 0
+  },
+  // A track streamed alongside a live screen recording names that recording's upload session
+  // instead, and is attached once the screen upload has become a recording
+  screenUpload: {
+    type: Schema.Types.ObjectId,
+    ref: 'UploadSession'
+  },
+  // The recording becomes a new take of this one
+  takeOf: {
+    type: Schema.Types.ObjectId,
+    ref: 'Recording'
+  },
+  // Set when the upload re-records a section of an existing recording
+  punchIn: punchInSectionSchema,
+  title: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200
+  },
+  filename: {
+    type: String,
+    required: true
+  },
+  mimeType: {
+    type: String,
+    required: true
+  },
+  storageKey: {
+    type: String,
+    required: true
+  },
+  storageUploadId: {
+    type: String,
+    required: true
+  },
+  // Unset while a live recording is still streaming; declared with its final chunk
+  totalSize: {
+    type: Number,
+    min: 1
+  },
+  chunkSize: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  receivedBytes: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  parts: [{
+    partNumber: {
+      type: Number,
+      required: true
+    },
+    etag: {
+      type: String,
+      required: true
+    },
+    size: {
+      type: Number,
+      required: true
+    }
+  }],
+  duration: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  resolution: {
+    width: {
+      type: Number,
+      required: true
+    },
+    height: {
+      type: Number,
+      required: true
+    }
+  },
+  uiEvents: [uiEventSchema],
+  markers: [markerSchema],
+  // `completing` is held by the one request that assembles the upload
+  status: {
+    type: String,
+    enum: ['active', 'completing', 'completed', 'aborted'],
+    default: 'active'
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Abandoned sessions are removed by MongoDB; their partial multipart uploads are
+// aborted by the server's periodic sweep once they are as old as a session lives
+uploadSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+uploadSessionSchema.index({ owner: 1, status: 1 });
+
+export const UploadSession = mongoose.model<IUploadSession>('UploadSession', uploadSessionSchema);
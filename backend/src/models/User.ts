@@ -13,6 +13,12 @@ export interface IUser extends Document {
     theme: 'light' | 'dark';
     notifications: boolean;
     autoSave: boolean;
+    recordingDevices?: {
+      microphoneId?: string;
+      microphoneLabel?: string;
+      cameraId?: string;
+      cameraLabel?: string;
+    };
   };
   subscription: {
     plan: 'free' | 'pro' | 'enterprise';
@@ -73,6 +79,13 @@ const userSchema = new Schema<IUser>({
     autoSave: {
       type: Boolean,
       default: true
+    },
+    // Device ids are per browser profile, so labels are kept to match devices elsewhere
+    recordingDevices: {
+      microphoneId: String,
+      microphoneLabel: String,
+      cameraId: String,
+      cameraLabel: String
     }
   },
   subscription: {
@@ -3,6 +3,7 @@ import Joi from 'joi';
 import { OpenAI } from 'openai';
 import axios from 'axios';
 import { Recording } from '../models/Recording.js';
+import { putObject, getSignedUrl } from '../services/storage.js';
 import { logger } from '../utils/logger.js';
 
 const router = express.Router();
@@ -118,14 +119,15 @@ router.post('/voiceover', async (req, res) => {
       }
     );
 
-    // Upload audio to S3 (you'll need to implement this)
-    const { uploadToS3 } = await import('../services/storage.js');
+    // Upload audio to storage
     const audioKey = `voiceovers/${Date.now()}-${Math.random().toString(36).substring(7)}.mp3`;
-    const audioUrl = await uploadToS3(Buffer.from(speechResponse.data), audioKey, 'audio/mpeg');
+    await putObject(audioKey, Buffer.from(speechResponse.data), 'audio/mpeg');
+    const audioUrl = await getSignedUrl(audioKey);
 
     logger.info('Voiceover generated successfully');
 
     res.json({
+      audioKey,
       audioUrl,
       voice: selectedVoice.name,
       duration: speechResponse.data.byteLength / 16000 // Approximate duration
@@ -21,6 +21,13 @@ const loginSchema = Joi.object({
   password: Joi.string().required()
 });
 
+const recordingDevicesSchema = Joi.object({
+  microphoneId: Joi.string().allow('').max(500).optional(),
+  microphoneLabel: Joi.string().allow('').max(500).optional(),
+  cameraId: Joi.string().allow('').max(500).optional(),
+  cameraLabel: Joi.string().allow('').max(500).optional()
+});
+
 // Generate JWT token
 const generateToken = (userId: string) => {
   return jwt.sign(
@@ -210,6 +217,34 @@ router.put('/profile', authMiddleware, async (req, res) => {
   }
 });
 
+// Remember the devices chosen in the studio's pre-flight check
+router.put('/recording-devices', authMiddleware, async (req, res) => {
+  try {
+    const { error, value } = recordingDevicesSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const user = await User.findByIdAndUpdate(
+      req.userId,
+      { $set: { 'preferences.recordingDevices': value } },
+      { new: true, runValidators: true }
+    );
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json({
+      message: 'Recording devices updated successfully',
+      recordingDevices: user.preferences.recordingDevices
+    });
+  } catch (error) {
+    logger.error('Recording devices update error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Change password
 router.put('/password', authMiddleware, async (req, res) => {
   try {
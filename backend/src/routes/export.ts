@@ -3,6 +3,8 @@ import Joi from 'joi';
 import { Recording } from '../models/Recording.js';
 import { Project } from '../models/Project.js';
 import { exportQueue } from '../services/queue.js';
+import { getSignedUrl } from '../services/storage.js';
+import { screenshotUrl } from '../services/screenshots.js';
 import { logger } from '../utils/logger.js';
 
 const router = express.Router();
@@ -17,8 +19,12 @@ const exportVideoSchema = Joi.object({
     quality: Joi.string().valid('low', 'medium', 'high').optional().default('high'),
     includeSubtitles: Joi.boolean().optional().default(true),
     includeAudio: Joi.boolean().optional().default(true),
+    // Marker times make natural cut points for startTime and endTime
     startTime: Joi.number().min(0).optional(),
     endTime: Joi.number().min(0).optional(),
+    chapters: Joi.boolean().optional().default(false),
+    // Inactive takes are only exported when asked for explicitly
+    allowInactiveTake: Joi.boolean().optional().default(false),
     watermark: Joi.object({
       enabled: Joi.boolean().default(false),
       text: Joi.string().optional(),
@@ -66,6 +72,14 @@ router.post('/video', async (req, res) => {
       return res.status(403).json({ error: 'Access denied' });
     }
 
+    if (!recording.isActiveTake && !options?.allowInactiveTake) {
+      const activeTake = await Recording.findOne({ takeGroup: recording.takeGroup, isActiveTake: true }, '_id');
+      return res.status(409).json({
+        error: 'Recording is an inactive take',
+        activeTakeId: activeTake?._id ?? null
+      });
+    }
+
     // Check if recording is processed
     if (recording.processingStatus !== 'completed') {
       return res.status(400).json({ 
@@ -146,6 +160,17 @@ router.get('/job/:jobId', async (req, res) => {
       return res.status(404).json({ error: 'Job not found' });
     }
 
+    // Check if user has access to the exported recording
+    const recording = await Recording.findById(job.data.recordingId)
+      .populate('project', 'owner collaborators');
+    const project = recording?.project as any;
+    const hasAccess = project && (project.owner.toString() === req.userId ||
+      project.collaborators.some((collab: any) => collab.user.toString() === req.userId));
+
+    if (!hasAccess) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
     const state = await job.getState();
     const progress = job.progress();
     const result = job.returnvalue;
@@ -156,6 +181,7 @@ router.get('/job/:jobId', async (req, res) => {
       state,
       progress,
       result,
+      downloadUrl: result?.exportKey ? await getSignedUrl(result.exportKey) : null,
       failedReason,
       createdAt: new Date(job.timestamp),
       processedOn: job.processedOn ? new Date(job.processedOn) : null,
@@ -191,14 +217,15 @@ router.get('/history/:recordingId', async (req, res) => {
       job.data.recordingId === req.params.recordingId
     );
 
-    const exports = recordingJobs.map(job => ({
+    const exports = await Promise.all(recordingJobs.map(async job => ({
       id: job.id,
       format: job.data.format,
       options: job.data.options,
       result: job.returnvalue,
+      downloadUrl: job.returnvalue?.exportKey ? await getSignedUrl(job.returnvalue.exportKey) : null,
       createdAt: new Date(job.timestamp),
       completedAt: job.finishedOn ? new Date(job.finishedOn) : null
-    }));
+    })));
 
     res.json({ exports });
   } catch (error) {
@@ -227,8 +254,8 @@ const getEstimatedExportTime = (format: string, duration: number): number => {
 const generateArticle = async (recording: any, project: any, options: any) => {
   const steps: any[] = [];
   
-  // Generate steps from UI events and script
-  recording.uiEvents.forEach((event: any, index: number) => {
+  // Generate steps from UI events and script; pointer samples are not steps
+  recording.uiEvents.filter((event: any) => event.type !== 'move').forEach((event: any, index: number) => {
     const scriptSegment = recording.script.segments.find((seg: any) => 
       seg.startTime <= event.timestamp && seg.endTime >= event.timestamp
     );
@@ -238,7 +265,7 @@ const generateArticle = async (recording: any, project: any, options: any) => {
       timestamp: event.timestamp,
       action: formatEventAction(event),
       description: scriptSegment?.text || `Performed ${event.type} action`,
-      screenshot: options.includeScreenshots ? generateScreenshotUrl(recording, event.timestamp) : null
+      screenshot: options.includeScreenshots ? screenshotUrl(recording._id.toString(), event.timestamp) : null
     });
   });
 
@@ -284,11 +311,6 @@ const formatEventAction = (event: any): string => {
   }
 };
 
-const generateScreenshotUrl = (recording: any, timestamp: number): string => {
-  // This would generate a screenshot URL at the specific timestamp
-  return `${recording.originalVideoUrl}?t=${timestamp}&screenshot=true`;
-};
-
 const generateIntroduction = (project: any, recording: any): string => {
   return `This tutorial will guide you through ${recording.title}. ` +
          `The process takes approximately ${Math.ceil(recording.duration / 60)} minutes to complete.`;
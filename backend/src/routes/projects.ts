@@ -7,6 +7,43 @@ import { logger } from '../utils/logger.js';
 const router = express.Router();
 
 // Validation schemas
+const clickEffectsSchema = Joi.object({
+  enabled: Joi.boolean().required(),
+  ripple: Joi.boolean().required(),
+  halo: Joi.boolean().required(),
+  magnify: Joi.boolean().required(),
+  color: Joi.string().pattern(/^#[0-9a-fA-F]{6}$/).required(),
+  size: Joi.number().min(10).max(200).required(),
+  duration: Joi.number().min(0.2).max(3).required(),
+  magnification: Joi.number().min(1.25).max(4).required()
+});
+
+const cursorSchema = Joi.object({
+  enabled: Joi.boolean().required(),
+  theme: Joi.string().valid('light', 'dark', 'dot', 'ring').required(),
+  size: Joi.number().min(0.02).max(0.1).required(),
+  smoothing: Joi.number().min(0).max(1).required(),
+  hideWhenIdle: Joi.boolean().required(),
+  idleDelay: Joi.number().min(0.5).max(10).required()
+});
+
+const keystrokesSchema = Joi.object({
+  enabled: Joi.boolean().required(),
+  shortcuts: Joi.boolean().required(),
+  typing: Joi.boolean().required(),
+  position: Joi.string().valid('top-left', 'top-center', 'top-right', 'bottom-left', 'bottom-center', 'bottom-right').required(),
+  theme: Joi.string().valid('dark', 'light').required(),
+  size: Joi.number().min(0.02).max(0.08).required(),
+  duration: Joi.number().min(0.5).max(5).required()
+});
+
+const typingSpeedUpSchema = Joi.object({
+  enabled: Joi.boolean().required(),
+  minKeys: Joi.number().integer().min(5).max(100).required(),
+  speed: Joi.number().min(1.5).max(8).required(),
+  audio: Joi.string().valid('mute', 'narration').required()
+});
+
 const createProjectSchema = Joi.object({
   title: Joi.string().required().max(200),
   description: Joi.string().optional().max(1000),
@@ -15,7 +52,11 @@ const createProjectSchema = Joi.object({
     frameRate: Joi.number().valid(30, 60).optional(),
     audioQuality: Joi.string().valid('standard', 'high').optional(),
     autoSave: Joi.boolean().optional(),
-    backgroundMusic: Joi.boolean().optional()
+    backgroundMusic: Joi.boolean().optional(),
+    clickEffects: clickEffectsSchema.optional(),
+    cursor: cursorSchema.optional(),
+    keystrokes: keystrokesSchema.optional(),
+    typingSpeedUp: typingSpeedUpSchema.optional()
   }).optional()
 });
 
@@ -28,7 +69,11 @@ const updateProjectSchema = Joi.object({
     frameRate: Joi.number().valid(30, 60).optional(),
     audioQuality: Joi.string().valid('standard', 'high').optional(),
     autoSave: Joi.boolean().optional(),
-    backgroundMusic: Joi.boolean().optional()
+    backgroundMusic: Joi.boolean().optional(),
+    clickEffects: clickEffectsSchema.optional(),
+    cursor: cursorSchema.optional(),
+    keystrokes: keystrokesSchema.optional(),
+    typingSpeedUp: typingSpeedUpSchema.optional()
   }).optional()
 });
 
@@ -166,7 +211,12 @@ router.put('/:id', async (req, res) => {
       return res.status(403).json({ error: 'Access denied' });
     }
 
-    Object.assign(project, value);
+    // Settings left out of the update keep their values
+    const { settings, ...fields } = value;
+    Object.assign(project, fields);
+    for (const [key, setting] of Object.entries(settings || {})) {
+      project.set(`settings.${key}`, setting);
+    }
     await project.save();
     await project.populate('owner', 'firstName lastName email avatar');
     await project.populate('collaborators.user', 'firstName lastName email avatar');
@@ -1,11 +1,16 @@
 import express from 'express';
 import multer from 'multer';
 import Joi from 'joi';
-import { Recording } from '../models/Recording.js';
+import { Recording, ANNOTATION_KINDS, EASINGS, IDLE_RANGE_ACTIONS } from '../models/Recording.js';
 import { Project } from '../models/Project.js';
-import { uploadToS3, deleteFromS3 } from '../services/storage.js';
+import { putObject, deleteObject, getSignedUrl, listObjects, signedUrlExpires } from '../services/storage.js';
 import { processVideoQueue } from '../services/queue.js';
+import { detectStoredSilence, probeStoredMedia } from '../services/videoProcessor.js';
+import { findIdleRanges, mergeIdleRanges } from '../services/deadTime.js';
+import { activateTake, listTakes, nextTake, promoteLatestTake } from '../services/takes.js';
+import { generateCameraPath, MAX_CAMERA_ZOOM } from '../services/camera.js';
 import { logger } from '../utils/logger.js';
+import { uiEventValidationSchema, markerValidationSchema, resolutionValidationSchema } from '../utils/validation.js';
 
 const router = express.Router();
 
@@ -14,6 +19,7 @@ const upload = multer({
   storage: multer.memoryStorage(),
   limits: {
     fileSize: 500 * 1024 * 1024, // 500MB limit
+    fieldSize: 25 * 1024 * 1024, // uiEvents carry pointer samples for the whole recording
   },
   fileFilter: (req, file, cb) => {
     if (file.mimetype.startsWith('video/') || file.mimetype.startsWith('audio/')) {
@@ -28,24 +34,30 @@ const upload = multer({
 const createRecordingSchema = Joi.object({
   projectId: Joi.string().required(),
   title: Joi.string().required().max(200),
-  duration: Joi.number().required().min(0),
-  resolution: Joi.object({
-    width: Joi.number().required(),
-    height: Joi.number().required()
-  }).required(),
-  uiEvents: Joi.array().items(Joi.object({
-    type: Joi.string().valid('click', 'keypress', 'hover', 'scroll', 'navigation').required(),
-    timestamp: Joi.number().required(),
-    coordinates: Joi.object({
-      x: Joi.number(),
-      y: Joi.number()
-    }).optional(),
-    element: Joi.string().optional(),
-    value: Joi.string().optional(),
-    metadata: Joi.object().optional()
-  })).optional()
+  // Both are measured from the file; the client's values are only a fallback and a cross-check
+  duration: Joi.number().min(0).optional(),
+  resolution: resolutionValidationSchema.optional(),
+  uiEvents: Joi.array().items(uiEventValidationSchema).optional(),
+  markers: Joi.array().items(markerValidationSchema).optional(),
+  // Record the upload as a new take of this recording
+  takeOf: Joi.string().optional()
 });
 
+// Multipart form fields arrive as strings, so structured fields are sent as JSON
+const parseJsonFields = (body: Record<string, any>, fields: string[]) => {
+  const parsed = { ...body };
+  for (const field of fields) {
+    if (typeof parsed[field] === 'string') {
+      try {
+        parsed[field] = JSON.parse(parsed[field]);
+      } catch {
+        // Leave the raw value so validation reports the offending field
+      }
+    }
+  }
+  return parsed;
+};
+
 const updateScriptSchema = Joi.object({
   segments: Joi.array().items(Joi.object({
     id: Joi.string().required(),
@@ -60,6 +72,105 @@ const updateScriptSchema = Joi.object({
   })).required()
 });
 
+const webcamOverlaySchema = Joi.object({
+  enabled: Joi.boolean().required(),
+  shape: Joi.string().valid('circle', 'rounded', 'rectangle').required(),
+  size: Joi.number().min(0.05).max(0.5).required(),
+  position: Joi.object({
+    x: Joi.number().min(0).max(1).required(),
+    y: Joi.number().min(0).max(1).required()
+  }).required(),
+  hiddenRanges: Joi.array().items(Joi.object({
+    startTime: Joi.number().min(0).required(),
+    endTime: Joi.number().min(Joi.ref('startTime')).required()
+  })).required(),
+  chromaKey: Joi.object({
+    enabled: Joi.boolean().required(),
+    color: Joi.string().pattern(/^#[0-9a-fA-F]{6}$/).required(),
+    similarity: Joi.number().min(0.01).max(1).required(),
+    blend: Joi.number().min(0).max(1).required()
+  }).required()
+});
+
+const trackSettingsSchema = Joi.object({
+  muted: Joi.boolean().required()
+});
+
+// A null crop restores the full frame
+const cropSchema = Joi.object({
+  crop: Joi.object({
+    x: Joi.number().integer().min(0).required(),
+    y: Joi.number().integer().min(0).required(),
+    width: Joi.number().integer().min(16).required(),
+    height: Joi.number().integer().min(16).required()
+  }).allow(null).required()
+});
+
+// Styling of an annotation; anything left out is filled in when it is drawn
+const annotationPropertiesSchema = Joi.object({
+  kind: Joi.string().valid(...ANNOTATION_KINDS).required(),
+  text: Joi.string().max(500).when('kind', { is: Joi.valid('callout', 'badge'), then: Joi.required() }),
+  color: Joi.string().pattern(/^#[0-9a-fA-F]{6}$/).optional(),
+  textColor: Joi.string().pattern(/^#[0-9a-fA-F]{6}$/).optional(),
+  fontSize: Joi.number().min(8).max(200).optional(),
+  strokeWidth: Joi.number().min(1).max(40).optional(),
+  opacity: Joi.number().min(0).max(1).optional(),
+  arrowFrom: Joi.string().valid('top-left', 'top-right', 'bottom-left', 'bottom-right').optional(),
+  fadeIn: Joi.number().min(0).max(10).optional(),
+  fadeOut: Joi.number().min(0).max(10).optional()
+});
+
+// Times are seconds from the effect's start; keyframes past its end are held at the end
+const effectKeyframeSchema = Joi.object({
+  time: Joi.number().min(0).required(),
+  easing: Joi.string().valid(...EASINGS).default('ease-in-out'),
+  x: Joi.number(),
+  y: Joi.number(),
+  width: Joi.number().positive(),
+  height: Joi.number().positive(),
+  scale: Joi.number().min(1).max(MAX_CAMERA_ZOOM),
+  opacity: Joi.number().min(0).max(1),
+  strength: Joi.number().min(0).max(50)
+});
+
+// Zooms move the export's camera onto their region, so they need one like annotations do
+const visualEffectSchema = Joi.object({
+  type: Joi.string().valid('blur', 'zoom', 'highlight', 'annotation').required(),
+  startTime: Joi.number().required(),
+  endTime: Joi.number().required(),
+  coordinates: Joi.object({
+    x: Joi.number(),
+    y: Joi.number(),
+    width: Joi.number(),
+    height: Joi.number()
+  }).when('type', {
+    is: Joi.valid('annotation', 'zoom'),
+    then: Joi.object({ width: Joi.number().positive().required(), height: Joi.number().positive().required() }).required(),
+    otherwise: Joi.optional()
+  }),
+  properties: Joi.when('type', {
+    is: 'annotation',
+    then: annotationPropertiesSchema.required(),
+    otherwise: Joi.object().optional()
+  }),
+  keyframes: Joi.array().items(effectKeyframeSchema).max(100)
+});
+
+const autoZoomSchema = Joi.object({
+  zoom: Joi.number().min(1.25).max(MAX_CAMERA_ZOOM).default(2)
+});
+
+// Narration quieter than `noise` dB counts as silence
+const detectIdleRangesSchema = Joi.object({
+  minDuration: Joi.number().min(1).max(30).default(2),
+  noise: Joi.number().min(-70).max(-20).default(-35)
+});
+
+const idleRangeSchema = Joi.object({
+  action: Joi.string().valid(...IDLE_RANGE_ACTIONS).required(),
+  speed: Joi.number().min(1.25).max(16).optional()
+});
+
 // Get recordings for a project
 router.get('/project/:projectId', async (req, res) => {
   try {
@@ -76,8 +187,11 @@ router.get('/project/:projectId', async (req, res) => {
       return res.status(403).json({ error: 'Access denied' });
     }
 
-    const recordings = await Recording.find({ project: req.params.projectId })
-      .sort({ createdAt: -1 });
+    // Inactive takes are only listed on request
+    const recordings = await Recording.find({
+      project: req.params.projectId,
+      ...(req.query.takes !== 'all' && { isActiveTake: { $ne: false } })
+    }).sort({ createdAt: -1 });
 
     res.json({ recordings });
   } catch (error) {
@@ -112,6 +226,122 @@ router.get('/:id', async (req, res) => {
   }
 });
 
+// List every take of the recording's group, including inactive ones
+router.get('/:id/takes', async (req, res) => {
+  try {
+    const recording = await Recording.findById(req.params.id)
+      .populate('project', 'owner collaborators');
+
+    if (!recording) {
+      return res.status(404).json({ error: 'Recording not found' });
+    }
+
+    // Check if user has access to this recording
+    const project = recording.project as any;
+    const hasAccess = project.owner.toString() === req.userId ||
+      project.collaborators.some((collab: any) => collab.user.toString() === req.userId);
+
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const takes = await listTakes(recording);
+
+    res.json({ takes });
+  } catch (error) {
+    logger.error('Get takes error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Make this take the one that is listed and exported
+router.post('/:id/activate-take', async (req, res) => {
+  try {
+    const recording = await Recording.findById(req.params.id)
+      .populate('project', 'owner collaborators');
+
+    if (!recording) {
+      return res.status(404).json({ error: 'Recording not found' });
+    }
+
+    // Check if user has access to edit this recording
+    const project = recording.project as any;
+    const hasEditAccess = project.owner.toString() === req.userId ||
+      project.collaborators.some((collab: any) =>
+        collab.user.toString() === req.userId &&
+        collab.role === 'editor'
+      );
+
+    if (!hasEditAccess) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    await activateTake(recording);
+    const takes = await listTakes(recording);
+
+    logger.info(`Take ${recording.takeNumber} of recording ${recording.takeGroup || recording._id} activated`);
+
+    res.json({
+      message: 'Take activated successfully',
+      takes
+    });
+  } catch (error) {
+    logger.error('Activate take error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Issue short-lived signed URLs for a recording's files
+router.get('/:id/media', async (req, res) => {
+  try {
+    const recording = await Recording.findById(req.params.id)
+      .populate('project', 'owner collaborators');
+
+    if (!recording) {
+      return res.status(404).json({ error: 'Recording not found' });
+    }
+
+    // Check if user has access to this recording
+    const project = recording.project as any;
+    const hasAccess = project.owner.toString() === req.userId ||
+      project.collaborators.some((collab: any) => collab.user.toString() === req.userId);
+
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const sign = (key?: string) => key ? getSignedUrl(key) : Promise.resolve(null);
+    const segments = recording.script.segments.filter(segment => segment.audioKey);
+
+    const [originalVideo, processedVideo, audio, thumbnail, segmentUrls, trackUrls, punchInUrls] = await Promise.all([
+      sign(recording.originalVideoKey),
+      sign(recording.processedVideoKey),
+      sign(recording.audioKey),
+      sign(recording.thumbnailKey),
+      Promise.all(segments.map(segment => sign(segment.audioKey))),
+      Promise.all(recording.tracks.map(track => sign(track.key))),
+      Promise.all(recording.punchIns.map(punchIn => sign(punchIn.key)))
+    ]);
+
+    res.json({
+      media: {
+        video: processedVideo || originalVideo,
+        originalVideo,
+        processedVideo,
+        audio,
+        thumbnail,
+        segments: Object.fromEntries(segments.map((segment, index) => [segment.id, segmentUrls[index]])),
+        tracks: Object.fromEntries(recording.tracks.map((track, index) => [track.kind, trackUrls[index]])),
+        punchIns: Object.fromEntries(recording.punchIns.map((punchIn, index) => [punchIn._id.toString(), punchInUrls[index]]))
+      },
+      expiresAt: new Date(Date.now() + signedUrlExpires() * 1000)
+    });
+  } catch (error) {
+    logger.error('Get recording media error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Upload and create new recording
 router.post('/', upload.single('video'), async (req, res) => {
   try {
@@ -119,12 +349,14 @@ router.post('/', upload.single('video'), async (req, res) => {
       return res.status(400).json({ error: 'Video file is required' });
     }
 
-    const { error, value } = createRecordingSchema.validate(req.body);
+    const { error, value } = createRecordingSchema.validate(
+      parseJsonFields(req.body, ['resolution', 'uiEvents', 'markers'])
+    );
     if (error) {
       return res.status(400).json({ error: error.details[0].message });
     }
 
-    const { projectId, title, duration, resolution, uiEvents } = value;
+    const { projectId, title, duration, uiEvents, markers, takeOf } = value;
 
     // Check if project exists and user has access
     const project = await Project.findById(projectId);
@@ -142,19 +374,37 @@ router.post('/', upload.single('video'), async (req, res) => {
       return res.status(403).json({ error: 'Access denied' });
     }
 
-    // Upload video to S3
-    const videoKey = `recordings/${projectId}/${Date.now()}-${req.file.originalname}`;
-    const videoUrl = await uploadToS3(req.file.buffer, videoKey, req.file.mimetype);
+    const take = takeOf ? await nextTake(takeOf, projectId) : null;
+    if (takeOf && !take) {
+      return res.status(404).json({ error: 'Recording not found' });
+    }
+
+    // Upload video to storage
+    const videoKey = `recordings/${projectId}/${Date.now()}-${req.file.originalname.replace(/[^\w.-]+/g, '-')}`;
+    await putObject(videoKey, req.file.buffer, req.file.mimetype);
+
+    // The mimetype and metadata come from the client; the file itself decides
+    const media = await probeStoredMedia(videoKey);
+    if (!media?.video) {
+      await deleteObject(videoKey).catch(() => {});
+      return res.status(400).json({ error: 'The uploaded file is not a decodable video' });
+    }
+    if (duration !== undefined && Math.abs(media.duration - duration) > 1) {
+      logger.warn(`Recording ${title} declared ${duration}s but its file is ${media.duration.toFixed(1)}s`);
+    }
 
     // Create recording
     const recording = new Recording({
       project: projectId,
       title,
-      originalVideoUrl: videoUrl,
-      duration,
+      originalVideoKey: videoKey,
+      media,
+      duration: media.duration || duration || 0,
       fileSize: req.file.size,
-      resolution,
+      resolution: { width: media.video.width, height: media.video.height },
       uiEvents: uiEvents || [],
+      markers: markers || [],
+      ...take,
       script: {
         segments: []
       }
@@ -162,6 +412,11 @@ router.post('/', upload.single('video'), async (req, res) => {
 
     await recording.save();
 
+    // A new take replaces the active one
+    if (take) {
+      await activateTake(recording);
+    }
+
     // Add recording to project
     project.recordings.push(recording._id);
     await project.save();
@@ -169,7 +424,7 @@ router.post('/', upload.single('video'), async (req, res) => {
     // Queue video processing
     await processVideoQueue.add('process-video', {
       recordingId: recording._id.toString(),
-      videoUrl,
+      videoKey,
       uiEvents: uiEvents || []
     });
 
@@ -234,23 +489,186 @@ router.put('/:id/script', async (req, res) => {
   }
 });
 
-// Add visual effect
-router.post('/:id/effects', async (req, res) => {
+// Update webcam overlay placement and styling
+router.put('/:id/webcam-overlay', async (req, res) => {
   try {
-    const effectSchema = Joi.object({
-      type: Joi.string().valid('blur', 'zoom', 'highlight', 'annotation').required(),
-      startTime: Joi.number().required(),
-      endTime: Joi.number().required(),
-      coordinates: Joi.object({
-        x: Joi.number(),
-        y: Joi.number(),
-        width: Joi.number(),
-        height: Joi.number()
-      }).optional(),
-      properties: Joi.object().optional()
+    const { error, value } = webcamOverlaySchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const recording = await Recording.findById(req.params.id)
+      .populate('project', 'owner collaborators');
+
+    if (!recording) {
+      return res.status(404).json({ error: 'Recording not found' });
+    }
+
+    // Check if user has access to edit this recording
+    const project = recording.project as any;
+    const hasEditAccess = project.owner.toString() === req.userId ||
+      project.collaborators.some((collab: any) =>
+        collab.user.toString() === req.userId &&
+        collab.role === 'editor'
+      );
+
+    if (!hasEditAccess) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    recording.webcamOverlay = value;
+    await recording.save();
+
+    res.json({
+      message: 'Webcam overlay updated successfully',
+      webcamOverlay: recording.webcamOverlay
     });
+  } catch (error) {
+    logger.error('Update webcam overlay error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    const { error, value } = effectSchema.validate(req.body);
+// Update mix settings for one of the recording's separate tracks
+router.put('/:id/tracks/:kind', async (req, res) => {
+  try {
+    const { error, value } = trackSettingsSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const recording = await Recording.findById(req.params.id)
+      .populate('project', 'owner collaborators');
+
+    if (!recording) {
+      return res.status(404).json({ error: 'Recording not found' });
+    }
+
+    // Check if user has access to edit this recording
+    const project = recording.project as any;
+    const hasEditAccess = project.owner.toString() === req.userId ||
+      project.collaborators.some((collab: any) =>
+        collab.user.toString() === req.userId &&
+        collab.role === 'editor'
+      );
+
+    if (!hasEditAccess) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const track = recording.tracks.find(track => track.kind === req.params.kind);
+    if (!track) {
+      return res.status(404).json({ error: 'Track not found' });
+    }
+
+    track.muted = value.muted;
+    await recording.save();
+
+    res.json({
+      message: 'Track updated successfully',
+      track
+    });
+  } catch (error) {
+    logger.error('Update track error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Set the region of the captured frame that exports keep
+router.put('/:id/crop', async (req, res) => {
+  try {
+    const { error, value } = cropSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const recording = await Recording.findById(req.params.id)
+      .populate('project', 'owner collaborators');
+
+    if (!recording) {
+      return res.status(404).json({ error: 'Recording not found' });
+    }
+
+    // Check if user has access to edit this recording
+    const project = recording.project as any;
+    const hasEditAccess = project.owner.toString() === req.userId ||
+      project.collaborators.some((collab: any) =>
+        collab.user.toString() === req.userId &&
+        collab.role === 'editor'
+      );
+
+    if (!hasEditAccess) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const { crop } = value;
+    if (crop && (crop.x + crop.width > recording.resolution.width || crop.y + crop.height > recording.resolution.height)) {
+      return res.status(400).json({ error: 'Crop must lie within the recording resolution' });
+    }
+
+    recording.crop = crop || undefined;
+    await recording.save();
+
+    res.json({
+      message: 'Crop updated successfully',
+      recording
+    });
+  } catch (error) {
+    logger.error('Update crop error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Revert a re-recorded section to the original footage
+router.delete('/:id/punch-ins/:punchInId', async (req, res) => {
+  try {
+    const recording = await Recording.findById(req.params.id)
+      .populate('project', 'owner collaborators');
+
+    if (!recording) {
+      return res.status(404).json({ error: 'Recording not found' });
+    }
+
+    // Check if user has access to edit this recording
+    const project = recording.project as any;
+    const hasEditAccess = project.owner.toString() === req.userId ||
+      project.collaborators.some((collab: any) =>
+        collab.user.toString() === req.userId &&
+        collab.role === 'editor'
+      );
+
+    if (!hasEditAccess) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const punchIn = recording.punchIns.find(punchIn => punchIn._id.toString() === req.params.punchInId);
+    if (!punchIn) {
+      return res.status(404).json({ error: 'Punch-in not found' });
+    }
+
+    recording.punchIns = recording.punchIns.filter(other => other !== punchIn) as typeof recording.punchIns;
+    await recording.save();
+
+    try {
+      await deleteObject(punchIn.key);
+    } catch (storageError) {
+      logger.warn('Error deleting punch-in from storage:', storageError);
+    }
+
+    res.json({
+      message: 'Punch-in removed successfully',
+      recording
+    });
+  } catch (error) {
+    logger.error('Delete punch-in error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Add visual effect
+router.post('/:id/effects', async (req, res) => {
+  try {
+    const { error, value } = visualEffectSchema.validate(req.body);
     if (error) {
       return res.status(400).json({ error: error.details[0].message });
     }
@@ -290,6 +708,241 @@ router.post('/:id/effects', async (req, res) => {
   }
 });
 
+// Replace a visual effect, keeping its id
+router.put('/:id/effects/:effectId', async (req, res) => {
+  try {
+    const { error, value } = visualEffectSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const recording = await Recording.findById(req.params.id)
+      .populate('project', 'owner collaborators');
+
+    if (!recording) {
+      return res.status(404).json({ error: 'Recording not found' });
+    }
+
+    // Check if user has access to edit this recording
+    const project = recording.project as any;
+    const hasEditAccess = project.owner.toString() === req.userId ||
+      project.collaborators.some((collab: any) =>
+        collab.user.toString() === req.userId &&
+        collab.role === 'editor'
+      );
+
+    if (!hasEditAccess) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const index = recording.visualEffects.findIndex(effect => effect._id?.toString() === req.params.effectId);
+    if (index === -1) {
+      return res.status(404).json({ error: 'Visual effect not found' });
+    }
+
+    recording.visualEffects = recording.visualEffects.map((effect, position) =>
+      position === index ? { ...value, _id: effect._id } : effect
+    ) as typeof recording.visualEffects;
+    await recording.save();
+
+    res.json({
+      message: 'Visual effect updated successfully',
+      effect: recording.visualEffects[index]
+    });
+  } catch (error) {
+    logger.error('Update visual effect error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Follow the recording's clicks and typing with zoom effects, replacing earlier generated ones
+router.post('/:id/auto-zoom', async (req, res) => {
+  try {
+    const { error, value } = autoZoomSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const recording = await Recording.findById(req.params.id)
+      .populate('project', 'owner collaborators');
+
+    if (!recording) {
+      return res.status(404).json({ error: 'Recording not found' });
+    }
+
+    // Check if user has access to edit this recording
+    const project = recording.project as any;
+    const hasEditAccess = project.owner.toString() === req.userId ||
+      project.collaborators.some((collab: any) =>
+        collab.user.toString() === req.userId &&
+        collab.role === 'editor'
+      );
+
+    if (!hasEditAccess) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const crop = recording.crop || null;
+    const frame = crop ? { width: crop.width, height: crop.height } : recording.resolution;
+    const zooms = generateCameraPath(recording.uiEvents, frame, crop, recording.duration, value.zoom);
+
+    recording.visualEffects = [
+      ...recording.visualEffects.filter(effect => !(effect.type === 'zoom' && effect.properties?.auto)),
+      ...zooms
+    ] as typeof recording.visualEffects;
+    await recording.save();
+
+    logger.info(`Generated ${zooms.length} zoom effects for recording: ${recording.title}`);
+
+    res.json({
+      message: 'Zoom effects generated successfully',
+      visualEffects: recording.visualEffects
+    });
+  } catch (error) {
+    logger.error('Auto zoom error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Propose the stretches where nothing is said or done as idle ranges, replacing the earlier
+// suggestions. Ranges already cut, sped up or dismissed are kept.
+router.post('/:id/idle-ranges/detect', async (req, res) => {
+  try {
+    const { error, value } = detectIdleRangesSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const recording = await Recording.findById(req.params.id)
+      .populate('project', 'owner collaborators');
+
+    if (!recording) {
+      return res.status(404).json({ error: 'Recording not found' });
+    }
+
+    // Check if user has access to edit this recording
+    const project = recording.project as any;
+    const hasEditAccess = project.owner.toString() === req.userId ||
+      project.collaborators.some((collab: any) =>
+        collab.user.toString() === req.userId &&
+        collab.role === 'editor'
+      );
+
+    if (!hasEditAccess) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    // The narration is the extracted audio of the track it came from, which may start late
+    const narration = recording.tracks.find(track => track.audioKey && track.audioKey === recording.audioKey);
+    const silences = recording.audioKey
+      ? await detectStoredSilence(recording.audioKey, narration?.offset ?? 0, recording.duration, value)
+      : null;
+    const found = findIdleRanges(silences, recording.uiEvents, {
+      duration: recording.duration,
+      minDuration: value.minDuration,
+      excluded: recording.punchIns.map(({ startTime, endTime }) => ({ startTime, endTime }))
+    });
+
+    recording.idleRanges = mergeIdleRanges(recording.idleRanges, found) as typeof recording.idleRanges;
+    await recording.save();
+
+    logger.info(`Found ${found.length} idle ranges in recording: ${recording.title}`);
+
+    res.json({
+      message: 'Idle ranges detected successfully',
+      idleRanges: recording.idleRanges
+    });
+  } catch (error) {
+    logger.error('Detect idle ranges error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Accept an idle range as a cut or a speed-up, or dismiss it
+router.put('/:id/idle-ranges/:rangeId', async (req, res) => {
+  try {
+    const { error, value } = idleRangeSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const recording = await Recording.findById(req.params.id)
+      .populate('project', 'owner collaborators');
+
+    if (!recording) {
+      return res.status(404).json({ error: 'Recording not found' });
+    }
+
+    // Check if user has access to edit this recording
+    const project = recording.project as any;
+    const hasEditAccess = project.owner.toString() === req.userId ||
+      project.collaborators.some((collab: any) =>
+        collab.user.toString() === req.userId &&
+        collab.role === 'editor'
+      );
+
+    if (!hasEditAccess) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const range = recording.idleRanges.find(range => range._id.toString() === req.params.rangeId);
+    if (!range) {
+      return res.status(404).json({ error: 'Idle range not found' });
+    }
+
+    range.action = value.action;
+    if (value.speed !== undefined) {
+      range.speed = value.speed;
+    }
+    await recording.save();
+
+    res.json({
+      message: 'Idle range updated successfully',
+      idleRange: range
+    });
+  } catch (error) {
+    logger.error('Update idle range error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Remove a visual effect
+router.delete('/:id/effects/:effectId', async (req, res) => {
+  try {
+    const recording = await Recording.findById(req.params.id)
+      .populate('project', 'owner collaborators');
+
+    if (!recording) {
+      return res.status(404).json({ error: 'Recording not found' });
+    }
+
+    // Check if user has access to edit this recording
+    const project = recording.project as any;
+    const hasEditAccess = project.owner.toString() === req.userId ||
+      project.collaborators.some((collab: any) =>
+        collab.user.toString() === req.userId &&
+        collab.role === 'editor'
+      );
+
+    if (!hasEditAccess) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const effect = recording.visualEffects.find(effect => effect._id?.toString() === req.params.effectId);
+    if (!effect) {
+      return res.status(404).json({ error: 'Visual effect not found' });
+    }
+
+    recording.visualEffects = recording.visualEffects.filter(other => other !== effect) as typeof recording.visualEffects;
+    await recording.save();
+
+    res.json({ message: 'Visual effect removed successfully' });
+  } catch (error) {
+    logger.error('Delete visual effect error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Delete recording
 router.delete('/:id', async (req, res) => {
   try {
@@ -308,23 +961,24 @@ router.delete('/:id', async (req, res) => {
       return res.status(403).json({ error: 'Only project owner can delete recordings' });
     }
 
-    // Delete files from S3
-    try {
-      if (recording.originalVideoUrl) {
-        await deleteFromS3(recording.originalVideoUrl);
-      }
-      if (recording.processedVideoUrl) {
-        await deleteFromS3(recording.processedVideoUrl);
+    // Delete files from storage, each on its own so one failure does not keep the rest
+    const keys = [
+      recording.originalVideoKey,
+      recording.processedVideoKey,
+      recording.audioKey,
+      recording.thumbnailKey,
+      ...recording.tracks.flatMap(track => [track.key, track.audioKey]),
+      ...recording.punchIns.map(punchIn => punchIn.key),
+      ...recording.script.segments.map(segment => segment.audioKey),
+      ...(await listObjects(`screenshots/${recording._id}/`)).map(object => object.key)
+    ].filter((key): key is string => Boolean(key));
+
+    const deletions = await Promise.allSettled(keys.map(key => deleteObject(key)));
+    deletions.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        logger.warn(`Error deleting ${keys[index]} from storage:`, result.reason);
       }
-      if (recording.audioUrl) {
-        await deleteFromS3(recording.audioUrl);
-      }
-      if (recording.thumbnailUrl) {
-        await deleteFromS3(recording.thumbnailUrl);
-      }
-    } catch (s3Error) {
-      logger.warn('Error deleting files from S3:', s3Error);
-    }
+    });
 
     // Remove recording from project
     await Project.findByIdAndUpdate(
@@ -335,6 +989,10 @@ router.delete('/:id', async (req, res) => {
     // Delete recording
     await Recording.findByIdAndDelete(req.params.id);
 
+    if (recording.isActiveTake && recording.takeGroup) {
+      await promoteLatestTake(recording.takeGroup);
+    }
+
     logger.info(`Recording deleted: ${recording.title}`);
 
     res.json({ message: 'Recording deleted successfully' });
@@ -0,0 +1,51 @@
+import express from 'express';
+import Joi from 'joi';
+import { pipeline } from 'stream/promises';
+import { Recording } from '../models/Recording.js';
+import { getScreenshot, verifyScreenshotSignature } from '../services/screenshots.js';
+import { logger } from '../utils/logger.js';
+
+const router = express.Router();
+
+const screenshotSchema = Joi.object({
+  t: Joi.number().min(0).required(),
+  signature: Joi.string().hex().required()
+});
+
+// A still of the recording's video at time `t`, for generated articles. Articles embed it as
+// a plain image, which sends no token, so the link's signature stands in for access checks.
+router.get('/:id/screenshot', async (req, res) => {
+  try {
+    const { error, value } = screenshotSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    if (!verifyScreenshotSignature(req.params.id, value.t, value.signature)) {
+      return res.status(403).json({ error: 'Invalid signature' });
+    }
+
+    const recording = await Recording.findById(req.params.id).select('originalVideoKey processedVideoKey');
+    if (!recording) {
+      return res.status(404).json({ error: 'Recording not found' });
+    }
+
+    const image = await getScreenshot(
+      recording._id.toString(),
+      recording.processedVideoKey || recording.originalVideoKey,
+      value.t
+    );
+    res.setHeader('Content-Type', 'image/jpeg');
+    res.setHeader('Cache-Control', 'private, max-age=86400');
+    // Articles are shown on other origins
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    await pipeline(image, res);
+  } catch (error) {
+    logger.error('Get recording screenshot error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+export default router;
@@ -0,0 +1,529 @@
+import express from 'express';
+import Joi from 'joi';
+import { AUDIO_TRACK_KINDS, IPunchIn, Recording } from '../models/Recording.js';
+import { Project } from '../models/Project.js';
+import { IUploadSession, UPLOAD_SESSION_TTL_MS, UploadSession } from '../models/UploadSession.js';
+import {
+  createMultipartUpload,
+  uploadPart,
+  completeMultipartUpload,
+  abortMultipartUpload,
+  deleteObject
+} from '../services/storage.js';
+import { processVideoQueue } from '../services/queue.js';
+import { activateTake, nextTake } from '../services/takes.js';
+import { probeStoredMedia } from '../services/videoProcessor.js';
+import { logger } from '../utils/logger.js';
+import { uiEventValidationSchema, markerValidationSchema, resolutionValidationSchema } from '../utils/validation.js';
+
+const router = express.Router();
+
+// S3 requires every multipart part except the last to be at least 5MB
+const CHUNK_SIZE = 8 * 1024 * 1024;
+// Read per request: this module is imported before the server loads its .env file
+const maxUploadSize = () => parseInt(process.env.MAX_UPLOAD_SIZE || `${20 * 1024 * 1024 * 1024}`);
+
+// Validation schemas
+const createUploadSchema = Joi.object({
+  projectId: Joi.string().required(),
+  title: Joi.string().required().max(200),
+  filename: Joi.string().required().max(255),
+  mimeType: Joi.string().pattern(/^(video|audio)\//).required(),
+  // Omitted for live recordings whose size is only known once capture stops
+  totalSize: Joi.number().integer().min(1).max(Joi.ref('$maxUploadSize')).optional(),
+  duration: Joi.number().min(0).optional().default(0),
+  resolution: resolutionValidationSchema.required(),
+  uiEvents: Joi.array().items(uiEventValidationSchema).optional(),
+  markers: Joi.array().items(markerValidationSchema).optional(),
+  // Attach the upload to an existing recording as an extra track. System audio stays in
+  // the screen file and is split out during processing.
+  recordingId: Joi.string().optional(),
+  track: Joi.string().valid('webcam', 'microphone').optional(),
+  trackOffset: Joi.number().min(0).optional().default(0),
+  // Or stream a track while the screen is still recording, naming the screen's upload session
+  screenUpload: Joi.string().optional(),
+  // Or replace a section of the existing recording with the uploaded footage
+  punchIn: Joi.object({
+    startTime: Joi.number().min(0).required(),
+    endTime: Joi.number().greater(Joi.ref('startTime')).required(),
+    hasAudio: Joi.boolean().optional().default(false)
+  }).optional(),
+  // Record the upload as a new take of this recording
+  takeOf: Joi.string().optional()
+})
+  .with('punchIn', 'recordingId')
+  .with('screenUpload', 'track')
+  .oxor('track', 'punchIn')
+  .oxor('recordingId', 'screenUpload')
+  .without('takeOf', 'recordingId')
+  .without('takeOf', 'screenUpload');
+
+// Live recordings only know their size, duration, events and markers once capture stops
+const completeUploadSchema = Joi.object({
+  totalSize: Joi.number().integer().min(1).optional(),
+  duration: Joi.number().min(0).optional(),
+  uiEvents: Joi.array().items(uiEventValidationSchema).optional(),
+  markers: Joi.array().items(markerValidationSchema).optional()
+});
+
+const uploadStatus = (session: IUploadSession) => ({
+  id: session._id,
+  status: session.status,
+  offset: session.receivedBytes,
+  totalSize: session.totalSize ?? null,
+  chunkSize: session.chunkSize,
+  expiresAt: session.expiresAt,
+  recordingId: session.recording
+});
+
+// A request that claimed a session and then died leaves it completing; after this long the
+// claim may be taken over
+const COMPLETE_CLAIM_MS = 10 * 60 * 1000;
+
+const isStaleClaim = (session: IUploadSession) =>
+  session.status === 'completing' && session.updatedAt.getTime() < Date.now() - COMPLETE_CLAIM_MS;
+
+// Store a completed track upload on its recording, replacing any earlier take of that track
+const attachTrack = async (session: IUploadSession) => {
+  const recording = await Recording.findById(session.recording);
+  if (!recording) {
+    throw new Error(`Recording ${session.recording} not found for track upload ${session._id}`);
+  }
+
+  const previous = recording.tracks.find(track => track.kind === session.track);
+  recording.tracks = recording.tracks.filter(track => track.kind !== session.track) as typeof recording.tracks;
+  recording.tracks.push({
+    kind: session.track!,
+    key: session.storageKey,
+    mimeType: session.mimeType,
+    offset: session.trackOffset,
+    muted: previous?.muted ?? false
+  });
+  await recording.save();
+
+  if (previous) {
+    for (const key of [previous.key, previous.audioKey].filter((key): key is string => Boolean(key))) {
+      await deleteObject(key).catch(error => {
+        logger.warn(`Failed to delete replaced ${previous.kind} track:`, error);
+      });
+    }
+  }
+
+  session.status = 'completed';
+  await session.save();
+
+  if (AUDIO_TRACK_KINDS.includes(session.track!)) {
+    await processVideoQueue.add('process-track', {
+      recordingId: recording._id.toString(),
+      kind: session.track
+    });
+  }
+
+  logger.info(`Upload session ${session._id} attached as ${session.track} track of recording ${recording._id}`);
+  return recording;
+};
+
+// Store a completed punch-in on its recording, replacing earlier punch-ins it overlaps
+const attachPunchIn = async (session: IUploadSession) => {
+  const recording = await Recording.findById(session.recording);
+  if (!recording) {
+    throw new Error(`Recording ${session.recording} not found for punch-in upload ${session._id}`);
+  }
+
+  const { startTime, endTime, hasAudio } = session.punchIn!;
+  const replaced = recording.punchIns.filter(punchIn => punchIn.startTime < endTime && punchIn.endTime > startTime);
+  recording.punchIns = recording.punchIns.filter(punchIn => !replaced.includes(punchIn)) as typeof recording.punchIns;
+  recording.punchIns.push({
+    key: session.storageKey,
+    mimeType: session.mimeType,
+    startTime,
+    endTime,
+    hasAudio
+  } as IPunchIn);
+  await recording.save();
+
+  for (const punchIn of replaced) {
+    await deleteObject(punchIn.key).catch(error => {
+      logger.warn('Failed to delete replaced punch-in:', error);
+    });
+  }
+
+  session.status = 'completed';
+  await session.save();
+
+  logger.info(`Upload session ${session._id} attached as punch-in ${startTime}-${endTime}s of recording ${recording._id}`);
+  return recording;
+};
+
+// Create an upload session
+router.post('/', async (req, res) => {
+  try {
+    const { error, value } = createUploadSchema.validate(req.body, { context: { maxUploadSize: maxUploadSize() } });
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const {
+      projectId, title, filename, mimeType, totalSize, duration, resolution, uiEvents, markers,
+      recordingId, track, trackOffset, screenUpload, punchIn, takeOf
+    } = value;
+
+    if (recordingId && !track && !punchIn) {
+      return res.status(400).json({ error: 'track or punchIn is required with recordingId' });
+    }
+
+    if (track && !recordingId && !screenUpload) {
+      return res.status(400).json({ error: 'recordingId or screenUpload is required with track' });
+    }
+
+    // Check if project exists and user has access
+    const project = await Project.findById(projectId);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const hasAccess = project.owner.toString() === req.userId ||
+      project.collaborators.some(collab =>
+        collab.user.toString() === req.userId &&
+        ['editor', 'reviewer'].includes(collab.role)
+      );
+
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    if (screenUpload) {
+      const screenSession = await UploadSession.findOne({ _id: screenUpload, owner: req.userId, project: projectId });
+      if (!screenSession || screenSession.track || screenSession.punchIn) {
+        return res.status(404).json({ error: 'Screen upload session not found' });
+      }
+    }
+
+    if (recordingId || takeOf) {
+      const recording = await Recording.findOne({ _id: recordingId || takeOf, project: projectId });
+      if (!recording) {
+        return res.status(404).json({ error: 'Recording not found' });
+      }
+      if (punchIn && recording.duration > 0 && punchIn.endTime > recording.duration) {
+        return res.status(400).json({ error: 'Punch-in must lie within the recording' });
+      }
+    }
+
+    const storageKey = recordingId || screenUpload
+      ? `recordings/${projectId}/${recordingId || screenUpload}/${track || 'punch-in'}-${Date.now()}-${filename.replace(/[^\w.-]+/g, '-')}`
+      : `recordings/${projectId}/${Date.now()}-${filename.replace(/[^\w.-]+/g, '-')}`;
+    const storageUploadId = await createMultipartUpload(storageKey, mimeType);
+
+    const session = new UploadSession({
+      owner: req.userId,
+      project: projectId,
+      recording: recordingId,
+      track,
+      trackOffset,
+      screenUpload,
+      punchIn,
+      takeOf,
+      title,
+      filename,
+      mimeType,
+      storageKey,
+      storageUploadId,
+      totalSize,
+      chunkSize: CHUNK_SIZE,
+      duration,
+      resolution,
+      uiEvents: uiEvents || [],
+      markers: markers || [],
+      expiresAt: new Date(Date.now() + UPLOAD_SESSION_TTL_MS)
+    });
+
+    await session.save();
+
+    logger.info(`Upload session created: ${session._id} (${totalSize ?? 'live'} bytes) for project ${projectId}`);
+
+    res.status(201).json({
+      message: 'Upload session created successfully',
+      upload: uploadStatus(session)
+    });
+  } catch (error) {
+    logger.error('Create upload session error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Query upload progress so a client can resume from the last acknowledged offset
+router.get('/:id', async (req, res) => {
+  try {
+    const session = await UploadSession.findById(req.params.id);
+    if (!session || session.owner.toString() !== req.userId) {
+      return res.status(404).json({ error: 'Upload session not found' });
+    }
+
+    res.json({ upload: uploadStatus(session) });
+  } catch (error) {
+    logger.error('Get upload session error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Upload one chunk. The raw request body is streamed to storage as a multipart part.
+// Sessions created without a size declare it with `Upload-Length` on their final chunk.
+router.put('/:id', async (req, res) => {
+  try {
+    const offset = parseInt(req.header('Upload-Offset') || '', 10);
+    const contentLength = parseInt(req.header('Content-Length') || '', 10);
+    const declaredLength = req.header('Upload-Length') ? parseInt(req.header('Upload-Length')!, 10) : undefined;
+
+    if (Number.isNaN(offset) || Number.isNaN(contentLength) || contentLength <= 0) {
+      return res.status(400).json({ error: 'Upload-Offset and Content-Length headers are required' });
+    }
+
+    if (declaredLength !== undefined && (Number.isNaN(declaredLength) || declaredLength > maxUploadSize())) {
+      return res.status(400).json({ error: 'Invalid Upload-Length header' });
+    }
+
+    const session = await UploadSession.findById(req.params.id);
+    if (!session || session.owner.toString() !== req.userId) {
+      return res.status(404).json({ error: 'Upload session not found' });
+    }
+
+    if (session.status !== 'active') {
+      return res.status(409).json({ error: `Upload session is ${session.status}`, upload: uploadStatus(session) });
+    }
+
+    // Chunks must arrive in order; a mismatch tells the client where to resume
+    if (offset !== session.receivedBytes) {
+      return res.status(409).json({ error: 'Offset mismatch', upload: uploadStatus(session) });
+    }
+
+    if (session.totalSize && declaredLength !== undefined && declaredLength !== session.totalSize) {
+      return res.status(400).json({ error: 'Upload-Length does not match the session size', upload: uploadStatus(session) });
+    }
+
+    const totalSize = session.totalSize ?? declaredLength;
+    const isLastChunk = offset + contentLength === totalSize;
+    if ((totalSize !== undefined && offset + contentLength > totalSize) ||
+        (!isLastChunk && contentLength !== session.chunkSize)) {
+      return res.status(400).json({
+        error: `Chunks must be exactly ${session.chunkSize} bytes except the last one`,
+        upload: uploadStatus(session)
+      });
+    }
+
+    const partNumber = Math.floor(offset / session.chunkSize) + 1;
+    const etag = await uploadPart(
+      session.storageKey,
+      session.storageUploadId,
+      partNumber,
+      req,
+      contentLength
+    );
+
+    // Only acknowledge the chunk if no concurrent request already advanced the offset
+    const updated = await UploadSession.findOneAndUpdate(
+      { _id: session._id, receivedBytes: offset, status: 'active' },
+      {
+        $inc: { receivedBytes: contentLength },
+        $push: { parts: { partNumber, etag, size: contentLength } },
+        $set: {
+          expiresAt: new Date(Date.now() + UPLOAD_SESSION_TTL_MS),
+          ...(totalSize !== undefined && { totalSize })
+        }
+      },
+      { new: true }
+    );
+
+    if (!updated) {
+      const current = await UploadSession.findById(session._id);
+      return res.status(409).json({ error: 'Offset mismatch', upload: current && uploadStatus(current) });
+    }
+
+    res.json({ upload: uploadStatus(updated) });
+  } catch (error) {
+    logger.error('Upload chunk error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Finalize the upload: assemble the object, create the recording and queue processing
+router.post('/:id/complete', async (req, res) => {
+  let claimed: IUploadSession | null = null;
+  try {
+    const { error, value } = completeUploadSchema.validate(req.body || {});
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const session = await UploadSession.findById(req.params.id);
+    if (!session || session.owner.toString() !== req.userId) {
+      return res.status(404).json({ error: 'Upload session not found' });
+    }
+
+    if (session.status === 'completed' && session.recording) {
+      const recording = await Recording.findById(session.recording);
+      return res.json({ message: 'Upload already completed', recording });
+    }
+
+    if (session.status !== 'active' && !isStaleClaim(session)) {
+      return res.status(409).json({ error: `Upload session is ${session.status}`, upload: uploadStatus(session) });
+    }
+
+    if (!session.totalSize && value.totalSize === session.receivedBytes) {
+      session.totalSize = value.totalSize;
+    }
+
+    if (!session.totalSize || session.receivedBytes !== session.totalSize) {
+      return res.status(409).json({
+        error: 'Upload is incomplete',
+        upload: uploadStatus(session)
+      });
+    }
+
+    // A streamed track waits for its screen recording, before its parts are assembled so
+    // that completing can be retried
+    if (session.screenUpload && !session.recording) {
+      const screenSession = await UploadSession.findById(session.screenUpload);
+      if (!screenSession?.recording) {
+        return res.status(409).json({
+          error: screenSession?.status === 'aborted' ? 'The screen recording was discarded' : 'The screen recording is not complete yet',
+          upload: uploadStatus(session)
+        });
+      }
+      session.recording = screenSession.recording;
+    }
+
+    // Parts are numbered by offset, so a gap means a chunk was lost
+    const partNumbers = session.parts.map(part => part.partNumber).sort((a, b) => a - b);
+    if (partNumbers.some((partNumber, index) => partNumber !== index + 1)) {
+      return res.status(400).json({ error: 'Upload parts are not contiguous', upload: uploadStatus(session) });
+    }
+
+    // Retries can overlap the request they retry; only the one that claims the session
+    // from the state read above assembles it, the others see it completing
+    claimed = await UploadSession.findOneAndUpdate(
+      { _id: session._id, status: session.status, updatedAt: session.updatedAt },
+      { status: 'completing', totalSize: session.totalSize },
+      { new: true }
+    );
+    if (!claimed) {
+      return res.status(409).json({ error: 'Upload session is completing', upload: { ...uploadStatus(session), status: 'completing' } });
+    }
+
+    await completeMultipartUpload(
+      session.storageKey,
+      session.storageUploadId,
+      session.parts
+    );
+
+    // The declared mimeType is not trusted; the assembled file itself is probed
+    const expected = session.track === 'microphone' ? 'audio' : 'video';
+    const media = await probeStoredMedia(session.storageKey);
+    if (!media?.[expected]) {
+      await deleteObject(session.storageKey).catch(deleteError => {
+        logger.warn('Failed to delete rejected upload:', deleteError);
+      });
+      session.status = 'aborted';
+      await session.save();
+      return res.status(400).json({ error: `The upload is not a decodable ${expected} file` });
+    }
+    if (session.punchIn && !media.audio) {
+      session.punchIn.hasAudio = false;
+    }
+
+    if (session.track) {
+      const recording = await attachTrack(session);
+      return res.json({ message: 'Track uploaded successfully', recording });
+    }
+
+    if (session.punchIn) {
+      const recording = await attachPunchIn(session);
+      return res.json({ message: 'Punch-in uploaded successfully', recording });
+    }
+
+    const uiEvents = value.uiEvents || session.uiEvents;
+    // The earlier take may have been deleted meanwhile, in which case this becomes a first take
+    const take = session.takeOf ? await nextTake(session.takeOf, session.project) : null;
+
+    const recording = new Recording({
+      project: session.project,
+      title: session.title,
+      originalVideoKey: session.storageKey,
+      media,
+      duration: media.duration || (value.duration ?? session.duration),
+      fileSize: session.totalSize,
+      resolution: { width: media.video!.width, height: media.video!.height },
+      uiEvents,
+      markers: value.markers || session.markers,
+      ...take,
+      script: {
+        segments: []
+      }
+    });
+
+    await recording.save();
+
+    // A new take replaces the active one
+    if (take) {
+      await activateTake(recording);
+    }
+
+    await Project.findByIdAndUpdate(
+      session.project,
+      { $push: { recordings: recording._id } }
+    );
+
+    session.status = 'completed';
+    session.recording = recording._id;
+    await session.save();
+
+    await processVideoQueue.add('process-video', {
+      recordingId: recording._id.toString(),
+      videoKey: session.storageKey,
+      uiEvents
+    });
+
+    logger.info(`Upload session ${session._id} completed as recording ${recording._id}`);
+
+    res.status(201).json({
+      message: 'Recording uploaded successfully',
+      recording
+    });
+  } catch (error) {
+    logger.error('Complete upload error:', error);
+    // Hand the session back so that completing can be retried
+    if (claimed) {
+      await UploadSession.updateOne({ _id: claimed._id, status: 'completing' }, { status: 'active' }).catch(releaseError => {
+        logger.warn('Failed to release upload session:', releaseError);
+      });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Abort an upload session and discard the uploaded parts
+router.delete('/:id', async (req, res) => {
+  try {
+    const session = await UploadSession.findById(req.params.id);
+    if (!session || session.owner.toString() !== req.userId) {
+      return res.status(404).json({ error: 'Upload session not found' });
+    }
+
+    if (session.status !== 'active') {
+      return res.status(409).json({ error: `Upload session is ${session.status}` });
+    }
+
+    await abortMultipartUpload(session.storageKey, session.storageUploadId);
+
+    session.status = 'aborted';
+    await session.save();
+
+    logger.info(`Upload session aborted: ${session._id}`);
+
+    res.json({ message: 'Upload aborted successfully' });
+  } catch (error) {
+    logger.error('Abort upload error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,75 @@
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import { Recording } from '../models/Recording.js';
+import { listObjects, makeObjectPrivate } from '../services/storage.js';
+import { LegacyRecording, storageKeyUpdate } from '../services/storageMigration.js';
+import { logger } from '../utils/logger.js';
+
+// One-off migration for installs that stored files before storage went private:
+//  - recordings that still reference files by URL get the matching storage keys, and the URL
+//    fields are removed, so they validate against the Recording model again
+//  - every stored object is made private, since uploads used to be public-read
+// Run with `npm run migrate:storage-keys`; `--dry-run` reports without changing anything.
+
+dotenv.config();
+
+const dryRun = process.argv.includes('--dry-run');
+
+const migrateRecordings = async (bucket: string) => {
+  let migrated = 0;
+  const cursor = Recording.collection.find<LegacyRecording & { _id: mongoose.Types.ObjectId }>({});
+
+  for await (const recording of cursor) {
+    const update = storageKeyUpdate(recording, bucket);
+    if (!update) continue;
+
+    if (!recording.originalVideoKey && !update.$set.originalVideoKey) {
+      logger.warn(`Recording ${recording._id} has no original video; it will not validate until one is uploaded`);
+    }
+    if (!dryRun) {
+      await Recording.collection.updateOne({ _id: recording._id }, update);
+    }
+    logger.info(`Recording ${recording._id}: ${JSON.stringify(update)}`);
+    migrated++;
+  }
+  return migrated;
+};
+
+const makeObjectsPrivate = async () => {
+  const objects = await listObjects('');
+  let failed = 0;
+
+  for (const { key } of objects) {
+    if (dryRun) continue;
+    try {
+      await makeObjectPrivate(key);
+    } catch {
+      failed++;
+    }
+  }
+  return { total: objects.length, failed };
+};
+
+const run = async () => {
+  const mongoUri = process.env.MONGODB_URI || 'mongodb://localhost:27017/smartdemo';
+  const bucket = process.env.S3_BUCKET_NAME || 'smartdemo-studio';
+  await mongoose.connect(mongoUri);
+
+  try {
+    const migrated = await migrateRecordings(bucket);
+    logger.info(`${dryRun ? 'Would migrate' : 'Migrated'} ${migrated} recordings to storage keys`);
+
+    const { total, failed } = await makeObjectsPrivate();
+    logger.info(`${dryRun ? 'Would make' : 'Made'} ${total - failed} of ${total} stored objects private`);
+    if (failed > 0) {
+      process.exitCode = 1;
+    }
+  } finally {
+    await mongoose.connection.close();
+  }
+};
+
+run().catch((error) => {
+  logger.error('Storage key migration failed:', error);
+  process.exit(1);
+});
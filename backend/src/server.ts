@@ -12,6 +12,8 @@ import { RateLimiterMemory } from 'rate-limiter-flexible';
 import authRoutes from './routes/auth.js';
 import projectRoutes from './routes/projects.js';
 import recordingRoutes from './routes/recordings.js';
+import screenshotRoutes from './routes/screenshots.js';
+import uploadRoutes from './routes/uploads.js';
 import aiRoutes from './routes/ai.js';
 import exportRoutes from './routes/export.js';
 import teamRoutes from './routes/team.js';
@@ -24,6 +26,8 @@ import { logger } from './utils/logger.js';
 // Import services
 import { initializeQueues } from './services/queue.js';
 import { setupSocketHandlers } from './services/socket.js';
+import { abortStaleMultipartUploads, getStorageRouter } from './services/storage.js';
+import { UPLOAD_SESSION_TTL_MS } from './models/UploadSession.js';
 
 dotenv.config();
 
@@ -71,10 +75,19 @@ app.get('/health', (req, res) => {
   res.json({ status: 'OK', timestamp: new Date().toISOString() });
 });
 
+// Stored files (local storage driver only)
+const storageRouter = getStorageRouter();
+if (storageRouter) {
+  app.use('/storage', storageRouter);
+}
+
 // API Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/projects', authMiddleware, projectRoutes);
+// Article screenshots are loaded as images, without a token; their links are signed instead
+app.use('/api/recordings', screenshotRoutes);
 app.use('/api/recordings', authMiddleware, recordingRoutes);
+app.use('/api/uploads', authMiddleware, uploadRoutes);
 app.use('/api/ai', authMiddleware, aiRoutes);
 app.use('/api/export', authMiddleware, exportRoutes);
 app.use('/api/team', authMiddleware, teamRoutes);
@@ -99,6 +112,10 @@ const initializeServices = async () => {
   try {
     await initializeQueues();
     setupSocketHandlers(io);
+    // Expired upload sessions leave their multipart uploads behind
+    const sweepUploads = () => abortStaleMultipartUploads(new Date(Date.now() - UPLOAD_SESSION_TTL_MS));
+    sweepUploads();
+    setInterval(sweepUploads, 60 * 60 * 1000).unref();
     logger.info('Services initialized successfully');
   } catch (error) {
     logger.error('Service initialization error:', error);
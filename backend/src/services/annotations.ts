@@ -0,0 +1,107 @@
+import sharp from 'sharp';
+import { IAnnotationProperties, IRecording } from '../models/Recording.js';
+
+type VisualEffect = IRecording['visualEffects'][number];
+type Region = { x: number; y: number; width: number; height: number };
+
+const DEFAULT_COLOR = '#6366f1';
+
+// Fills in the styling left out when the annotation was saved
+export const annotationProperties = (properties: Record<string, any> = {}): IAnnotationProperties => ({
+  kind: properties.kind || 'callout',
+  text: properties.text,
+  color: properties.color || DEFAULT_COLOR,
+  textColor: properties.textColor || '#ffffff',
+  fontSize: properties.fontSize || 28,
+  strokeWidth: properties.strokeWidth || 4,
+  opacity: properties.opacity ?? (properties.kind === 'spotlight' ? 0.6 : 1),
+  arrowFrom: properties.arrowFrom || 'bottom-left',
+  fadeIn: properties.fadeIn ?? 0.3,
+  fadeOut: properties.fadeOut ?? 0.3
+});
+
+export const escapeXml = (text: string) =>
+  text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+// Lines are stacked around the vertical centre
+const textSvg = (text: string, x: number, y: number, size: number, color: string) => {
+  const lines = text.split('\n');
+  return `<text x="${x}" y="${y}" font-family="sans-serif" font-weight="600" font-size="${size}" ` +
+    `fill="${color}" text-anchor="middle" dominant-baseline="central">` +
+    lines.map((line, index) =>
+      `<tspan x="${x}" y="${y + (index - (lines.length - 1) / 2) * size * 1.2}">${escapeXml(line)}</tspan>`
+    ).join('') +
+    '</text>';
+};
+
+const arrowSvg = (region: Region, style: IAnnotationProperties) => {
+  const [vertical, horizontal] = style.arrowFrom.split('-');
+  const tail = {
+    x: horizontal === 'left' ? region.x : region.x + region.width,
+    y: vertical === 'top' ? region.y : region.y + region.height
+  };
+  const head = {
+    x: horizontal === 'left' ? region.x + region.width : region.x,
+    y: vertical === 'top' ? region.y + region.height : region.y
+  };
+  const angle = Math.atan2(head.y - tail.y, head.x - tail.x);
+  const length = Math.max(style.strokeWidth * 4, 16);
+  const point = (offset: number) =>
+    `${head.x - length * Math.cos(angle + offset)},${head.y - length * Math.sin(angle + offset)}`;
+
+  // The shaft stops inside the head so its square end does not poke through the tip
+  return `<line x1="${tail.x}" y1="${tail.y}" x2="${head.x - length * 0.8 * Math.cos(angle)}" ` +
+    `y2="${head.y - length * 0.8 * Math.sin(angle)}" stroke="${style.color}" stroke-width="${style.strokeWidth}"/>` +
+    `<polygon points="${head.x},${head.y} ${point(0.45)} ${point(-0.45)}" fill="${style.color}"/>`;
+};
+
+// Draws one annotation as a transparent SVG the size of the exported frame
+export const buildAnnotationSvg = (
+  region: Region,
+  style: IAnnotationProperties,
+  frame: { width: number; height: number }
+): string => {
+  const { x, y, width, height } = region;
+  const centre = { x: x + width / 2, y: y + height / 2 };
+  let body: string;
+
+  switch (style.kind) {
+    case 'rectangle':
+      body = `<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="8" fill="none" ` +
+        `stroke="${style.color}" stroke-width="${style.strokeWidth}"/>`;
+      break;
+    case 'arrow':
+      body = arrowSvg(region, style);
+      break;
+    case 'badge': {
+      const radius = Math.min(width, height) / 2;
+      body = `<circle cx="${centre.x}" cy="${centre.y}" r="${radius}" fill="${style.color}"/>` +
+        textSvg(style.text || '', centre.x, centre.y, radius, style.textColor);
+      break;
+    }
+    case 'spotlight':
+      body = `<path d="M0 0H${frame.width}V${frame.height}H0Z M${x} ${y}h${width}v${height}h${-width}Z" ` +
+        'fill="black" fill-rule="evenodd"/>';
+      break;
+    default:
+      body = `<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="12" fill="${style.color}"/>` +
+        textSvg(style.text || '', centre.x, centre.y, style.fontSize, style.textColor);
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${frame.width}" height="${frame.height}">` +
+    `<g opacity="${style.opacity}">${body}</g></svg>`;
+};
+
+// Renders the annotation to a PNG that the export overlays on the video. `opacity` replaces
+// the annotation's own, for when the export changes it over time instead.
+export const renderAnnotation = async (
+  effect: VisualEffect,
+  frame: { width: number; height: number },
+  outputPath: string,
+  opacity?: number
+): Promise<IAnnotationProperties> => {
+  const style = annotationProperties(effect.properties);
+  const drawn = opacity === undefined ? style : { ...style, opacity };
+  await sharp(Buffer.from(buildAnnotationSvg(effect.coordinates!, drawn, frame))).png().toFile(outputPath);
+  return style;
+};
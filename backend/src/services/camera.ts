@@ -0,0 +1,193 @@
+import { Easing, IRecording, IUIEvent } from '../models/Recording.js';
+import { propertyTrack, valueAt } from './keyframes.js';
+
+type Frame = { width: number; height: number };
+type Region = { x: number; y: number; width: number; height: number };
+type VisualEffect = IRecording['visualEffects'][number];
+
+// Where the virtual camera looks: its zoom and the centre of its view, as a fraction of the
+// frame. `easing` is how it moves there from the keyframe before, easing in and out by default.
+export interface CameraKeyframe {
+  time: number;
+  zoom: number;
+  x: number;
+  y: number;
+  easing?: Easing;
+}
+
+export const MAX_CAMERA_ZOOM = 4;
+// Seconds the camera takes to move between targets
+export const CAMERA_TRANSITION = 0.6;
+
+// Activity further apart than this, in seconds, is followed separately and the camera zooms
+// out in between
+const IDLE_GAP = 2.5;
+// Keypresses this close together count as one burst of typing
+const TYPING_GAP = 1;
+// Seconds the camera stays on the last action before easing out
+const HOLD = 1.5;
+// Space kept around the actions in view, as a fraction of the frame
+const PADDING = 0.08;
+
+const FULL_FRAME = { zoom: 1, x: 0.5, y: 0.5 };
+
+const fitZoom = (region: Region, frame: Frame) =>
+  Math.min(frame.width / region.width, frame.height / region.height);
+
+// Where the camera looks during a zoom at `time`, following the zoom's keyframes. The zoom
+// fits the region in the frame, unless the effect asks for its own.
+const zoomTarget = (zoom: VisualEffect, frame: Frame, time: number) => {
+  const at = (property: 'x' | 'y' | 'width' | 'height') => valueAt(propertyTrack(zoom, property), time);
+  const region = { x: at('x'), y: at('y'), width: at('width'), height: at('height') };
+  const scaled = zoom.properties?.scale || zoom.keyframes?.some(keyframe => keyframe.scale !== undefined && keyframe.scale !== null);
+  const scale = scaled
+    ? valueAt(propertyTrack(zoom, 'scale', zoom.properties?.scale || fitZoom(zoom.coordinates!, frame)), time)
+    : fitZoom(region, frame);
+  return {
+    zoom: Math.min(Math.max(scale, 1), MAX_CAMERA_ZOOM),
+    x: (region.x + region.width / 2) / frame.width,
+    y: (region.y + region.height / 2) / frame.height
+  };
+};
+
+// Turns zoom effects into the camera's path. The camera eases onto each effect's region as it
+// starts, follows the effect's keyframes and stays there until it ends; it then moves straight
+// to the next region when that starts within a transition, and back out to the full frame
+// otherwise.
+export const cameraKeyframes = (zooms: VisualEffect[], frame: Frame): CameraKeyframe[] => {
+  const sorted = zooms
+    .filter(zoom => zoom.coordinates?.width && zoom.coordinates?.height)
+    .sort((a, b) => a.startTime - b.startTime);
+  const keyframes: CameraKeyframe[] = [{ time: 0, ...FULL_FRAME }];
+
+  sorted.forEach((zoom, index) => {
+    const previous = keyframes[keyframes.length - 1];
+    const start = Math.max(zoom.startTime, previous.time);
+    const arrive = Math.max(Math.min(start + CAMERA_TRANSITION, zoom.endTime), start);
+
+    if (start > previous.time) {
+      keyframes.push({ ...previous, time: start });
+    }
+    keyframes.push({ time: arrive, ...zoomTarget(zoom, frame, arrive) });
+
+    const changes = [...(zoom.keyframes || [])]
+      .map(keyframe => ({ time: zoom.startTime + keyframe.time, easing: keyframe.easing }))
+      .filter(({ time }) => time > arrive && time <= zoom.endTime)
+      .sort((a, b) => a.time - b.time);
+    for (const { time, easing } of changes) {
+      keyframes.push({ time, ...zoomTarget(zoom, frame, time), easing });
+    }
+    if (zoom.endTime > keyframes[keyframes.length - 1].time) {
+      keyframes.push({ time: zoom.endTime, ...zoomTarget(zoom, frame, zoom.endTime) });
+    }
+
+    const next = sorted[index + 1];
+    if (!next || next.startTime >= zoom.endTime + CAMERA_TRANSITION) {
+      keyframes.push({ time: Math.max(zoom.endTime, arrive) + CAMERA_TRANSITION, ...FULL_FRAME });
+    }
+  });
+
+  return keyframes;
+};
+
+// Follows clicks and typing in the recording with zoom effects the editor can adjust. Events
+// are in full-frame pixels, so they are moved into the crop and those outside it are ignored.
+// A navigation always ends what the camera is following, since the page has changed.
+export const generateCameraPath = (
+  uiEvents: IUIEvent[],
+  frame: Frame,
+  crop: Region | null,
+  duration: number,
+  zoom = 2
+): Array<Omit<VisualEffect, '_id'>> => {
+  const origin = crop || { x: 0, y: 0 };
+  const view = { width: frame.width / zoom, height: frame.height / zoom };
+  // `until` is when a navigation cut the cluster short, and `after` the earliest time the
+  // camera may leave the full frame again
+  const clusters: Array<{
+    start: number;
+    end: number;
+    points: Array<{ x: number; y: number }>;
+    until?: number;
+    after: number;
+  }> = [];
+  let current: (typeof clusters)[number] | null = null;
+  let lastPoint: { x: number; y: number } | null = null;
+  let navigatedAt: number | null = null;
+
+  const startCluster = (time: number, point: { x: number; y: number }) => {
+    const cluster = { start: time, end: time, points: [point], after: navigatedAt === null ? 0 : navigatedAt + CAMERA_TRANSITION };
+    clusters.push(cluster);
+    navigatedAt = null;
+    return cluster;
+  };
+
+  const fitsView = (points: Array<{ x: number; y: number }>) => {
+    const xs = points.map(point => point.x);
+    const ys = points.map(point => point.y);
+    return Math.max(...xs) - Math.min(...xs) <= view.width * (1 - PADDING * 2) &&
+      Math.max(...ys) - Math.min(...ys) <= view.height * (1 - PADDING * 2);
+  };
+
+  for (const event of [...uiEvents].sort((a, b) => a.timestamp - b.timestamp)) {
+    if (event.type === 'navigation') {
+      if (current) current.until = event.timestamp;
+      current = null;
+      lastPoint = null;
+      navigatedAt = event.timestamp;
+      continue;
+    }
+    if (event.type === 'keypress') {
+      // Typing has no position; it keeps the camera on the field that was last clicked
+      if (current && event.timestamp - current.end <= TYPING_GAP) {
+        current.end = event.timestamp;
+      } else if (lastPoint) {
+        current = startCluster(event.timestamp, lastPoint);
+      }
+      continue;
+    }
+    if (event.type !== 'click' || !event.coordinates) continue;
+
+    const point = { x: event.coordinates.x - origin.x, y: event.coordinates.y - origin.y };
+    if (point.x < 0 || point.y < 0 || point.x > frame.width || point.y > frame.height) continue;
+    lastPoint = point;
+
+    if (current && event.timestamp - current.end <= IDLE_GAP && fitsView([...current.points, point])) {
+      current.points.push(point);
+      current.end = event.timestamp;
+    } else {
+      current = startCluster(event.timestamp, point);
+    }
+  }
+
+  // Arrive as the first action happens, except right after a navigation
+  const startTimes = clusters.map(cluster => Math.max(0, cluster.start - CAMERA_TRANSITION, cluster.after));
+
+  return clusters.map((cluster, index) => {
+    const xs = cluster.points.map(point => point.x);
+    const ys = cluster.points.map(point => point.y);
+    const centre = {
+      x: (Math.min(...xs) + Math.max(...xs)) / 2,
+      y: (Math.min(...ys) + Math.max(...ys)) / 2
+    };
+    const x = Math.min(Math.max(centre.x - view.width / 2, 0), frame.width - view.width);
+    const y = Math.min(Math.max(centre.y - view.height / 2, 0), frame.height - view.height);
+
+    // Hand over to the next target without a gap when it comes up while still holding
+    const startTime = startTimes[index];
+    const nextStart = startTimes[index + 1] ?? Infinity;
+    let endTime = Math.min(cluster.end + HOLD, cluster.until ?? Infinity, duration || Infinity);
+    if (nextStart < endTime) {
+      endTime = nextStart;
+    }
+    endTime = Math.max(endTime, startTime + CAMERA_TRANSITION);
+
+    return {
+      type: 'zoom' as const,
+      startTime,
+      endTime,
+      coordinates: { x: Math.round(x), y: Math.round(y), width: Math.round(view.width), height: Math.round(view.height) },
+      properties: { scale: zoom, auto: true }
+    };
+  });
+};
@@ -0,0 +1,277 @@
+import sharp from 'sharp';
+import { ICursorSettings } from '../models/Project.js';
+import { IUIEvent } from '../models/Recording.js';
+
+type Frame = { width: number; height: number };
+type TimeRange = { startTime: number; endTime: number };
+type Point = { x: number; y: number };
+
+// A pointer position, in pixels of the exported frame, at a time in the recording
+export interface PointerSample {
+  time: number;
+  x: number;
+  y: number;
+  // Clicks and the ends of rests stay exactly where they were recorded when the path is smoothed
+  pinned?: boolean;
+}
+
+// How often the recorder samples the pointer while it moves, in seconds
+export const POINTER_SAMPLE_INTERVAL = 0.05;
+
+// Movements smaller than this, in pixels, are jitter
+const JITTER = 3;
+
+const POINTER_EVENTS: Array<IUIEvent['type']> = ['move', 'click', 'hover'];
+
+// The filters the cursor's command files drive; there is one cursor per export
+export const CURSOR_FILTERS = {
+  maskCrop: 'crop@cursormask',
+  maskOverlay: 'overlay@cursormask',
+  cursor: 'overlay@cursor'
+};
+
+// The recorded pointer positions inside the frame, in time order. Events are in full-frame
+// pixels and `origin` is the corner of the crop.
+export const pointerSamples = (events: IUIEvent[], origin: Point, frame: Frame): PointerSample[] =>
+  events
+    .filter(event => POINTER_EVENTS.includes(event.type) && event.coordinates)
+    .map(event => ({
+      time: event.timestamp,
+      x: event.coordinates!.x - origin.x,
+      y: event.coordinates!.y - origin.y,
+      pinned: event.type === 'click'
+    }))
+    .filter(sample => sample.x >= 0 && sample.y >= 0 && sample.x <= frame.width && sample.y <= frame.height)
+    .sort((a, b) => a.time - b.time);
+
+// Drops jitter and marks where the pointer rested. Samples only arrive while it moves, so a
+// pointer that rests and then moves on holds still until just before the next sample.
+export const pointerPath = (samples: PointerSample[]): PointerSample[] => {
+  const path: PointerSample[] = [];
+  for (const sample of samples) {
+    const last = path[path.length - 1];
+    if (last && !sample.pinned && Math.hypot(sample.x - last.x, sample.y - last.y) < JITTER) continue;
+
+    if (last && sample.time - last.time > POINTER_SAMPLE_INTERVAL * 3) {
+      path[path.length - 1] = { ...last, pinned: true };
+      path.push({ time: sample.time - POINTER_SAMPLE_INTERVAL, x: last.x, y: last.y, pinned: true });
+    }
+    path.push(sample);
+  }
+  return path;
+};
+
+// Evens out a path by pulling each point that is not pinned towards the midpoint of its
+// neighbours, by `smoothing` from 0 to 1
+export const smoothPath = (path: PointerSample[], smoothing: number): PointerSample[] =>
+  path.map((point, index) => {
+    const before = path[index - 1];
+    const after = path[index + 1];
+    if (point.pinned || !before || !after) return point;
+    return {
+      ...point,
+      x: point.x + smoothing * ((before.x + after.x) / 2 - point.x),
+      y: point.y + smoothing * ((before.y + after.y) / 2 - point.y)
+    };
+  });
+
+// Index of the first point after `time`, or the path's length when there is none
+const nextIndex = (path: PointerSample[], time: number) => {
+  let low = 0;
+  let high = path.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (path[middle].time > time) {
+      high = middle;
+    } else {
+      low = middle + 1;
+    }
+  }
+  return low;
+};
+
+// Where the pointer is at `time` on a Catmull-Rom spline through the path, drawn as one cubic
+// Bezier curve per pair of points. It rests on the first point before it and the last after.
+export const positionAt = (path: PointerSample[], time: number): Point => {
+  const next = nextIndex(path, time);
+  if (next === 0) return { x: path[0].x, y: path[0].y };
+  if (next === path.length) return { x: path[next - 1].x, y: path[next - 1].y };
+
+  const from = path[next - 1];
+  const to = path[next];
+  if (from.x === to.x && from.y === to.y) return { x: from.x, y: from.y };
+
+  const before = path[next - 2] || from;
+  const after = path[next + 1] || to;
+  const progress = (time - from.time) / (to.time - from.time);
+  const rest = 1 - progress;
+  const bezier = (start: number, control1: number, control2: number, end: number) =>
+    rest * rest * rest * start + 3 * rest * rest * progress * control1 +
+    3 * rest * progress * progress * control2 + progress * progress * progress * end;
+
+  return {
+    x: bezier(from.x, from.x + (to.x - before.x) / 6, to.x - (after.x - from.x) / 6, to.x),
+    y: bezier(from.y, from.y + (to.y - before.y) / 6, to.y - (after.y - from.y) / 6, to.y)
+  };
+};
+
+// When the cursor is left out: before the pointer is first seen, once it has rested for the
+// idle delay, and during `excluded` ranges such as re-recorded sections
+export const hiddenRanges = (
+  path: PointerSample[],
+  settings: Pick<ICursorSettings, 'hideWhenIdle' | 'idleDelay'>,
+  duration: number,
+  excluded: TimeRange[] = []
+): TimeRange[] => {
+  if (path.length === 0) return [{ startTime: 0, endTime: duration }];
+
+  const ranges = [...excluded];
+  if (path[0].time > 0) {
+    ranges.push({ startTime: 0, endTime: path[0].time });
+  }
+  if (settings.hideWhenIdle) {
+    path.forEach((point, index) => {
+      const nextTime = index + 1 < path.length ? path[index + 1].time : duration;
+      if (nextTime - point.time > settings.idleDelay) {
+        ranges.push({ startTime: point.time + settings.idleDelay, endTime: nextTime });
+      }
+    });
+  }
+  return ranges;
+};
+
+export const isHidden = (ranges: TimeRange[], time: number) =>
+  ranges.some(range => time >= range.startTime && time < range.endTime);
+
+// The classic arrow, in a 14 by 21 box with its tip at (1, 1)
+export const ARROW_PATH = 'M1 1 L1 17 L5 13.3 L7.8 19.8 L10.4 18.7 L7.7 12.4 L12.7 12.4 Z';
+const ARROW_BOX = { width: 14, height: 21 };
+
+export interface CursorImage {
+  svg: string;
+  width: number;
+  height: number;
+  // The pixel of the image that sits on the pointer position
+  hotspot: Point;
+}
+
+// Draws the cursor for a theme at its size in the frame. Arrows point from their tip; the dot
+// and ring are centred on the pointer.
+export const cursorImage = (settings: Pick<ICursorSettings, 'theme' | 'size'>, frame: Frame): CursorImage => {
+  const height = Math.max(12, Math.round(frame.height * settings.size));
+
+  if (settings.theme === 'light' || settings.theme === 'dark') {
+    const scale = height / ARROW_BOX.height;
+    const width = Math.ceil(ARROW_BOX.width * scale);
+    const [fill, outline] = settings.theme === 'light' ? ['#ffffff', '#000000'] : ['#000000', '#ffffff'];
+    return {
+      svg: `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" ` +
+        `viewBox="0 0 ${ARROW_BOX.width} ${ARROW_BOX.height}">` +
+        `<path d="${ARROW_PATH}" fill="${fill}" stroke="${outline}" stroke-width="1.2" stroke-linejoin="round"/></svg>`,
+      width,
+      height,
+      hotspot: { x: Math.round(scale), y: Math.round(scale) }
+    };
+  }
+
+  const size = Math.round(height * 0.6);
+  const stroke = Math.max(2, size * 0.12);
+  const radius = size / 2 - stroke / 2;
+  const shape = settings.theme === 'dot'
+    ? `<circle cx="${size / 2}" cy="${size / 2}" r="${radius}" fill="#111827" fill-opacity="0.75" stroke="#ffffff" stroke-width="${stroke}"/>`
+    : `<circle cx="${size / 2}" cy="${size / 2}" r="${radius}" fill="#ffffff" fill-opacity="0.25" stroke="#111827" stroke-width="${stroke}"/>`;
+  return {
+    svg: `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}">${shape}</svg>`,
+    width: size,
+    height: size,
+    hotspot: { x: Math.round(size / 2), y: Math.round(size / 2) }
+  };
+};
+
+export const renderCursor = async (image: CursorImage, outputPath: string): Promise<void> => {
+  await sharp(Buffer.from(image.svg)).png().toFile(outputPath);
+};
+
+// Side of the square blurred over the captured cursor. The captured cursor is drawn at the
+// screen's scale, so it is sized from the full capture rather than the cropped frame.
+export const maskSize = (resolution: Frame, frame: Frame) => {
+  const size = Math.max(32, resolution.height * 0.035);
+  return Math.max(2, Math.floor(Math.min(size, frame.width, frame.height) / 2) * 2);
+};
+
+type Move = { target: string; x: number; y: number };
+
+// sendcmd lines that move each target to its position on every frame; moves that leave a
+// target where it is are left out
+const moveCommands = (frames: Array<{ time: number; moves: Move[] }>) => {
+  const positions = new Map<string, string>();
+  const lines: string[] = [];
+  for (const { time, moves } of frames) {
+    const changed = moves.filter(move => positions.get(move.target) !== `${move.x},${move.y}`);
+    if (changed.length === 0) continue;
+
+    changed.forEach(move => positions.set(move.target, `${move.x},${move.y}`));
+    const commands = changed.flatMap(move => [`${move.target} x ${move.x}`, `${move.target} y ${move.y}`]);
+    lines.push(`${time.toFixed(3)} ${commands.join(', ')};`);
+  }
+  return lines.join('\n');
+};
+
+export interface CursorCommands {
+  // Moves the blurred square over the captured cursor
+  mask: string;
+  // Moves the drawn cursor along the smoothed path
+  cursor: string;
+}
+
+// Frame-by-frame positions for the cursor stages, as sendcmd files, or null when the pointer
+// was never seen in the frame. Hidden layers are moved out of the frame.
+export const cursorCommands = (
+  samples: PointerSample[],
+  settings: ICursorSettings,
+  image: CursorImage,
+  frame: Frame,
+  mask: number,
+  timing: { duration: number; frameRate: number },
+  excluded: TimeRange[] = []
+): CursorCommands | null => {
+  const path = pointerPath(samples);
+  if (path.length === 0) return null;
+
+  const smoothed = smoothPath(path, settings.smoothing);
+  const hidden = hiddenRanges(path, settings, timing.duration, excluded);
+  const unseen = hiddenRanges(path, { hideWhenIdle: false, idleDelay: 0 }, timing.duration, excluded);
+  const frameCount = Math.ceil(timing.duration * timing.frameRate);
+
+  const maskFrames = [];
+  const cursorFrames = [];
+  for (let index = 0; index <= frameCount; index++) {
+    const time = index / timing.frameRate;
+
+    // The captured cursor's tip is near the top left of what it covers
+    const pointer = positionAt(path, time);
+    const maskX = Math.round(Math.min(Math.max(pointer.x - mask * 0.25, 0), frame.width - mask));
+    const maskY = Math.round(Math.min(Math.max(pointer.y - mask * 0.2, 0), frame.height - mask));
+    const maskShown = !isHidden(unseen, time);
+    maskFrames.push({
+      time,
+      moves: [
+        { target: CURSOR_FILTERS.maskCrop, x: maskX, y: maskY },
+        { target: CURSOR_FILTERS.maskOverlay, x: maskShown ? maskX : frame.width, y: maskShown ? maskY : frame.height }
+      ]
+    });
+
+    const position = positionAt(smoothed, time);
+    const cursorShown = !isHidden(hidden, time);
+    cursorFrames.push({
+      time,
+      moves: [{
+        target: CURSOR_FILTERS.cursor,
+        x: cursorShown ? Math.round(position.x - image.hotspot.x) : frame.width,
+        y: cursorShown ? Math.round(position.y - image.hotspot.y) : frame.height
+      }]
+    });
+  }
+
+  return { mask: moveCommands(maskFrames), cursor: moveCommands(cursorFrames) };
+};
@@ -0,0 +1,136 @@
+import { TypingAudio } from '../models/Project.js';
+import { IIdleRange, IUIEvent } from '../models/Recording.js';
+
+type TimeRange = { startTime: number; endTime: number };
+type IdleRange = Pick<IIdleRange, 'startTime' | 'endTime' | 'action' | 'speed'> & { audio?: TypingAudio };
+
+// A stretch of the recording that an export keeps, played `speed` times faster. Its audio is
+// sped up along with it, unless `audio` mutes it or keeps the narration at normal speed.
+export interface TimelinePiece {
+  startTime: number;
+  endTime: number;
+  speed: number;
+  audio?: TypingAudio;
+}
+
+// Seconds around each UI event that count as activity: the page reacts for a moment before
+// the pointer or keyboard does, and settles for a moment after
+const ACTIVITY_BEFORE = 0.5;
+const ACTIVITY_AFTER = 1;
+// Seconds kept at each end of an idle range, so compressing it does not clip a word or a move
+const MARGIN = 0.3;
+
+// The silences ffmpeg's silencedetect filter logged for a track that starts `offset` seconds
+// into the recording, on the recording's timeline. The track is silent before it starts, and
+// a silence still running when it ends lasts until `duration`.
+export const parseSilence = (log: string, offset: number, duration: number): TimeRange[] => {
+  const silences: TimeRange[] = offset > 0 ? [{ startTime: 0, endTime: offset }] : [];
+  let start: number | null = null;
+
+  for (const line of log.split('\n')) {
+    const started = line.match(/silence_start: (-?[\d.]+)/);
+    const ended = line.match(/silence_end: (-?[\d.]+)/);
+    if (started) {
+      start = Math.max(0, Number(started[1]));
+    } else if (ended && start !== null) {
+      silences.push({ startTime: start + offset, endTime: Number(ended[1]) + offset });
+      start = null;
+    }
+  }
+  if (start !== null) {
+    silences.push({ startTime: start + offset, endTime: duration });
+  }
+  return silences;
+};
+
+// What is left of `ranges` once every range in `removed` is taken out of them
+const subtract = (ranges: TimeRange[], removed: TimeRange[]): TimeRange[] =>
+  removed.reduce((remaining, cut) => remaining.flatMap(range => [
+    { startTime: range.startTime, endTime: Math.min(range.endTime, cut.startTime) },
+    { startTime: Math.max(range.startTime, cut.endTime), endTime: range.endTime }
+  ].filter(part => part.endTime > part.startTime)), ranges);
+
+// Stretches of at least `minDuration` seconds where the narration is silent and nothing
+// happens on screen, in time order. `silences` is null for recordings without narration,
+// where the events alone decide. Sections in `excluded`, such as punch-ins, are left alone.
+export const findIdleRanges = (
+  silences: TimeRange[] | null,
+  events: IUIEvent[],
+  { duration, minDuration, excluded = [] }: { duration: number; minDuration: number; excluded?: TimeRange[] }
+): TimeRange[] => {
+  const quiet = (silences ?? [{ startTime: 0, endTime: duration }])
+    .map(range => ({ startTime: Math.max(range.startTime, 0), endTime: Math.min(range.endTime, duration) }))
+    .filter(range => range.endTime > range.startTime);
+  const activity = events.map(event => ({
+    startTime: event.timestamp - ACTIVITY_BEFORE,
+    endTime: event.timestamp + ACTIVITY_AFTER
+  }));
+
+  return subtract(quiet, [...activity, ...excluded])
+    .map(range => ({ startTime: range.startTime + MARGIN, endTime: range.endTime - MARGIN }))
+    .filter(range => range.endTime - range.startTime >= minDuration)
+    .sort((a, b) => a.startTime - b.startTime);
+};
+
+const overlaps = (a: TimeRange, b: TimeRange) => a.startTime < b.endTime && b.startTime < a.endTime;
+
+// The ranges to keep after a new analysis: those already cut, sped up or dismissed stay as
+// they are, and `found` replaces the earlier suggestions wherever it does not overlap them
+export const mergeIdleRanges = <T extends IdleRange>(existing: T[], found: TimeRange[]): Array<T | IdleRange> => {
+  const decided = existing.filter(range => range.action !== 'suggested');
+  const suggested = found
+    .filter(range => !decided.some(other => overlaps(range, other)))
+    .map(range => ({ ...range, action: 'suggested' as const, speed: 4 }));
+  return [...decided, ...suggested].sort((a, b) => a.startTime - b.startTime);
+};
+
+// Whether exporting with these ranges changes the recording's timing at all
+export const isRetimed = (ranges: IdleRange[]): boolean =>
+  ranges.some(range => range.action === 'cut' || range.action === 'speed');
+
+// The stretches an export keeps, in order: everything but the cut ranges, with each sped-up
+// range in a piece of its own. Where accepted ranges overlap, the earlier one wins.
+export const timelinePieces = (ranges: IdleRange[], duration: number): TimelinePiece[] => {
+  const applied = ranges
+    .filter(range => range.action === 'cut' || range.action === 'speed')
+    .sort((a, b) => a.startTime - b.startTime);
+  const pieces: TimelinePiece[] = [];
+  let time = 0;
+
+  for (const range of applied) {
+    const start = Math.max(range.startTime, time);
+    const end = Math.min(range.endTime, duration);
+    if (end <= start) continue;
+
+    if (start > time) {
+      pieces.push({ startTime: time, endTime: start, speed: 1 });
+    }
+    if (range.action === 'speed') {
+      pieces.push({ startTime: start, endTime: end, speed: range.speed, ...(range.audio && { audio: range.audio }) });
+    }
+    time = end;
+  }
+  if (duration > time) {
+    pieces.push({ startTime: time, endTime: duration, speed: 1 });
+  }
+  return pieces;
+};
+
+// Where a moment of the recording falls in the export. Moments inside a cut land where the
+// cut was made.
+export const remapTime = (pieces: TimelinePiece[], time: number): number => {
+  let output = 0;
+  for (const piece of pieces) {
+    if (time <= piece.startTime) return output;
+    if (time < piece.endTime) return output + (time - piece.startTime) / piece.speed;
+    output += (piece.endTime - piece.startTime) / piece.speed;
+  }
+  return output;
+};
+
+// Moves timed items, such as subtitles or script segments, onto the export's timeline.
+// Items that fall entirely inside a cut are left out.
+export const remapRanges = <T extends TimeRange>(pieces: TimelinePiece[], items: T[]): T[] =>
+  items
+    .map(item => ({ ...item, startTime: remapTime(pieces, item.startTime), endTime: remapTime(pieces, item.endTime) }))
+    .filter(item => item.endTime > item.startTime);
@@ -0,0 +1,596 @@
+import { IClickEffects } from '../models/Project.js';
+import { IPunchIn, IRecording, IWebcamOverlay } from '../models/Recording.js';
+import { CameraKeyframe } from './camera.js';
+import { CURSOR_FILTERS } from './cursor.js';
+import { TimelinePiece } from './deadTime.js';
+import { isAnimated, propertyTrack, Track, trackExpression, valueAt } from './keyframes.js';
+
+// Returns the filter text that reads the `input` pad and writes the `output` pad. Pads for
+// intermediate results are named with `label`, which keeps them unique within the graph.
+export type VideoStage = (input: string, output: string, label: (name: string) => string) => string;
+
+// The same, reading and writing audio pads
+export type AudioStage = VideoStage;
+
+export interface FilterGraph {
+  // Appends a stage to the video chain; it reads whatever the previous stage wrote
+  addVideoStage: (stage: VideoStage) => void;
+  // Adds an audio stream to the output mix, after running it through `filters`
+  addAudioSource: (input: string, filters?: string[]) => void;
+  // Appends a stage run on the mixed audio sources; audio mapped as-is is left untouched
+  addAudioStage: (stage: AudioStage) => void;
+  build: () => BuiltFilterGraph;
+}
+
+export interface BuiltFilterGraph {
+  // Value for -filter_complex; empty when there is nothing to filter
+  graph: string;
+  videoOutput: string;
+  audioOutput: string | null;
+  // -map options selecting the outputs above
+  maps: string[];
+}
+
+export interface FilterGraphOptions {
+  video?: string;
+  // Mapped as-is when no audio source is added; null leaves the output silent
+  audio?: string | null;
+}
+
+type Frame = { width: number; height: number };
+type Region = { x: number; y: number; width: number; height: number };
+type TimeRange = { startTime: number; endTime: number };
+type VisualEffect = IRecording['visualEffects'][number];
+
+const between = ({ startTime, endTime }: TimeRange) => `between(t,${startTime},${endTime})`;
+
+// Builds an export's -filter_complex graph. Video stages run in the order they are added,
+// each on the previous stage's output; audio sources are mixed into a single stream.
+export const createFilterGraph = ({ video = '0:v', audio = null }: FilterGraphOptions = {}): FilterGraph => {
+  const chains: string[] = [];
+  const audioSources: string[] = [];
+  const audioStages: AudioStage[] = [];
+  let videoLabel = video;
+  let stageCount = 0;
+
+  return {
+    addVideoStage: (stage) => {
+      stageCount++;
+      const output = `v${stageCount}`;
+      chains.push(stage(videoLabel, output, name => `${name}${stageCount}`));
+      videoLabel = output;
+    },
+
+    addAudioSource: (input, filters = []) => {
+      const output = `a${audioSources.length + 1}`;
+      chains.push(`[${input}]${filters.length > 0 ? filters.join(',') : 'anull'}[${output}]`);
+      audioSources.push(output);
+    },
+
+    addAudioStage: (stage) => {
+      audioStages.push(stage);
+    },
+
+    build: () => {
+      const graph = [...chains];
+      let audioOutput = audio;
+      if (audioSources.length === 1) {
+        audioOutput = `[${audioSources[0]}]`;
+      } else if (audioSources.length > 1) {
+        graph.push(
+          `${audioSources.map(source => `[${source}]`).join('')}` +
+          `amix=inputs=${audioSources.length}:duration=longest:normalize=0[mix]`
+        );
+        audioOutput = '[mix]';
+      }
+      if (audioSources.length > 0 && audioStages.length > 0) {
+        let audioLabel = audioOutput!.slice(1, -1);
+        audioStages.forEach((stage, index) => {
+          const output = `as${index + 1}`;
+          graph.push(stage(audioLabel, output, name => `${name}a${index + 1}`));
+          audioLabel = output;
+        });
+        audioOutput = `[${audioLabel}]`;
+      }
+
+      const videoOutput = videoLabel === video ? video : `[${videoLabel}]`;
+      return {
+        graph: graph.join(';'),
+        videoOutput,
+        audioOutput,
+        maps: ['-map', videoOutput, ...(audioOutput ? ['-map', audioOutput] : [])]
+      };
+    }
+  };
+};
+
+export const cropStage = (region: Region): VideoStage => (input, output) =>
+  `[${input}]crop=${region.width}:${region.height}:${region.x}:${region.y}[${output}]`;
+
+export const blurStage = (region: Region, range: TimeRange, strength = 10): VideoStage => (input, output, label) => {
+  const { x, y, width, height } = region;
+  return `[${input}]split[${label('base')}][${label('src')}];` +
+    `[${label('src')}]crop=${width}:${height}:${x}:${y},boxblur=${strength}:1[${label('blurred')}];` +
+    `[${label('base')}][${label('blurred')}]overlay=${x}:${y}:enable='${between(range)}'[${output}]`;
+};
+
+export const highlightStage = (region: Region, range: TimeRange, opacity = 0.3): VideoStage => (input, output) => {
+  const { x, y, width, height } = region;
+  return `[${input}]drawbox=x=${x}:y=${y}:w=${width}:h=${height}:color=yellow@${opacity}:t=3:enable='${between(range)}'[${output}]`;
+};
+
+// Replaces the alpha channel with `alpha`, an expression of the pixel (X, Y) and time (T)
+// from 0 to 255
+const alphaMask = (alpha: string) =>
+  `format=yuva420p,geq=lum='p(X,Y)':cb='p(X,Y)':cr='p(X,Y)':a='${alpha}'`;
+
+// Samples a track through the effect; springs overshoot their keyframes, so the keyframes
+// alone do not give a track's extremes
+const sampleTrack = (track: Track, range: TimeRange) => {
+  const steps = Math.max(1, Math.ceil((range.endTime - range.startTime) * 50));
+  return Array.from({ length: steps + 1 }, (_, step) =>
+    valueAt(track, range.startTime + (range.endTime - range.startTime) * step / steps));
+};
+
+const regionTracks = (effect: VisualEffect) => ({
+  x: propertyTrack(effect, 'x'),
+  y: propertyTrack(effect, 'y'),
+  width: propertyTrack(effect, 'width'),
+  height: propertyTrack(effect, 'height')
+});
+
+// The part of the frame an animated region covers at some point, which is all that needs
+// to be filtered per frame
+const animatedBounds = (effect: VisualEffect, frame: Frame): Region => {
+  const tracks = regionTracks(effect);
+  const [xs, ys, widths, heights] = [tracks.x, tracks.y, tracks.width, tracks.height]
+    .map(track => sampleTrack(track, effect));
+  const left = Math.max(0, Math.floor(Math.min(...xs)));
+  const top = Math.max(0, Math.floor(Math.min(...ys)));
+  const right = Math.min(frame.width, Math.ceil(Math.max(...xs.map((x, index) => x + widths[index]))));
+  const bottom = Math.min(frame.height, Math.ceil(Math.max(...ys.map((y, index) => y + heights[index]))));
+  return { x: left, y: top, width: Math.max(2, right - left), height: Math.max(2, bottom - top) };
+};
+
+// 1 for pixels of `bounds` inside the region at time T, shrunk by `inset` on every side
+const insideRegion = (effect: VisualEffect, bounds: Region, inset = 0) => {
+  const tracks = regionTracks(effect);
+  const x = `(${trackExpression(tracks.x, 'T')}-${bounds.x - inset})`;
+  const y = `(${trackExpression(tracks.y, 'T')}-${bounds.y - inset})`;
+  const width = `(${trackExpression(tracks.width, 'T')}-${inset * 2})`;
+  const height = `(${trackExpression(tracks.height, 'T')}-${inset * 2})`;
+  return `gte(X,${x})*lt(X,${x}+${width})*gte(Y,${y})*lt(Y,${y}+${height})`;
+};
+
+// A blur whose region and strength follow the effect's keyframes. The region is cut out of
+// the blurred bounds per frame, and a changing strength cross-fades between the weakest and
+// strongest blur it reaches.
+const animatedBlurStage = (effect: VisualEffect, frame: Frame): VideoStage => (input, output, label) => {
+  const bounds = animatedBounds(effect, frame);
+  const crop = `crop=${bounds.width}:${bounds.height}:${bounds.x}:${bounds.y}`;
+  const strength = propertyTrack(effect, 'strength');
+  const strengths = sampleTrack(strength, effect);
+  const weakest = Math.max(0, Math.round(Math.min(...strengths)));
+  const strongest = Math.max(1, Math.round(Math.max(...strengths)));
+  const place = `overlay=${bounds.x}:${bounds.y}:enable='${between(effect)}'[${output}]`;
+
+  if (weakest >= strongest) {
+    return `[${input}]split[${label('base')}][${label('src')}];` +
+      `[${label('src')}]${crop},boxblur=${strongest}:1,${alphaMask(`255*${insideRegion(effect, bounds)}`)}[${label('blurred')}];` +
+      `[${label('base')}][${label('blurred')}]${place}`;
+  }
+
+  const weight = `clip((${trackExpression(strength, 'T')}-${weakest})/${strongest - weakest},0,1)`;
+  return `[${input}]split=3[${label('base')}][${label('weak')}][${label('strong')}];` +
+    `[${label('weak')}]${crop}${weakest > 0 ? `,boxblur=${weakest}:1` : ''}[${label('weakblur')}];` +
+    `[${label('strong')}]${crop},boxblur=${strongest}:1,${alphaMask(`255*${weight}`)}[${label('strongblur')}];` +
+    `[${label('weakblur')}][${label('strongblur')}]overlay=0:0,${alphaMask(`255*${insideRegion(effect, bounds)}`)}[${label('blurred')}];` +
+    `[${label('base')}][${label('blurred')}]${place}`;
+};
+
+// A highlight box whose region and opacity follow the effect's keyframes, drawn from a
+// yellow source over the bounds it moves through
+const animatedHighlightStage = (effect: VisualEffect, frame: Frame, frameRate: number): VideoStage => (input, output, label) => {
+  const bounds = animatedBounds(effect, frame);
+  const opacity = trackExpression(propertyTrack(effect, 'opacity', effect.properties?.opacity ?? 0.3), 'T');
+  const outline = `${insideRegion(effect, bounds)}*(1-${insideRegion(effect, bounds, 3)})`;
+  return `color=c=yellow:s=${bounds.width}x${bounds.height}:r=${frameRate}:d=${effect.endTime},` +
+    `${alphaMask(`255*clip(${opacity},0,1)*${outline}`)}[${label('box')}];` +
+    `[${input}][${label('box')}]overlay=${bounds.x}:${bounds.y}:eof_action=pass:enable='${between(effect)}'[${output}]`;
+};
+
+const hasAnimatedRegion = (effect: VisualEffect) =>
+  Object.values(regionTracks(effect)).some(isAnimated);
+
+// Moves a virtual camera over the frame, cropping and scaling it per frame to follow the
+// keyframes. The view is kept inside the frame, and the output keeps the frame's size.
+export const cameraStage = (
+  keyframes: CameraKeyframe[],
+  frame: { width: number; height: number },
+  frameRate: number
+): VideoStage => (input, output) => {
+  const expression = (value: (keyframe: CameraKeyframe) => number) => trackExpression(
+    keyframes.map(keyframe => ({ time: keyframe.time, value: value(keyframe), easing: keyframe.easing || 'ease-in-out' })),
+    'it'
+  );
+  const zoom = expression(keyframe => keyframe.zoom);
+  const x = expression(keyframe => keyframe.x);
+  const y = expression(keyframe => keyframe.y);
+  // zoompan emits frames at its own rate, so its input must already be at that rate
+  return `[${input}]fps=${frameRate},zoompan=z='${zoom}':` +
+    `x='max(0,min(iw-iw/zoom,(${x})*iw-iw/zoom/2))':y='max(0,min(ih-ih/zoom,(${y})*ih-ih/zoom/2))':` +
+    `d=1:s=${frame.width}x${frame.height}:fps=${frameRate}[${output}]`;
+};
+
+// Per-frame motion of an annotation image: its offset from where it was drawn, and its
+// opacity when that changes. The image must then be drawn fully opaque.
+export interface AnnotationAnimation {
+  x: string;
+  y: string;
+  opacity?: string;
+}
+
+// How an annotation's keyframes move the image rendered at its starting region, or null
+// when they do not. `opacity` is the annotation's own.
+export const annotationAnimation = (effect: VisualEffect, opacity: number): AnnotationAnimation | null => {
+  const x = propertyTrack(effect, 'x');
+  const y = propertyTrack(effect, 'y');
+  const opacityTrack = propertyTrack(effect, 'opacity', opacity);
+  if (!isAnimated(x) && !isAnimated(y) && !isAnimated(opacityTrack)) {
+    return null;
+  }
+
+  const offset = (track: Track) => (isAnimated(track) ? `${trackExpression(track, 't')}-${track[0].value}` : '0');
+  return {
+    x: offset(x),
+    y: offset(y),
+    ...(isAnimated(opacityTrack) ? { opacity: `clip(${trackExpression(opacityTrack, 'T')},0,1)` } : {})
+  };
+};
+
+// Overlays a rendered annotation image the size of the frame, fading its alpha in after
+// startTime and out before endTime
+export const annotationStage = (
+  imageInput: string,
+  range: TimeRange,
+  fade: { fadeIn: number; fadeOut: number },
+  animation: AnnotationAnimation | null = null
+): VideoStage => (input, output, label) => {
+  const length = range.endTime - range.startTime;
+  const fadeIn = Math.min(fade.fadeIn, length / 2);
+  const fadeOut = Math.min(fade.fadeOut, length / 2);
+  const steps = [
+    'format=rgba',
+    ...(fadeIn > 0 ? [`fade=t=in:st=${range.startTime}:d=${fadeIn}:alpha=1`] : []),
+    ...(fadeOut > 0 ? [`fade=t=out:st=${range.endTime - fadeOut}:d=${fadeOut}:alpha=1`] : []),
+    ...(animation?.opacity ? [`geq=r='r(X,Y)':g='g(X,Y)':b='b(X,Y)':a='alpha(X,Y)*${animation.opacity}'`] : [])
+  ];
+  const position = animation ? `x='${animation.x}':y='${animation.y}'` : '0:0';
+  return `[${imageInput}]${steps.join(',')}[${label('annotation')}];` +
+    `[${input}][${label('annotation')}]overlay=${position}:eof_action=pass:enable='${between(range)}'[${output}]`;
+};
+
+// How long a click's halo shows before the click, as a fraction of the click duration
+const HALO_LEAD = 0.25;
+
+const roundUpToEven = (value: number) => Math.max(2, Math.ceil(value / 2) * 2);
+
+// Marks one click, at `x`, `y` in pixels of the video, with the enabled effects: a lens
+// magnifying the video around the pointer, a soft halo that swells in just before the click
+// and fades after it, and a ring rippling out from it. Each is drawn from its own short
+// stream that starts at its time, so the frames around it are left alone.
+export const clickEffectStage = (
+  click: { time: number; x: number; y: number },
+  settings: IClickEffects,
+  frameRate: number
+): VideoStage => (input, output, label) => {
+  const color = `0x${settings.color.slice(1)}`;
+  const { time, x, y } = click;
+  const end = time + settings.duration;
+  const sources: string[] = [];
+  // Square images centred on the click, drawn in order
+  const layers: Array<{ pad: string; size: number; enable?: string }> = [];
+  let base = input;
+
+  if (settings.magnify) {
+    const size = roundUpToEven(settings.size * 2);
+    const source = roundUpToEven(size / settings.magnification);
+    const fade = `clip(min((T-${time})/0.1,(${end}-T)/0.1),0,1)`;
+    base = label('unmagnified');
+    sources.push(
+      `[${input}]split[${base}][${label('lenssrc')}]`,
+      `[${label('lenssrc')}]trim=start=${time}:end=${end},` +
+      `crop=${source}:${source}:${Math.round(x - source / 2)}:${Math.round(y - source / 2)},scale=${size}:${size},` +
+      `${alphaMask(`255*${fade}*clip(W/2-hypot(X-W/2,Y-H/2),0,1)`)}[${label('lens')}]`
+    );
+    layers.push({ pad: label('lens'), size, enable: between({ startTime: time, endTime: end }) });
+  }
+
+  if (settings.halo) {
+    const size = roundUpToEven(settings.size * 1.2);
+    const start = Math.max(0, time - settings.duration * HALO_LEAD);
+    const lead = time - start;
+    const length = end - start;
+    const swell = lead > 0 ? `if(lt(T,${lead}),T/${lead},(${length}-T)/${settings.duration})` : `(${length}-T)/${length}`;
+    sources.push(
+      `color=c=${color}:s=${size}x${size}:r=${frameRate}:d=${length},` +
+      `${alphaMask(`115*clip(${swell},0,1)*clip(1-hypot(X-W/2,Y-H/2)/(W/2),0,1)`)},` +
+      `setpts=PTS+${start}/TB[${label('halo')}]`
+    );
+    layers.push({ pad: label('halo'), size });
+  }
+
+  if (settings.ripple) {
+    const size = roundUpToEven(settings.size * 2 + 8);
+    const width = Math.max(2, settings.size * 0.1);
+    const radius = `(${settings.size}*(0.2+0.8*T/${settings.duration}))`;
+    sources.push(
+      `color=c=${color}:s=${size}x${size}:r=${frameRate}:d=${settings.duration},` +
+      `${alphaMask(`255*(1-T/${settings.duration})*clip(${width / 2 + 0.5}-abs(hypot(X-W/2,Y-H/2)-${radius}),0,1)`)},` +
+      `setpts=PTS+${time}/TB[${label('ripple')}]`
+    );
+    layers.push({ pad: label('ripple'), size });
+  }
+
+  if (layers.length === 0) {
+    return `[${input}]null[${output}]`;
+  }
+
+  const overlays = layers.map((layer, index) => {
+    const from = index === 0 ? base : label(`clicked${index}_`);
+    const to = index === layers.length - 1 ? output : label(`clicked${index + 1}_`);
+    const enable = layer.enable ? `:enable='${layer.enable}'` : '';
+    return `[${from}][${layer.pad}]overlay=${Math.round(x - layer.size / 2)}:${Math.round(y - layer.size / 2)}:` +
+      `eof_action=pass${enable}[${to}]`;
+  });
+  return [...sources, ...overlays].join(';');
+};
+
+// Blurs a square of `size` over the cursor captured in the footage. The sendcmd file at
+// `commandPath` moves it frame by frame; see cursorCommands.
+export const cursorMaskStage = (commandPath: string, size: number): VideoStage => (input, output, label) =>
+  `[${input}]sendcmd=f='${commandPath}',split[${label('unmasked')}][${label('masksrc')}];` +
+  `[${label('masksrc')}]${CURSOR_FILTERS.maskCrop}=${size}:${size}:0:0,boxblur=${Math.max(1, Math.floor(size / 5))}:2[${label('mask')}];` +
+  `[${label('unmasked')}][${label('mask')}]${CURSOR_FILTERS.maskOverlay}=x=W:y=H:eof_action=pass[${output}]`;
+
+// Draws the cursor image input where the sendcmd file at `commandPath` puts it on each frame.
+// It starts out of the frame, until the first command.
+export const cursorStage = (imageInput: string, commandPath: string): VideoStage => (input, output, label) =>
+  `[${imageInput}]format=rgba[${label('cursor')}];` +
+  `[${input}]sendcmd=f='${commandPath}'[${label('uncursored')}];` +
+  `[${label('uncursored')}][${label('cursor')}]${CURSOR_FILTERS.cursor}=x=W:y=H:eof_action=pass[${output}]`;
+
+export const subtitlesStage = (subtitlePath: string): VideoStage => (input, output) =>
+  `[${input}]subtitles='${subtitlePath}'[${output}]`;
+
+// Places another input over the video. `prepare` shapes that input first, and the overlay is
+// left out during `hiddenRanges`.
+export const overlayStage = (
+  overlayInput: string,
+  prepare: string[],
+  position: { x: string; y: string },
+  hiddenRanges: TimeRange[] = []
+): VideoStage => (input, output, label) => {
+  const hidden = hiddenRanges.map(between).join('+');
+  const enable = hidden ? `:enable='not(${hidden})'` : '';
+  return `[${overlayInput}]${prepare.length > 0 ? prepare.join(',') : 'null'}[${label('overlay')}];` +
+    `[${input}][${label('overlay')}]overlay=x='${position.x}':y='${position.y}':eof_action=pass${enable}[${output}]`;
+};
+
+// Shapes, keys and places the webcam input. `frame` is the size of the video it goes over.
+export const webcamOverlayStage = (
+  overlay: IWebcamOverlay,
+  hiddenRanges: TimeRange[],
+  frame: { width: number; height: number },
+  webcamInput: string
+): VideoStage => {
+  const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+  const size = even(overlay.size * frame.width);
+  const margin = Math.round(frame.width * 0.02);
+  const steps: string[] = [];
+
+  if (overlay.chromaKey.enabled) {
+    const { color, similarity, blend } = overlay.chromaKey;
+    steps.push(`chromakey=0x${color.slice(1)}:${similarity}:${blend}`);
+  }
+
+  // Shapes are cut out by multiplying the alpha channel with a mask expression
+  switch (overlay.shape) {
+    case 'circle':
+      steps.push(
+        `crop='min(iw,ih)':'min(iw,ih)'`,
+        `scale=${size}:${size}`,
+        'format=yuva420p',
+        `geq=lum='p(X,Y)':cb='p(X,Y)':cr='p(X,Y)':a='if(lte(hypot(X-W/2,Y-H/2),W/2),alpha(X,Y),0)'`
+      );
+      break;
+    case 'rounded': {
+      const r = '(min(W,H)*0.15)';
+      steps.push(
+        `scale=${size}:-2`,
+        'format=yuva420p',
+        `geq=lum='p(X,Y)':cb='p(X,Y)':cr='p(X,Y)':a='if(gt(abs(X-W/2),W/2-${r})*gt(abs(Y-H/2),H/2-${r}),` +
+          `if(lte(hypot(abs(X-W/2)-(W/2-${r}),abs(Y-H/2)-(H/2-${r})),${r}),alpha(X,Y),0),alpha(X,Y))'`
+      );
+      break;
+    }
+    default:
+      steps.push(`scale=${size}:-2`, 'format=yuva420p');
+  }
+
+  return overlayStage(webcamInput, steps, {
+    x: `${margin}+(main_w-overlay_w-${margin * 2})*${overlay.position.x}`,
+    y: `${margin}+(main_h-overlay_h-${margin * 2})*${overlay.position.y}`
+  }, hiddenRanges);
+};
+
+// Cuts the video at each punch-in and concatenates the kept pieces with the re-recorded
+// sections. A section is scaled into the original frame and cut, or held on its last frame,
+// to the exact length it replaces so later timings stay put.
+export const spliceStage = (
+  punchIns: IPunchIn[],
+  inputs: string[],
+  resolution: { width: number; height: number },
+  duration: number
+): VideoStage => (input, output, label) => {
+  const { width, height } = resolution;
+  const pieces: string[] = [];
+  const steps: string[] = [];
+  const originals: string[] = [];
+  let cursor = 0;
+
+  const keepOriginal = (end?: number) => {
+    const original = label(`orig${originals.length}_`);
+    const piece = label(`piece${pieces.length}_`);
+    originals.push(`[${original}]`);
+    steps.push(`[${original}]trim=start=${cursor}${end !== undefined ? `:end=${end}` : ''},setpts=PTS-STARTPTS,setsar=1[${piece}]`);
+    pieces.push(`[${piece}]`);
+  };
+
+  punchIns.forEach((punchIn, index) => {
+    if (punchIn.startTime > cursor) {
+      keepOriginal(punchIn.startTime);
+    }
+    const length = punchIn.endTime - punchIn.startTime;
+    const piece = label(`piece${pieces.length}_`);
+    steps.push(
+      `[${inputs[index]}]scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+      `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,` +
+      `tpad=stop_mode=clone:stop_duration=${length},trim=duration=${length},setpts=PTS-STARTPTS[${piece}]`
+    );
+    pieces.push(`[${piece}]`);
+    cursor = punchIn.endTime;
+  });
+  // The duration is unknown for some uploads, so keep the tail unless it is known to be empty
+  if (!duration || duration > cursor) {
+    keepOriginal();
+  }
+
+  const split = originals.length > 1
+    ? `[${input}]split=${originals.length}${originals.join('')}`
+    : `[${input}]null${originals.join('')}`;
+
+  return [
+    ...(originals.length > 0 ? [split] : []),
+    ...steps,
+    `${pieces.join('')}concat=n=${pieces.length}:v=1:a=0[${output}]`
+  ].join(';');
+};
+
+// Plays the video along `pieces`: each kept stretch is cut out, sped up by its piece's speed
+// and joined to the next. Frames sped up past the output frame rate are dropped there.
+export const retimeStage = (pieces: TimelinePiece[]): VideoStage => (input, output, label) => {
+  const parts = pieces.map((_, index) => label(`part${index}_`));
+  const timed = pieces.map((_, index) => label(`timed${index}_`));
+  return [
+    `[${input}]split=${pieces.length}${parts.map(part => `[${part}]`).join('')}`,
+    ...pieces.map((piece, index) =>
+      `[${parts[index]}]trim=start=${piece.startTime}:end=${piece.endTime},` +
+      `setpts=(PTS-STARTPTS)/${piece.speed}[${timed[index]}]`),
+    `${timed.map(part => `[${part}]`).join('')}concat=n=${pieces.length}:v=1:a=0[${output}]`
+  ].join(';');
+};
+
+// atempo is applied in steps of at most 2x, the most that older ffmpeg builds take at once
+const tempoFilters = (speed: number): string[] => {
+  const filters: string[] = [];
+  let remaining = speed;
+  while (remaining > 2) {
+    filters.push('atempo=2');
+    remaining /= 2;
+  }
+  return remaining === 1 ? filters : [...filters, `atempo=${remaining}`];
+};
+
+// Stretches of audio for retimed pieces, with the filters that fit each one to its piece.
+// Pieces whose narration keeps its normal speed share one stretch, taken from where the first
+// starts for as long as they last in the export. The rest of the stretch is dropped, so such
+// pieces are only made where the narration is silent.
+const audioParts = (pieces: TimelinePiece[]) => {
+  const parts: Array<{ startTime: number; endTime: number; filters: string[]; sourceEnd?: number }> = [];
+  for (const piece of pieces) {
+    const previous = parts[parts.length - 1];
+    if (piece.audio === 'narration') {
+      const length = (piece.endTime - piece.startTime) / piece.speed;
+      if (previous?.sourceEnd === piece.startTime) {
+        previous.endTime += length;
+        previous.sourceEnd = piece.endTime;
+      } else {
+        parts.push({ startTime: piece.startTime, endTime: piece.startTime + length, filters: [], sourceEnd: piece.endTime });
+      }
+      continue;
+    }
+    parts.push({
+      startTime: piece.startTime,
+      endTime: piece.endTime,
+      filters: [...tempoFilters(piece.speed), ...(piece.audio === 'mute' ? ['volume=0'] : [])]
+    });
+  }
+  return parts;
+};
+
+// The audio counterpart of retimeStage. Sped-up stretches keep their pitch.
+export const retimeAudioStage = (pieces: TimelinePiece[]): AudioStage => (input, output, label) => {
+  const audio = audioParts(pieces);
+  const parts = audio.map((_, index) => label(`part${index}_`));
+  const timed = audio.map((_, index) => label(`timed${index}_`));
+  return [
+    `[${input}]asplit=${audio.length}${parts.map(part => `[${part}]`).join('')}`,
+    ...audio.map((part, index) =>
+      `[${parts[index]}]${[
+        `atrim=start=${part.startTime}:end=${part.endTime}`,
+        'asetpts=PTS-STARTPTS',
+        ...part.filters
+      ].join(',')}[${timed[index]}]`),
+    `${timed.map(part => `[${part}]`).join('')}concat=n=${audio.length}:v=0:a=1[${output}]`
+  ].join(';');
+};
+
+// Heights of the resolution presets exports accept
+export const RESOLUTION_HEIGHTS: Record<string, number> = {
+  '720p': 720,
+  '1080p': 1080,
+  '4k': 2160
+};
+
+// Final size and frame rate. Sizes are a resolution preset, which sets the height and keeps
+// the aspect ratio, or use fluent-ffmpeg's notation: 'WxH', or '?xH' to keep the aspect ratio.
+export const outputStage = (size: string, frameRate: number): VideoStage => (input, output) => {
+  const [width, height] = size in RESOLUTION_HEIGHTS
+    ? ['-2', String(RESOLUTION_HEIGHTS[size])]
+    : size.split('x').map(value => (value === '?' ? '-2' : value));
+  return `[${input}]scale=${width}:${height},setsar=1,fps=${frameRate}[${output}]`;
+};
+
+// The size outputStage scales an export to: the height of the requested resolution preset, or
+// `fallback` ('WxH') when none is requested. A cropped region always keeps its own aspect ratio.
+export const outputSize = (resolution: string | undefined, cropped: boolean, fallback: string): string => {
+  const height = resolution ? RESOLUTION_HEIGHTS[resolution] : fallback.split('x')[1];
+  return resolution || cropped ? `?x${height}` : fallback;
+};
+
+// The stage that renders a stored visual effect, or null when it cannot be rendered.
+// Annotations are drawn from an image input instead, and zooms move the camera; see
+// annotationStage and cameraStage.
+// Effects with keyframes are interpolated per frame within `frame`, the size of the video
+// they are drawn on.
+export const effectStage = (effect: VisualEffect, frame: Frame, frameRate = 30): VideoStage | null => {
+  if (!effect.coordinates) {
+    return null;
+  }
+
+  switch (effect.type) {
+    case 'blur':
+      return hasAnimatedRegion(effect) || isAnimated(propertyTrack(effect, 'strength'))
+        ? animatedBlurStage(effect, frame)
+        : blurStage(effect.coordinates, effect, effect.properties?.strength);
+    case 'highlight': {
+      const opacity = propertyTrack(effect, 'opacity', effect.properties?.opacity ?? 0.3);
+      return hasAnimatedRegion(effect) || isAnimated(opacity)
+        ? animatedHighlightStage(effect, frame, frameRate)
+        : highlightStage(effect.coordinates, effect, opacity[0].value);
+    }
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,98 @@
+import { Easing, IEffectKeyframe, IRecording, KeyframeProperty } from '../models/Recording.js';
+
+type VisualEffect = IRecording['visualEffects'][number];
+
+// One animated value: where it is at each point, in seconds on the recording's timeline, and
+// the curve it follows to get there from the point before
+export type Track = Array<{ time: number; value: number; easing: Easing }>;
+
+const round = (number: number) => Number(number.toFixed(4));
+
+// Maps progress through a segment, from 0 to 1, onto the curve. The spring overshoots and
+// settles back onto the target by the end.
+export const ease = (easing: Easing, progress: number): number => {
+  switch (easing) {
+    case 'linear':
+      return progress;
+    case 'spring':
+      return 1 - Math.exp(-6 * progress) * Math.cos(2.5 * Math.PI * progress);
+    default:
+      return progress * progress * (3 - 2 * progress);
+  }
+};
+
+// The same curve as an ffmpeg expression of the progress expression `p`
+const easeExpression = (easing: Easing, p: string): string => {
+  switch (easing) {
+    case 'linear':
+      return p;
+    case 'spring':
+      return `(1-exp(-6*${p})*cos(${round(2.5 * Math.PI)}*${p}))`;
+    default:
+      return `${p}*${p}*(3-2*${p})`;
+  }
+};
+
+// The value an effect has before any keyframe changes it
+export const baseValue = (effect: VisualEffect, property: KeyframeProperty): number | undefined => {
+  switch (property) {
+    case 'x':
+    case 'y':
+    case 'width':
+    case 'height':
+      return effect.coordinates?.[property];
+    case 'strength':
+      return effect.properties?.strength ?? 10;
+    default:
+      return effect.properties?.[property];
+  }
+};
+
+// The track of one property, starting from its base value at the effect's start. Keyframe
+// times are relative to the effect's start and are kept within it.
+export const propertyTrack = (effect: VisualEffect, property: KeyframeProperty, base = baseValue(effect, property)): Track => {
+  const track: Track = base === undefined ? [] : [{ time: effect.startTime, value: base, easing: 'linear' }];
+  const keyframes = [...(effect.keyframes || [])]
+    .filter((keyframe: IEffectKeyframe) => keyframe[property] !== undefined && keyframe[property] !== null)
+    .sort((a, b) => a.time - b.time);
+
+  for (const keyframe of keyframes) {
+    const time = Math.min(Math.max(effect.startTime + keyframe.time, effect.startTime), effect.endTime);
+    // A keyframe at the very start replaces the base value
+    if (track.length > 0 && track[track.length - 1].time >= time) {
+      track.pop();
+    }
+    track.push({ time, value: keyframe[property]!, easing: keyframe.easing });
+  }
+  return track;
+};
+
+export const isAnimated = (track: Track) => track.some(point => point.value !== track[0].value);
+
+export const valueAt = (track: Track, time: number): number => {
+  const nextIndex = track.findIndex(point => point.time > time);
+  if (nextIndex === -1) return track[track.length - 1].value;
+  if (nextIndex === 0) return track[0].value;
+
+  const from = track[nextIndex - 1];
+  const to = track[nextIndex];
+  return from.value + (to.value - from.value) * ease(to.easing, (time - from.time) / (to.time - from.time));
+};
+
+// An ffmpeg expression for the track's value along the time variable `time`
+export const trackExpression = (track: Track, time: string): string => {
+  let expression = `${round(track[track.length - 1].value)}`;
+
+  for (let index = track.length - 2; index >= 0; index--) {
+    const from = track[index];
+    const to = track[index + 1];
+    const change = round(to.value - from.value);
+    const progress = `((${time}-${round(from.time)})/${round(to.time - from.time)})`;
+    const segment = change === 0 || to.time <= from.time
+      ? `${round(to.value)}`
+      : `${round(from.value)}+(${change})*${easeExpression(to.easing, progress)}`;
+    expression = `if(lt(${time},${round(to.time)}),${segment},${expression})`;
+  }
+
+  return expression;
+};
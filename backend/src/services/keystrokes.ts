@@ -0,0 +1,188 @@
+import sharp from 'sharp';
+import { IKeystrokeOverlay } from '../models/Project.js';
+import { IUIEvent } from '../models/Recording.js';
+import { escapeXml } from './annotations.js';
+
+type Frame = { width: number; height: number };
+
+// Keys pressed further apart than this, in seconds, start a new burst of typing
+const TYPING_GAP = 1;
+
+// Typed text longer than this shows only its end
+const MAX_TYPED = 32;
+
+const MODIFIER_KEYS = ['Meta', 'Control', 'Alt', 'Shift', 'CapsLock'];
+
+const KEY_SYMBOLS: Record<string, string> = {
+  Meta: '⌘',
+  Ctrl: '⌃',
+  Alt: '⌥',
+  Shift: '⇧',
+  Enter: '⏎',
+  Backspace: '⌫',
+  Delete: '⌦',
+  Tab: '⇥',
+  Escape: 'Esc',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ' ': 'Space'
+};
+
+// What the overlay shows from startTime to endTime: a row of keycaps for a shortcut or
+// special key, or a single cap with the text typed so far
+export interface KeystrokeCaption {
+  startTime: number;
+  endTime: number;
+  keys: string[];
+}
+
+const keyLabel = (key: string) => KEY_SYMBOLS[key] || (key.length === 1 ? key.toUpperCase() : key);
+
+// Shortcuts are recorded as modifiers and a key joined by `+`, such as `Meta+K` or `Ctrl++`
+const shortcutKeys = (shortcut: string) => {
+  const match = shortcut.match(/^((?:(?:Meta|Ctrl|Alt|Shift)\+)*)(.+)$/);
+  if (!match) return [shortcut];
+  const modifiers = match[1].split('+').filter(Boolean);
+  return [...modifiers, match[2]].map(keyLabel);
+};
+
+// The captions for a recording's key presses. Keys typed into sensitive fields are never
+// shown and end any burst of typing in progress. Each caption lasts `duration` seconds, or
+// until the next one replaces it.
+export const keystrokeCaptions = (
+  events: IUIEvent[],
+  settings: Pick<IKeystrokeOverlay, 'shortcuts' | 'typing' | 'duration'>
+): KeystrokeCaption[] => {
+  const moments: Array<{ time: number; keys: string[] }> = [];
+  let typed: string | null = null;
+  let typedAt = -Infinity;
+
+  const keypresses = events
+    .filter(event => event.type === 'keypress' && event.value)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  for (const event of keypresses) {
+    const key = event.value!;
+    const shortcut = event.metadata?.shortcut as string | undefined;
+    if (event.metadata?.sensitive) {
+      typed = null;
+      continue;
+    }
+    if (!shortcut && MODIFIER_KEYS.includes(key)) continue;
+
+    const isTyping = !shortcut && (key.length === 1 || (key === 'Backspace' && typed !== null));
+    if (isTyping) {
+      if (!settings.typing) continue;
+      if (typed === null || event.timestamp - typedAt > TYPING_GAP) {
+        typed = '';
+      }
+      typed = key === 'Backspace' ? typed.slice(0, -1) : typed + key;
+      typedAt = event.timestamp;
+      const text = typed.length > MAX_TYPED ? `…${typed.slice(-MAX_TYPED)}` : typed;
+      if (text) {
+        moments.push({ time: event.timestamp, keys: [text] });
+      }
+      continue;
+    }
+
+    typed = null;
+    if (settings.shortcuts) {
+      moments.push({ time: event.timestamp, keys: shortcut ? shortcutKeys(shortcut) : [keyLabel(key)] });
+    }
+  }
+
+  return moments
+    .map((moment, index) => ({
+      startTime: moment.time,
+      endTime: Math.min(moment.time + settings.duration, moments[index + 1]?.time ?? Infinity),
+      keys: moment.keys
+    }))
+    .filter(caption => caption.endTime > caption.startTime);
+};
+
+export interface KeycapLayout {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text: string;
+}
+
+export const KEYSTROKE_THEMES = {
+  dark: { fill: '#111827', stroke: '#4b5563', text: '#ffffff', opacity: 0.9 },
+  light: { fill: '#ffffff', stroke: '#d1d5db', text: '#111827', opacity: 0.95 }
+};
+
+// Where each keycap of a caption goes in the frame. Widths are estimated from the text, as
+// the exact glyph widths are only known once it is drawn.
+export const keycapLayout = (
+  caption: Pick<KeystrokeCaption, 'keys'>,
+  settings: Pick<IKeystrokeOverlay, 'position' | 'size'>,
+  frame: Frame
+): KeycapLayout[] => {
+  const fontSize = frame.height * settings.size;
+  const height = fontSize * 1.8;
+  const gap = fontSize * 0.3;
+  const margin = frame.height * 0.05;
+  const widths = caption.keys.map(key => Math.max(height, [...key].length * fontSize * 0.62 + fontSize * 1.2));
+  const total = widths.reduce((sum, width) => sum + width, 0) + gap * (widths.length - 1);
+
+  const [vertical, horizontal] = settings.position.split('-');
+  let x = horizontal === 'left' ? margin : horizontal === 'right' ? frame.width - margin - total : (frame.width - total) / 2;
+  const y = vertical === 'top' ? margin : frame.height - margin - height;
+
+  return caption.keys.map((text, index) => {
+    const keycap = { x, y, width: widths[index], height, text };
+    x += widths[index] + gap;
+    return keycap;
+  });
+};
+
+// Draws one caption as a transparent SVG the size of the exported frame
+export const buildKeystrokeSvg = (
+  caption: Pick<KeystrokeCaption, 'keys'>,
+  settings: Pick<IKeystrokeOverlay, 'position' | 'size' | 'theme'>,
+  frame: Frame
+): string => {
+  const theme = KEYSTROKE_THEMES[settings.theme];
+  const fontSize = frame.height * settings.size;
+  const keycaps = keycapLayout(caption, settings, frame).map(({ x, y, width, height, text }) =>
+    `<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="${fontSize * 0.35}" ` +
+    `fill="${theme.fill}" fill-opacity="${theme.opacity}" stroke="${theme.stroke}" stroke-width="${Math.max(1, fontSize * 0.06)}"/>` +
+    `<text x="${x + width / 2}" y="${y + height / 2}" font-family="sans-serif" font-weight="600" font-size="${fontSize}" ` +
+    `fill="${theme.text}" text-anchor="middle" dominant-baseline="central" xml:space="preserve">${escapeXml(text)}</text>`
+  );
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${frame.width}" height="${frame.height}">${keycaps.join('')}</svg>`;
+};
+
+export const renderKeystrokeCaption = async (svg: string, outputPath: string): Promise<void> => {
+  await sharp(Buffer.from(svg)).png().toFile(outputPath);
+};
+
+// An ffconcat script that shows each image from its caption's start to its end and `blank`
+// in between, as one input for the export to overlay. The last entry is listed twice so its
+// duration is kept.
+export const keystrokeConcat = (
+  captions: Array<Pick<KeystrokeCaption, 'startTime' | 'endTime'> & { image: string }>,
+  blank: string,
+  duration: number
+): string => {
+  const entries: Array<{ image: string; length: number }> = [];
+  let time = 0;
+  for (const caption of captions) {
+    if (caption.startTime > time) {
+      entries.push({ image: blank, length: caption.startTime - time });
+    }
+    entries.push({ image: caption.image, length: caption.endTime - caption.startTime });
+    time = caption.endTime;
+  }
+  entries.push({ image: blank, length: Math.max(duration - time, 0.1) });
+
+  return [
+    'ffconcat version 1.0',
+    ...entries.map(({ image, length }) => `file '${image}'\nduration ${length.toFixed(3)}`),
+    `file '${blank}'`
+  ].join('\n');
+};
@@ -0,0 +1,99 @@
+import ffmpeg, { FfprobeData } from 'fluent-ffmpeg';
+import { execFile } from 'child_process';
+import { IMediaInfo } from '../models/Recording.js';
+import { logger } from '../utils/logger.js';
+
+// ffmpeg-static ships without ffprobe, so it comes from the PATH unless configured
+const FFPROBE_PATH = process.env.FFPROBE_PATH || 'ffprobe';
+ffmpeg.setFfprobePath(FFPROBE_PATH);
+
+// Frames further than this fraction from the typical spacing mark the stream as variable
+const VFR_TOLERANCE = 0.1;
+
+const runProbe = (inputPath: string) =>
+  new Promise<FfprobeData>((resolve, reject) => {
+    ffmpeg.ffprobe(inputPath, (error, data) => (error ? reject(error) : resolve(data)));
+  });
+
+// Video packet timestamps in presentation order, read without decoding
+const readVideoTimestamps = (inputPath: string) =>
+  new Promise<number[]>((resolve, reject) => {
+    execFile(
+      FFPROBE_PATH,
+      ['-v', 'error', '-select_streams', 'v:0', '-show_entries', 'packet=pts_time', '-of', 'csv=p=0', inputPath],
+      { maxBuffer: 256 * 1024 * 1024 },
+      (error, stdout) => {
+        if (error) {
+          return reject(error);
+        }
+        resolve(stdout.split('\n').map(Number.parseFloat).filter(Number.isFinite).sort((a, b) => a - b));
+      }
+    );
+  });
+
+// ffprobe reports missing values as 'N/A' and rates as fractions like '30000/1001'
+const toNumber = (value: unknown): number => {
+  const parsed = typeof value === 'string' && value.includes('/')
+    ? Number(value.split('/')[0]) / Number(value.split('/')[1])
+    : Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+// Resolves null when the file holds no decodable audio or video stream, whatever its
+// extension or declared type. MediaRecorder webm files often lack a duration header and
+// space their frames unevenly, so the video's duration and frame rate are measured from its
+// packet timestamps instead of the header.
+export const probeMedia = async (inputPath: string): Promise<IMediaInfo | null> => {
+  let data: FfprobeData;
+  try {
+    data = await runProbe(inputPath);
+  } catch (error) {
+    logger.warn(`ffprobe could not read ${inputPath}:`, error);
+    return null;
+  }
+
+  const videoStream = data.streams.find(stream => stream.codec_type === 'video' && stream.width && stream.height);
+  const audioStream = data.streams.find(stream => stream.codec_type === 'audio' && stream.codec_name);
+  if (!videoStream && !audioStream) {
+    return null;
+  }
+
+  const timestamps = videoStream ? await readVideoTimestamps(inputPath).catch(() => [] as number[]) : [];
+  const intervals = timestamps.slice(1).map((time, index) => time - timestamps[index]);
+  const typicalInterval = [...intervals].sort((a, b) => a - b)[Math.floor(intervals.length / 2)] || 0;
+  // The last frame is shown for one interval too
+  const measuredDuration = timestamps.length > 1
+    ? timestamps[timestamps.length - 1] - timestamps[0] + typicalInterval
+    : 0;
+
+  const duration = measuredDuration ||
+    toNumber(data.format.duration) ||
+    toNumber(videoStream?.duration) ||
+    toNumber(audioStream?.duration);
+  const size = toNumber(data.format.size);
+
+  return {
+    container: data.format.format_name || 'unknown',
+    duration,
+    bitrate: toNumber(data.format.bit_rate) || (duration > 0 ? Math.round((size * 8) / duration) : 0),
+    video: videoStream && {
+      codec: videoStream.codec_name || 'unknown',
+      width: videoStream.width!,
+      height: videoStream.height!,
+      frameRate: measuredDuration > 0
+        ? timestamps.length / measuredDuration
+        : toNumber(videoStream.avg_frame_rate) || toNumber(videoStream.r_frame_rate),
+      variableFrameRate: typicalInterval > 0
+        ? intervals.some(interval => Math.abs(interval - typicalInterval) > typicalInterval * VFR_TOLERANCE)
+        : toNumber(videoStream.avg_frame_rate) !== toNumber(videoStream.r_frame_rate),
+      pixelFormat: videoStream.pix_fmt
+    },
+    audio: audioStream && {
+      codec: audioStream.codec_name!,
+      channels: audioStream.channels || 0,
+      sampleRate: toNumber(audioStream.sample_rate),
+      bitrate: toNumber(audioStream.bit_rate) || undefined
+    },
+    probedAt: new Date()
+  };
+};
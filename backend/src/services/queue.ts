@@ -1,6 +1,6 @@
 import Bull from 'bull';
 import Redis from 'redis';
-import { processVideo, generateAudio, exportVideo } from './videoProcessor.js';
+import { processVideo, processTrack, generateAudio, exportVideo } from './videoProcessor.js';
 import { logger } from '../utils/logger.js';
 
 // Redis connection
@@ -52,7 +52,7 @@ export const exportQueue = new Bull('video export', {
 
 // Process video queue handlers
 processVideoQueue.process('process-video', 5, async (job) => {
-  const { recordingId, videoUrl, uiEvents } = job.data;
+  const { recordingId, videoKey, uiEvents } = job.data;
   
   try {
     logger.info(`Processing video for recording: ${recordingId}`);
@@ -60,7 +60,7 @@ processVideoQueue.process('process-video', 5, async (job) => {
     // Update progress
     job.progress(10);
     
-    const result = await processVideo(recordingId, videoUrl, uiEvents, (progress) => {
+    const result = await processVideo(recordingId, videoKey, uiEvents, (progress) => {
       job.progress(progress);
     });
     
@@ -72,6 +72,21 @@ processVideoQueue.process('process-video', 5, async (job) => {
   }
 });
 
+// Audio tracks uploaded after their recording are processed on their own
+processVideoQueue.process('process-track', 5, async (job) => {
+  const { recordingId, kind } = job.data;
+
+  try {
+    logger.info(`Processing ${kind} track for recording: ${recordingId}`);
+    const result = await processTrack(recordingId, kind);
+    logger.info(`Track processing completed for recording: ${recordingId}`);
+    return result;
+  } catch (error) {
+    logger.error(`Track processing failed for recording ${recordingId}:`, error);
+    throw error;
+  }
+});
+
 // Audio generation queue handlers
 audioGenerationQueue.process('generate-audio', 10, async (job) => {
   const { recordingId, segments } = job.data;
@@ -0,0 +1,45 @@
+import crypto from 'crypto';
+import path from 'path';
+import { Readable } from 'stream';
+import { getObjectStream, listObjects, putObject } from './storage.js';
+import { renderStoredFrame } from './videoProcessor.js';
+
+const apiUrl = () => (process.env.API_URL || `http://localhost:${process.env.PORT || 3001}`).replace(/\/$/, '');
+
+// Screenshot links are embedded in articles as plain images, so their signature is all that
+// guards them
+const signingSecret = (): string => {
+  const secret = process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('STORAGE_SIGNING_SECRET or JWT_SECRET must be set to sign screenshot links');
+  }
+  return secret;
+};
+
+const sign = (recordingId: string, time: number) =>
+  crypto.createHmac('sha256', signingSecret()).update(`screenshot:${recordingId}:${time}`).digest('hex');
+
+// Articles are kept long after signed storage URLs expire, so a screenshot link does not
+// expire; it stops working when the recording is deleted
+export const screenshotUrl = (recordingId: string, time: number): string =>
+  `${apiUrl()}/api/recordings/${recordingId}/screenshot?t=${time}&signature=${sign(recordingId, time)}`;
+
+export const verifyScreenshotSignature = (recordingId: string, time: number, signature: string): boolean => {
+  const expected = Buffer.from(sign(recordingId, time));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+// Where the still of `videoKey` at `time` is kept; a reprocessed video gets new stills
+export const screenshotKey = (recordingId: string, videoKey: string, time: number): string =>
+  `screenshots/${recordingId}/${path.basename(videoKey, path.extname(videoKey))}-${time}.jpg`;
+
+// The still of a recording's video at `time`, rendered the first time it is asked for
+export const getScreenshot = async (recordingId: string, videoKey: string, time: number): Promise<Readable> => {
+  const key = screenshotKey(recordingId, videoKey, time);
+  const stored = await listObjects(`screenshots/${recordingId}/`);
+  if (!stored.some(object => object.key === key)) {
+    await putObject(key, await renderStoredFrame(videoKey, time), 'image/jpeg');
+  }
+  return getObjectStream(key);
+};
@@ -1,112 +1,205 @@
-import AWS from 'aws-sdk';
+import { Readable } from 'stream';
 import { logger } from '../utils/logger.js';
+import { createS3Driver } from './storage/s3Driver.js';
+import { createLocalDriver, createLocalStorageRouter } from './storage/localDriver.js';
+import { MultipartPart, StorageBody, StorageDriver, StoredObject } from './storage/types.js';
 
-// Configure AWS
-AWS.config.update({
-  accessKeyId: process.env.AWS_ACCESS_KEY_ID,
-  secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
-  region: process.env.AWS_REGION || 'us-east-1'
-});
+// Select the storage backend: `s3` (default) or `local` for on-prem installs and tests
+const createDriver = (): StorageDriver => {
+  const driverName = process.env.STORAGE_DRIVER || 's3';
+  switch (driverName) {
+    case 's3':
+      return createS3Driver();
+    case 'local':
+      return createLocalDriver();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${driverName}`);
+  }
+};
+
+// Read on every call: this module is imported before the server loads its .env file
+export const signedUrlExpires = (): number => parseInt(process.env.SIGNED_URL_EXPIRES || '3600');
+
+// Created on first use so the environment is loaded before the driver reads it
+let activeDriver: StorageDriver | null = null;
+const getDriver = (): StorageDriver => {
+  if (!activeDriver) {
+    activeDriver = createDriver();
+    logger.info(`Using ${activeDriver.name} storage driver`);
+  }
+  return activeDriver;
+};
 
-const s3 = new AWS.S3();
-const BUCKET_NAME = process.env.S3_BUCKET_NAME || 'smartdemo-studio';
+// Express router serving files from disk, only needed by the local driver
+export const getStorageRouter = () => getDriver().name === 'local' ? createLocalStorageRouter() : null;
 
-export const uploadToS3 = async (
-  buffer: Buffer,
+export const putObject = async (
   key: string,
-  contentType: string
-): Promise<string> => {
+  body: StorageBody,
+  contentType: string,
+  contentLength?: number
+): Promise<void> => {
+  const driver = getDriver();
   try {
-    const params = {
-      Bucket: BUCKET_NAME,
-      Key: key,
-      Body: buffer,
-      ContentType: contentType,
-      ACL: 'public-read'
-    };
-
-    const result = await s3.upload(params).promise();
-    logger.info(`File uploaded to S3: ${key}`);
-    return result.Location;
+    await driver.putObject(key, body, contentType, contentLength);
+    logger.info(`File uploaded to ${driver.name} storage: ${key}`);
   } catch (error) {
-    logger.error('S3 upload error:', error);
-    throw new Error('Failed to upload file to S3');
+    logger.error('Storage upload error:', error);
+    throw new Error('Failed to upload file to storage');
   }
 };
 
-export const deleteFromS3 = async (url: string): Promise<void> => {
+export const getObjectStream = async (key: string): Promise<Readable> => {
   try {
-    // Extract key from URL
-    const urlParts = url.split('/');
-    const key = urlParts.slice(3).join('/'); // Remove protocol and domain
+    return await getDriver().getObjectStream(key);
+  } catch (error) {
+    logger.error('Storage read error:', error);
+    throw new Error('Failed to read file from storage');
+  }
+};
 
-    const params = {
-      Bucket: BUCKET_NAME,
-      Key: key
-    };
+export const deleteObject = async (key: string): Promise<void> => {
+  const driver = getDriver();
+  try {
+    await driver.deleteObject(key);
+    logger.info(`File deleted from ${driver.name} storage: ${key}`);
+  } catch (error) {
+    logger.error('Storage delete error:', error);
+    throw new Error('Failed to delete file from storage');
+  }
+};
 
-    await s3.deleteObject(params).promise();
-    logger.info(`File deleted from S3: ${key}`);
+export const copyObject = async (
+  sourceKey: string,
+  destinationKey: string
+): Promise<void> => {
+  const driver = getDriver();
+  try {
+    await driver.copyObject(sourceKey, destinationKey);
+    logger.info(`File copied in ${driver.name} storage: ${sourceKey} -> ${destinationKey}`);
   } catch (error) {
-    logger.error('S3 delete error:', error);
-    throw new Error('Failed to delete file from S3');
+    logger.error('Storage copy error:', error);
+    throw new Error('Failed to copy file in storage');
   }
 };
 
+// Objects are private; this is the only way to hand one to a client
 export const getSignedUrl = async (
   key: string,
-  expires: number = 3600
+  expires: number = signedUrlExpires()
 ): Promise<string> => {
   try {
-    const params = {
-      Bucket: BUCKET_NAME,
-      Key: key,
-      Expires: expires
-    };
-
-    const url = await s3.getSignedUrlPromise('getObject', params);
-    return url;
+    return await getDriver().getSignedUrl(key, expires);
   } catch (error) {
-    logger.error('S3 signed URL error:', error);
+    logger.error('Storage signed URL error:', error);
     throw new Error('Failed to generate signed URL');
   }
 };
 
+export const listObjects = async (prefix: string): Promise<StoredObject[]> => {
+  try {
+    return await getDriver().listObjects(prefix);
+  } catch (error) {
+    logger.error('Storage list error:', error);
+    throw new Error('Failed to list files in storage');
+  }
+};
+
+export const makeObjectPrivate = async (key: string): Promise<void> => {
+  const driver = getDriver();
+  try {
+    await driver.makePrivate(key);
+    logger.info(`File made private in ${driver.name} storage: ${key}`);
+  } catch (error) {
+    logger.error('Storage ACL error:', error);
+    throw new Error('Failed to make file private');
+  }
+};
+
 export const uploadMultipleFiles = async (
   files: Array<{ buffer: Buffer; key: string; contentType: string }>
-): Promise<string[]> => {
+): Promise<void> => {
   try {
-    const uploadPromises = files.map(file => 
-      uploadToS3(file.buffer, file.key, file.contentType)
+    const uploadPromises = files.map(file =>
+      putObject(file.key, file.buffer, file.contentType)
     );
 
-    const urls = await Promise.all(uploadPromises);
-    logger.info(`Multiple files uploaded to S3: ${files.length} files`);
-    return urls;
+    await Promise.all(uploadPromises);
+    logger.info(`Multiple files uploaded to ${getDriver().name} storage: ${files.length} files`);
   } catch (error) {
-    logger.error('S3 multiple upload error:', error);
-    throw new Error('Failed to upload multiple files to S3');
+    logger.error('Storage multiple upload error:', error);
+    throw new Error('Failed to upload multiple files to storage');
   }
 };
 
-export const copyS3Object = async (
-  sourceKey: string,
-  destinationKey: string
+export const createMultipartUpload = async (
+  key: string,
+  contentType: string
+): Promise<string> => {
+  const driver = getDriver();
+  try {
+    const uploadId = await driver.createMultipartUpload(key, contentType);
+    logger.info(`Multipart upload started in ${driver.name} storage: ${key}`);
+    return uploadId;
+  } catch (error) {
+    logger.error('Storage multipart create error:', error);
+    throw new Error('Failed to start multipart upload');
+  }
+};
+
+export const uploadPart = async (
+  key: string,
+  uploadId: string,
+  partNumber: number,
+  body: StorageBody,
+  contentLength: number
 ): Promise<string> => {
   try {
-    const params = {
-      Bucket: BUCKET_NAME,
-      CopySource: `${BUCKET_NAME}/${sourceKey}`,
-      Key: destinationKey,
-      ACL: 'public-read'
-    };
-
-    await s3.copyObject(params).promise();
-    const url = `https://${BUCKET_NAME}.s3.amazonaws.com/${destinationKey}`;
-    logger.info(`File copied in S3: ${sourceKey} -> ${destinationKey}`);
-    return url;
+    return await getDriver().uploadPart(key, uploadId, partNumber, body, contentLength);
+  } catch (error) {
+    logger.error('Storage upload part error:', error);
+    throw new Error('Failed to upload part');
+  }
+};
+
+export const completeMultipartUpload = async (
+  key: string,
+  uploadId: string,
+  parts: MultipartPart[]
+): Promise<void> => {
+  const driver = getDriver();
+  try {
+    await driver.completeMultipartUpload(key, uploadId, parts);
+    logger.info(`Multipart upload completed in ${driver.name} storage: ${key}`);
+  } catch (error) {
+    logger.error('Storage multipart complete error:', error);
+    throw new Error('Failed to complete multipart upload');
+  }
+};
+
+// Multipart uploads whose session has expired are never completed or aborted by a client
+export const abortStaleMultipartUploads = async (olderThan: Date): Promise<void> => {
+  const driver = getDriver();
+  try {
+    const aborted = await driver.abortStaleMultipartUploads(olderThan);
+    if (aborted > 0) {
+      logger.info(`Aborted ${aborted} stale multipart uploads in ${driver.name} storage`);
+    }
   } catch (error) {
-    logger.error('S3 copy error:', error);
-    throw new Error('Failed to copy file in S3');
+    logger.warn('Storage stale multipart cleanup error:', error);
   }
-};
\ No newline at end of file
+};
+
+export const abortMultipartUpload = async (
+  key: string,
+  uploadId: string
+): Promise<void> => {
+  const driver = getDriver();
+  try {
+    await driver.abortMultipartUpload(key, uploadId);
+    logger.info(`Multipart upload aborted in ${driver.name} storage: ${key}`);
+  } catch (error) {
+    logger.error('Storage multipart abort error:', error);
+    throw new Error('Failed to abort multipart upload');
+  }
+};
@@ -0,0 +1,225 @@
+import express from 'express';
+import crypto from 'crypto';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { StorageBody, StorageDriver, StoredObject } from './types.js';
+
+// In-progress multipart uploads live next to the objects but are never served
+const MULTIPART_DIR = '.multipart';
+
+const rootDir = () => path.resolve(process.env.LOCAL_STORAGE_DIR || './storage');
+const baseUrl = () =>
+  (process.env.LOCAL_STORAGE_URL || `http://localhost:${process.env.PORT || 3001}/storage`).replace(/\/$/, '');
+// Signed URLs are all that guards the files, so an empty key would let anyone forge them
+const signingSecret = (): string => {
+  const secret = process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('STORAGE_SIGNING_SECRET or JWT_SECRET must be set for the local storage driver');
+  }
+  return secret;
+};
+
+// Maps a key to a path inside the storage root, rejecting keys that would escape it
+const resolveKey = (key: string): string => {
+  const root = rootDir();
+  const filePath = path.resolve(root, key);
+  if (!filePath.startsWith(root + path.sep) || key.split('/').includes(MULTIPART_DIR)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return filePath;
+};
+
+const multipartDir = (uploadId: string) => {
+  if (!/^[\w-]+$/.test(uploadId)) {
+    throw new Error(`Invalid upload id: ${uploadId}`);
+  }
+  return path.join(rootDir(), MULTIPART_DIR, uploadId);
+};
+
+const sign = (key: string, expiresAt: number) =>
+  crypto.createHmac('sha256', signingSecret()).update(`${key}:${expiresAt}`).digest('hex');
+
+const writeBody = async (filePath: string, body: StorageBody) => {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  if (Buffer.isBuffer(body)) {
+    await fs.writeFile(filePath, body);
+  } else {
+    await pipeline(body, createWriteStream(filePath));
+  }
+};
+
+const walk = async (dir: string): Promise<string[]> => {
+  const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+  const files = await Promise.all(entries.map(entry => {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return entry.name === MULTIPART_DIR ? [] : walk(entryPath);
+    }
+    return [entryPath];
+  }));
+  return files.flat();
+};
+
+export const verifyLocalSignature = (key: string, expires: string, signature: string): boolean => {
+  const expiresAt = parseInt(expires, 10);
+  if (Number.isNaN(expiresAt) || expiresAt < Math.floor(Date.now() / 1000)) {
+    return false;
+  }
+  const expected = Buffer.from(sign(key, expiresAt));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+export const createLocalDriver = (): StorageDriver => ({
+  name: 'local',
+
+  putObject: async (key, body) => {
+    await writeBody(resolveKey(key), body);
+  },
+
+  getObjectStream: async (key) => {
+    const filePath = resolveKey(key);
+    await fs.access(filePath);
+    return createReadStream(filePath) as Readable;
+  },
+
+  deleteObject: async (key) => {
+    await fs.rm(resolveKey(key), { force: true });
+  },
+
+  copyObject: async (sourceKey, destinationKey) => {
+    const destination = resolveKey(destinationKey);
+    await fs.mkdir(path.dirname(destination), { recursive: true });
+    await fs.copyFile(resolveKey(sourceKey), destination);
+  },
+
+  getSignedUrl: async (key, expires) => {
+    const expiresAt = Math.floor(Date.now() / 1000) + expires;
+    return `${baseUrl()}/${encodeURI(key)}?expires=${expiresAt}&signature=${sign(key, expiresAt)}`;
+  },
+
+  listObjects: async (prefix) => {
+    const root = rootDir();
+    const files = await walk(root);
+    const objects: StoredObject[] = [];
+
+    for (const filePath of files) {
+      const key = path.relative(root, filePath).split(path.sep).join('/');
+      if (!key.startsWith(prefix)) continue;
+      const stats = await fs.stat(filePath);
+      objects.push({ key, size: stats.size, lastModified: stats.mtime });
+    }
+
+    return objects.sort((a, b) => a.key.localeCompare(b.key));
+  },
+
+  // Files on disk are only ever served through signed URLs
+  makePrivate: async (key) => {
+    await fs.access(resolveKey(key));
+  },
+
+  createMultipartUpload: async (key) => {
+    resolveKey(key);
+    const uploadId = uuidv4();
+    await fs.mkdir(multipartDir(uploadId), { recursive: true });
+    return uploadId;
+  },
+
+  uploadPart: async (key, uploadId, partNumber, body, contentLength) => {
+    const partPath = path.join(multipartDir(uploadId), `${partNumber}`);
+    await writeBody(partPath, body);
+
+    const { size } = await fs.stat(partPath);
+    if (size !== contentLength) {
+      await fs.rm(partPath, { force: true });
+      throw new Error(`Part ${partNumber} is ${size} bytes, expected ${contentLength}`);
+    }
+
+    const hash = crypto.createHash('md5');
+    await pipeline(createReadStream(partPath), hash);
+    return `"${hash.digest('hex')}"`;
+  },
+
+  completeMultipartUpload: async (key, uploadId, parts) => {
+    const destination = resolveKey(key);
+    const sorted = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+    const gap = sorted.findIndex((part, index) => part.partNumber !== index + 1);
+    if (gap !== -1) {
+      throw new Error(`Part ${gap + 1} of upload ${uploadId} is missing`);
+    }
+    await fs.mkdir(path.dirname(destination), { recursive: true });
+
+    const output = createWriteStream(destination);
+    for (const part of sorted) {
+      await pipeline(
+        createReadStream(path.join(multipartDir(uploadId), `${part.partNumber}`)),
+        output,
+        { end: false }
+      );
+    }
+    await new Promise<void>((resolve, reject) => {
+      output.on('error', reject);
+      output.end(resolve);
+    });
+
+    await fs.rm(multipartDir(uploadId), { recursive: true, force: true });
+  },
+
+  abortMultipartUpload: async (_key, uploadId) => {
+    await fs.rm(multipartDir(uploadId), { recursive: true, force: true });
+  },
+
+  // A part directory's modification time is when its last part arrived
+  abortStaleMultipartUploads: async (olderThan) => {
+    const dir = path.join(rootDir(), MULTIPART_DIR);
+    const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+    let aborted = 0;
+    for (const entry of entries.filter(entry => entry.isDirectory())) {
+      const uploadDir = path.join(dir, entry.name);
+      const { mtime } = await fs.stat(uploadDir);
+      if (mtime < olderThan) {
+        await fs.rm(uploadDir, { recursive: true, force: true });
+        aborted++;
+      }
+    }
+    return aborted;
+  }
+});
+
+// Serves stored objects for the local driver, only through valid signed URLs
+export const createLocalStorageRouter = () => {
+  // The server mounts this at startup, so a missing secret stops it there
+  signingSecret();
+  const router = express.Router();
+
+  router.get('/*', (req, res) => {
+    const key = (req.params as Record<string, string>)[0];
+    const { expires, signature } = req.query;
+
+    let filePath: string;
+    try {
+      filePath = resolveKey(key);
+    } catch {
+      res.status(404).json({ error: 'Not found' });
+      return;
+    }
+
+    if (!verifyLocalSignature(key, String(expires || ''), String(signature || ''))) {
+      res.status(403).json({ error: 'Invalid or expired signature' });
+      return;
+    }
+
+    // Media is embedded by the frontend, which runs on another origin
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    res.sendFile(filePath, (error) => {
+      if (error && !res.headersSent) {
+        res.status(404).json({ error: 'Not found' });
+      }
+    });
+  });
+
+  return router;
+};
@@ -0,0 +1,130 @@
+import AWS from 'aws-sdk';
+import { Readable } from 'stream';
+import { StorageDriver, StoredObject } from './types.js';
+
+export const createS3Driver = (): StorageDriver => {
+  const s3 = new AWS.S3({
+    accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+    region: process.env.AWS_REGION || 'us-east-1'
+  });
+  const bucket = process.env.S3_BUCKET_NAME || 'smartdemo-studio';
+
+  return {
+    name: 's3',
+
+    putObject: async (key, body, contentType, contentLength) => {
+      await s3.upload({
+        Bucket: bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        ...(contentLength !== undefined && { ContentLength: contentLength })
+      }).promise();
+    },
+
+    getObjectStream: async (key) => {
+      // Fail fast on a missing key instead of emitting the error on the stream
+      await s3.headObject({ Bucket: bucket, Key: key }).promise();
+      return s3.getObject({ Bucket: bucket, Key: key }).createReadStream() as Readable;
+    },
+
+    deleteObject: async (key) => {
+      await s3.deleteObject({ Bucket: bucket, Key: key }).promise();
+    },
+
+    copyObject: async (sourceKey, destinationKey) => {
+      await s3.copyObject({
+        Bucket: bucket,
+        CopySource: encodeURI(`${bucket}/${sourceKey}`),
+        Key: destinationKey
+      }).promise();
+    },
+
+    getSignedUrl: (key, expires) =>
+      s3.getSignedUrlPromise('getObject', { Bucket: bucket, Key: key, Expires: expires }),
+
+    listObjects: async (prefix) => {
+      const objects: StoredObject[] = [];
+      let continuationToken: string | undefined;
+
+      do {
+        const result = await s3.listObjectsV2({
+          Bucket: bucket,
+          Prefix: prefix,
+          ContinuationToken: continuationToken
+        }).promise();
+
+        for (const object of result.Contents || []) {
+          objects.push({
+            key: object.Key!,
+            size: object.Size || 0,
+            lastModified: object.LastModified || new Date(0)
+          });
+        }
+        continuationToken = result.IsTruncated ? result.NextContinuationToken : undefined;
+      } while (continuationToken);
+
+      return objects;
+    },
+
+    makePrivate: async (key) => {
+      await s3.putObjectAcl({ Bucket: bucket, Key: key, ACL: 'private' }).promise();
+    },
+
+    createMultipartUpload: async (key, contentType) => {
+      const result = await s3.createMultipartUpload({
+        Bucket: bucket,
+        Key: key,
+        ContentType: contentType
+      }).promise();
+      return result.UploadId!;
+    },
+
+    uploadPart: async (key, uploadId, partNumber, body, contentLength) => {
+      const result = await s3.uploadPart({
+        Bucket: bucket,
+        Key: key,
+        UploadId: uploadId,
+        PartNumber: partNumber,
+        Body: body,
+        ContentLength: contentLength
+      }).promise();
+      return result.ETag!;
+    },
+
+    completeMultipartUpload: async (key, uploadId, parts) => {
+      await s3.completeMultipartUpload({
+        Bucket: bucket,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: {
+          Parts: [...parts]
+            .sort((a, b) => a.partNumber - b.partNumber)
+            .map(part => ({ PartNumber: part.partNumber, ETag: part.etag }))
+        }
+      }).promise();
+    },
+
+    abortMultipartUpload: async (key, uploadId) => {
+      await s3.abortMultipartUpload({ Bucket: bucket, Key: key, UploadId: uploadId }).promise();
+    },
+
+    // S3 only records when an upload was started, so an upload is stale by that time
+    abortStaleMultipartUploads: async (olderThan) => {
+      let aborted = 0;
+      let markers: { KeyMarker?: string; UploadIdMarker?: string } = {};
+      for (;;) {
+        const page = await s3.listMultipartUploads({ Bucket: bucket, ...markers }).promise();
+        for (const upload of page.Uploads || []) {
+          if (upload.Key && upload.UploadId && upload.Initiated && upload.Initiated < olderThan) {
+            await s3.abortMultipartUpload({ Bucket: bucket, Key: upload.Key, UploadId: upload.UploadId }).promise();
+            aborted++;
+          }
+        }
+        if (!page.IsTruncated) return aborted;
+        markers = { KeyMarker: page.NextKeyMarker, UploadIdMarker: page.NextUploadIdMarker };
+      }
+    }
+  };
+};
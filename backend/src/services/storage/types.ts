@@ -0,0 +1,34 @@
+import { Readable } from 'stream';
+
+export type StorageBody = Buffer | NodeJS.ReadableStream;
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+export interface MultipartPart {
+  partNumber: number;
+  etag: string;
+}
+
+// Everything the app needs from an object store. Objects are private and addressed by
+// key only; clients read them through short-lived signed URLs.
+export interface StorageDriver {
+  name: string;
+  putObject(key: string, body: StorageBody, contentType: string, contentLength?: number): Promise<void>;
+  getObjectStream(key: string): Promise<Readable>;
+  deleteObject(key: string): Promise<void>;
+  copyObject(sourceKey: string, destinationKey: string): Promise<void>;
+  getSignedUrl(key: string, expires: number): Promise<string>;
+  listObjects(prefix: string): Promise<StoredObject[]>;
+  // Revokes any public access an object was stored with before storage went private
+  makePrivate(key: string): Promise<void>;
+  createMultipartUpload(key: string, contentType: string): Promise<string>;
+  uploadPart(key: string, uploadId: string, partNumber: number, body: StorageBody, contentLength: number): Promise<string>;
+  completeMultipartUpload(key: string, uploadId: string, parts: MultipartPart[]): Promise<void>;
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+  // Aborts multipart uploads last written to before `olderThan`, returning how many there were
+  abortStaleMultipartUploads(olderThan: Date): Promise<number>;
+}
@@ -0,0 +1,72 @@
+// Recordings saved before storage went private referenced their files by public S3 URL.
+// These helpers turn such a document into the key-only shape the Recording model expects.
+
+export interface LegacyRecording {
+  originalVideoUrl?: string;
+  processedVideoUrl?: string;
+  audioUrl?: string;
+  thumbnailUrl?: string;
+  originalVideoKey?: string;
+  processedVideoKey?: string;
+  audioKey?: string;
+  thumbnailKey?: string;
+  script?: {
+    segments?: Array<{ audioUrl?: string; audioKey?: string }>;
+  };
+  backgroundAudio?: { url?: string; key?: string };
+}
+
+export interface StorageKeyUpdate {
+  $set: Record<string, string>;
+  $unset: Record<string, ''>;
+}
+
+// URL fields and the key fields that replace them
+const LEGACY_FIELDS: Array<[keyof LegacyRecording, keyof LegacyRecording]> = [
+  ['originalVideoUrl', 'originalVideoKey'],
+  ['processedVideoUrl', 'processedVideoKey'],
+  ['audioUrl', 'audioKey'],
+  ['thumbnailUrl', 'thumbnailKey']
+];
+
+// The key of an object from its public URL, which S3 gave either virtual-hosted
+// (https://bucket.s3.region.amazonaws.com/key) or path-style (https://s3.region.amazonaws.com/bucket/key)
+export const keyFromUrl = (url: string, bucket: string): string => {
+  const { hostname, pathname } = new URL(url);
+  const key = decodeURIComponent(pathname.replace(/^\//, ''));
+  const isPathStyle = !hostname.startsWith(`${bucket}.`) && key.startsWith(`${bucket}/`);
+  return isPathStyle ? key.slice(bucket.length + 1) : key;
+};
+
+// The update that moves a recording's URLs to keys, or null when it has none left. Keys that
+// are already set win over the URLs next to them.
+export const storageKeyUpdate = (recording: LegacyRecording, bucket: string): StorageKeyUpdate | null => {
+  const update: StorageKeyUpdate = { $set: {}, $unset: {} };
+
+  for (const [urlField, keyField] of LEGACY_FIELDS) {
+    const url = recording[urlField] as string | undefined;
+    if (url === undefined) continue;
+    if (url && !recording[keyField]) {
+      update.$set[keyField] = keyFromUrl(url, bucket);
+    }
+    update.$unset[urlField] = '';
+  }
+
+  recording.script?.segments?.forEach((segment, index) => {
+    if (segment.audioUrl === undefined) return;
+    if (segment.audioUrl && !segment.audioKey) {
+      update.$set[`script.segments.${index}.audioKey`] = keyFromUrl(segment.audioUrl, bucket);
+    }
+    update.$unset[`script.segments.${index}.audioUrl`] = '';
+  });
+
+  const background = recording.backgroundAudio;
+  if (background?.url !== undefined) {
+    if (background.url && !background.key) {
+      update.$set['backgroundAudio.key'] = keyFromUrl(background.url, bucket);
+    }
+    update.$unset['backgroundAudio.url'] = '';
+  }
+
+  return Object.keys(update.$unset).length > 0 ? update : null;
+};
@@ -0,0 +1,45 @@
+import mongoose from 'mongoose';
+import { Recording, IRecording } from '../models/Recording.js';
+
+// Recordings saved before takes existed have no takeGroup and form a group of their own
+const groupOf = (recording: IRecording) => recording.takeGroup || recording._id;
+
+const inGroup = (takeGroup: unknown) => ({ $or: [{ takeGroup }, { _id: takeGroup }] });
+
+export const listTakes = (recording: IRecording) =>
+  Recording.find(inGroup(groupOf(recording))).sort({ takeNumber: 1 });
+
+// Group and number for a new take of `takeOf`, or null when it is not a recording of the project
+export const nextTake = async (
+  takeOf: string | mongoose.Types.ObjectId,
+  projectId: string | mongoose.Types.ObjectId
+): Promise<{ takeGroup: mongoose.Types.ObjectId; takeNumber: number } | null> => {
+  const previous = await Recording.findOne({ _id: takeOf, project: projectId });
+  if (!previous) {
+    return null;
+  }
+
+  const takeGroup = groupOf(previous) as mongoose.Types.ObjectId;
+  const latest = await Recording.findOne(inGroup(takeGroup)).sort({ takeNumber: -1 });
+  return { takeGroup, takeNumber: (latest?.takeNumber || 1) + 1 };
+};
+
+// Makes `recording` the only active take of its group. The group id is written to every
+// take so a legacy first take can be found by it afterwards.
+export const activateTake = async (recording: IRecording) => {
+  const takeGroup = groupOf(recording);
+  await Recording.updateMany(
+    { ...inGroup(takeGroup), _id: { $ne: recording._id } },
+    { $set: { isActiveTake: false, takeGroup } }
+  );
+  await Recording.updateOne({ _id: recording._id }, { $set: { isActiveTake: true, takeGroup } });
+  recording.isActiveTake = true;
+};
+
+// After the active take is deleted, the most recent remaining take takes its place
+export const promoteLatestTake = async (takeGroup: mongoose.Types.ObjectId) => {
+  const latest = await Recording.findOne(inGroup(takeGroup)).sort({ takeNumber: -1 });
+  if (latest) {
+    await activateTake(latest);
+  }
+};
@@ -0,0 +1,81 @@
+import { ITypingSpeedUp } from '../models/Project.js';
+import { IUIEvent } from '../models/Recording.js';
+
+type TimeRange = { startTime: number; endTime: number };
+
+// Key presses further apart than this, in seconds, end a run of typing
+const TYPING_GAP = 1;
+
+// Seconds at each end of a run spent easing between normal and full speed, in even steps
+const RAMP = 0.6;
+const RAMP_STEPS = 3;
+
+// Seconds of quiet narration a run needs before that part of it is worth speeding up
+export const MIN_QUIET_TYPING = 1;
+
+// Pointer samples and hovers go on while typing without interrupting it
+const PASSIVE_EVENTS: Array<IUIEvent['type']> = ['move', 'hover'];
+
+// Runs of at least `minKeys` key presses, each within a second of the one before and with no
+// click, scroll or navigation in between. Key presses in `excluded` sections, such as
+// punch-ins, did not happen in the exported picture and end a run.
+export const typingRuns = (events: IUIEvent[], minKeys: number, excluded: TimeRange[] = []): TimeRange[] => {
+  const runs: TimeRange[] = [];
+  let run: IUIEvent[] = [];
+  const endRun = () => {
+    if (run.length >= minKeys) {
+      runs.push({ startTime: run[0].timestamp, endTime: run[run.length - 1].timestamp });
+    }
+    run = [];
+  };
+
+  const sorted = events
+    .filter(event => !PASSIVE_EVENTS.includes(event.type))
+    .sort((a, b) => a.timestamp - b.timestamp);
+  for (const event of sorted) {
+    const isExcluded = excluded.some(range => event.timestamp >= range.startTime && event.timestamp < range.endTime);
+    if (event.type !== 'keypress' || isExcluded) {
+      endRun();
+      continue;
+    }
+    if (run.length > 0 && event.timestamp - run[run.length - 1].timestamp > TYPING_GAP) {
+      endRun();
+    }
+    run.push(event);
+  }
+  endRun();
+
+  return runs;
+};
+
+// The parts of `runs` during which nothing is said, for when the narration keeps its normal
+// speed: sped-up video only has room for part of the audio under it, so speech is left at
+// normal speed rather than cut short
+export const quietTyping = (runs: TimeRange[], silences: TimeRange[]): TimeRange[] =>
+  runs.flatMap(run => silences
+    .map(silence => ({
+      startTime: Math.max(run.startTime, silence.startTime),
+      endTime: Math.min(run.endTime, silence.endTime)
+    }))
+    .filter(part => part.endTime - part.startTime >= MIN_QUIET_TYPING));
+
+// The sped-up ranges that play a run `speed` times faster, stepping up to that speed over its
+// start and back down over its end so the change is not abrupt
+export const speedRamp = (run: TimeRange, { speed, audio }: Pick<ITypingSpeedUp, 'speed' | 'audio'>) => {
+  const ramp = Math.min(RAMP, (run.endTime - run.startTime) / 4);
+  const steps = Array.from({ length: RAMP_STEPS }, (_, step) => 1 + (speed - 1) * (step + 1) / (RAMP_STEPS + 1));
+  const speeds = [...steps, speed, ...[...steps].reverse()];
+  // Neighbouring ranges share their boundaries, so no sliver of normal speed is left between
+  const boundaries = [
+    ...Array.from({ length: RAMP_STEPS + 1 }, (_, step) => run.startTime + ramp * step / RAMP_STEPS),
+    ...Array.from({ length: RAMP_STEPS + 1 }, (_, step) => run.endTime - ramp * (RAMP_STEPS - step) / RAMP_STEPS)
+  ];
+
+  return speeds.map((stepSpeed, index) => ({
+    startTime: boundaries[index],
+    endTime: boundaries[index + 1],
+    action: 'speed' as const,
+    speed: stepSpeed,
+    audio
+  }));
+};
@@ -2,11 +2,39 @@ import ffmpeg from 'fluent-ffmpeg';
 import ffmpegStatic from 'ffmpeg-static';
 import sharp from 'sharp';
 import axios from 'axios';
-import { Recording } from '../models/Recording.js';
-import { uploadToS3 } from './storage.js';
+import { Recording, IMediaInfo, IRecordingMarker, TrackKind, AUDIO_TRACK_KINDS } from '../models/Recording.js';
+import { Project } from '../models/Project.js';
+import { putObject, getObjectStream, deleteObject, getSignedUrl } from './storage.js';
+import { probeMedia } from './mediaProbe.js';
+import { annotationProperties, renderAnnotation } from './annotations.js';
+import { cameraKeyframes } from './camera.js';
+import { cursorCommands, cursorImage, maskSize, pointerSamples, renderCursor } from './cursor.js';
+import { isRetimed, parseSilence, remapRanges, remapTime, timelinePieces } from './deadTime.js';
+import { MIN_QUIET_TYPING, quietTyping, speedRamp, typingRuns } from './typingRuns.js';
+import { buildKeystrokeSvg, keystrokeCaptions, keystrokeConcat, renderKeystrokeCaption } from './keystrokes.js';
+import {
+  annotationAnimation,
+  annotationStage,
+  cameraStage,
+  clickEffectStage,
+  createFilterGraph,
+  cropStage,
+  cursorMaskStage,
+  cursorStage,
+  effectStage,
+  outputSize,
+  outputStage,
+  overlayStage,
+  retimeAudioStage,
+  retimeStage,
+  spliceStage,
+  subtitlesStage,
+  webcamOverlayStage
+} from './filterGraph.js';
 import { logger } from '../utils/logger.js';
-import { promises as fs } from 'fs';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
 import path from 'path';
+import { pipeline } from 'stream/promises';
 import { v4 as uuidv4 } from 'uuid';
 
 // Set ffmpeg path
@@ -14,9 +42,191 @@ ffmpeg.setFfmpegPath(ffmpegStatic!);
 
 const TEMP_DIR = process.env.TEMP_DIR || '/tmp';
 
+// Copy a stored object to a temp file so ffmpeg can seek in it
+const downloadToTempFile = async (key: string, extension: string): Promise<string> => {
+  const tempPath = path.join(TEMP_DIR, `${uuidv4()}${extension}`);
+  await pipeline(await getObjectStream(key), createWriteStream(tempPath));
+  return tempPath;
+};
+
+// Probes a stored upload so routes can reject files that are not decodable media
+export const probeStoredMedia = async (key: string): Promise<IMediaInfo | null> => {
+  const tempPath = await downloadToTempFile(key, path.extname(key) || '.webm');
+  try {
+    return await probeMedia(tempPath);
+  } finally {
+    await fs.unlink(tempPath).catch(() => {});
+  }
+};
+
+// A JPEG of a stored video's frame at `time` seconds. ffmpeg reads the video through a signed
+// URL and seeks it with range requests, so only the part around `time` is fetched.
+export const renderStoredFrame = async (key: string, time: number): Promise<Buffer> => {
+  const videoUrl = await getSignedUrl(key);
+  const framePath = path.join(TEMP_DIR, `${uuidv4()}.jpg`);
+  try {
+    await new Promise((resolve, reject) => {
+      ffmpeg(videoUrl)
+        .seekInput(time)
+        .frames(1)
+        .outputOptions(['-q:v', '3'])
+        .output(framePath)
+        .on('end', resolve)
+        .on('error', reject)
+        .run();
+    });
+    return await fs.readFile(framePath);
+  } finally {
+    await fs.unlink(framePath).catch(() => {});
+  }
+};
+
+// Narration quieter than this, in dB, counts as silence when speeding up typing under it
+const NARRATION_NOISE = -35;
+
+// ffmpeg's silencedetect log for an input's audio: stretches quieter than `noise` dB for at
+// least `minDuration` seconds
+const detectSilence = (inputPath: string, noise: number, minDuration: number) =>
+  new Promise<string>((resolve, reject) => {
+    const log: string[] = [];
+    ffmpeg(inputPath)
+      .noVideo()
+      .audioFilters(`silencedetect=noise=${noise}dB:d=${minDuration}`)
+      .format('null')
+      .output('-')
+      .on('stderr', (line: string) => log.push(line))
+      .on('end', () => resolve(log.join('\n')))
+      .on('error', reject)
+      .run();
+  });
+
+// The silences in a stored audio file that starts `offset` seconds into a recording of
+// `duration` seconds, on the recording's timeline
+export const detectStoredSilence = async (
+  key: string,
+  offset: number,
+  duration: number,
+  { noise, minDuration }: { noise: number; minDuration: number }
+) => {
+  const tempPath = await downloadToTempFile(key, path.extname(key) || '.wav');
+  try {
+    return parseSilence(await detectSilence(tempPath, noise, minDuration), offset, duration);
+  } finally {
+    await fs.unlink(tempPath).catch(() => {});
+  }
+};
+
+// Audio outputs: a 16 kHz mono WAV for transcription, or an Opus file for playback and mixing
+const AUDIO_OUTPUTS = {
+  transcription: { extension: '.wav', mimeType: 'audio/wav' },
+  playback: { extension: '.webm', mimeType: 'audio/webm' }
+};
+
+// Resolves false when the input has no audio stream to extract
+const extractAudio = (inputPath: string, outputPath: string, output: keyof typeof AUDIO_OUTPUTS) =>
+  new Promise<boolean>((resolve, reject) => {
+    let hasAudio = false;
+    let command = ffmpeg(inputPath).noVideo().output(outputPath);
+
+    command = output === 'transcription'
+      ? command.audioCodec('pcm_s16le').audioChannels(1).audioFrequency(16000)
+      : command.audioCodec('libopus').audioBitrate('128k');
+
+    command
+      .on('codecData', (data) => {
+        hasAudio = Boolean(data.audio);
+      })
+      .on('end', () => resolve(true))
+      .on('error', (error) => (hasAudio ? reject(error) : resolve(false)))
+      .run();
+  });
+
+// Extracts an audio file and stores it under audio/<recordingId>/, returning its key
+const storeExtractedAudio = async (
+  recordingId: string,
+  inputPath: string,
+  name: string,
+  output: keyof typeof AUDIO_OUTPUTS
+): Promise<string | null> => {
+  const { extension, mimeType } = AUDIO_OUTPUTS[output];
+  const outputPath = path.join(TEMP_DIR, `${uuidv4()}${extension}`);
+
+  try {
+    if (!(await extractAudio(inputPath, outputPath, output))) {
+      return null;
+    }
+    const key = `audio/${recordingId}/${name}-${Date.now()}${extension}`;
+    await putObject(key, await fs.readFile(outputPath), mimeType);
+    return key;
+  } finally {
+    await fs.unlink(outputPath).catch(() => {});
+  }
+};
+
+// Re-encodes an upload into the mezzanine file every later step reads: H.264 at a constant
+// frame rate with a keyframe each second, indexed up front. MediaRecorder webm has a variable
+// frame rate and often no duration or cues, which makes seeking in it slow and inexact.
+const createMezzanine = (inputPath: string, outputPath: string, frameRate: number) =>
+  new Promise<void>((resolve, reject) => {
+    ffmpeg(inputPath)
+      // Frames are duplicated or dropped in place, so the timeline stays that of the capture
+      .videoFilters([`fps=${frameRate}`, 'scale=trunc(iw/2)*2:trunc(ih/2)*2'])
+      .videoCodec('libx264')
+      .audioFilters('aresample=async=1')
+      .audioCodec('aac')
+      .audioBitrate('192k')
+      .outputOptions([
+        '-preset', 'veryfast',
+        '-crf', '18',
+        '-pix_fmt', 'yuv420p',
+        '-g', `${frameRate}`,
+        '-keyint_min', `${frameRate}`,
+        '-sc_threshold', '0',
+        '-movflags', '+faststart'
+      ])
+      .output(outputPath)
+      .on('end', () => resolve())
+      .on('error', reject)
+      .run();
+  });
+
+// Extracts the transcription audio of an uploaded audio track. Updates are atomic because
+// track uploads and screen processing run as separate jobs.
+export const processTrack = async (recordingId: string, kind: TrackKind): Promise<any> => {
+  const recording = await Recording.findById(recordingId);
+  const track = recording?.tracks.find(track => track.kind === kind);
+  if (!recording || !track) {
+    throw new Error(`Recording ${recordingId} has no ${kind} track`);
+  }
+
+  const tempTrackPath = await downloadToTempFile(track.key, path.extname(track.key) || '.webm');
+
+  try {
+    const audioKey = await storeExtractedAudio(recordingId, tempTrackPath, kind, 'transcription');
+    if (!audioKey) {
+      throw new Error(`The ${kind} track of recording ${recordingId} has no audio`);
+    }
+
+    // Narration comes from the microphone whenever there is one
+    await Recording.updateOne(
+      { _id: recordingId, 'tracks.key': track.key },
+      {
+        $set: {
+          'tracks.$.audioKey': audioKey,
+          ...(kind === 'microphone' && { audioKey })
+        }
+      }
+    );
+
+    return { recordingId, kind, audioKey, status: 'completed' };
+  } finally {
+    await fs.unlink(tempTrackPath).catch(() => {});
+  }
+};
+
 export const processVideo = async (
   recordingId: string,
-  videoUrl: string,
+  videoKey: string,
   uiEvents: any[],
   progressCallback: (progress: number) => void
 ): Promise<any> => {
@@ -29,22 +239,39 @@ export const processVideo = async (
     progressCallback(20);
 
     // Download video file
-    const videoResponse = await axios.get(videoUrl, { responseType: 'stream' });
-    const tempVideoPath = path.join(TEMP_DIR, `${uuidv4()}.mp4`);
-    const videoStream = require('fs').createWriteStream(tempVideoPath);
-    
-    videoResponse.data.pipe(videoStream);
-    await new Promise((resolve, reject) => {
-      videoStream.on('finish', resolve);
-      videoStream.on('error', reject);
-    });
+    const tempVideoPath = await downloadToTempFile(videoKey, path.extname(videoKey) || '.webm');
+
+    // Recordings ingested before probing was added only have the client's metadata
+    if (!recording.media) {
+      const media = await probeMedia(tempVideoPath);
+      if (media?.video) {
+        await Recording.updateOne({ _id: recordingId }, {
+          $set: {
+            media,
+            duration: media.duration || recording.duration,
+            resolution: { width: media.video.width, height: media.video.height }
+          }
+        });
+      }
+    }
 
-    progressCallback(40);
+    progressCallback(30);
+
+    // The mezzanine runs at the project's capture frame rate
+    const project = await Project.findById(recording.project).select('settings.frameRate');
+    const mezzaninePath = path.join(TEMP_DIR, `${uuidv4()}.mp4`);
+    await createMezzanine(tempVideoPath, mezzaninePath, project?.settings?.frameRate || 30);
+
+    const processedVideoKey = `processed/${recordingId}/${Date.now()}.mp4`;
+    const { size: mezzanineSize } = await fs.stat(mezzaninePath);
+    await putObject(processedVideoKey, createReadStream(mezzaninePath), 'video/mp4', mezzanineSize);
+
+    progressCallback(50);
 
     // Generate thumbnail
     const thumbnailPath = path.join(TEMP_DIR, `${uuidv4()}.jpg`);
     await new Promise((resolve, reject) => {
-      ffmpeg(tempVideoPath)
+      ffmpeg(mezzaninePath)
         .screenshots({
           timestamps: ['10%'],
           filename: path.basename(thumbnailPath),
@@ -57,52 +284,85 @@ export const processVideo = async (
 
     progressCallback(60);
 
-    // Upload thumbnail to S3
+    // Upload thumbnail to storage
     const thumbnailBuffer = await fs.readFile(thumbnailPath);
     const thumbnailKey = `thumbnails/${recordingId}/${Date.now()}.jpg`;
-    const thumbnailUrl = await uploadToS3(thumbnailBuffer, thumbnailKey, 'image/jpeg');
+    await putObject(thumbnailKey, thumbnailBuffer, 'image/jpeg');
 
-    progressCallback(80);
+    progressCallback(70);
 
-    // Extract audio from video
-    const audioPath = path.join(TEMP_DIR, `${uuidv4()}.wav`);
-    await new Promise((resolve, reject) => {
-      ffmpeg(tempVideoPath)
-        .output(audioPath)
-        .audioCodec('pcm_s16le')
-        .audioChannels(1)
-        .audioFrequency(16000)
-        .on('end', resolve)
-        .on('error', reject);
-    });
+    // The screen file only carries system audio; split it into its own track
+    const systemAudioKey = await storeExtractedAudio(recordingId, tempVideoPath, 'systemAudio', 'playback');
+    const systemTranscriptionKey = systemAudioKey &&
+      await storeExtractedAudio(recordingId, tempVideoPath, 'systemAudio', 'transcription');
+
+    if (systemAudioKey) {
+      const previous = recording.tracks.find(track => track.kind === 'systemAudio');
+      await Recording.updateOne({ _id: recordingId }, { $pull: { tracks: { kind: 'systemAudio' } } });
+      await Recording.updateOne({ _id: recordingId }, {
+        $push: {
+          tracks: {
+            kind: 'systemAudio',
+            key: systemAudioKey,
+            mimeType: AUDIO_OUTPUTS.playback.mimeType,
+            offset: 0,
+            audioKey: systemTranscriptionKey,
+            muted: previous?.muted ?? false
+          }
+        }
+      });
+      // A retried job replaces the track extracted by the previous attempt
+      for (const key of [previous?.key, previous?.audioKey].filter((key): key is string => Boolean(key))) {
+        await deleteObject(key).catch(() => {});
+      }
+    }
 
-    // Upload audio to S3
-    const audioBuffer = await fs.readFile(audioPath);
-    const audioKey = `audio/${recordingId}/${Date.now()}.wav`;
-    const audioUrl = await uploadToS3(audioBuffer, audioKey, 'audio/wav');
+    progressCallback(80);
+
+    // Microphone tracks uploaded before this job ran are extracted here, later ones by their own job
+    const microphone = recording.tracks.find(track => track.kind === 'microphone');
+    if (microphone && !microphone.audioKey) {
+      await processTrack(recordingId, 'microphone');
+    }
 
     progressCallback(90);
 
-    // Update recording with processed data
-    recording.thumbnailUrl = thumbnailUrl;
-    recording.audioUrl = audioUrl;
-    recording.processingStatus = 'completed';
-    recording.processingProgress = 100;
-    await recording.save();
+    await Recording.updateOne({ _id: recordingId }, {
+      $set: {
+        processedVideoKey,
+        thumbnailKey,
+        processingStatus: 'completed',
+        processingProgress: 100
+      }
+    });
+
+    // System audio is only the narration source for recordings without a microphone track
+    if (systemTranscriptionKey) {
+      await Recording.updateOne(
+        { _id: recordingId, tracks: { $not: { $elemMatch: { kind: 'microphone', audioKey: { $exists: true } } } } },
+        { $set: { audioKey: systemTranscriptionKey } }
+      );
+    }
+
+    // A retried job replaces the mezzanine and thumbnail of the previous attempt
+    for (const key of [recording.processedVideoKey, recording.thumbnailKey].filter((key): key is string => Boolean(key))) {
+      await deleteObject(key).catch(() => {});
+    }
 
     // Cleanup temp files
     await Promise.all([
       fs.unlink(tempVideoPath).catch(() => {}),
-      fs.unlink(thumbnailPath).catch(() => {}),
-      fs.unlink(audioPath).catch(() => {})
+      fs.unlink(mezzaninePath).catch(() => {}),
+      fs.unlink(thumbnailPath).catch(() => {})
     ]);
 
     progressCallback(100);
 
     return {
       recordingId,
-      thumbnailUrl,
-      audioUrl,
+      processedVideoKey,
+      thumbnailKey,
+      systemAudioKey,
       status: 'completed'
     };
   } catch (error) {
@@ -133,7 +393,7 @@ export const generateAudio = async (
       throw new Error('Recording not found');
     }
 
-    const audioUrls: string[] = [];
+    const audioKeys: string[] = [];
     const totalSegments = segments.length;
 
     for (let i = 0; i < segments.length; i++) {
@@ -162,21 +422,21 @@ export const generateAudio = async (
         }
       );
 
-      // Upload segment audio to S3
+      // Upload segment audio to storage
       const audioKey = `segments/${recordingId}/${segment.id}.mp3`;
-      const audioUrl = await uploadToS3(
-        Buffer.from(audioResponse.data),
+      await putObject(
         audioKey,
+        Buffer.from(audioResponse.data),
         'audio/mpeg'
       );
 
-      audioUrls.push(audioUrl);
-      segment.audioUrl = audioUrl;
+      audioKeys.push(audioKey);
+      segment.audioKey = audioKey;
     }
 
     progressCallback(90);
 
-    // Update recording with generated audio URLs
+    // Update recording with generated audio keys
     recording.script.segments = segments;
     await recording.save();
 
@@ -186,7 +446,7 @@ export const generateAudio = async (
       recordingId,
       segments: segments.map((seg, index) => ({
         ...seg,
-        audioUrl: audioUrls[index]
+        audioKey: audioKeys[index]
       })),
       status: 'completed'
     };
@@ -210,16 +470,23 @@ export const exportVideo = async (
 
     progressCallback(10);
 
-    // Download original video
-    const videoResponse = await axios.get(recording.originalVideoUrl, { responseType: 'stream' });
-    const tempVideoPath = path.join(TEMP_DIR, `${uuidv4()}.mp4`);
-    const videoStream = require('fs').createWriteStream(tempVideoPath);
-    
-    videoResponse.data.pipe(videoStream);
-    await new Promise((resolve, reject) => {
-      videoStream.on('finish', resolve);
-      videoStream.on('error', reject);
-    });
+    // Exports read the mezzanine; recordings still being processed fall back to the upload
+    const videoKey = recording.processedVideoKey || recording.originalVideoKey;
+    if (!videoKey) {
+      throw new Error('Recording has no stored video');
+    }
+
+    let tempWebcamPath: string | null = null;
+    const tempAudioPaths: string[] = [];
+    const tempPunchInPaths: string[] = [];
+    const tempAnnotationPaths: string[] = [];
+    const tempCursorPaths: string[] = [];
+    const tempKeystrokePaths: string[] = [];
+    let metadataPath: string | null = null;
+    let subtitlePath: string | null = null;
+
+    // Download the source video
+    const tempVideoPath = await downloadToTempFile(videoKey, path.extname(videoKey) || '.webm');
 
     progressCallback(30);
 
@@ -227,81 +494,242 @@ export const exportVideo = async (
     
     // Create ffmpeg command
     let command = ffmpeg(tempVideoPath);
+    let inputCount = 1;
+
+    const project = await Project.findById(recording.project)
+      .select('settings.clickEffects settings.cursor settings.keystrokes settings.typingSpeedUp');
+    const punchIns = [...recording.punchIns].sort((a, b) => a.startTime - b.startTime);
+    const punchInRanges = punchIns.map(({ startTime, endTime }) => ({ startTime, endTime }));
+
+    // Recordings made before tracks were split still carry their audio in the screen file,
+    // which is passed through as-is and not spliced for punch-ins
+    const hasSeparateAudio = recording.tracks.some(track => AUDIO_TRACK_KINDS.includes(track.kind));
+
+    // Accepted idle ranges are cut or sped up once everything is composed, so effects and
+    // overlays keep the recording's timeline and everything timed after that is remapped.
+    // Long runs of typing are sped up the same way.
+    const typingSpeedUp = project?.settings?.typingSpeedUp;
+    let typingSpans = typingSpeedUp?.enabled ? typingRuns(recording.uiEvents, typingSpeedUp.minKeys, punchInRanges) : [];
+    // Narration kept at its normal speed only fits under typing it is quiet over
+    if (typingSpeedUp?.audio === 'narration' && recording.audioKey && typingSpans.length > 0) {
+      const narration = recording.tracks.find(track => track.audioKey && track.audioKey === recording.audioKey);
+      const silences = await detectStoredSilence(recording.audioKey, narration?.offset ?? 0, recording.duration, {
+        noise: NARRATION_NOISE,
+        minDuration: MIN_QUIET_TYPING
+      });
+      typingSpans = quietTyping(typingSpans, silences);
+    }
+    const typingRanges = typingSpeedUp ? typingSpans.flatMap(run => speedRamp(run, typingSpeedUp)) : [];
+    const timedRanges = [...recording.idleRanges, ...typingRanges];
+    const pieces = isRetimed(timedRanges) ? timelinePieces(timedRanges, recording.duration) : null;
+    const retime = (time: number) => (pieces ? remapTime(pieces, time) : time);
+    const outputDuration = retime(recording.duration);
+    // Retimed audio has to go through the graph, which cannot take a stream that may be missing
+    const hasScreenAudio = !hasSeparateAudio && format !== 'gif';
+    const graph = createFilterGraph({ audio: hasScreenAudio && !pieces ? '0:a?' : null });
+    if (hasScreenAudio && pieces && recording.media?.audio) {
+      graph.addAudioSource('0:a');
+    }
 
-    // Apply visual effects
-    if (recording.visualEffects.length > 0) {
-      const filters: string[] = [];
-      
-      recording.visualEffects.forEach((effect, index) => {
-        const startTime = effect.startTime;
-        const endTime = effect.endTime;
-        
-        switch (effect.type) {
-          case 'blur':
-            if (effect.coordinates) {
-              const { x, y, width, height } = effect.coordinates;
-              filters.push(
-                `[0:v]crop=${width}:${height}:${x}:${y},boxblur=10:1[blurred${index}];` +
-                `[0:v][blurred${index}]overlay=${x}:${y}:enable='between(t,${startTime},${endTime})'[v${index}]`
-              );
-            }
-            break;
-          case 'zoom':
-            if (effect.coordinates) {
-              const { x, y, width, height } = effect.coordinates;
-              const scale = effect.properties?.scale || 1.5;
-              filters.push(
-                `[0:v]crop=${width}:${height}:${x}:${y},scale=${width * scale}:${height * scale}[zoomed${index}];` +
-                `[0:v][zoomed${index}]overlay=${x - (width * (scale - 1)) / 2}:${y - (height * (scale - 1)) / 2}:enable='between(t,${startTime},${endTime})'[v${index}]`
-              );
-            }
-            break;
-          case 'highlight':
-            if (effect.coordinates) {
-              const { x, y, width, height } = effect.coordinates;
-              filters.push(
-                `[0:v]drawbox=x=${x}:y=${y}:w=${width}:h=${height}:color=yellow@0.3:t=3:enable='between(t,${startTime},${endTime})'[v${index}]`
-              );
-            }
-            break;
+    // Re-recorded sections are spliced in before anything else so every later step sees one timeline
+    const punchInInputs: number[] = [];
+    for (const punchIn of punchIns) {
+      const tempPunchInPath = await downloadToTempFile(punchIn.key, path.extname(punchIn.key) || '.webm');
+      tempPunchInPaths.push(tempPunchInPath);
+      command = command.input(tempPunchInPath);
+      punchInInputs.push(inputCount++);
+    }
+    if (punchIns.length > 0) {
+      graph.addVideoStage(spliceStage(punchIns, punchInInputs.map(input => `${input}:v`), recording.resolution, recording.duration));
+    }
+
+    // Cropping comes next, so effect coordinates and the overlay are relative to the kept region
+    const { crop } = recording;
+    const frame = crop ? { width: crop.width, height: crop.height } : recording.resolution;
+    if (crop) {
+      graph.addVideoStage(cropStage(crop));
+    }
+
+    const frameRate = options.frameRate || (format === 'gif' ? 15 : 30);
+    const origin = crop || { x: 0, y: 0 };
+
+    // A drawn cursor replaces the captured one, which is blurred out before any effect is drawn
+    // over it. Re-recorded sections have their own pointer, which was not sampled.
+    const cursorSettings = project?.settings?.cursor;
+    const cursor = cursorSettings?.enabled ? cursorImage(cursorSettings, frame) : null;
+    const mask = maskSize(recording.resolution, frame);
+    const cursorPlan = cursor && cursorCommands(
+      pointerSamples(recording.uiEvents, origin, frame),
+      cursorSettings!,
+      cursor,
+      frame,
+      mask,
+      { duration: recording.duration, frameRate },
+      punchInRanges
+    );
+    const writeCommands = async (commands: string) => {
+      const commandPath = path.join(TEMP_DIR, `${uuidv4()}.cmd`);
+      tempCursorPaths.push(commandPath);
+      await fs.writeFile(commandPath, commands);
+      return commandPath;
+    };
+    if (cursorPlan) {
+      graph.addVideoStage(cursorMaskStage(await writeCommands(cursorPlan.mask), mask));
+    }
+
+    // Effects are drawn in the order they were added, each over the ones before it, and
+    // follow their keyframes frame by frame
+    for (const effect of recording.visualEffects) {
+      if (effect.type === 'annotation' && effect.coordinates?.width) {
+        const imagePath = path.join(TEMP_DIR, `${uuidv4()}.png`);
+        tempAnnotationPaths.push(imagePath);
+        const animation = annotationAnimation(effect, annotationProperties(effect.properties).opacity);
+        const style = await renderAnnotation(effect, frame, imagePath, animation?.opacity ? 1 : undefined);
+        command = command.input(imagePath).inputOptions(['-loop', '1', '-t', `${effect.endTime}`]);
+        graph.addVideoStage(annotationStage(`${inputCount++}:v`, effect, style, animation));
+        continue;
+      }
+      const stage = effectStage(effect, frame, frameRate);
+      if (stage) {
+        graph.addVideoStage(stage);
+      }
+    }
+
+    // Clicks are marked over the effects, so the camera zooms in on the marks too. Clicks are
+    // recorded in full-frame pixels, and those outside the crop or in a re-recorded section
+    // did not happen in the exported picture.
+    const clickEffects = project?.settings?.clickEffects;
+    if (clickEffects?.enabled) {
+      for (const event of recording.uiEvents) {
+        if (event.type !== 'click' || !event.coordinates) continue;
+
+        const x = event.coordinates.x - origin.x;
+        const y = event.coordinates.y - origin.y;
+        const isInFrame = x >= 0 && y >= 0 && x <= frame.width && y <= frame.height;
+        const isPunchedIn = punchInRanges.some(range => event.timestamp >= range.startTime && event.timestamp < range.endTime);
+        if (isInFrame && !isPunchedIn) {
+          graph.addVideoStage(clickEffectStage({ time: event.timestamp, x, y }, clickEffects, frameRate));
         }
-      });
+      }
+    }
+
+    // The cursor goes over the click marks
+    if (cursor && cursorPlan) {
+      const imagePath = path.join(TEMP_DIR, `${uuidv4()}.png`);
+      tempCursorPaths.push(imagePath);
+      await renderCursor(cursor, imagePath);
+      command = command.input(imagePath).inputOptions(['-loop', '1', '-t', `${recording.duration}`]);
+      graph.addVideoStage(cursorStage(`${inputCount++}:v`, await writeCommands(cursorPlan.cursor)));
+    }
+
+    // Zooms move a virtual camera over everything drawn so far; the webcam stays put
+    const zooms = recording.visualEffects.filter(effect => effect.type === 'zoom' && effect.coordinates?.width);
+    if (zooms.length > 0) {
+      graph.addVideoStage(cameraStage(cameraKeyframes(zooms, frame), frame, frameRate));
+    }
+
+    // Key presses are shown as keycaps over the camera, so zooms leave them in place. Every
+    // caption is a frame-sized image, shown in turn from one concat input; keys pressed in a
+    // re-recorded section were not pressed in the exported picture.
+    const keystrokes = project?.settings?.keystrokes;
+    const eventsInPicture = recording.uiEvents.filter(event =>
+      !punchInRanges.some(range => event.timestamp >= range.startTime && event.timestamp < range.endTime));
+    const captions = keystrokes?.enabled ? keystrokeCaptions(eventsInPicture, keystrokes) : [];
+    if (captions.length > 0) {
+      const images = new Map<string, string>();
+      const renderCaption = async (keys: string[]) => {
+        const svg = buildKeystrokeSvg({ keys }, keystrokes!, frame);
+        if (!images.has(svg)) {
+          const imagePath = path.join(TEMP_DIR, `${uuidv4()}.png`);
+          tempKeystrokePaths.push(imagePath);
+          await renderKeystrokeCaption(svg, imagePath);
+          images.set(svg, imagePath);
+        }
+        return images.get(svg)!;
+      };
+
+      const shown = [];
+      for (const caption of captions) {
+        shown.push({ ...caption, image: await renderCaption(caption.keys) });
+      }
+      const concatPath = path.join(TEMP_DIR, `${uuidv4()}.ffconcat`);
+      tempKeystrokePaths.push(concatPath);
+      await fs.writeFile(concatPath, keystrokeConcat(shown, await renderCaption([]), recording.duration));
+      command = command.input(concatPath).inputOptions(['-f', 'concat', '-safe', '0']);
+      graph.addVideoStage(overlayStage(`${inputCount++}:v`, ['format=rgba'], { x: '0', y: '0' }));
+    }
 
-      if (filters.length > 0) {
-        command = command.complexFilter(filters.join(';'));
+    // Composite the presenter webcam on top of the screen
+    const webcamTrack = recording.tracks.find(track => track.kind === 'webcam');
+    if (webcamTrack && recording.webcamOverlay?.enabled) {
+      tempWebcamPath = await downloadToTempFile(webcamTrack.key, path.extname(webcamTrack.key) || '.webm');
+      command = command.input(tempWebcamPath);
+      if (webcamTrack.offset > 0) {
+        command = command.inputOptions(['-itsoffset', `${webcamTrack.offset}`]);
       }
+      const webcamInput = inputCount++;
+      // The presenter was not filmed again for punch-ins, so their old webcam footage is hidden there
+      const hiddenRanges = [...recording.webcamOverlay.hiddenRanges, ...punchInRanges];
+      graph.addVideoStage(webcamOverlayStage(recording.webcamOverlay, hiddenRanges, frame, `${webcamInput}:v`));
+    }
+
+    // Mix the unmuted audio tracks, each delayed to where it starts in the recording
+    const audioTracks = recording.tracks.filter(track => AUDIO_TRACK_KINDS.includes(track.kind) && !track.muted);
+    if (format !== 'gif') {
+      // The original tracks fall silent wherever a punch-in replaces the section
+      const silence = punchInRanges
+        .map(range => `between(t,${range.startTime},${range.endTime})`)
+        .join('+');
+      for (const track of audioTracks) {
+        const tempAudioPath = await downloadToTempFile(track.key, path.extname(track.key) || '.webm');
+        tempAudioPaths.push(tempAudioPath);
+        command = command.input(tempAudioPath);
+        graph.addAudioSource(`${inputCount++}:a`, [
+          `adelay=${Math.round(track.offset * 1000)}:all=1`,
+          ...(silence ? [`volume=0:enable='${silence}'`] : [])
+        ]);
+      }
+      if (hasSeparateAudio) {
+        punchIns.forEach((punchIn, index) => {
+          if (!punchIn.hasAudio) return;
+          graph.addAudioSource(`${punchInInputs[index]}:a`, [
+            `atrim=duration=${punchIn.endTime - punchIn.startTime}`,
+            'asetpts=PTS-STARTPTS',
+            `adelay=${Math.round(punchIn.startTime * 1000)}:all=1`
+          ]);
+        });
+      }
+    }
+
+    if (pieces) {
+      graph.addVideoStage(retimeStage(pieces));
+      graph.addAudioStage(retimeAudioStage(pieces));
     }
 
     progressCallback(50);
 
     // Configure output based on format
+    const size = (fallback: string) => outputSize(options.resolution, Boolean(crop), fallback);
     switch (format) {
       case 'mp4':
-        command = command
-          .videoCodec('libx264')
-          .audioCodec('aac')
-          .size(options.resolution || '1920x1080')
-          .fps(options.frameRate || 30);
+        command = command.videoCodec('libx264').audioCodec('aac');
+        graph.addVideoStage(outputStage(size('1920x1080'), frameRate));
         break;
       case 'gif':
-        command = command
-          .videoCodec('gif')
-          .size(options.resolution || '800x600')
-          .fps(options.frameRate || 15);
+        command = command.videoCodec('gif');
+        graph.addVideoStage(outputStage(size('800x600'), frameRate));
         break;
       case 'webm':
-        command = command
-          .videoCodec('libvpx-vp9')
-          .audioCodec('libvorbis')
-          .size(options.resolution || '1920x1080')
-          .fps(options.frameRate || 30);
+        command = command.videoCodec('libvpx-vp9').audioCodec('libvorbis');
+        graph.addVideoStage(outputStage(size('1920x1080'), frameRate));
         break;
     }
 
-    // Add subtitles if available
+    // Subtitles are burned in at the output size so the text stays sharp
     if (recording.subtitles.length > 0) {
-      const subtitlePath = path.join(TEMP_DIR, `${uuidv4()}.srt`);
-      const srtContent = recording.subtitles
+      subtitlePath = path.join(TEMP_DIR, `${uuidv4()}.srt`);
+      const subtitles = recording.subtitles.map(({ text, startTime, endTime }) => ({ text, startTime, endTime }));
+      const srtContent = (pieces ? remapRanges(pieces, subtitles) : subtitles)
         .map((sub, index) => {
           const startTime = formatTime(sub.startTime);
           const endTime = formatTime(sub.endTime);
@@ -310,9 +738,33 @@ export const exportVideo = async (
         .join('\n');
       
       await fs.writeFile(subtitlePath, srtContent);
-      command = command.addOption('-vf', `subtitles=${subtitlePath}`);
+      graph.addVideoStage(subtitlesStage(subtitlePath));
+    }
+
+    // Markers become chapters; gif has no container support for them
+    if (options.chapters && format !== 'gif' && recording.markers.length > 0) {
+      metadataPath = path.join(TEMP_DIR, `${uuidv4()}.txt`);
+      const markers = recording.markers.map(({ time, label, source }) => ({ time: retime(time), label, source }));
+      await fs.writeFile(metadataPath, buildChapterMetadata(markers, outputDuration));
+      command = command.input(metadataPath);
+      command = command.outputOptions(['-map_chapters', `${inputCount++}`]);
     }
 
+    // Trimming happens on the output so effects keep their original timeline; the trim points
+    // are given on it too
+    if (options.startTime) {
+      command = command.outputOptions(['-ss', `${retime(options.startTime)}`]);
+    }
+    if (options.endTime) {
+      command = command.outputOptions(['-to', `${retime(options.endTime)}`]);
+    }
+
+    const { graph: filterGraph, maps } = graph.build();
+    if (filterGraph) {
+      command = command.complexFilter(filterGraph);
+    }
+    command = command.outputOptions(maps);
+
     progressCallback(70);
 
     // Execute ffmpeg command
@@ -330,24 +782,36 @@ export const exportVideo = async (
 
     progressCallback(95);
 
-    // Upload exported video to S3
+    // Upload exported video to storage
     const exportedBuffer = await fs.readFile(outputPath);
     const exportKey = `exports/${recordingId}/${Date.now()}.${format}`;
-    const exportUrl = await uploadToS3(exportedBuffer, exportKey, `video/${format}`);
+    await putObject(exportKey, exportedBuffer, format === 'gif' ? 'image/gif' : `video/${format}`);
 
     // Cleanup temp files
     await Promise.all([
       fs.unlink(tempVideoPath).catch(() => {}),
-      fs.unlink(outputPath).catch(() => {})
+      fs.unlink(outputPath).catch(() => {}),
+      tempWebcamPath && fs.unlink(tempWebcamPath).catch(() => {}),
+      metadataPath && fs.unlink(metadataPath).catch(() => {}),
+      subtitlePath && fs.unlink(subtitlePath).catch(() => {}),
+      ...tempAudioPaths.map(tempAudioPath => fs.unlink(tempAudioPath).catch(() => {})),
+      ...tempPunchInPaths.map(tempPunchInPath => fs.unlink(tempPunchInPath).catch(() => {})),
+      ...tempAnnotationPaths.map(tempAnnotationPath => fs.unlink(tempAnnotationPath).catch(() => {})),
+      ...tempCursorPaths.map(tempCursorPath => fs.unlink(tempCursorPath).catch(() => {})),
+      ...tempKeystrokePaths.map(tempKeystrokePath => fs.unlink(tempKeystrokePath).catch(() => {}))
     ]);
 
     progressCallback(100);
 
+    // Script segments are not part of the file, so their times in it are returned instead
+    const segments = recording.script.segments.map(({ id, text, startTime, endTime }) => ({ id, text, startTime, endTime }));
     return {
       recordingId,
       format,
-      exportUrl,
+      exportKey,
       fileSize: exportedBuffer.length,
+      duration: outputDuration,
+      script: pieces ? remapRanges(pieces, segments) : segments,
       status: 'completed'
     };
   } catch (error) {
@@ -356,6 +820,23 @@ export const exportVideo = async (
   }
 };
 
+// Writes markers as an FFMETADATA chapter list, each chapter running until the next marker.
+// Times stay on the recording's timeline; ffmpeg shifts and drops them when trimming.
+const buildChapterMetadata = (markers: IRecordingMarker[], duration: number): string => {
+  const escape = (value: string) => value.replace(/([=;#\\\n])/g, '\\$1');
+  const sorted = [...markers]
+    .sort((a, b) => a.time - b.time)
+    .filter(marker => marker.time < duration);
+
+  const chapters = sorted.map((marker, index) => {
+    const start = Math.round(marker.time * 1000);
+    const end = Math.round((sorted[index + 1]?.time ?? duration) * 1000);
+    return `[CHAPTER]\nTIMEBASE=1/1000\nSTART=${start}\nEND=${end}\ntitle=${escape(marker.label)}\n`;
+  });
+
+  return `;FFMETADATA1\n${chapters.join('')}`;
+};
+
 // Helper function to format time for SRT subtitles
 const formatTime = (seconds: number): string => {
   const hours = Math.floor(seconds / 3600);
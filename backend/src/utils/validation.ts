@@ -0,0 +1,26 @@
+import Joi from 'joi';
+
+// Shared by the single-request and resumable recording upload routes
+export const uiEventValidationSchema = Joi.object({
+  type: Joi.string().valid('click', 'keypress', 'hover', 'scroll', 'navigation', 'move').required(),
+  timestamp: Joi.number().required(),
+  coordinates: Joi.object({
+    x: Joi.number(),
+    y: Joi.number()
+  }).optional(),
+  element: Joi.string().allow('').optional(),
+  value: Joi.string().allow('').optional(),
+  metadata: Joi.object().optional()
+});
+
+export const markerValidationSchema = Joi.object({
+  time: Joi.number().min(0).required(),
+  label: Joi.string().max(200).required(),
+  source: Joi.string().valid('teleprompter', 'manual').required(),
+  segmentId: Joi.string().optional()
+});
+
+export const resolutionValidationSchema = Joi.object({
+  width: Joi.number().required(),
+  height: Joi.number().required()
+});
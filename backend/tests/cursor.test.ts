@@ -0,0 +1,95 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  cursorCommands,
+  cursorImage,
+  hiddenRanges,
+  pointerPath,
+  pointerSamples,
+  positionAt,
+  smoothPath
+} from '../src/services/cursor.js';
+
+describe('pointerSamples', () => {
+  it('moves positions into the cropped frame and pins clicks', () => {
+    const samples = pointerSamples([
+      { type: 'click', timestamp: 2, coordinates: { x: 150, y: 80 } },
+      { type: 'move', timestamp: 1, coordinates: { x: 110, y: 60 } },
+      { type: 'move', timestamp: 1.5, coordinates: { x: 20, y: 60 } },
+      { type: 'keypress', timestamp: 1.7, value: 'a' }
+    ], { x: 100, y: 50 }, { width: 640, height: 360 });
+
+    expect(samples).toEqual([
+      { time: 1, x: 10, y: 10, pinned: false },
+      { time: 2, x: 50, y: 30, pinned: true }
+    ]);
+  });
+});
+
+describe('pointerPath', () => {
+  it('holds a resting pointer until just before it moves again', () => {
+    const path = pointerPath([
+      { time: 0, x: 100, y: 100 },
+      { time: 0.05, x: 101, y: 100 },
+      { time: 2, x: 200, y: 100 }
+    ]);
+
+    expect(path.map(({ time, x }) => [time, x])).toEqual([[0, 100], [1.95, 100], [2, 200]]);
+    expect(positionAt(path, 1)).toEqual({ x: 100, y: 100 });
+    expect(positionAt(path, 1.975).x).toBeGreaterThan(100);
+  });
+
+  it('only smooths the points that are not pinned', () => {
+    const smoothed = smoothPath([
+      { time: 0, x: 0, y: 0 },
+      { time: 0.05, x: 10, y: 10 },
+      { time: 0.1, x: 10, y: 0, pinned: true },
+      { time: 0.15, x: 30, y: 0 }
+    ], 0.5);
+
+    expect(smoothed[1]).toEqual({ time: 0.05, x: 7.5, y: 5 });
+    expect(smoothed[2]).toEqual({ time: 0.1, x: 10, y: 0, pinned: true });
+  });
+});
+
+describe('hiddenRanges', () => {
+  const path = [{ time: 1, x: 0, y: 0 }, { time: 1.5, x: 10, y: 0 }, { time: 4, x: 20, y: 0 }];
+
+  it('hides the cursor before it is seen and once it has rested for the idle delay', () => {
+    expect(hiddenRanges(path, { hideWhenIdle: true, idleDelay: 1 }, 6, [{ startTime: 5, endTime: 5.5 }])).toEqual([
+      { startTime: 5, endTime: 5.5 },
+      { startTime: 0, endTime: 1 },
+      { startTime: 2.5, endTime: 4 },
+      { startTime: 5, endTime: 6 }
+    ]);
+    expect(hiddenRanges(path, { hideWhenIdle: false, idleDelay: 1 }, 6)).toEqual([{ startTime: 0, endTime: 1 }]);
+  });
+
+  it('hides it throughout a recording without pointer positions', () => {
+    expect(hiddenRanges([], { hideWhenIdle: false, idleDelay: 1 }, 6)).toEqual([{ startTime: 0, endTime: 6 }]);
+  });
+});
+
+describe('cursorCommands', () => {
+  const settings = { enabled: true, theme: 'light' as const, size: 0.04, smoothing: 0.5, hideWhenIdle: true, idleDelay: 1 };
+  const frame = { width: 640, height: 360 };
+
+  it('moves the cursor by its hotspot and out of the frame while the pointer is idle', () => {
+    const image = cursorImage(settings, frame);
+    const commands = cursorCommands(
+      [{ time: 0.5, x: 100, y: 50 }, { time: 3, x: 300, y: 50 }],
+      settings,
+      image,
+      frame,
+      40,
+      { duration: 3, frameRate: 10 }
+    )!;
+    const lines = commands.cursor.split('\n');
+
+    expect(image.hotspot).toEqual({ x: 1, y: 1 });
+    expect(lines[0]).toBe('0.000 overlay@cursor x 640, overlay@cursor y 360;');
+    expect(lines[1]).toBe('0.500 overlay@cursor x 99, overlay@cursor y 49;');
+    expect(lines[2]).toBe('1.500 overlay@cursor x 640, overlay@cursor y 360;');
+    expect(lines[3]).toBe('3.000 overlay@cursor x 299, overlay@cursor y 49;');
+    expect(commands.mask.split('\n')[1]).toBe('0.500 overlay@cursormask x 90, overlay@cursormask y 42;');
+  });
+});
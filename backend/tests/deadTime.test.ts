@@ -0,0 +1,93 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  findIdleRanges,
+  isRetimed,
+  mergeIdleRanges,
+  parseSilence,
+  remapRanges,
+  remapTime,
+  timelinePieces
+} from '../src/services/deadTime.js';
+
+describe('findIdleRanges', () => {
+  it('keeps the silences without activity, inside a margin', () => {
+    const log = [
+      '[silencedetect @ 0x1] silence_start: 1.5',
+      '[silencedetect @ 0x1] silence_end: 6 | silence_duration: 4.5',
+      '[silencedetect @ 0x1] silence_start: 9'
+    ].join('\n');
+    const silences = parseSilence(log, 0.5, 12);
+    expect(silences).toEqual([
+      { startTime: 0, endTime: 0.5 },
+      { startTime: 2, endTime: 6.5 },
+      { startTime: 9.5, endTime: 12 }
+    ]);
+
+    const events = [{ type: 'click' as const, timestamp: 5 }];
+    expect(findIdleRanges(silences, events, { duration: 12, minDuration: 1 })).toEqual([
+      { startTime: 2.3, endTime: 4.2 },
+      { startTime: 9.8, endTime: 11.7 }
+    ]);
+  });
+
+  it('goes by the events alone without narration and leaves punch-ins out', () => {
+    const events = [{ type: 'click' as const, timestamp: 1 }, { type: 'keypress' as const, timestamp: 10 }];
+    expect(findIdleRanges(null, events, { duration: 12, minDuration: 2 })).toEqual([{ startTime: 2.3, endTime: 9.2 }]);
+    expect(findIdleRanges(null, events, {
+      duration: 12,
+      minDuration: 2,
+      excluded: [{ startTime: 4, endTime: 5 }]
+    })).toEqual([{ startTime: 5.3, endTime: 9.2 }]);
+  });
+});
+
+describe('mergeIdleRanges', () => {
+  it('keeps decided ranges and replaces the suggestions that do not overlap them', () => {
+    const merged = mergeIdleRanges([
+      { startTime: 0, endTime: 2, action: 'cut' as const, speed: 4 },
+      { startTime: 5, endTime: 6, action: 'suggested' as const, speed: 4 }
+    ], [{ startTime: 1, endTime: 3 }, { startTime: 8, endTime: 9 }]);
+
+    expect(merged).toEqual([
+      { startTime: 0, endTime: 2, action: 'cut', speed: 4 },
+      { startTime: 8, endTime: 9, action: 'suggested', speed: 4 }
+    ]);
+    expect(isRetimed(merged)).toBe(true);
+    expect(isRetimed(merged.slice(1))).toBe(false);
+  });
+});
+
+describe('timelinePieces', () => {
+  const pieces = timelinePieces([
+    { startTime: 6, endTime: 10, action: 'speed', speed: 4 },
+    { startTime: 2, endTime: 4, action: 'cut', speed: 4 },
+    { startTime: 11, endTime: 12, action: 'suggested', speed: 4 }
+  ], 20);
+
+  it('leaves cuts out and speeds up accepted ranges', () => {
+    expect(pieces).toEqual([
+      { startTime: 0, endTime: 2, speed: 1 },
+      { startTime: 4, endTime: 6, speed: 1 },
+      { startTime: 6, endTime: 10, speed: 4 },
+      { startTime: 10, endTime: 20, speed: 1 }
+    ]);
+    expect(remapTime(pieces, 3)).toBe(2);
+    expect(remapTime(pieces, 8)).toBe(4.5);
+    expect(remapTime(pieces, 20)).toBe(15);
+    expect(remapRanges(pieces, [
+      { text: 'kept', startTime: 1, endTime: 3 },
+      { text: 'cut', startTime: 2.5, endTime: 3.5 }
+    ])).toEqual([{ text: 'kept', startTime: 1, endTime: 2 }]);
+  });
+
+  it('lets the earlier of two overlapping ranges win and keeps the audio choice', () => {
+    expect(timelinePieces([
+      { startTime: 4, endTime: 8, action: 'cut', speed: 4 },
+      { startTime: 2, endTime: 6, action: 'speed', speed: 2, audio: 'narration' }
+    ], 10)).toEqual([
+      { startTime: 0, endTime: 2, speed: 1 },
+      { startTime: 2, endTime: 6, speed: 2, audio: 'narration' },
+      { startTime: 8, endTime: 10, speed: 1 }
+    ]);
+  });
+});
@@ -0,0 +1,113 @@
+import mongoose from 'mongoose';
+import exportRoutes from '../src/routes/export.js';
+import { Recording } from '../src/models/Recording.js';
+import { exportQueue } from '../src/services/queue.js';
+import { verifyScreenshotSignature } from '../src/services/screenshots.js';
+import { RouteApp, startRouteApp } from './routeApp.js';
+
+jest.mock('../src/services/storage.js', () => ({ getSignedUrl: jest.fn() }));
+jest.mock('../src/services/videoProcessor.js', () => ({ renderStoredFrame: jest.fn() }));
+jest.mock('../src/services/queue.js', () => ({ exportQueue: { add: jest.fn(async () => ({ id: 'job-1' })) } }));
+
+const userId = new mongoose.Types.ObjectId().toString();
+
+describe('export routes', () => {
+  let app: RouteApp;
+
+  beforeAll(async () => {
+    app = await startRouteApp(exportRoutes, userId);
+  });
+
+  afterAll(() => app.close());
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.mocked(exportQueue.add).mockClear();
+  });
+
+  // findById(...).populate(...) resolving to the recording
+  const findRecording = (recording: Record<string, unknown>) =>
+    jest.spyOn(Recording, 'findById').mockReturnValue({ populate: jest.fn().mockResolvedValue(recording) } as any);
+
+  const recording = (overrides: Record<string, unknown> = {}) => ({
+    _id: new mongoose.Types.ObjectId(),
+    project: { owner: userId, collaborators: [] },
+    isActiveTake: true,
+    processingStatus: 'completed',
+    duration: 20,
+    ...overrides
+  });
+
+  const post = (path: string, body: unknown) => fetch(`${app.url}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+  describe('POST /video', () => {
+    it('queues the export with the preset the exporter scales to', async () => {
+      const current = recording();
+      findRecording(current);
+
+      const res = await post('/video', { recordingId: current._id.toString(), format: 'mp4', options: { resolution: '4k' } });
+
+      expect(res.status).toBe(200);
+      expect(jest.mocked(exportQueue.add).mock.calls[0][1]).toMatchObject({
+        format: 'mp4',
+        options: { resolution: '4k', frameRate: 30 }
+      });
+    });
+
+    it('defaults to 1080p', async () => {
+      const current = recording();
+      findRecording(current);
+
+      await post('/video', { recordingId: current._id.toString(), format: 'mp4', options: {} });
+
+      expect(jest.mocked(exportQueue.add).mock.calls[0][1]).toMatchObject({ options: { resolution: '1080p' } });
+    });
+
+    it('rejects a resolution outside the presets', async () => {
+      const res = await post('/video', { recordingId: 'r1', format: 'mp4', options: { resolution: '1920x1080' } });
+
+      expect(res.status).toBe(400);
+      expect(exportQueue.add).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /article', () => {
+    const env = { ...process.env };
+
+    beforeEach(() => {
+      process.env.API_URL = 'https://api.test/';
+      process.env.JWT_SECRET = 'test-secret';
+    });
+
+    afterEach(() => {
+      process.env = { ...env };
+    });
+
+    it('links screenshots to signed stills that load without a token', async () => {
+      const current = recording({
+        title: 'Demo',
+        project: { owner: userId, collaborators: [], title: 'Project' },
+        uiEvents: [
+          { type: 'move', timestamp: 1 },
+          { type: 'click', timestamp: 2.5, element: 'Save' }
+        ],
+        script: { segments: [] }
+      });
+      findRecording(current);
+
+      const res = await post('/article', { recordingId: current._id.toString(), options: {} });
+      const { article } = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(article.content.steps).toEqual([expect.objectContaining({ action: 'Click on Save' })]);
+      const screenshot = new URL(article.content.steps[0].screenshot);
+      expect(`${screenshot.origin}${screenshot.pathname}`).toBe(`https://api.test/api/recordings/${current._id}/screenshot`);
+      expect(screenshot.searchParams.get('t')).toBe('2.5');
+      expect(verifyScreenshotSignature(current._id.toString(), 2.5, screenshot.searchParams.get('signature')!)).toBe(true);
+    });
+  });
+});
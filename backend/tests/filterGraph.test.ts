@@ -0,0 +1,388 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  annotationAnimation,
+  annotationStage,
+  blurStage,
+  cameraStage,
+  clickEffectStage,
+  createFilterGraph,
+  cropStage,
+  cursorMaskStage,
+  cursorStage,
+  effectStage,
+  highlightStage,
+  outputSize,
+  outputStage,
+  retimeAudioStage,
+  retimeStage,
+  spliceStage,
+  subtitlesStage,
+  webcamOverlayStage
+} from '../src/services/filterGraph.js';
+import { IPunchIn, IWebcamOverlay } from '../src/models/Recording.js';
+
+const region = { x: 10, y: 20, width: 100, height: 50 };
+
+const webcamOverlay: IWebcamOverlay = {
+  enabled: true,
+  shape: 'rectangle',
+  size: 0.2,
+  position: { x: 1, y: 1 },
+  hiddenRanges: [],
+  chromaKey: { enabled: false, color: '#00ff00', similarity: 0.3, blend: 0.1 }
+};
+
+describe('createFilterGraph', () => {
+  it('maps the inputs directly when nothing is added', () => {
+    expect(createFilterGraph().build()).toEqual({
+      graph: '',
+      videoOutput: '0:v',
+      audioOutput: null,
+      maps: ['-map', '0:v']
+    });
+    expect(createFilterGraph({ audio: '0:a?' }).build().maps).toEqual(['-map', '0:v', '-map', '0:a?']);
+  });
+
+  it('chains each stage on the output of the previous one', () => {
+    const graph = createFilterGraph();
+    graph.addVideoStage(blurStage(region, { startTime: 1, endTime: 2 }));
+    graph.addVideoStage(blurStage(region, { startTime: 3, endTime: 4 }, 5));
+
+    expect(graph.build()).toEqual({
+      graph:
+        '[0:v]split[base1][src1];' +
+        '[src1]crop=100:50:10:20,boxblur=10:1[blurred1];' +
+        "[base1][blurred1]overlay=10:20:enable='between(t,1,2)'[v1];" +
+        '[v1]split[base2][src2];' +
+        '[src2]crop=100:50:10:20,boxblur=5:1[blurred2];' +
+        "[base2][blurred2]overlay=10:20:enable='between(t,3,4)'[v2]",
+      videoOutput: '[v2]',
+      audioOutput: null,
+      maps: ['-map', '[v2]']
+    });
+  });
+
+  it('combines every kind of stage with mixed audio', () => {
+    const graph = createFilterGraph({ audio: '0:a?' });
+    graph.addVideoStage(cropStage({ x: 0, y: 0, width: 1280, height: 720 }));
+    graph.addVideoStage(blurStage(region, { startTime: 0, endTime: 5 }));
+    graph.addVideoStage(highlightStage(region, { startTime: 1, endTime: 3 }));
+    graph.addVideoStage(annotationStage('4:v', { startTime: 0, endTime: 2 }, { fadeIn: 0.5, fadeOut: 0 }));
+    graph.addVideoStage(webcamOverlayStage(webcamOverlay, [{ startTime: 6, endTime: 8 }], { width: 1280, height: 720 }, '1:v'));
+    graph.addVideoStage(outputStage('1920x1080', 30));
+    graph.addVideoStage(subtitlesStage('/tmp/captions.srt'));
+    graph.addAudioSource('2:a', ['adelay=0:all=1']);
+    graph.addAudioSource('3:a', ['adelay=500:all=1']);
+
+    const built = graph.build();
+
+    expect(built.graph.split(';')).toEqual([
+      '[0:v]crop=1280:720:0:0[v1]',
+      '[v1]split[base2][src2]',
+      '[src2]crop=100:50:10:20,boxblur=10:1[blurred2]',
+      "[base2][blurred2]overlay=10:20:enable='between(t,0,5)'[v2]",
+      "[v2]drawbox=x=10:y=20:w=100:h=50:color=yellow@0.3:t=3:enable='between(t,1,3)'[v3]",
+      '[4:v]format=rgba,fade=t=in:st=0:d=0.5:alpha=1[annotation4]',
+      "[v3][annotation4]overlay=0:0:eof_action=pass:enable='between(t,0,2)'[v4]",
+      '[1:v]scale=256:-2,format=yuva420p[overlay5]',
+      "[v4][overlay5]overlay=x='26+(main_w-overlay_w-52)*1':y='26+(main_h-overlay_h-52)*1':" +
+        "eof_action=pass:enable='not(between(t,6,8))'[v5]",
+      '[v5]scale=1920:1080,setsar=1,fps=30[v6]',
+      "[v6]subtitles='/tmp/captions.srt'[v7]",
+      '[2:a]adelay=0:all=1[a1]',
+      '[3:a]adelay=500:all=1[a2]',
+      '[a1][a2]amix=inputs=2:duration=longest:normalize=0[mix]'
+    ]);
+    expect(built.videoOutput).toBe('[v7]');
+    expect(built.audioOutput).toBe('[mix]');
+    expect(built.maps).toEqual(['-map', '[v7]', '-map', '[mix]']);
+  });
+
+  it('maps a single audio source without mixing it', () => {
+    const graph = createFilterGraph({ audio: '0:a?' });
+    graph.addAudioSource('1:a');
+
+    expect(graph.build()).toEqual({
+      graph: '[1:a]anull[a1]',
+      videoOutput: '0:v',
+      audioOutput: '[a1]',
+      maps: ['-map', '0:v', '-map', '[a1]']
+    });
+  });
+});
+
+describe('spliceStage', () => {
+  it('splits the incoming video around each punch-in', () => {
+    const punchIns = [
+      { startTime: 2, endTime: 4 },
+      { startTime: 6, endTime: 7 }
+    ] as IPunchIn[];
+    const graph = createFilterGraph();
+    graph.addVideoStage(cropStage(region));
+    graph.addVideoStage(spliceStage(punchIns, ['1:v', '2:v'], { width: 640, height: 360 }, 10));
+
+    const hold = (length: number) =>
+      'scale=640:360:force_original_aspect_ratio=decrease,pad=640:360:(ow-iw)/2:(oh-ih)/2,setsar=1,' +
+      `tpad=stop_mode=clone:stop_duration=${length},trim=duration=${length},setpts=PTS-STARTPTS`;
+
+    expect(graph.build().graph.split(';')).toEqual([
+      '[0:v]crop=100:50:10:20[v1]',
+      '[v1]split=3[orig0_2][orig1_2][orig2_2]',
+      '[orig0_2]trim=start=0:end=2,setpts=PTS-STARTPTS,setsar=1[piece0_2]',
+      `[1:v]${hold(2)}[piece1_2]`,
+      '[orig1_2]trim=start=4:end=6,setpts=PTS-STARTPTS,setsar=1[piece2_2]',
+      `[2:v]${hold(1)}[piece3_2]`,
+      '[orig2_2]trim=start=7,setpts=PTS-STARTPTS,setsar=1[piece4_2]',
+      '[piece0_2][piece1_2][piece2_2][piece3_2][piece4_2]concat=n=5:v=1:a=0[v2]'
+    ]);
+  });
+});
+
+describe('outputStage', () => {
+  it('keeps the aspect ratio for an unknown width', () => {
+    const graph = createFilterGraph();
+    graph.addVideoStage(outputStage('?x600', 15));
+    expect(graph.build().graph).toBe('[0:v]scale=-2:600,setsar=1,fps=15[v1]');
+  });
+
+  it('scales to the height of the resolution presets the export route accepts', () => {
+    const scales = ['720p', '1080p', '4k'].map(resolution => outputStage(resolution, 30)('v0', 'out', name => name));
+    expect(scales).toEqual([
+      '[v0]scale=-2:720,setsar=1,fps=30[out]',
+      '[v0]scale=-2:1080,setsar=1,fps=30[out]',
+      '[v0]scale=-2:2160,setsar=1,fps=30[out]'
+    ]);
+  });
+
+  it('keeps the aspect ratio of a crop at the default resolution', () => {
+    // The export route defaults the resolution to 1080p
+    const cropped = outputStage(outputSize('1080p', true, '1920x1080'), 30)('v0', 'out', name => name);
+    expect(cropped).toBe('[v0]scale=-2:1080,setsar=1,fps=30[out]');
+    expect(outputSize(undefined, true, '800x600')).toBe('?x600');
+    expect(outputSize(undefined, false, '800x600')).toBe('800x600');
+  });
+});
+
+describe('effectStage', () => {
+  const effect = {
+    startTime: 1,
+    endTime: 2,
+    coordinates: region
+  };
+
+  const frame = { width: 1280, height: 720 };
+  const build = (stage: ReturnType<typeof effectStage>) => {
+    const graph = createFilterGraph();
+    graph.addVideoStage(stage!);
+    return graph.build().graph;
+  };
+
+  it('skips effects without a region, and annotations', () => {
+    expect(effectStage({ ...effect, type: 'blur', coordinates: undefined }, frame)).toBeNull();
+    expect(effectStage({ ...effect, type: 'annotation' }, frame)).toBeNull();
+  });
+
+  it('leaves zooms to the camera', () => {
+    expect(effectStage({ ...effect, type: 'zoom', properties: { scale: 3 } }, frame)).toBeNull();
+  });
+
+  it('keeps effects whose keyframes change nothing static', () => {
+    const keyframes = [{ time: 0.5, easing: 'linear' as const, x: 10, strength: 4 }];
+    expect(build(effectStage({ ...effect, type: 'blur', properties: { strength: 4 }, keyframes }, frame))).toBe(
+      '[0:v]split[base1][src1];' +
+      '[src1]crop=100:50:10:20,boxblur=4:1[blurred1];' +
+      "[base1][blurred1]overlay=10:20:enable='between(t,1,2)'[v1]"
+    );
+  });
+
+  it('moves a blur through the bounds it covers', () => {
+    const keyframes = [{ time: 1, easing: 'linear' as const, x: 110 }];
+    const graph = build(effectStage({ ...effect, type: 'blur', keyframes }, frame));
+
+    expect(graph).toContain('[src1]crop=200:50:10:20,boxblur=10:1,format=yuva420p,');
+    expect(graph).toContain('gte(X,(if(lt(T,2),10+(100)*((T-1)/1),110)-10))');
+    expect(graph).toContain("[base1][blurred1]overlay=10:20:enable='between(t,1,2)'[v1]");
+  });
+
+  it('cross-fades between the weakest and strongest blur', () => {
+    const keyframes = [{ time: 1, easing: 'linear' as const, strength: 2 }];
+    const graph = build(effectStage({ ...effect, type: 'blur', keyframes }, frame));
+
+    expect(graph).toContain('[0:v]split=3[base1][weak1][strong1];');
+    expect(graph).toContain('[weak1]crop=100:50:10:20,boxblur=2:1[weakblur1];');
+    expect(graph).toContain("a='255*clip((if(lt(T,2),10+(-8)*((T-1)/1),2)-2)/8,0,1)'");
+  });
+
+  it('draws a fading highlight from a colour source', () => {
+    const keyframes = [{ time: 1, easing: 'ease-in-out' as const, opacity: 0 }];
+    const graph = build(effectStage({ ...effect, type: 'highlight', keyframes }, frame, 60));
+
+    expect(graph).toMatch(/^color=c=yellow:s=100x50:r=60:d=2,format=yuva420p,/);
+    expect(graph).toContain('255*clip(if(lt(T,2),0.3+(-0.3)*((T-1)/1)*((T-1)/1)*(3-2*((T-1)/1)),0),0,1)');
+    expect(graph).toContain("[0:v][box1]overlay=10:20:eof_action=pass:enable='between(t,1,2)'[v1]");
+  });
+});
+
+describe('cameraStage', () => {
+  it('eases between keyframes and holds the last one', () => {
+    const graph = createFilterGraph();
+    graph.addVideoStage(cameraStage([
+      { time: 0, zoom: 1, x: 0.5, y: 0.5 },
+      { time: 1, zoom: 2, x: 0.25, y: 0.5 }
+    ], { width: 1280, height: 720 }, 30));
+
+    const ease = '((it-0)/1)*((it-0)/1)*(3-2*((it-0)/1))';
+    expect(graph.build().graph).toBe(
+      `[0:v]fps=30,zoompan=z='if(lt(it,1),1+(1)*${ease},2)':` +
+      `x='max(0,min(iw-iw/zoom,(if(lt(it,1),0.5+(-0.25)*${ease},0.25))*iw-iw/zoom/2))':` +
+      "y='max(0,min(ih-ih/zoom,(if(lt(it,1),0.5,0.5))*ih-ih/zoom/2))':" +
+      'd=1:s=1280x720:fps=30[v1]'
+    );
+  });
+
+  it('follows each keyframe\'s curve', () => {
+    const graph = createFilterGraph();
+    graph.addVideoStage(cameraStage([
+      { time: 0, zoom: 1, x: 0.5, y: 0.5 },
+      { time: 2, zoom: 2, x: 0.5, y: 0.5, easing: 'linear' },
+      { time: 3, zoom: 3, x: 0.5, y: 0.5, easing: 'spring' }
+    ], { width: 1280, height: 720 }, 30));
+
+    expect(graph.build().graph).toContain(
+      "z='if(lt(it,2),1+(1)*((it-0)/2),if(lt(it,3),2+(1)*(1-exp(-6*((it-2)/1))*cos(7.854*((it-2)/1))),3))'"
+    );
+  });
+});
+
+describe('annotationStage', () => {
+  it('keeps the fades within the annotation', () => {
+    const graph = createFilterGraph();
+    graph.addVideoStage(annotationStage('1:v', { startTime: 4, endTime: 5 }, { fadeIn: 1, fadeOut: 0.3 }));
+    expect(graph.build().graph).toBe(
+      '[1:v]format=rgba,fade=t=in:st=4:d=0.5:alpha=1,fade=t=out:st=4.7:d=0.3:alpha=1[annotation1];' +
+      "[0:v][annotation1]overlay=0:0:eof_action=pass:enable='between(t,4,5)'[v1]"
+    );
+  });
+});
+
+describe('annotationAnimation', () => {
+  const annotation = { type: 'annotation' as const, startTime: 4, endTime: 6, coordinates: region };
+
+  it('is left out when keyframes change nothing', () => {
+    expect(annotationAnimation(annotation, 1)).toBeNull();
+    expect(annotationAnimation({ ...annotation, keyframes: [{ time: 1, easing: 'linear', opacity: 1 }] }, 1)).toBeNull();
+  });
+
+  it('offsets the image and scales its alpha', () => {
+    const animation = annotationAnimation({
+      ...annotation,
+      keyframes: [{ time: 2, easing: 'linear', y: 120, opacity: 0.5 }]
+    }, 1);
+    expect(animation).toEqual({
+      x: '0',
+      y: 'if(lt(t,6),20+(100)*((t-4)/2),120)-20',
+      opacity: 'clip(if(lt(T,6),1+(-0.5)*((T-4)/2),0.5),0,1)'
+    });
+
+    const graph = createFilterGraph();
+    graph.addVideoStage(annotationStage('1:v', annotation, { fadeIn: 0, fadeOut: 0 }, animation));
+    expect(graph.build().graph).toBe(
+      `[1:v]format=rgba,geq=r='r(X,Y)':g='g(X,Y)':b='b(X,Y)':a='alpha(X,Y)*${animation!.opacity}'[annotation1];` +
+      `[0:v][annotation1]overlay=x='${animation!.x}':y='${animation!.y}':eof_action=pass:enable='between(t,4,6)'[v1]`
+    );
+  });
+});
+
+describe('clickEffectStage', () => {
+  const settings = {
+    enabled: true,
+    ripple: true,
+    halo: true,
+    magnify: true,
+    color: '#ff0000',
+    size: 40,
+    duration: 0.5,
+    magnification: 2
+  };
+
+  it('draws the lens, halo and ripple in turn around the click', () => {
+    const graph = createFilterGraph();
+    graph.addVideoStage(clickEffectStage({ time: 3, x: 200, y: 100 }, settings, 30));
+    const chains = graph.build().graph.split(';');
+
+    expect(chains[0]).toBe('[0:v]split[unmagnified1][lenssrc1]');
+    expect(chains[1]).toMatch(/^\[lenssrc1\]trim=start=3:end=3\.5,crop=40:40:180:80,scale=80:80,format=yuva420p,/);
+    expect(chains[2]).toMatch(/^color=c=0xff0000:s=48x48:r=30:d=0\.625,format=yuva420p,.*,setpts=PTS\+2\.875\/TB\[halo1\]$/);
+    expect(chains[3]).toMatch(/^color=c=0xff0000:s=88x88:r=30:d=0\.5,format=yuva420p,.*,setpts=PTS\+3\/TB\[ripple1\]$/);
+    expect(chains.slice(4)).toEqual([
+      "[unmagnified1][lens1]overlay=160:60:eof_action=pass:enable='between(t,3,3.5)'[clicked1_1]",
+      '[clicked1_1][halo1]overlay=176:76:eof_action=pass[clicked2_1]',
+      '[clicked2_1][ripple1]overlay=156:56:eof_action=pass[v1]'
+    ]);
+  });
+
+  it('passes the video through when every effect is off', () => {
+    const graph = createFilterGraph();
+    graph.addVideoStage(clickEffectStage({ time: 3, x: 200, y: 100 }, { ...settings, ripple: false, halo: false, magnify: false }, 30));
+    expect(graph.build().graph).toBe('[0:v]null[v1]');
+  });
+});
+
+describe('cursorStage', () => {
+  it('blurs the captured cursor and draws the new one from their command files', () => {
+    const graph = createFilterGraph();
+    graph.addVideoStage(cursorMaskStage('/tmp/mask.cmd', 40));
+    graph.addVideoStage(cursorStage('1:v', '/tmp/cursor.cmd'));
+
+    expect(graph.build().graph.split(';')).toEqual([
+      "[0:v]sendcmd=f='/tmp/mask.cmd',split[unmasked1][masksrc1]",
+      '[masksrc1]crop@cursormask=40:40:0:0,boxblur=8:2[mask1]',
+      '[unmasked1][mask1]overlay@cursormask=x=W:y=H:eof_action=pass[v1]',
+      '[1:v]format=rgba[cursor2]',
+      "[v1]sendcmd=f='/tmp/cursor.cmd'[uncursored2]",
+      '[uncursored2][cursor2]overlay@cursor=x=W:y=H:eof_action=pass[v2]'
+    ]);
+  });
+});
+
+describe('retimeStage', () => {
+  it('retimes the composed video and the mixed audio alike', () => {
+    const kept = [{ startTime: 0, endTime: 2, speed: 1 }, { startTime: 6, endTime: 10, speed: 4 }];
+    const graph = createFilterGraph();
+    graph.addAudioSource('1:a');
+    graph.addVideoStage(retimeStage(kept));
+    graph.addAudioStage(retimeAudioStage(kept));
+    expect(graph.build()).toEqual({
+      graph: '[1:a]anull[a1];' +
+        '[0:v]split=2[part0_1][part1_1];' +
+        '[part0_1]trim=start=0:end=2,setpts=(PTS-STARTPTS)/1[timed0_1];' +
+        '[part1_1]trim=start=6:end=10,setpts=(PTS-STARTPTS)/4[timed1_1];' +
+        '[timed0_1][timed1_1]concat=n=2:v=1:a=0[v1];' +
+        '[a1]asplit=2[part0_a1][part1_a1];' +
+        '[part0_a1]atrim=start=0:end=2,asetpts=PTS-STARTPTS[timed0_a1];' +
+        '[part1_a1]atrim=start=6:end=10,asetpts=PTS-STARTPTS,atempo=2,atempo=2[timed1_a1];' +
+        '[timed0_a1][timed1_a1]concat=n=2:v=0:a=1[as1]',
+      videoOutput: '[v1]',
+      audioOutput: '[as1]',
+      maps: ['-map', '[v1]', '-map', '[as1]']
+    });
+  });
+});
+
+describe('retimeAudioStage', () => {
+  it('mutes the audio or keeps the narration at normal speed', () => {
+    const stage = retimeAudioStage([
+      { startTime: 0, endTime: 2, speed: 1 },
+      { startTime: 2, endTime: 4, speed: 2, audio: 'narration' },
+      { startTime: 4, endTime: 6, speed: 4, audio: 'narration' },
+      { startTime: 6, endTime: 8, speed: 2, audio: 'mute' }
+    ]);
+    expect(stage('mix', 'out', name => `${name}x`)).toBe(
+      '[mix]asplit=3[part0_x][part1_x][part2_x];' +
+      '[part0_x]atrim=start=0:end=2,asetpts=PTS-STARTPTS[timed0_x];' +
+      '[part1_x]atrim=start=2:end=3.5,asetpts=PTS-STARTPTS[timed1_x];' +
+      '[part2_x]atrim=start=6:end=8,asetpts=PTS-STARTPTS,atempo=2,volume=0[timed2_x];' +
+      '[timed0_x][timed1_x][timed2_x]concat=n=3:v=0:a=1[out]'
+    );
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from '@jest/globals';
+import { buildKeystrokeSvg, keycapLayout, keystrokeCaptions, keystrokeConcat } from '../src/services/keystrokes.js';
+
+describe('keystrokeCaptions', () => {
+  const settings = { shortcuts: true, typing: true, duration: 1.5 };
+  const key = (timestamp: number, value: string, metadata: Record<string, any> = {}) =>
+    ({ type: 'keypress' as const, timestamp, value, metadata });
+
+  it('shows shortcuts as keycaps and typing as the text so far', () => {
+    const captions = keystrokeCaptions([
+      key(1, 'k', { shortcut: 'Meta+K' }),
+      key(2, 'h'),
+      key(2.2, 'i'),
+      key(2.4, 'Backspace'),
+      key(2.6, 'o'),
+      key(5, 'Enter')
+    ], settings);
+
+    expect(captions).toEqual([
+      { startTime: 1, endTime: 2, keys: ['⌘', 'K'] },
+      { startTime: 2, endTime: 2.2, keys: ['h'] },
+      { startTime: 2.2, endTime: 2.4, keys: ['hi'] },
+      { startTime: 2.4, endTime: 2.6, keys: ['h'] },
+      { startTime: 2.6, endTime: 4.1, keys: ['ho'] },
+      { startTime: 5, endTime: 6.5, keys: ['⏎'] }
+    ]);
+  });
+
+  it('never shows keys typed into sensitive fields', () => {
+    const captions = keystrokeCaptions([
+      key(1, 'a'),
+      key(1.2, '•', { sensitive: true }),
+      key(1.4, 'b')
+    ], settings);
+
+    expect(captions.map(caption => caption.keys)).toEqual([['a'], ['b']]);
+  });
+
+  it('leaves out shortcuts or typing when they are turned off', () => {
+    const events = [key(1, 'k', { shortcut: 'Meta+K' }), key(2, 'h'), key(3, 'Enter')];
+
+    expect(keystrokeCaptions(events, { ...settings, shortcuts: false }).map(caption => caption.keys)).toEqual([['h']]);
+    expect(keystrokeCaptions(events, { ...settings, typing: false }).map(caption => caption.keys)).toEqual([['⌘', 'K'], ['⏎']]);
+  });
+});
+
+describe('keycapLayout', () => {
+  const frame = { width: 1000, height: 500 };
+
+  it('lines the keycaps up from the chosen corner', () => {
+    const [meta, k] = keycapLayout({ keys: ['⌘', 'K'] }, { position: 'top-left', size: 0.04 }, frame);
+
+    expect(meta).toMatchObject({ x: 25, y: 25, height: 36, text: '⌘' });
+    expect(meta.width).toBeCloseTo(36.4);
+    expect(k.x).toBeCloseTo(67.4);
+  });
+
+  it('ends the row at the margin on the right', () => {
+    const [caption] = keycapLayout({ keys: ['hello'] }, { position: 'bottom-right', size: 0.04 }, frame);
+
+    expect(caption.x + caption.width).toBeCloseTo(975);
+    expect(caption.y).toBe(439);
+  });
+});
+
+describe('buildKeystrokeSvg', () => {
+  it('escapes typed text', () => {
+    const svg = buildKeystrokeSvg({ keys: ['<b>&'] }, { position: 'bottom-center', size: 0.04, theme: 'dark' }, { width: 640, height: 360 });
+
+    expect(svg).toContain('>&#60;b&#62;&#38;</text>');
+    expect(svg).not.toContain('<b>');
+  });
+});
+
+describe('keystrokeConcat', () => {
+  it('lists blank time between captions and repeats the last entry', () => {
+    expect(keystrokeConcat([{ startTime: 1, endTime: 2.5, image: '/tmp/a.png' }], '/tmp/blank.png', 4).split('\n')).toEqual([
+      'ffconcat version 1.0',
+      "file '/tmp/blank.png'",
+      'duration 1.000',
+      "file '/tmp/a.png'",
+      'duration 1.500',
+      "file '/tmp/blank.png'",
+      'duration 1.500',
+      "file '/tmp/blank.png'"
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+import mongoose from 'mongoose';
+import recordingRoutes from '../src/routes/recordings.js';
+import { Project } from '../src/models/Project.js';
+import { Recording } from '../src/models/Recording.js';
+import { deleteObject, getSignedUrl, listObjects } from '../src/services/storage.js';
+import { RouteApp, startRouteApp } from './routeApp.js';
+
+jest.mock('../src/services/storage.js', () => ({
+  putObject: jest.fn(),
+  deleteObject: jest.fn(),
+  listObjects: jest.fn(async () => []),
+  getSignedUrl: jest.fn(async (key: string) => `https://files.test/${key}?signature=abc`),
+  signedUrlExpires: jest.fn(() => 3600)
+}));
+jest.mock('../src/services/queue.js', () => ({ processVideoQueue: { add: jest.fn() } }));
+jest.mock('../src/services/videoProcessor.js', () => ({ detectStoredSilence: jest.fn(), probeStoredMedia: jest.fn() }));
+
+const userId = new mongoose.Types.ObjectId().toString();
+
+describe('recording routes', () => {
+  let app: RouteApp;
+
+  beforeAll(async () => {
+    app = await startRouteApp(recordingRoutes, userId);
+  });
+
+  afterAll(() => app.close());
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.mocked(getSignedUrl).mockClear();
+    jest.mocked(deleteObject).mockReset();
+  });
+
+  // findById(...).populate(...) resolving to the recording
+  const findRecording = (recording: Record<string, unknown> | null) =>
+    jest.spyOn(Recording, 'findById').mockReturnValue({ populate: jest.fn().mockResolvedValue(recording) } as any);
+
+  const recording = (owner = userId) => ({
+    _id: new mongoose.Types.ObjectId(),
+    project: { owner, collaborators: [] },
+    originalVideoKey: 'recordings/p1/take.webm',
+    processedVideoKey: 'processed/r1/take.mp4'
+  });
+
+  describe('DELETE /:id', () => {
+    it('deletes every stored file even when one of them fails', async () => {
+      const current = {
+        ...recording(),
+        project: { _id: new mongoose.Types.ObjectId(), owner: userId, collaborators: [] },
+        title: 'Demo',
+        isActiveTake: false,
+        audioKey: 'audio/r1/take.wav',
+        tracks: [{ kind: 'webcam', key: 'tracks/r1/webcam.webm' }],
+        punchIns: [{ key: 'punch-ins/r1/p1.webm' }],
+        script: { segments: [{ audioKey: 'segments/r1/s1.mp3' }, {}] }
+      };
+      findRecording(current);
+      jest.mocked(listObjects).mockResolvedValueOnce([
+        { key: `screenshots/${current._id}/take-2.5.jpg`, size: 100, lastModified: new Date() }
+      ]);
+      jest.spyOn(Project, 'findByIdAndUpdate').mockResolvedValue(null);
+      const remove = jest.spyOn(Recording, 'findByIdAndDelete').mockResolvedValue(null);
+      jest.mocked(deleteObject).mockImplementation(async (key: string) => {
+        if (key === current.originalVideoKey) throw new Error('Storage unavailable');
+      });
+
+      const res = await fetch(`${app.url}/${current._id}`, { method: 'DELETE' });
+
+      expect(res.status).toBe(200);
+      expect(jest.mocked(deleteObject).mock.calls.map(([key]) => key)).toEqual([
+        'recordings/p1/take.webm',
+        'processed/r1/take.mp4',
+        'audio/r1/take.wav',
+        'tracks/r1/webcam.webm',
+        'punch-ins/r1/p1.webm',
+        'segments/r1/s1.mp3',
+        `screenshots/${current._id}/take-2.5.jpg`
+      ]);
+      expect(remove).toHaveBeenCalledWith(current._id.toString());
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+
+export interface RouteApp {
+  url: string;
+  close: () => Promise<void>;
+}
+
+// Serves a router on a free port the way server.ts mounts it, with the authenticated user
+// already set as authMiddleware would
+export const startRouteApp = async (router: express.Router, userId = 'user-1'): Promise<RouteApp> => {
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    req.userId = userId;
+    next();
+  });
+  app.use(router);
+
+  const server = await new Promise<Server>(resolve => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+};
@@ -0,0 +1,94 @@
+import mongoose from 'mongoose';
+import { Readable } from 'stream';
+import screenshotRoutes from '../src/routes/screenshots.js';
+import { Recording } from '../src/models/Recording.js';
+import { screenshotUrl } from '../src/services/screenshots.js';
+import { listObjects, putObject } from '../src/services/storage.js';
+import { renderStoredFrame } from '../src/services/videoProcessor.js';
+import { RouteApp, startRouteApp } from './routeApp.js';
+
+jest.mock('../src/services/storage.js', () => ({
+  getObjectStream: jest.fn(async () => Readable.from([Buffer.from('jpeg')])),
+  listObjects: jest.fn(async () => []),
+  putObject: jest.fn()
+}));
+jest.mock('../src/services/videoProcessor.js', () => ({ renderStoredFrame: jest.fn(async () => Buffer.from('jpeg')) }));
+
+describe('screenshot routes', () => {
+  const env = { ...process.env };
+  let app: RouteApp;
+
+  beforeAll(async () => {
+    process.env.JWT_SECRET = 'test-secret';
+    app = await startRouteApp(screenshotRoutes);
+  });
+
+  afterAll(async () => {
+    process.env = { ...env };
+    await app.close();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.mocked(putObject).mockClear();
+    jest.mocked(renderStoredFrame).mockClear();
+  });
+
+  const findRecording = (recording: Record<string, unknown> | null) =>
+    jest.spyOn(Recording, 'findById').mockReturnValue({ select: jest.fn().mockResolvedValue(recording) } as any);
+
+  const recording = () => ({
+    _id: new mongoose.Types.ObjectId(),
+    originalVideoKey: 'recordings/p1/take.webm',
+    processedVideoKey: 'processed/r1/take.mp4'
+  });
+
+  // The path and query of a signed link, served from the test app
+  const load = (link: string) => {
+    const url = new URL(link);
+    return fetch(`${app.url}${url.pathname.replace('/api/recordings', '')}${url.search}`);
+  };
+
+  it('renders the still on first load and serves it as a JPEG any origin can embed', async () => {
+    const current = recording();
+    findRecording(current);
+
+    const res = await load(screenshotUrl(current._id.toString(), 12.5));
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('image/jpeg');
+    expect(res.headers.get('cross-origin-resource-policy')).toBe('cross-origin');
+    expect(Buffer.from(await res.arrayBuffer()).toString()).toBe('jpeg');
+    expect(renderStoredFrame).toHaveBeenCalledWith('processed/r1/take.mp4', 12.5);
+    expect(putObject).toHaveBeenCalledWith(`screenshots/${current._id}/take-12.5.jpg`, expect.any(Buffer), 'image/jpeg');
+  });
+
+  it('serves a still it already rendered', async () => {
+    const current = recording();
+    findRecording(current);
+    jest.mocked(listObjects).mockResolvedValueOnce([
+      { key: `screenshots/${current._id}/take-12.5.jpg`, size: 4, lastModified: new Date() }
+    ]);
+
+    const res = await load(screenshotUrl(current._id.toString(), 12.5));
+
+    expect(res.status).toBe(200);
+    expect(renderStoredFrame).not.toHaveBeenCalled();
+  });
+
+  it('rejects a link signed for another moment', async () => {
+    const current = recording();
+    findRecording(current);
+
+    const res = await load(screenshotUrl(current._id.toString(), 12.5).replace('t=12.5', 't=13'));
+
+    expect(res.status).toBe(403);
+    expect(renderStoredFrame).not.toHaveBeenCalled();
+  });
+
+  it('requires a signature', async () => {
+    const res = await fetch(`${app.url}/${new mongoose.Types.ObjectId()}/screenshot?t=1`);
+
+    expect(res.status).toBe(400);
+  });
+});
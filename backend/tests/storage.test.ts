@@ -0,0 +1,140 @@
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  abortStaleMultipartUploads,
+  completeMultipartUpload,
+  createMultipartUpload,
+  getSignedUrl,
+  putObject,
+  uploadPart
+} from '../src/services/storage.js';
+import { createLocalStorageRouter } from '../src/services/storage/localDriver.js';
+import { RouteApp, startRouteApp } from './routeApp.js';
+
+describe('getSignedUrl', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    process.env.STORAGE_DRIVER = 'local';
+    process.env.STORAGE_SIGNING_SECRET = 'test-secret';
+    process.env.LOCAL_STORAGE_URL = 'http://files.test/storage';
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('uses the lifetime configured after the module was loaded', async () => {
+    process.env.SIGNED_URL_EXPIRES = '60';
+
+    const url = new URL(await getSignedUrl('recordings/p1/take.webm'));
+
+    const expiresIn = Number(url.searchParams.get('expires')) - Math.floor(Date.now() / 1000);
+    expect(expiresIn).toBeGreaterThanOrEqual(59);
+    expect(expiresIn).toBeLessThanOrEqual(60);
+  });
+});
+
+describe('local storage router', () => {
+  const env = { ...process.env };
+  const key = 'recordings/p1/take.webm';
+  let dir: string;
+  let app: RouteApp;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'storage-'));
+    process.env.STORAGE_DRIVER = 'local';
+    process.env.STORAGE_SIGNING_SECRET = 'test-secret';
+    process.env.LOCAL_STORAGE_DIR = dir;
+    process.env.LOCAL_STORAGE_URL = 'http://files.test/storage';
+    await putObject(key, Buffer.from('video'), 'video/webm');
+    app = await startRouteApp(createLocalStorageRouter());
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await rm(dir, { recursive: true, force: true });
+    process.env = { ...env };
+  });
+
+  // The signed URL as the router sees it, without the public base URL
+  const signedPath = async (objectKey: string, expires?: number) => {
+    const url = new URL(await getSignedUrl(objectKey, expires));
+    return `${url.pathname.replace(/^\/storage/, '')}${url.search}`;
+  };
+
+  it('serves an object through its signed URL', async () => {
+    const res = await fetch(`${app.url}${await signedPath(key)}`);
+
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe('video');
+  });
+
+  it('refuses a missing, altered or expired signature', async () => {
+    const valid = await signedPath(key);
+    const altered = `${valid.slice(0, -1)}${valid.endsWith('0') ? '1' : '0'}`;
+
+    expect((await fetch(`${app.url}/${key}`)).status).toBe(403);
+    expect((await fetch(`${app.url}${altered}`)).status).toBe(403);
+    expect((await fetch(`${app.url}${await signedPath(key, -10)}`)).status).toBe(403);
+  });
+
+  it('refuses a signature made for another key', async () => {
+    const other = await signedPath('recordings/p1/other.webm');
+
+    const res = await fetch(`${app.url}/${key}${other.slice(other.indexOf('?'))}`);
+
+    expect(res.status).toBe(403);
+  });
+
+  it('will not mount without a signing secret', () => {
+    delete process.env.STORAGE_SIGNING_SECRET;
+    delete process.env.JWT_SECRET;
+
+    expect(() => createLocalStorageRouter()).toThrow('STORAGE_SIGNING_SECRET');
+
+    process.env.STORAGE_SIGNING_SECRET = 'test-secret';
+  });
+});
+
+describe('local multipart uploads', () => {
+  const env = { ...process.env };
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'storage-'));
+    process.env.STORAGE_DRIVER = 'local';
+    process.env.STORAGE_SIGNING_SECRET = 'test-secret';
+    process.env.LOCAL_STORAGE_DIR = dir;
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+    process.env = { ...env };
+  });
+
+  const pending = () => readdir(path.join(dir, '.multipart'));
+
+  it('refuses to assemble parts with a gap', async () => {
+    const uploadId = await createMultipartUpload('recordings/p1/gap.webm', 'video/webm');
+    const first = await uploadPart('recordings/p1/gap.webm', uploadId, 1, Buffer.from('a'), 1);
+    const third = await uploadPart('recordings/p1/gap.webm', uploadId, 3, Buffer.from('c'), 1);
+
+    await expect(completeMultipartUpload('recordings/p1/gap.webm', uploadId, [
+      { partNumber: 1, etag: first },
+      { partNumber: 3, etag: third }
+    ])).rejects.toThrow();
+    expect(await pending()).toContain(uploadId);
+  });
+
+  it('sweeps uploads nobody wrote to since the cutoff', async () => {
+    const uploadId = await createMultipartUpload('recordings/p1/stale.webm', 'video/webm');
+
+    await abortStaleMultipartUploads(new Date(Date.now() - 60 * 1000));
+    expect(await pending()).toContain(uploadId);
+
+    await abortStaleMultipartUploads(new Date(Date.now() + 1000));
+    expect(await pending()).toEqual([]);
+  });
+});
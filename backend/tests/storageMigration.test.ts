@@ -0,0 +1,40 @@
+import { keyFromUrl, storageKeyUpdate } from '../src/services/storageMigration.js';
+
+describe('keyFromUrl', () => {
+  it('reads the key from virtual-hosted and path-style S3 URLs', () => {
+    expect(keyFromUrl('https://demo.s3.us-east-1.amazonaws.com/recordings/p1/my%20take.webm', 'demo'))
+      .toBe('recordings/p1/my take.webm');
+    expect(keyFromUrl('https://s3.us-east-1.amazonaws.com/demo/thumbnails/r1/1.jpg', 'demo'))
+      .toBe('thumbnails/r1/1.jpg');
+  });
+});
+
+describe('storageKeyUpdate', () => {
+  it('moves every URL to a key and removes the URL fields', () => {
+    const recording = {
+      originalVideoUrl: 'https://demo.s3.amazonaws.com/recordings/p1/1.webm',
+      thumbnailUrl: 'https://demo.s3.amazonaws.com/thumbnails/r1/1.jpg',
+      thumbnailKey: 'thumbnails/r1/2.jpg',
+      script: { segments: [{ audioUrl: 'https://demo.s3.amazonaws.com/segments/r1/s1.mp3' }, {}] },
+      backgroundAudio: { url: 'https://demo.s3.amazonaws.com/music/calm.mp3' }
+    };
+
+    expect(storageKeyUpdate(recording, 'demo')).toEqual({
+      $set: {
+        originalVideoKey: 'recordings/p1/1.webm',
+        'script.segments.0.audioKey': 'segments/r1/s1.mp3',
+        'backgroundAudio.key': 'music/calm.mp3'
+      },
+      $unset: {
+        originalVideoUrl: '',
+        thumbnailUrl: '',
+        'script.segments.0.audioUrl': '',
+        'backgroundAudio.url': ''
+      }
+    });
+  });
+
+  it('leaves migrated recordings alone', () => {
+    expect(storageKeyUpdate({ originalVideoKey: 'recordings/p1/1.webm' }, 'demo')).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from '@jest/globals';
+import { quietTyping, speedRamp, typingRuns } from '../src/services/typingRuns.js';
+
+describe('typingRuns', () => {
+  const keys = (...times: number[]) => times.map(timestamp => ({ type: 'keypress' as const, timestamp, value: 'a' }));
+
+  it('finds long runs of key presses that nothing but the pointer interrupts', () => {
+    const events = [
+      ...keys(1, 1.2, 1.4, 1.6, 1.8),
+      { type: 'move' as const, timestamp: 1.5 },
+      { type: 'click' as const, timestamp: 2 },
+      ...keys(2.2, 2.4, 2.6, 4, 4.2),
+      ...keys(10, 10.2, 10.4, 10.6, 10.8, 11)
+    ];
+    expect(typingRuns(events, 5, [{ startTime: 10.5, endTime: 10.9 }])).toEqual([{ startTime: 1, endTime: 1.8 }]);
+  });
+
+  it('ends a run at a pause of more than a second', () => {
+    expect(typingRuns(keys(1, 1.5, 2, 3.5, 4, 4.5), 3)).toEqual([
+      { startTime: 1, endTime: 2 },
+      { startTime: 3.5, endTime: 4.5 }
+    ]);
+  });
+});
+
+describe('quietTyping', () => {
+  it('keeps the parts of each run with no speech long enough to speed up', () => {
+    const runs = [{ startTime: 2, endTime: 10 }, { startTime: 20, endTime: 24 }];
+    const silences = [{ startTime: 0, endTime: 4 }, { startTime: 6, endTime: 6.5 }, { startTime: 8, endTime: 12 }, { startTime: 23.5, endTime: 30 }];
+
+    expect(quietTyping(runs, silences)).toEqual([
+      { startTime: 2, endTime: 4 },
+      { startTime: 8, endTime: 10 }
+    ]);
+  });
+});
+
+describe('speedRamp', () => {
+  it('eases into and out of the speed without gaps', () => {
+    const ranges = speedRamp({ startTime: 0, endTime: 4 }, { speed: 3, audio: 'mute' });
+    expect(ranges.map(range => range.speed)).toEqual([1.5, 2, 2.5, 3, 2.5, 2, 1.5]);
+    expect(ranges[0].startTime).toBe(0);
+    expect(ranges[6].endTime).toBe(4);
+    expect(ranges[3].startTime).toBeCloseTo(0.6);
+    expect(ranges[3].endTime).toBeCloseTo(3.4);
+    ranges.slice(1).forEach((range, index) => expect(range.startTime).toBe(ranges[index].endTime));
+  });
+
+  it('shortens the ramp for a brief run and keeps the audio choice', () => {
+    const ranges = speedRamp({ startTime: 0, endTime: 1 }, { speed: 3, audio: 'narration' });
+    expect(ranges[3]).toEqual({ startTime: 0.25, endTime: 0.75, action: 'speed', speed: 3, audio: 'narration' });
+  });
+});
@@ -0,0 +1,270 @@
+import mongoose from 'mongoose';
+import uploadRoutes from '../src/routes/uploads.js';
+import { Project } from '../src/models/Project.js';
+import { Recording } from '../src/models/Recording.js';
+import { UploadSession } from '../src/models/UploadSession.js';
+import { completeMultipartUpload, uploadPart } from '../src/services/storage.js';
+import { probeStoredMedia } from '../src/services/videoProcessor.js';
+import { RouteApp, startRouteApp } from './routeApp.js';
+
+jest.mock('../src/services/storage.js', () => ({
+  createMultipartUpload: jest.fn(async () => 'storage-upload-1'),
+  uploadPart: jest.fn(async () => '"etag"'),
+  completeMultipartUpload: jest.fn(),
+  abortMultipartUpload: jest.fn(),
+  deleteObject: jest.fn()
+}));
+jest.mock('../src/services/queue.js', () => ({ processVideoQueue: { add: jest.fn() } }));
+jest.mock('../src/services/videoProcessor.js', () => ({ probeStoredMedia: jest.fn() }));
+
+const CHUNK_SIZE = 8 * 1024 * 1024;
+const userId = new mongoose.Types.ObjectId().toString();
+
+describe('upload routes', () => {
+  let app: RouteApp;
+  const env = { ...process.env };
+
+  beforeAll(async () => {
+    app = await startRouteApp(uploadRoutes, userId);
+  });
+
+  afterAll(() => app.close());
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.mocked(uploadPart).mockClear();
+    jest.mocked(completeMultipartUpload).mockClear();
+    process.env = { ...env };
+  });
+
+  const session = (overrides: Record<string, unknown> = {}) => ({
+    _id: new mongoose.Types.ObjectId(),
+    owner: new mongoose.Types.ObjectId(userId),
+    status: 'active',
+    storageKey: 'recordings/p1/take.webm',
+    storageUploadId: 'storage-upload-1',
+    chunkSize: CHUNK_SIZE,
+    receivedBytes: 0,
+    totalSize: CHUNK_SIZE + 100,
+    parts: [],
+    ...overrides
+  });
+
+  const putChunk = (id: string, offset: number, body: Buffer, headers: Record<string, string> = {}) =>
+    fetch(`${app.url}/${id}`, {
+      method: 'PUT',
+      headers: { 'Upload-Offset': String(offset), 'Content-Type': 'application/octet-stream', ...headers },
+      body
+    });
+
+  it('limits the declared size to MAX_UPLOAD_SIZE as configured when the request arrives', async () => {
+    process.env.MAX_UPLOAD_SIZE = '1000';
+    jest.spyOn(Project, 'findById').mockResolvedValue({ owner: userId, collaborators: [] } as any);
+    jest.spyOn(UploadSession.prototype, 'save').mockResolvedValue(undefined as any);
+
+    const create = (totalSize: number) => fetch(app.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        projectId: new mongoose.Types.ObjectId().toString(),
+        title: 'Demo',
+        filename: 'demo.webm',
+        mimeType: 'video/webm',
+        totalSize,
+        resolution: { width: 1280, height: 720 }
+      })
+    });
+
+    expect((await create(1001)).status).toBe(400);
+    expect((await create(1000)).status).toBe(201);
+  });
+
+  it('rejects an Upload-Length over MAX_UPLOAD_SIZE', async () => {
+    process.env.MAX_UPLOAD_SIZE = '50';
+    const findById = jest.spyOn(UploadSession, 'findById');
+
+    const res = await putChunk('session-1', 0, Buffer.alloc(10), { 'Upload-Length': '51' });
+
+    expect(res.status).toBe(400);
+    expect(findById).not.toHaveBeenCalled();
+  });
+
+  it('answers a chunk at the wrong offset with the offset to resume from', async () => {
+    const current = session({ receivedBytes: CHUNK_SIZE });
+    jest.spyOn(UploadSession, 'findById').mockResolvedValue(current as any);
+
+    const res = await putChunk(current._id.toString(), 0, Buffer.alloc(100));
+
+    expect(res.status).toBe(409);
+    expect((await res.json()).upload.offset).toBe(CHUNK_SIZE);
+    expect(uploadPart).not.toHaveBeenCalled();
+  });
+
+  it('only accepts a short chunk at the end of the upload', async () => {
+    const current = session();
+    jest.spyOn(UploadSession, 'findById').mockResolvedValue(current as any);
+
+    const short = await putChunk(current._id.toString(), 0, Buffer.alloc(100));
+    const tooLong = await putChunk(current._id.toString(), 0, Buffer.alloc(CHUNK_SIZE + 101));
+
+    expect(short.status).toBe(400);
+    expect(tooLong.status).toBe(400);
+    expect(uploadPart).not.toHaveBeenCalled();
+  });
+
+  it('rejects an Upload-Length that differs from the session size', async () => {
+    const current = session({ receivedBytes: CHUNK_SIZE });
+    jest.spyOn(UploadSession, 'findById').mockResolvedValue(current as any);
+
+    const res = await putChunk(current._id.toString(), CHUNK_SIZE, Buffer.alloc(100), { 'Upload-Length': String(CHUNK_SIZE + 200) });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('stores the last chunk as a part and advances the offset', async () => {
+    const current = session({ receivedBytes: CHUNK_SIZE });
+    jest.spyOn(UploadSession, 'findById').mockResolvedValue(current as any);
+    const findOneAndUpdate = jest.spyOn(UploadSession, 'findOneAndUpdate')
+      .mockResolvedValue({ ...current, receivedBytes: CHUNK_SIZE + 100 } as any);
+
+    const res = await putChunk(current._id.toString(), CHUNK_SIZE, Buffer.alloc(100));
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).upload.offset).toBe(CHUNK_SIZE + 100);
+    expect(jest.mocked(uploadPart).mock.calls[0].slice(0, 3)).toEqual([current.storageKey, current.storageUploadId, 2]);
+    expect(findOneAndUpdate.mock.calls[0][0]).toEqual({ _id: current._id, receivedBytes: CHUNK_SIZE, status: 'active' });
+  });
+
+  describe('completing', () => {
+    const complete = (id: string) => fetch(`${app.url}/${id}/complete`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{}'
+    });
+
+    it('leaves the upload to the request that claimed it first', async () => {
+      const current = session({ receivedBytes: 100, totalSize: 100, updatedAt: new Date() });
+      jest.spyOn(UploadSession, 'findById').mockResolvedValue(current as any);
+      const claim = jest.spyOn(UploadSession, 'findOneAndUpdate').mockResolvedValue(null);
+
+      const res = await complete(current._id.toString());
+
+      expect(res.status).toBe(409);
+      expect((await res.json()).upload.status).toBe('completing');
+      expect(claim.mock.calls[0][0]).toEqual({ _id: current._id, status: 'active', updatedAt: current.updatedAt });
+      expect(completeMultipartUpload).not.toHaveBeenCalled();
+    });
+
+    it('refuses to assemble parts with a gap', async () => {
+      const current = session({
+        receivedBytes: 100,
+        totalSize: 100,
+        parts: [{ partNumber: 2, etag: '"b"', size: 100 }]
+      });
+      jest.spyOn(UploadSession, 'findById').mockResolvedValue(current as any);
+      const claim = jest.spyOn(UploadSession, 'findOneAndUpdate');
+
+      const res = await complete(current._id.toString());
+
+      expect(res.status).toBe(400);
+      expect(claim).not.toHaveBeenCalled();
+    });
+
+    it('answers a repeat call with the recording already created', async () => {
+      const recording = { _id: new mongoose.Types.ObjectId(), title: 'Demo' };
+      const current = session({ status: 'completed', recording: recording._id });
+      jest.spyOn(UploadSession, 'findById').mockResolvedValue(current as any);
+      jest.spyOn(Recording, 'findById').mockResolvedValue(recording as any);
+
+      const res = await complete(current._id.toString());
+
+      expect(res.status).toBe(200);
+      expect((await res.json()).recording._id).toBe(recording._id.toString());
+      expect(completeMultipartUpload).not.toHaveBeenCalled();
+    });
+
+    it('hands the session back when assembling fails', async () => {
+      const current = session({ receivedBytes: 100, totalSize: 100, updatedAt: new Date() });
+      jest.spyOn(UploadSession, 'findById').mockResolvedValue(current as any);
+      jest.spyOn(UploadSession, 'findOneAndUpdate').mockResolvedValue(current as any);
+      const release = jest.spyOn(UploadSession, 'updateOne').mockResolvedValue({} as any);
+      jest.mocked(completeMultipartUpload).mockRejectedValueOnce(new Error('Storage unavailable'));
+
+      const res = await complete(current._id.toString());
+
+      expect(res.status).toBe(500);
+      expect(release).toHaveBeenCalledWith({ _id: current._id, status: 'completing' }, { status: 'active' });
+    });
+  });
+
+  describe('tracks streamed during a screen recording', () => {
+    const trackSession = (overrides: Record<string, unknown> = {}) => session({
+      track: 'webcam',
+      screenUpload: new mongoose.Types.ObjectId(),
+      receivedBytes: 100,
+      totalSize: 100,
+      parts: [],
+      save: jest.fn(),
+      ...overrides
+    });
+
+    const complete = (id: string) => fetch(`${app.url}/${id}/complete`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{}'
+    });
+
+    it('only name a screen upload of the same user and project', async () => {
+      jest.spyOn(Project, 'findById').mockResolvedValue({ owner: userId, collaborators: [] } as any);
+      const findOne = jest.spyOn(UploadSession, 'findOne').mockResolvedValue(null);
+
+      const res = await fetch(app.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          projectId: new mongoose.Types.ObjectId().toString(),
+          title: 'webcam track',
+          filename: 'webcam.webm',
+          mimeType: 'video/webm',
+          resolution: { width: 1280, height: 720 },
+          track: 'webcam',
+          screenUpload: 'screen-1'
+        })
+      });
+
+      expect(res.status).toBe(404);
+      expect(findOne.mock.calls[0][0]).toMatchObject({ _id: 'screen-1', owner: userId });
+    });
+
+    it('wait for the screen recording before assembling', async () => {
+      const current = trackSession();
+      jest.spyOn(UploadSession, 'findById')
+        .mockResolvedValueOnce(current as any)
+        .mockResolvedValueOnce({ status: 'active' } as any);
+
+      const res = await complete(current._id.toString());
+
+      expect(res.status).toBe(409);
+      expect((await res.json()).error).toBe('The screen recording is not complete yet');
+      expect(completeMultipartUpload).not.toHaveBeenCalled();
+    });
+
+    it('attach to the recording the screen upload became', async () => {
+      const current = trackSession();
+      const recording = { _id: new mongoose.Types.ObjectId(), tracks: [] as any[], save: jest.fn() };
+      jest.spyOn(UploadSession, 'findById')
+        .mockResolvedValueOnce(current as any)
+        .mockResolvedValueOnce({ status: 'completed', recording: recording._id } as any);
+      const findRecording = jest.spyOn(Recording, 'findById').mockResolvedValue(recording as any);
+      jest.spyOn(UploadSession, 'findOneAndUpdate').mockResolvedValue(current as any);
+      jest.mocked(probeStoredMedia).mockResolvedValue({ video: { width: 640, height: 480 } } as any);
+
+      const res = await complete(current._id.toString());
+
+      expect(res.status).toBe(200);
+      expect(findRecording).toHaveBeenCalledWith(recording._id);
+      expect(recording.tracks).toEqual([expect.objectContaining({ kind: 'webcam', key: current.storageKey })]);
+      expect(current.status).toBe('completed');
+    });
+  });
+});
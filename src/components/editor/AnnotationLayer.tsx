@@ -0,0 +1,128 @@
+import { annotationProperties, annotationVisibility } from '@/lib/annotations'
+import { propertyTrack, valueAt } from '@/lib/keyframes'
+import type { AnnotationProperties, VisualEffect } from '@/types'
+
+interface AnnotationLayerProps {
+  annotations: VisualEffect[]
+  currentTime: number
+  // Size of the exported frame; the layer itself must cover exactly that frame
+  frame: { width: number; height: number }
+}
+
+type Region = NonNullable<VisualEffect['coordinates']>
+
+function AnnotationText({ text, x, y, size, color }: { text: string; x: number; y: number; size: number; color: string }) {
+  const lines = text.split('\n')
+  return (
+    <text
+      x={x}
+      y={y}
+      fontFamily="sans-serif"
+      fontWeight={600}
+      fontSize={size}
+      fill={color}
+      textAnchor="middle"
+      dominantBaseline="central"
+    >
+      {lines.map((line, index) => (
+        <tspan key={index} x={x} y={y + (index - (lines.length - 1) / 2) * size * 1.2}>{line}</tspan>
+      ))}
+    </text>
+  )
+}
+
+function Arrow({ region, style }: { region: Region; style: AnnotationProperties }) {
+  const [vertical, horizontal] = style.arrowFrom.split('-')
+  const tail = {
+    x: horizontal === 'left' ? region.x : region.x + region.width,
+    y: vertical === 'top' ? region.y : region.y + region.height
+  }
+  const head = {
+    x: horizontal === 'left' ? region.x + region.width : region.x,
+    y: vertical === 'top' ? region.y + region.height : region.y
+  }
+  const angle = Math.atan2(head.y - tail.y, head.x - tail.x)
+  const length = Math.max(style.strokeWidth * 4, 16)
+  const point = (offset: number) =>
+    `${head.x - length * Math.cos(angle + offset)},${head.y - length * Math.sin(angle + offset)}`
+
+  return (
+    <>
+      <line
+        x1={tail.x}
+        y1={tail.y}
+        x2={head.x - length * 0.8 * Math.cos(angle)}
+        y2={head.y - length * 0.8 * Math.sin(angle)}
+        stroke={style.color}
+        strokeWidth={style.strokeWidth}
+      />
+      <polygon points={`${head.x},${head.y} ${point(0.45)} ${point(-0.45)}`} fill={style.color} />
+    </>
+  )
+}
+
+function Annotation({ region, style, frame }: { region: Region; style: AnnotationProperties; frame: AnnotationLayerProps['frame'] }) {
+  const { x, y, width, height } = region
+  const centre = { x: x + width / 2, y: y + height / 2 }
+
+  switch (style.kind) {
+    case 'rectangle':
+      return <rect x={x} y={y} width={width} height={height} rx={8} fill="none" stroke={style.color} strokeWidth={style.strokeWidth} />
+    case 'arrow':
+      return <Arrow region={region} style={style} />
+    case 'badge': {
+      const radius = Math.min(width, height) / 2
+      return (
+        <>
+          <circle cx={centre.x} cy={centre.y} r={radius} fill={style.color} />
+          <AnnotationText text={style.text || ''} x={centre.x} y={centre.y} size={radius} color={style.textColor} />
+        </>
+      )
+    }
+    case 'spotlight':
+      return (
+        <path
+          d={`M0 0H${frame.width}V${frame.height}H0Z M${x} ${y}h${width}v${height}h${-width}Z`}
+          fill="black"
+          fillRule="evenodd"
+        />
+      )
+    default:
+      return (
+        <>
+          <rect x={x} y={y} width={width} height={height} rx={12} fill={style.color} />
+          <AnnotationText text={style.text || ''} x={centre.x} y={centre.y} size={style.fontSize} color={style.textColor} />
+        </>
+      )
+  }
+}
+
+// Previews annotations the way the export draws them, fading and moving with the playhead
+export function AnnotationLayer({ annotations, currentTime, frame }: AnnotationLayerProps) {
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      viewBox={`0 0 ${frame.width} ${frame.height}`}
+      preserveAspectRatio="none"
+    >
+      {annotations.map(annotation => {
+        const visibility = annotationVisibility(annotation, currentTime)
+        if (!annotation.coordinates || visibility === 0) return null
+
+        const style = annotationProperties(annotation.properties)
+        // Keyframes move an annotation but keep its size
+        const region = {
+          ...annotation.coordinates,
+          x: valueAt(propertyTrack(annotation, 'x'), currentTime),
+          y: valueAt(propertyTrack(annotation, 'y'), currentTime)
+        }
+        const opacity = Math.min(Math.max(valueAt(propertyTrack(annotation, 'opacity', style.opacity), currentTime), 0), 1)
+        return (
+          <g key={annotation.id} opacity={opacity * visibility}>
+            <Annotation region={region} style={style} frame={frame} />
+          </g>
+        )
+      })}
+    </svg>
+  )
+}
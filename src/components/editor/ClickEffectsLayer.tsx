@@ -0,0 +1,100 @@
+import { useEffect, useRef } from 'react'
+import { haloAt, lensAt, rippleAt, type ClickMark } from '@/lib/clickEffects'
+import type { CaptureCrop, ClickEffects } from '@/types'
+
+interface ClickEffectsLayerProps {
+  marks: ClickMark[]
+  settings: ClickEffects
+  // Size of the exported frame; the layer itself must cover exactly that frame
+  frame: { width: number; height: number }
+  // The footage being previewed, recorded at `resolution` and cropped to `crop`. The lens
+  // magnifies it, and the marks follow its clock.
+  video: HTMLVideoElement
+  resolution: { width: number; height: number }
+  crop: CaptureCrop | null
+}
+
+// Previews the export's click marks. Marks last well under a second, so they are drawn on
+// every animation frame from the video's own clock rather than on its time updates.
+export function ClickEffectsLayer({ marks, settings, frame, video, resolution, crop }: ClickEffectsLayerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !context) return
+
+    const drawLens = (mark: ClickMark, visibility: number) => {
+      const scale = video.videoWidth / resolution.width || 1
+      const radius = settings.size
+      const sourceSize = (radius * 2) / settings.magnification
+
+      context.save()
+      context.globalAlpha = visibility
+      context.beginPath()
+      context.arc(mark.x, mark.y, radius, 0, Math.PI * 2)
+      context.clip()
+      context.drawImage(
+        video,
+        ((crop?.x ?? 0) + mark.x - sourceSize / 2) * scale,
+        ((crop?.y ?? 0) + mark.y - sourceSize / 2) * scale,
+        sourceSize * scale,
+        sourceSize * scale,
+        mark.x - radius,
+        mark.y - radius,
+        radius * 2,
+        radius * 2
+      )
+      context.restore()
+    }
+
+    let frameRequest = 0
+    const draw = () => {
+      const time = video.currentTime
+      context.clearRect(0, 0, canvas.width, canvas.height)
+
+      for (const mark of marks) {
+        const lens = lensAt(mark, settings, time)
+        if (lens > 0) {
+          drawLens(mark, lens)
+        }
+
+        const halo = haloAt(mark, settings, time)
+        if (halo) {
+          const gradient = context.createRadialGradient(mark.x, mark.y, 0, mark.x, mark.y, halo.radius)
+          gradient.addColorStop(0, settings.color)
+          gradient.addColorStop(1, `${settings.color}00`)
+          context.globalAlpha = halo.opacity
+          context.fillStyle = gradient
+          context.beginPath()
+          context.arc(mark.x, mark.y, halo.radius, 0, Math.PI * 2)
+          context.fill()
+        }
+
+        const ripple = rippleAt(mark, settings, time)
+        if (ripple) {
+          context.globalAlpha = ripple.opacity
+          context.strokeStyle = settings.color
+          context.lineWidth = ripple.width
+          context.beginPath()
+          context.arc(mark.x, mark.y, ripple.radius, 0, Math.PI * 2)
+          context.stroke()
+        }
+        context.globalAlpha = 1
+      }
+      frameRequest = requestAnimationFrame(draw)
+    }
+    draw()
+
+    return () => cancelAnimationFrame(frameRequest)
+  }, [marks, settings, video, resolution, crop])
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={frame.width}
+      height={frame.height}
+      className="absolute inset-0 w-full h-full pointer-events-none"
+    />
+  )
+}
@@ -0,0 +1,98 @@
+import { useEffect, useMemo, useRef } from 'react'
+import { cursorImage, hiddenRanges, isHidden, maskSize, pointerPath, positionAt, smoothPath, type PointerSample } from '@/lib/cursor'
+import type { CaptureCrop, CursorSettings, PunchIn } from '@/types'
+
+interface CursorLayerProps {
+  // The export blurs the captured cursor out before any effect and draws its own over the click
+  // marks, so the preview stacks one layer for each part
+  part: 'mask' | 'cursor'
+  samples: PointerSample[]
+  settings: CursorSettings
+  punchIns: PunchIn[]
+  duration: number
+  // Size of the exported frame; the layer itself must cover exactly that frame
+  frame: { width: number; height: number }
+  // The footage being previewed, recorded at `resolution` and cropped to `crop`. The captured
+  // cursor is blurred out of it, and the drawn one follows its clock.
+  video: HTMLVideoElement
+  resolution: { width: number; height: number }
+  crop: CaptureCrop | null
+}
+
+// Previews the export's cursor: the captured one blurred out, or the themed one drawn on the
+// smoothed path. Both are drawn on every animation frame so they move as they will on export.
+export function CursorLayer({ part, samples, settings, punchIns, duration, frame, video, resolution, crop }: CursorLayerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  const path = useMemo(() => pointerPath(samples), [samples])
+  const smoothed = useMemo(() => smoothPath(path, settings.smoothing), [path, settings.smoothing])
+  const image = cursorImage(settings, frame)
+  // Loaded once per look, so the preview does not flicker while it re-renders
+  const picture = useMemo(() => {
+    const loaded = new Image()
+    loaded.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(image.svg)}`
+    return loaded
+  }, [image.svg])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !context || path.length === 0) return
+
+    const mask = maskSize(resolution, frame)
+    const hidden = hiddenRanges(path, settings, duration, punchIns)
+    const unseen = hiddenRanges(path, { hideWhenIdle: false, idleDelay: 0 }, duration, punchIns)
+
+    const drawMask = (time: number) => {
+      const scale = video.videoWidth / resolution.width || 1
+      const pointer = positionAt(path, time)
+      const x = Math.min(Math.max(pointer.x - mask * 0.25, 0), frame.width - mask)
+      const y = Math.min(Math.max(pointer.y - mask * 0.2, 0), frame.height - mask)
+
+      context.save()
+      context.beginPath()
+      context.rect(x, y, mask, mask)
+      context.clip()
+      context.filter = `blur(${Math.max(1, Math.floor(mask / 5))}px)`
+      context.drawImage(
+        video,
+        ((crop?.x ?? 0) + x) * scale,
+        ((crop?.y ?? 0) + y) * scale,
+        mask * scale,
+        mask * scale,
+        x,
+        y,
+        mask,
+        mask
+      )
+      context.restore()
+    }
+
+    let frameRequest = 0
+    const draw = () => {
+      const time = video.currentTime
+      context.clearRect(0, 0, canvas.width, canvas.height)
+
+      if (part === 'mask' && !isHidden(unseen, time)) {
+        drawMask(time)
+      }
+      if (part === 'cursor' && !isHidden(hidden, time) && picture.complete) {
+        const position = positionAt(smoothed, time)
+        context.drawImage(picture, position.x - image.hotspot.x, position.y - image.hotspot.y, image.width, image.height)
+      }
+      frameRequest = requestAnimationFrame(draw)
+    }
+    draw()
+
+    return () => cancelAnimationFrame(frameRequest)
+  }, [part, path, smoothed, image, picture, settings, punchIns, duration, frame, video, resolution, crop])
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={frame.width}
+      height={frame.height}
+      className="absolute inset-0 w-full h-full pointer-events-none"
+    />
+  )
+}
@@ -0,0 +1,221 @@
+import { Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Slider } from '@/components/ui/slider'
+import { annotationProperties } from '@/lib/annotations'
+import { MAX_CAMERA_ZOOM, zoomTarget } from '@/lib/camera'
+import { EASINGS, KEYFRAME_PROPERTIES, propertyTrack, valueAt } from '@/lib/keyframes'
+import type { Easing, EffectKeyframe, KeyframeProperty, VisualEffect } from '@/types'
+
+interface KeyframeLaneProps {
+  // An effect with a region; keyframes move and resize it
+  effect: VisualEffect
+  currentTime: number
+  // Size of the exported frame, which zoom levels are relative to
+  frame: { width: number; height: number }
+  // Index of the selected keyframe in effect.keyframes, if it is in this lane
+  selected: number | null
+  onSelect: (index: number | null) => void
+  onSeek: (time: number) => void
+  // Called as a control moves, and with the final effect once it is released
+  onChange: (effect: VisualEffect) => void
+  onCommit: (effect: VisualEffect) => void
+}
+
+const PIXEL_PROPERTIES: Array<{ property: KeyframeProperty; label: string }> = [
+  { property: 'x', label: 'X' },
+  { property: 'y', label: 'Y' },
+  { property: 'width', label: 'Width' },
+  { property: 'height', label: 'Height' }
+]
+
+const SLIDER_PROPERTIES: Partial<Record<KeyframeProperty, { label: string; min: number; max: number; step: number }>> = {
+  scale: { label: 'Zoom', min: 1, max: MAX_CAMERA_ZOOM, step: 0.1 },
+  opacity: { label: 'Opacity', min: 0, max: 1, step: 0.05 },
+  strength: { label: 'Blur strength', min: 0, max: 30, step: 1 }
+}
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.floor(seconds % 60)
+  return `${mins}:${secs.toString().padStart(2, '0')}`
+}
+
+const round = (property: KeyframeProperty, value: number) =>
+  PIXEL_PROPERTIES.some(pixel => pixel.property === property) ? Math.round(value) : Number(value.toFixed(2))
+
+// A strip spanning one effect with a diamond per keyframe. Clicking the strip moves the
+// playhead, and the selected keyframe's values and easing are edited below it.
+export function KeyframeLane({ effect, currentTime, frame, selected, onSelect, onSeek, onChange, onCommit }: KeyframeLaneProps) {
+  const length = effect.endTime - effect.startTime
+  const properties = KEYFRAME_PROPERTIES[effect.type]
+  const isPlayheadInside = currentTime >= effect.startTime && currentTime <= effect.endTime
+  const keyframe = selected !== null ? effect.keyframes[selected] : undefined
+  const label = effect.type === 'annotation' ? annotationProperties(effect.properties).kind : effect.type
+
+  // What the export shows for a property at `time`, keyframed or not
+  const valueOf = (property: KeyframeProperty, time: number) =>
+    property === 'scale'
+      ? zoomTarget(effect, frame, time).zoom
+      : valueAt(propertyTrack(effect, property), time)
+
+  const withKeyframes = (keyframes: EffectKeyframe[]) => ({ ...effect, keyframes })
+
+  const addKeyframe = () => {
+    const next: EffectKeyframe = { time: Number((currentTime - effect.startTime).toFixed(2)), easing: 'ease-in-out' }
+    properties.forEach(property => {
+      next[property] = round(property, valueOf(property, currentTime))
+    })
+    const keyframes = [...effect.keyframes, next].sort((a, b) => a.time - b.time)
+    onChange(withKeyframes(keyframes))
+    onCommit(withKeyframes(keyframes))
+    onSelect(keyframes.indexOf(next))
+  }
+
+  const updateKeyframe = (changes: Partial<EffectKeyframe>) =>
+    withKeyframes(effect.keyframes.map((other, index) => (index === selected ? { ...other, ...changes } : other)))
+
+  // Keyframes stay in time order once a change is final, so the selection follows its keyframe
+  const commitKeyframe = (changes: Partial<EffectKeyframe>) => {
+    const updated = updateKeyframe(changes)
+    const moved = updated.keyframes[selected!]
+    const keyframes = [...updated.keyframes].sort((a, b) => a.time - b.time)
+    onChange(withKeyframes(keyframes))
+    onCommit(withKeyframes(keyframes))
+    onSelect(keyframes.indexOf(moved))
+  }
+
+  const removeKeyframe = () => {
+    const keyframes = effect.keyframes.filter((_, index) => index !== selected)
+    onChange(withKeyframes(keyframes))
+    onCommit(withKeyframes(keyframes))
+    onSelect(null)
+  }
+
+  const setPixelValue = (property: KeyframeProperty, text: string) => {
+    const value = Number(text)
+    onChange(updateKeyframe({ [property]: text === '' || !Number.isFinite(value) ? undefined : value }))
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-slate-300 capitalize">{label}</span>
+        <span className="text-slate-400">{formatTime(effect.startTime)}–{formatTime(effect.endTime)}</span>
+      </div>
+      <div
+        className="relative h-6 rounded bg-slate-700 cursor-pointer"
+        onClick={(e) => {
+          const bounds = e.currentTarget.getBoundingClientRect()
+          onSeek(effect.startTime + ((e.clientX - bounds.left) / bounds.width) * length)
+        }}
+      >
+        {isPlayheadInside && (
+          <div
+            className="absolute top-0 bottom-0 w-px bg-red-500 pointer-events-none"
+            style={{ left: `${((currentTime - effect.startTime) / length) * 100}%` }}
+          />
+        )}
+        {effect.keyframes.map((other, index) => (
+          <button
+            key={index}
+            title={`${other.time.toFixed(2)}s · ${EASINGS.find(easing => easing.value === other.easing)?.label}`}
+            className={`absolute top-1/2 w-3 h-3 -translate-x-1/2 -translate-y-1/2 rotate-45 border ${
+              index === selected ? 'bg-blue-500 border-blue-300' : 'bg-slate-300 border-slate-500 hover:bg-white'
+            }`}
+            style={{ left: `${(Math.min(other.time, length) / length) * 100}%` }}
+            onClick={(e) => {
+              e.stopPropagation()
+              onSelect(index === selected ? null : index)
+              onSeek(effect.startTime + Math.min(other.time, length))
+            }}
+          />
+        ))}
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={addKeyframe}
+        disabled={!isPlayheadInside}
+        className="w-full gap-2 border-slate-600 text-slate-300 hover:bg-slate-700"
+      >
+        <Plus className="w-4 h-4" />
+        Add Keyframe at Playhead
+      </Button>
+
+      {keyframe && (
+        <div className="space-y-3 rounded border border-slate-700 p-3">
+          <div className="space-y-2">
+            <Label className="text-sm text-slate-300">At: {keyframe.time.toFixed(1)}s into the effect</Label>
+            <Slider
+              value={[Math.min(keyframe.time, length)]}
+              onValueChange={([time]) => onChange(updateKeyframe({ time }))}
+              onValueCommit={([time]) => commitKeyframe({ time })}
+              min={0}
+              max={length}
+              step={0.1}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm text-slate-300">Easing</Label>
+            <Select value={keyframe.easing} onValueChange={(easing) => commitKeyframe({ easing: easing as Easing })}>
+              <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EASINGS.map(easing => (
+                  <SelectItem key={easing.value} value={easing.value}>{easing.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {PIXEL_PROPERTIES.filter(({ property }) => properties.includes(property)).map(({ property, label }) => (
+              <div key={property} className="space-y-1">
+                <Label className="text-xs text-slate-400">{label}</Label>
+                <Input
+                  type="number"
+                  value={keyframe[property] ?? ''}
+                  placeholder={String(round(property, valueOf(property, effect.startTime + keyframe.time)))}
+                  onChange={(e) => setPixelValue(property, e.target.value)}
+                  onBlur={() => onCommit(effect)}
+                  className="bg-slate-700 border-slate-600 text-white"
+                />
+              </div>
+            ))}
+          </div>
+          {properties.map(property => {
+            const slider = SLIDER_PROPERTIES[property]
+            if (!slider) return null
+
+            const value = keyframe[property] ?? valueOf(property, effect.startTime + keyframe.time)
+            return (
+              <div key={property} className="space-y-2">
+                <Label className="text-sm text-slate-300">{slider.label}: {round(property, value)}</Label>
+                <Slider
+                  value={[value]}
+                  onValueChange={([next]) => onChange(updateKeyframe({ [property]: next }))}
+                  onValueCommit={([next]) => commitKeyframe({ [property]: next })}
+                  min={slider.min}
+                  max={slider.max}
+                  step={slider.step}
+                />
+              </div>
+            )
+          })}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={removeKeyframe}
+            className="w-full gap-2 text-slate-400 hover:text-white hover:bg-slate-700"
+          >
+            <Trash2 className="w-4 h-4" />
+            Remove Keyframe
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react'
+import { captionAt, keycapLayout, KEYSTROKE_THEMES, type KeystrokeCaption } from '@/lib/keystrokes'
+import type { KeystrokeOverlay } from '@/types'
+
+interface KeystrokeLayerProps {
+  captions: KeystrokeCaption[]
+  settings: KeystrokeOverlay
+  // Size of the exported frame; the layer itself must cover exactly that frame
+  frame: { width: number; height: number }
+  // Typed text changes with every key, so captions follow the video's own clock rather than
+  // its time updates
+  video: HTMLVideoElement
+}
+
+// Previews the export's keycaps for shortcuts and typed text
+export function KeystrokeLayer({ captions, settings, frame, video }: KeystrokeLayerProps) {
+  const [caption, setCaption] = useState<KeystrokeCaption | undefined>()
+
+  useEffect(() => {
+    let frameRequest = 0
+    const update = () => {
+      const current = captionAt(captions, video.currentTime)
+      setCaption(previous => (previous === current ? previous : current))
+      frameRequest = requestAnimationFrame(update)
+    }
+    update()
+
+    return () => cancelAnimationFrame(frameRequest)
+  }, [captions, video])
+
+  if (!caption) return null
+
+  const theme = KEYSTROKE_THEMES[settings.theme]
+  const fontSize = frame.height * settings.size
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      viewBox={`0 0 ${frame.width} ${frame.height}`}
+      preserveAspectRatio="none"
+    >
+      {keycapLayout(caption, settings, frame).map((keycap, index) => (
+        <g key={index}>
+          <rect
+            x={keycap.x}
+            y={keycap.y}
+            width={keycap.width}
+            height={keycap.height}
+            rx={fontSize * 0.35}
+            fill={theme.fill}
+            fillOpacity={theme.opacity}
+            stroke={theme.stroke}
+            strokeWidth={Math.max(1, fontSize * 0.06)}
+          />
+          <text
+            x={keycap.x + keycap.width / 2}
+            y={keycap.y + keycap.height / 2}
+            fontFamily="sans-serif"
+            fontWeight={600}
+            fontSize={fontSize}
+            fill={theme.text}
+            textAnchor="middle"
+            dominantBaseline="central"
+            style={{ whiteSpace: 'pre' }}
+          >
+            {keycap.text}
+          </text>
+        </g>
+      ))}
+    </svg>
+  )
+}
@@ -0,0 +1,120 @@
+import { useRef, useState } from 'react'
+import { CheckCircle2, Pause, Play } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Slider } from '@/components/ui/slider'
+import type { Recording } from '@/types'
+
+interface TakeComparisonProps {
+  takes: Recording[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onActivate: (take: Recording) => void
+}
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.floor(seconds % 60)
+  return `${mins}:${secs.toString().padStart(2, '0')}`
+}
+
+// Plays takes side by side on one clock so the same moment can be compared
+export function TakeComparison({ takes, open, onOpenChange, onActivate }: TakeComparisonProps) {
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [currentTime, setCurrentTime] = useState(0)
+  const videoRefs = useRef<Array<HTMLVideoElement | null>>([])
+
+  const duration = Math.max(0, ...takes.map(take => take.duration))
+
+  const togglePlayback = () => {
+    const videos = videoRefs.current.filter((video): video is HTMLVideoElement => Boolean(video))
+    if (isPlaying) {
+      videos.forEach(video => video.pause())
+    } else {
+      videos.forEach(video => {
+        if (video.currentTime < video.duration) {
+          video.play().catch((error) => console.error('Playback failed:', error))
+        }
+      })
+    }
+    setIsPlaying(!isPlaying)
+  }
+
+  const seekTo = (time: number) => {
+    videoRefs.current.forEach(video => {
+      if (video) video.currentTime = Math.min(time, Number.isFinite(video.duration) ? video.duration : time)
+    })
+    setCurrentTime(time)
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      videoRefs.current.forEach(video => video?.pause())
+      setIsPlaying(false)
+    }
+    onOpenChange(next)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-6xl bg-slate-900 border-slate-800 text-white">
+        <DialogHeader>
+          <DialogTitle>Compare Takes</DialogTitle>
+        </DialogHeader>
+
+        <div className={`grid gap-4 ${takes.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+          {takes.map((take, index) => (
+            <div key={take.id} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">Take {take.takeNumber}</span>
+                  {take.isActiveTake && (
+                    <Badge className="bg-green-600/20 text-green-300 border-green-700">Active</Badge>
+                  )}
+                </div>
+                <span className="text-xs text-slate-400">{formatTime(take.duration)}</span>
+              </div>
+              <video
+                ref={(el) => { videoRefs.current[index] = el }}
+                src={take.videoUrl}
+                className="w-full aspect-video rounded-lg bg-black object-contain"
+                // The first take drives the shared clock; the others only follow seeks
+                muted={index > 0}
+                playsInline
+                onTimeUpdate={index === 0 ? (e) => setCurrentTime(e.currentTarget.currentTime) : undefined}
+                onEnded={index === 0 ? () => setIsPlaying(false) : undefined}
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={take.isActiveTake}
+                onClick={() => onActivate(take)}
+                className="w-full gap-2 border-slate-700 text-slate-300 hover:bg-slate-800"
+              >
+                <CheckCircle2 className="w-4 h-4" />
+                {take.isActiveTake ? 'Active Take' : 'Make Active'}
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="sm" onClick={togglePlayback} className="text-white hover:bg-white/10">
+            {isPlaying ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+          </Button>
+          <Slider
+            value={[currentTime]}
+            onValueChange={([time]) => seekTo(time)}
+            max={duration || 1}
+            step={0.1}
+            className="flex-1"
+          />
+          <span className="text-sm text-slate-400 min-w-[80px] text-right">
+            {formatTime(currentTime)} / {formatTime(duration)}
+          </span>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,82 @@
+import { useRef, useState } from 'react'
+import { clampCrop, MIN_CROP_SIZE } from '@/lib/captureCrop'
+import type { CaptureCrop } from '@/types'
+
+interface CropSelectorProps {
+  // Size of the full captured frame; the selector itself must cover exactly that frame
+  frame: { width: number; height: number }
+  crop: CaptureCrop | null
+  onChange: (crop: CaptureCrop) => void
+}
+
+// Drag across the frame to draw the region to keep. Everything outside it is dimmed.
+export function CropSelector({ frame, crop, onChange }: CropSelectorProps) {
+  const [draft, setDraft] = useState<CaptureCrop | null>(null)
+  const originRef = useRef<{ x: number; y: number } | null>(null)
+
+  const toFramePoint = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    return {
+      x: Math.min(Math.max((event.clientX - rect.left) / rect.width, 0), 1) * frame.width,
+      y: Math.min(Math.max((event.clientY - rect.top) / rect.height, 0), 1) * frame.height
+    }
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId)
+    originRef.current = toFramePoint(event)
+    setDraft(null)
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const origin = originRef.current
+    if (!origin) return
+    const point = toFramePoint(event)
+    setDraft({
+      x: Math.min(origin.x, point.x),
+      y: Math.min(origin.y, point.y),
+      width: Math.abs(point.x - origin.x),
+      height: Math.abs(point.y - origin.y)
+    })
+  }
+
+  const handlePointerUp = () => {
+    originRef.current = null
+    // A click without a drag keeps the current region
+    if (draft && draft.width >= MIN_CROP_SIZE && draft.height >= MIN_CROP_SIZE) {
+      onChange(clampCrop(draft, frame))
+    }
+    setDraft(null)
+  }
+
+  const region = draft || crop
+  const toPercent = (value: number, total: number) => `${(value / total) * 100}%`
+
+  return (
+    <div
+      className="absolute inset-0 overflow-hidden cursor-crosshair touch-none select-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {region ? (
+        <div
+          className="absolute border-2 border-indigo-400 shadow-[0_0_0_9999px_rgba(0,0,0,0.6)] pointer-events-none"
+          style={{
+            left: toPercent(region.x, frame.width),
+            top: toPercent(region.y, frame.height),
+            width: toPercent(region.width, frame.width),
+            height: toPercent(region.height, frame.height)
+          }}
+        >
+          <span className="absolute -top-6 left-0 text-xs text-white bg-indigo-600 rounded px-1.5 py-0.5">
+            {Math.round(region.width)}×{Math.round(region.height)}
+          </span>
+        </div>
+      ) : (
+        <div className="absolute inset-0 border-2 border-dashed border-indigo-400/70 pointer-events-none" />
+      )}
+    </div>
+  )
+}
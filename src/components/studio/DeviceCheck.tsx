@@ -0,0 +1,215 @@
+import { useEffect, useRef, useState } from 'react'
+import { AlertCircle, Camera, Mic, Volume2 } from 'lucide-react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { createAudioLevelMeter, type AudioLevel } from '@/lib/audioLevel'
+import { describeMediaError, getInputStream, matchDevice, type InputKind } from '@/lib/mediaDevices'
+import type { RecordingDevices } from '@/types'
+
+interface DeviceCheckProps {
+  microphoneEnabled: boolean
+  cameraEnabled: boolean
+  systemAudioEnabled: boolean
+  devices: RecordingDevices
+  onDevicesChange: (devices: RecordingDevices) => void
+}
+
+const SILENCE_WARNING_SECONDS = 3
+
+// Meter position on a -60..0 dBFS scale
+const levelPercent = (rms: number) =>
+  Math.max(0, Math.min(100, ((20 * Math.log10(Math.max(rms, 1e-6)) + 60) / 60) * 100))
+
+// Pre-flight check shown before recording: pick inputs, preview the camera and watch the mic level
+export function DeviceCheck({ microphoneEnabled, cameraEnabled, systemAudioEnabled, devices, onDevicesChange }: DeviceCheckProps) {
+  const [isTesting, setIsTesting] = useState(false)
+  const [microphones, setMicrophones] = useState<MediaDeviceInfo[]>([])
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([])
+  const [level, setLevel] = useState<AudioLevel | null>(null)
+  const [errors, setErrors] = useState<Partial<Record<InputKind, string>>>({})
+  const [cameraStream, setCameraStream] = useState<MediaStream | null>(null)
+  const streamsRef = useRef<MediaStream[]>([])
+
+  const microphoneId = matchDevice(microphones, devices.microphoneId, devices.microphoneLabel)?.deviceId
+  const cameraId = matchDevice(cameras, devices.cameraId, devices.cameraLabel)?.deviceId
+
+  const refreshDevices = async () => {
+    const all = await navigator.mediaDevices.enumerateDevices()
+    setMicrophones(all.filter(device => device.kind === 'audioinput' && device.deviceId))
+    setCameras(all.filter(device => device.kind === 'videoinput' && device.deviceId))
+  }
+
+  useEffect(() => {
+    // Labels are only exposed once the page has been granted access, so this list may be
+    // anonymous until the first test
+    refreshDevices().catch(() => {})
+    navigator.mediaDevices.addEventListener('devicechange', refreshDevices)
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refreshDevices)
+  }, [])
+
+  // Opens the selected inputs while testing; reopens them when the selection changes
+  useEffect(() => {
+    if (!isTesting) return
+
+    let cancelled = false
+    let stopMeter: (() => void) | null = null
+
+    const open = async (kind: InputKind, deviceId?: string) => {
+      try {
+        const stream = await getInputStream(kind, deviceId)
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop())
+          return
+        }
+        streamsRef.current.push(stream)
+        setErrors(prev => ({ ...prev, [kind]: undefined }))
+
+        if (kind === 'microphone') {
+          stopMeter = createAudioLevelMeter(stream, setLevel).stop
+        } else {
+          setCameraStream(stream)
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setErrors(prev => ({ ...prev, [kind]: describeMediaError(kind, error) }))
+        }
+      }
+    }
+
+    Promise.all([
+      microphoneEnabled && open('microphone', microphoneId),
+      cameraEnabled && open('camera', cameraId)
+    ]).then(() => {
+      if (!cancelled) refreshDevices().catch(() => {})
+    })
+
+    return () => {
+      cancelled = true
+      stopMeter?.()
+      streamsRef.current.forEach(stream => stream.getTracks().forEach(track => track.stop()))
+      streamsRef.current = []
+      setCameraStream(null)
+      setLevel(null)
+    }
+  }, [isTesting, microphoneEnabled, cameraEnabled, microphoneId, cameraId])
+
+  const selectDevice = (kind: InputKind, deviceId: string) => {
+    const list = kind === 'microphone' ? microphones : cameras
+    const label = list.find(device => device.deviceId === deviceId)?.label
+    onDevicesChange(kind === 'microphone'
+      ? { ...devices, microphoneId: deviceId, microphoneLabel: label }
+      : { ...devices, cameraId: deviceId, cameraLabel: label })
+  }
+
+  const warnings: string[] = []
+  if (level && level.silentFor > SILENCE_WARNING_SECONDS) {
+    warnings.push('No sound from the microphone. Check that it is not muted and that the right input is selected.')
+  }
+  if (level?.clipping) {
+    warnings.push('The microphone is clipping. Lower its input gain or move it further away.')
+  }
+
+  return (
+    <Card className="bg-slate-900 border-slate-800">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-white flex items-center justify-between">
+          Devices
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setIsTesting(!isTesting)}
+            disabled={!microphoneEnabled && !cameraEnabled}
+            className="border-slate-700 text-slate-300 hover:bg-slate-800"
+          >
+            {isTesting ? 'Stop Test' : 'Test Devices'}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {microphoneEnabled && (
+          <div className="space-y-2">
+            <Label className="text-slate-300 flex items-center gap-2">
+              <Mic className="w-4 h-4" />
+              Microphone
+            </Label>
+            <Select value={microphoneId} onValueChange={(value) => selectDevice('microphone', value)}>
+              <SelectTrigger className="bg-slate-800 border-slate-700 text-white">
+                <SelectValue placeholder="System default" />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-800 border-slate-700">
+                {microphones.map((device, index) => (
+                  <SelectItem key={device.deviceId} value={device.deviceId}>
+                    {device.label || `Microphone ${index + 1}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {isTesting && level && (
+              <div className="h-2 rounded-full bg-slate-800 overflow-hidden">
+                <div
+                  className={`h-full transition-[width] duration-75 ${
+                    level.clipping ? 'bg-red-500' : level.peak > 0.8 ? 'bg-amber-400' : 'bg-green-500'
+                  }`}
+                  style={{ width: `${levelPercent(level.rms)}%` }}
+                />
+              </div>
+            )}
+            {errors.microphone && <p className="text-xs text-red-400">{errors.microphone}</p>}
+          </div>
+        )}
+
+        {cameraEnabled && (
+          <div className="space-y-2">
+            <Label className="text-slate-300 flex items-center gap-2">
+              <Camera className="w-4 h-4" />
+              Camera
+            </Label>
+            <Select value={cameraId} onValueChange={(value) => selectDevice('camera', value)}>
+              <SelectTrigger className="bg-slate-800 border-slate-700 text-white">
+                <SelectValue placeholder="System default" />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-800 border-slate-700">
+                {cameras.map((device, index) => (
+                  <SelectItem key={device.deviceId} value={device.deviceId}>
+                    {device.label || `Camera ${index + 1}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {isTesting && cameraStream && (
+              <video
+                ref={(el) => {
+                  if (el && el.srcObject !== cameraStream) {
+                    el.srcObject = cameraStream
+                  }
+                }}
+                className="w-full aspect-video rounded-lg bg-black object-cover"
+                autoPlay
+                muted
+                playsInline
+              />
+            )}
+            {errors.camera && <p className="text-xs text-red-400">{errors.camera}</p>}
+          </div>
+        )}
+
+        {warnings.map(warning => (
+          <Alert key={warning} className="border-amber-500/50 bg-amber-500/10">
+            <AlertCircle className="h-4 w-4 text-amber-400" />
+            <AlertDescription className="text-amber-300 text-sm">{warning}</AlertDescription>
+          </Alert>
+        ))}
+
+        {systemAudioEnabled && (
+          <p className="text-xs text-slate-400 flex gap-2">
+            <Volume2 className="w-4 h-4 shrink-0" />
+            System audio is only captured when the shared tab or screen offers it and "Share audio" is ticked. The studio warns when a recording starts without it.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
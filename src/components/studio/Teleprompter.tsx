@@ -0,0 +1,173 @@
+import { useEffect, useRef, useState } from 'react'
+import { ChevronDown, ChevronUp, ScrollText } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Slider } from '@/components/ui/slider'
+import { Textarea } from '@/components/ui/textarea'
+import type { ScriptLine } from '@/types'
+
+interface TeleprompterProps {
+  segments: ScriptLine[]
+  activeIndex: number
+  isRunning: boolean
+  onAdvance: (index: number) => void
+  onSegmentsChange: (segments: ScriptLine[]) => void
+}
+
+// Presenter remotes send PageDown/PageUp, so they work as teleprompter hotkeys too
+const NEXT_KEYS = ['PageDown', 'ArrowDown']
+const PREVIOUS_KEYS = ['PageUp', 'ArrowUp']
+
+// Pasted scripts are split into segments at blank lines
+const parseScript = (text: string): ScriptLine[] =>
+  text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map((paragraph, index) => ({
+      id: `pasted_${index + 1}`,
+      text: paragraph,
+      startTime: 0,
+      endTime: 0,
+      isGenerated: false
+    }))
+
+export function Teleprompter({ segments, activeIndex, isRunning, onAdvance, onSegmentsChange }: TeleprompterProps) {
+  const [speed, setSpeed] = useState([40])
+  const [draft, setDraft] = useState('')
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const segmentRefs = useRef<Array<HTMLDivElement | null>>([])
+
+  // Bring the active segment to the reading line whenever it changes
+  useEffect(() => {
+    const container = scrollRef.current
+    const segment = segmentRefs.current[activeIndex]
+    if (container && segment) {
+      container.scrollTo({ top: segment.offsetTop - container.offsetTop - 16, behavior: 'smooth' })
+    }
+  }, [activeIndex, segments])
+
+  // Scroll continuously at the chosen speed (pixels per second) while recording
+  useEffect(() => {
+    if (!isRunning) return
+
+    let frame = 0
+    let last = performance.now()
+    const tick = (now: number) => {
+      if (scrollRef.current) {
+        scrollRef.current.scrollTop += (speed[0] * (now - last)) / 1000
+      }
+      last = now
+      frame = requestAnimationFrame(tick)
+    }
+    frame = requestAnimationFrame(tick)
+    return () => cancelAnimationFrame(frame)
+  }, [isRunning, speed])
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null
+      if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return
+
+      if (NEXT_KEYS.includes(event.key) && activeIndex < segments.length - 1) {
+        event.preventDefault()
+        onAdvance(activeIndex + 1)
+      } else if (PREVIOUS_KEYS.includes(event.key) && activeIndex > 0) {
+        event.preventDefault()
+        onAdvance(activeIndex - 1)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [activeIndex, segments.length, onAdvance])
+
+  return (
+    <Card className="bg-slate-900 border-slate-800">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-white flex items-center gap-2">
+          <ScrollText className="w-5 h-5" />
+          Teleprompter
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {segments.length === 0 ? (
+          <div className="space-y-2">
+            <p className="text-sm text-slate-400">
+              This project has no script yet. Paste one below, with a blank line between segments.
+            </p>
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              className="min-h-[120px] text-sm bg-slate-800 border-slate-700 text-white placeholder:text-slate-400"
+              placeholder="Welcome to our product demo..."
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              className="w-full border-slate-700 text-slate-300 hover:bg-slate-800"
+              disabled={!draft.trim()}
+              onClick={() => onSegmentsChange(parseScript(draft))}
+            >
+              Use Script
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div ref={scrollRef} className="h-64 overflow-y-auto rounded-lg bg-black px-4 py-4 space-y-6">
+              {segments.map((segment, index) => (
+                <div
+                  key={segment.id}
+                  ref={(el) => { segmentRefs.current[index] = el }}
+                  onClick={() => onAdvance(index)}
+                  className={`cursor-pointer text-xl leading-relaxed transition-colors ${
+                    index === activeIndex ? 'text-white' : index < activeIndex ? 'text-slate-600' : 'text-slate-400'
+                  }`}
+                >
+                  {segment.text}
+                </div>
+              ))}
+              {/* Lets the last segment scroll up to the reading line */}
+              <div className="h-48" />
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                className="border-slate-700 text-slate-300 hover:bg-slate-800"
+                disabled={activeIndex === 0}
+                onClick={() => onAdvance(activeIndex - 1)}
+              >
+                <ChevronUp className="w-4 h-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="flex-1 gap-2 border-slate-700 text-slate-300 hover:bg-slate-800"
+                disabled={activeIndex >= segments.length - 1}
+                onClick={() => onAdvance(activeIndex + 1)}
+              >
+                <ChevronDown className="w-4 h-4" />
+                Next Segment
+              </Button>
+              <span className="text-xs text-slate-400 min-w-[48px] text-right">
+                {activeIndex + 1} / {segments.length}
+              </span>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-slate-300">Scroll speed: {speed[0]} px/s</Label>
+              <Slider value={speed} onValueChange={setSpeed} min={0} max={120} step={5} />
+            </div>
+
+            <p className="text-xs text-slate-500">
+              Page Down / Page Up or the arrow keys move between segments. Each segment you reach while recording is saved as a marker.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,31 @@
+import type { AnnotationProperties, VisualEffect } from '@/types'
+
+// Same defaults the export applies to styling left out of an annotation
+export function annotationProperties(properties: Record<string, any> = {}): AnnotationProperties {
+  return {
+    kind: properties.kind || 'callout',
+    text: properties.text,
+    color: properties.color || '#6366f1',
+    textColor: properties.textColor || '#ffffff',
+    fontSize: properties.fontSize || 28,
+    strokeWidth: properties.strokeWidth || 4,
+    opacity: properties.opacity ?? (properties.kind === 'spotlight' ? 0.6 : 1),
+    arrowFrom: properties.arrowFrom || 'bottom-left',
+    fadeIn: properties.fadeIn ?? 0.3,
+    fadeOut: properties.fadeOut ?? 0.3
+  }
+}
+
+// How far the annotation has faded in at `time`, from 0 (hidden) to 1. Fades are capped at
+// half the annotation's length, as on export.
+export function annotationVisibility(effect: VisualEffect, time: number): number {
+  if (time < effect.startTime || time > effect.endTime) return 0
+
+  const { fadeIn, fadeOut } = annotationProperties(effect.properties)
+  const half = (effect.endTime - effect.startTime) / 2
+  const inFor = Math.min(fadeIn, half)
+  const outFor = Math.min(fadeOut, half)
+  const fadingIn = inFor > 0 ? (time - effect.startTime) / inFor : 1
+  const fadingOut = outFor > 0 ? (effect.endTime - time) / outFor : 1
+  return Math.max(0, Math.min(1, fadingIn, fadingOut))
+}
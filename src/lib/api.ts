@@ -0,0 +1,668 @@
+import blink from '@/blink/client'
+import { cropUIEvents } from '@/lib/captureCrop'
+import type { CaptureCrop, ClickEffects, CursorSettings, IdleRange, KeystrokeOverlay, ProjectSummary, PunchIn, Recording, RecordingDevices, RecordingMarker, ScriptLine, TrackKind, TypingSpeedUp, UIEvent, VisualEffect, WebcamOverlay } from '@/types'
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001'
+
+export class ApiError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
+  }
+}
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const token = await blink.auth.getValidToken()
+  return token ? { Authorization: `Bearer ${token}` } : {}
+}
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${API_URL}/api${path}`, {
+    ...init,
+    headers: {
+      ...(init.body && !(init.body instanceof FormData) && { 'Content-Type': 'application/json' }),
+      ...(await authHeaders()),
+      ...init.headers
+    }
+  })
+
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new ApiError(data.error || `Request failed with status ${response.status}`, response.status)
+  }
+  return data as T
+}
+
+// Storage is private, so file URLs are short-lived and issued separately from the document
+export interface RecordingMedia {
+  video: string | null
+  originalVideo: string | null
+  processedVideo: string | null
+  audio: string | null
+  thumbnail: string | null
+  segments: Record<string, string>
+  tracks: Partial<Record<TrackKind, string>>
+  punchIns: Record<string, string>
+  expiresAt: string
+}
+
+export const defaultWebcamOverlay: WebcamOverlay = {
+  enabled: true,
+  shape: 'circle',
+  size: 0.2,
+  position: { x: 1, y: 1 },
+  hiddenRanges: [],
+  chromaKey: { enabled: false, color: '#00ff00', similarity: 0.15, blend: 0.05 }
+}
+
+export const defaultClickEffects: ClickEffects = {
+  enabled: false,
+  ripple: true,
+  halo: true,
+  magnify: false,
+  color: '#facc15',
+  size: 40,
+  duration: 0.6,
+  magnification: 2
+}
+
+function toClickEffects(clickEffects: any): ClickEffects {
+  return { ...defaultClickEffects, ...clickEffects }
+}
+
+export const defaultCursorSettings: CursorSettings = {
+  enabled: false,
+  theme: 'light',
+  size: 0.04,
+  smoothing: 0.5,
+  hideWhenIdle: true,
+  idleDelay: 2
+}
+
+function toCursorSettings(cursor: any): CursorSettings {
+  return { ...defaultCursorSettings, ...cursor }
+}
+
+export const defaultKeystrokeOverlay: KeystrokeOverlay = {
+  enabled: false,
+  shortcuts: true,
+  typing: true,
+  position: 'bottom-center',
+  theme: 'dark',
+  size: 0.035,
+  duration: 1.5
+}
+
+function toKeystrokeOverlay(keystrokes: any): KeystrokeOverlay {
+  return { ...defaultKeystrokeOverlay, ...keystrokes }
+}
+
+export const defaultTypingSpeedUp: TypingSpeedUp = {
+  enabled: false,
+  minKeys: 15,
+  speed: 3,
+  audio: 'narration'
+}
+
+function toTypingSpeedUp(typingSpeedUp: any): TypingSpeedUp {
+  return { ...defaultTypingSpeedUp, ...typingSpeedUp }
+}
+
+function toWebcamOverlay(overlay: any): WebcamOverlay {
+  if (!overlay) return defaultWebcamOverlay
+  return {
+    enabled: overlay.enabled,
+    shape: overlay.shape,
+    size: overlay.size,
+    position: { x: overlay.position.x, y: overlay.position.y },
+    hiddenRanges: (overlay.hiddenRanges || []).map((range: any) => ({
+      startTime: range.startTime,
+      endTime: range.endTime
+    })),
+    chromaKey: {
+      enabled: overlay.chromaKey.enabled,
+      color: overlay.chromaKey.color,
+      similarity: overlay.chromaKey.similarity,
+      blend: overlay.chromaKey.blend
+    }
+  }
+}
+
+// Tracks are only usable once media has been signed for them
+function toTracks(docs: any[] = [], media?: RecordingMedia): Recording['tracks'] {
+  const tracks: Recording['tracks'] = {}
+  for (const track of docs) {
+    const kind = track.kind as TrackKind
+    const url = media?.tracks[kind]
+    if (url) {
+      tracks[kind] = { kind, url, offset: track.offset, muted: Boolean(track.muted) }
+    }
+  }
+  return tracks
+}
+
+function toPunchIns(docs: any[] = [], media?: RecordingMedia): PunchIn[] {
+  return docs
+    .filter(punchIn => media?.punchIns?.[punchIn._id])
+    .map(punchIn => ({
+      id: punchIn._id,
+      url: media!.punchIns[punchIn._id],
+      startTime: punchIn.startTime,
+      endTime: punchIn.endTime,
+      hasAudio: Boolean(punchIn.hasAudio)
+    }))
+    .sort((a, b) => a.startTime - b.startTime)
+}
+
+function toIdleRanges(docs: any[] = []): IdleRange[] {
+  return docs
+    .map(range => ({
+      id: range._id,
+      startTime: range.startTime,
+      endTime: range.endTime,
+      action: range.action || 'suggested',
+      speed: range.speed ?? 4
+    }))
+    .sort((a, b) => a.startTime - b.startTime)
+}
+
+function toVisualEffects(docs: any[] = []): VisualEffect[] {
+  return docs.map(effect => ({
+    id: effect._id,
+    type: effect.type,
+    startTime: effect.startTime,
+    endTime: effect.endTime,
+    coordinates: effect.coordinates?.width ? effect.coordinates : undefined,
+    properties: effect.properties,
+    keyframes: effect.keyframes || []
+  }))
+}
+
+function toCrop(crop: any): CaptureCrop | null {
+  return crop ? { x: crop.x, y: crop.y, width: crop.width, height: crop.height } : null
+}
+
+// Events are stored in full-frame pixels and served in the space of the cropped frame
+function toUIEvents(docs: any[] = [], crop: CaptureCrop | null): UIEvent[] {
+  return cropUIEvents(docs.map((event: any, index: number) => ({
+    id: `evt_${index + 1}`,
+    type: event.type,
+    timestamp: event.timestamp,
+    position: event.coordinates,
+    element: event.element,
+    value: event.value,
+    metadata: event.metadata
+  })), crop)
+}
+
+// Backend documents use `_id`/`coordinates`; the UI works with `id`/`position`
+function toRecording(doc: any, media?: RecordingMedia): Recording {
+  const crop = toCrop(doc.crop)
+  return {
+    id: doc._id,
+    projectId: typeof doc.project === 'string' ? doc.project : doc.project?._id,
+    title: doc.title,
+    takeGroup: doc.takeGroup || doc._id,
+    takeNumber: doc.takeNumber ?? 1,
+    isActiveTake: doc.isActiveTake ?? true,
+    videoUrl: media?.video || '',
+    audioUrl: media?.audio || undefined,
+    duration: doc.duration,
+    resolution: doc.resolution,
+    processingStatus: doc.processingStatus,
+    events: toUIEvents(doc.uiEvents, crop),
+    markers: (doc.markers || []).map((marker: any) => ({
+      time: marker.time,
+      label: marker.label,
+      source: marker.source,
+      segmentId: marker.segmentId
+    })),
+    script: (doc.script?.segments || []).map((segment: any): ScriptLine => ({
+      id: segment.id,
+      text: segment.text,
+      startTime: segment.startTime,
+      endTime: segment.endTime,
+      audioUrl: media?.segments[segment.id],
+      isGenerated: Boolean(segment.audioKey)
+    })),
+    transcript: doc.script?.originalTranscript,
+    tracks: toTracks(doc.tracks, media),
+    punchIns: toPunchIns(doc.punchIns, media),
+    idleRanges: toIdleRanges(doc.idleRanges),
+    visualEffects: toVisualEffects(doc.visualEffects),
+    webcamOverlay: toWebcamOverlay(doc.webcamOverlay),
+    crop,
+    createdAt: doc.createdAt
+  }
+}
+
+function toUIEventPayload(event: UIEvent) {
+  return {
+    type: event.type,
+    timestamp: event.timestamp,
+    ...(event.position && { coordinates: event.position }),
+    ...(event.element && { element: event.element }),
+    ...(event.value && { value: event.value }),
+    ...(event.metadata && { metadata: event.metadata })
+  }
+}
+
+// Labels are edited freely in the studio but the server requires one
+function toMarkerPayload(marker: RecordingMarker) {
+  return { ...marker, label: marker.label.trim() || 'Untitled marker' }
+}
+
+export async function getRecordingDevices(): Promise<RecordingDevices> {
+  const { user } = await request<{ user: any }>('/auth/me')
+  return user.preferences?.recordingDevices || {}
+}
+
+export async function saveRecordingDevices(devices: RecordingDevices): Promise<void> {
+  await request('/auth/recording-devices', {
+    method: 'PUT',
+    body: JSON.stringify(devices)
+  })
+}
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const { projects } = await request<{ projects: any[] }>('/projects?limit=50')
+  return projects.map(project => ({
+    id: project._id,
+    name: project.title,
+    status: project.status
+  }))
+}
+
+export async function getRecordingMedia(recordingId: string): Promise<RecordingMedia> {
+  const { media, expiresAt } = await request<{ media: Omit<RecordingMedia, 'expiresAt'>; expiresAt: string }>(
+    `/recordings/${recordingId}/media`
+  )
+  return { ...media, expiresAt }
+}
+
+export async function getRecording(recordingId: string): Promise<Recording> {
+  const [{ recording }, media] = await Promise.all([
+    request<{ recording: any }>(`/recordings/${recordingId}`),
+    getRecordingMedia(recordingId)
+  ])
+  return toRecording(recording, media)
+}
+
+// Every take of the recording's group, oldest first, with media for side-by-side playback
+export async function listTakes(recordingId: string): Promise<Recording[]> {
+  const { takes } = await request<{ takes: any[] }>(`/recordings/${recordingId}/takes`)
+  const media = await Promise.all(takes.map(take => getRecordingMedia(take._id)))
+  return takes.map((take, index) => toRecording(take, media[index]))
+}
+
+export async function activateTake(recordingId: string): Promise<void> {
+  await request(`/recordings/${recordingId}/activate-take`, { method: 'POST' })
+}
+
+// The script of the project's most recent recording that has one, e.g. for the teleprompter
+export async function getProjectScript(projectId: string): Promise<ScriptLine[]> {
+  const { recordings } = await request<{ recordings: any[] }>(`/recordings/project/${projectId}`)
+  const scripted = recordings.find(recording => recording.script?.segments?.length > 0)
+  return scripted ? toRecording(scripted).script : []
+}
+
+export interface UploadRecordingInput {
+  projectId: string
+  title: string
+  video: Blob
+  duration: number
+  resolution: { width: number; height: number }
+  uiEvents: UIEvent[]
+  markers: RecordingMarker[]
+  takeOf?: string
+}
+
+export interface UploadStatus {
+  id: string
+  status: 'active' | 'completing' | 'completed' | 'aborted'
+  offset: number
+  totalSize: number | null
+  chunkSize: number
+}
+
+export interface CreateUploadInput {
+  projectId: string
+  title: string
+  mimeType: string
+  resolution: { width: number; height: number }
+  totalSize?: number
+  duration?: number
+  uiEvents?: UIEvent[]
+  markers?: RecordingMarker[]
+  recordingId?: string
+  track?: TrackKind
+  trackOffset?: number
+  // Streams a track alongside a live screen recording that has no recording id yet
+  screenUpload?: string
+  punchIn?: { startTime: number; endTime: number; hasAudio: boolean }
+  takeOf?: string
+}
+
+const MAX_CHUNK_ATTEMPTS = 5
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Live recordings omit totalSize and declare it with their final chunk
+export async function createUploadSession(input: CreateUploadInput): Promise<UploadStatus> {
+  const { upload } = await request<{ upload: UploadStatus }>('/uploads', {
+    method: 'POST',
+    body: JSON.stringify({
+      projectId: input.projectId,
+      title: input.title,
+      filename: `${input.title.replace(/[^\w.-]+/g, '-')}.webm`,
+      mimeType: input.mimeType,
+      resolution: input.resolution,
+      ...(input.totalSize !== undefined && { totalSize: input.totalSize }),
+      ...(input.duration !== undefined && { duration: input.duration }),
+      ...(input.uiEvents && { uiEvents: input.uiEvents.map(toUIEventPayload) }),
+      ...(input.markers && { markers: input.markers.map(toMarkerPayload) }),
+      ...(input.recordingId && { recordingId: input.recordingId, track: input.track }),
+      ...(input.screenUpload && { screenUpload: input.screenUpload, track: input.track }),
+      ...(input.trackOffset !== undefined && { trackOffset: input.trackOffset }),
+      ...(input.punchIn && { punchIn: input.punchIn }),
+      ...(input.takeOf && { takeOf: input.takeOf })
+    })
+  })
+  return upload
+}
+
+export async function getUploadStatus(uploadId: string): Promise<UploadStatus> {
+  const { upload } = await request<{ upload: UploadStatus }>(`/uploads/${uploadId}`)
+  return upload
+}
+
+// Sends the chunk at the session's current offset from `source`, whose first byte sits at
+// `sourceStart` in the upload. Failures resynchronise with the server's offset so a
+// dropped connection resumes from the last acknowledged byte instead of from zero.
+export async function sendUploadChunk(
+  upload: UploadStatus,
+  source: Blob,
+  sourceStart = 0,
+  uploadLength?: number
+): Promise<UploadStatus> {
+  let lastError: unknown
+
+  for (let attempt = 0; attempt < MAX_CHUNK_ATTEMPTS; attempt++) {
+    try {
+      const from = upload.offset - sourceStart
+      const chunk = source.slice(from, from + upload.chunkSize)
+      const isLastChunk = uploadLength !== undefined && upload.offset + chunk.size === uploadLength
+      const { upload: next } = await request<{ upload: UploadStatus }>(`/uploads/${upload.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'Upload-Offset': String(upload.offset),
+          ...(isLastChunk && { 'Upload-Length': String(uploadLength) })
+        },
+        body: chunk
+      })
+      return next
+    } catch (error) {
+      lastError = error
+      if (error instanceof ApiError && error.status >= 400 && error.status < 500 && error.status !== 409) {
+        throw error
+      }
+      await wait(1000 * 2 ** attempt)
+      upload = await getUploadStatus(upload.id).catch(() => upload)
+    }
+  }
+
+  throw lastError
+}
+
+export async function completeUploadSession(
+  uploadId: string,
+  metadata: { totalSize?: number; duration?: number; uiEvents?: UIEvent[]; markers?: RecordingMarker[] } = {}
+): Promise<Recording> {
+  const body = JSON.stringify({
+    ...(metadata.totalSize !== undefined && { totalSize: metadata.totalSize }),
+    ...(metadata.duration !== undefined && { duration: metadata.duration }),
+    ...(metadata.uiEvents && { uiEvents: metadata.uiEvents.map(toUIEventPayload) }),
+    ...(metadata.markers && { markers: metadata.markers.map(toMarkerPayload) })
+  })
+
+  // While an earlier attempt is still assembling the upload, its result is waited for
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const { recording } = await request<{ recording: any }>(`/uploads/${uploadId}/complete`, { method: 'POST', body })
+      return toRecording(recording)
+    } catch (error) {
+      if (!(error instanceof ApiError) || error.status !== 409 || attempt === MAX_CHUNK_ATTEMPTS - 1) throw error
+      const { status } = await getUploadStatus(uploadId)
+      if (status !== 'completing' && status !== 'completed') throw error
+      await wait(1000 * 2 ** attempt)
+    }
+  }
+}
+
+export async function abortUploadSession(uploadId: string): Promise<void> {
+  await request(`/uploads/${uploadId}`, { method: 'DELETE' })
+}
+
+export async function uploadRecording(
+  input: UploadRecordingInput,
+  onProgress?: (percent: number) => void
+): Promise<Recording> {
+  let upload = await createUploadSession({
+    projectId: input.projectId,
+    title: input.title,
+    mimeType: input.video.type || 'video/webm',
+    resolution: input.resolution,
+    totalSize: input.video.size,
+    duration: input.duration,
+    uiEvents: input.uiEvents,
+    markers: input.markers,
+    takeOf: input.takeOf
+  })
+
+  while (upload.offset < input.video.size) {
+    upload = await sendUploadChunk(upload, input.video)
+    onProgress?.(Math.round((upload.offset / input.video.size) * 100))
+  }
+
+  return completeUploadSession(upload.id)
+}
+
+export interface UploadTrackInput {
+  projectId: string
+  recordingId: string
+  kind: TrackKind
+  media: Blob
+  offset: number
+  resolution: { width: number; height: number }
+}
+
+// Adds a separately captured track (e.g. the webcam) to an existing recording
+export async function uploadRecordingTrack(
+  input: UploadTrackInput,
+  onProgress?: (percent: number) => void
+): Promise<Recording> {
+  let upload = await createUploadSession({
+    projectId: input.projectId,
+    title: `${input.kind} track`,
+    mimeType: input.media.type || 'video/webm',
+    resolution: input.resolution,
+    totalSize: input.media.size,
+    recordingId: input.recordingId,
+    track: input.kind,
+    trackOffset: input.offset
+  })
+
+  while (upload.offset < input.media.size) {
+    upload = await sendUploadChunk(upload, input.media)
+    onProgress?.(Math.round((upload.offset / input.media.size) * 100))
+  }
+
+  return completeUploadSession(upload.id)
+}
+
+export interface UploadPunchInInput {
+  projectId: string
+  recordingId: string
+  video: Blob
+  startTime: number
+  endTime: number
+  hasAudio: boolean
+  resolution: { width: number; height: number }
+}
+
+// Replaces one section of an existing recording with newly recorded footage
+export async function uploadPunchIn(
+  input: UploadPunchInInput,
+  onProgress?: (percent: number) => void
+): Promise<Recording> {
+  let upload = await createUploadSession({
+    projectId: input.projectId,
+    title: 'punch-in',
+    mimeType: input.video.type || 'video/webm',
+    resolution: input.resolution,
+    totalSize: input.video.size,
+    recordingId: input.recordingId,
+    punchIn: { startTime: input.startTime, endTime: input.endTime, hasAudio: input.hasAudio }
+  })
+
+  while (upload.offset < input.video.size) {
+    upload = await sendUploadChunk(upload, input.video)
+    onProgress?.(Math.round((upload.offset / input.video.size) * 100))
+  }
+
+  return completeUploadSession(upload.id)
+}
+
+export async function deletePunchIn(recordingId: string, punchInId: string): Promise<void> {
+  await request(`/recordings/${recordingId}/punch-ins/${punchInId}`, { method: 'DELETE' })
+}
+
+export async function addVisualEffect(recordingId: string, effect: Omit<VisualEffect, 'id' | 'keyframes'>): Promise<VisualEffect> {
+  const { effect: saved } = await request<{ effect: any }>(`/recordings/${recordingId}/effects`, {
+    method: 'POST',
+    body: JSON.stringify(effect)
+  })
+  return toVisualEffects([saved])[0]
+}
+
+export async function updateVisualEffect(recordingId: string, effect: VisualEffect): Promise<VisualEffect> {
+  const { id, ...fields } = effect
+  const { effect: saved } = await request<{ effect: any }>(`/recordings/${recordingId}/effects/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(fields)
+  })
+  return toVisualEffects([saved])[0]
+}
+
+// Replaces the zooms generated earlier and returns all of the recording's effects
+export async function generateAutoZoom(recordingId: string, zoom: number): Promise<VisualEffect[]> {
+  const { visualEffects } = await request<{ visualEffects: any[] }>(`/recordings/${recordingId}/auto-zoom`, {
+    method: 'POST',
+    body: JSON.stringify({ zoom })
+  })
+  return toVisualEffects(visualEffects)
+}
+
+// Replaces the earlier suggestions and returns all of the recording's idle ranges
+export async function detectIdleRanges(
+  recordingId: string,
+  options: { minDuration: number; noise: number }
+): Promise<IdleRange[]> {
+  const { idleRanges } = await request<{ idleRanges: any[] }>(`/recordings/${recordingId}/idle-ranges/detect`, {
+    method: 'POST',
+    body: JSON.stringify(options)
+  })
+  return toIdleRanges(idleRanges)
+}
+
+export async function updateIdleRange(recordingId: string, range: IdleRange): Promise<IdleRange> {
+  const { idleRange } = await request<{ idleRange: any }>(`/recordings/${recordingId}/idle-ranges/${range.id}`, {
+    method: 'PUT',
+    body: JSON.stringify({ action: range.action, speed: range.speed })
+  })
+  return toIdleRanges([idleRange])[0]
+}
+
+export async function deleteVisualEffect(recordingId: string, effectId: string): Promise<void> {
+  await request(`/recordings/${recordingId}/effects/${effectId}`, { method: 'DELETE' })
+}
+
+export async function updateTrack(recordingId: string, kind: TrackKind, settings: { muted: boolean }): Promise<void> {
+  await request(`/recordings/${recordingId}/tracks/${kind}`, {
+    method: 'PUT',
+    body: JSON.stringify(settings)
+  })
+}
+
+// The project settings the editor previews exports with
+export async function getExportSettings(projectId: string): Promise<{
+  clickEffects: ClickEffects
+  cursor: CursorSettings
+  keystrokes: KeystrokeOverlay
+  typingSpeedUp: TypingSpeedUp
+}> {
+  const { project } = await request<{ project: any }>(`/projects/${projectId}`)
+  return {
+    clickEffects: toClickEffects(project.settings?.clickEffects),
+    cursor: toCursorSettings(project.settings?.cursor),
+    keystrokes: toKeystrokeOverlay(project.settings?.keystrokes),
+    typingSpeedUp: toTypingSpeedUp(project.settings?.typingSpeedUp)
+  }
+}
+
+export async function updateClickEffects(projectId: string, clickEffects: ClickEffects): Promise<ClickEffects> {
+  const { project } = await request<{ project: any }>(`/projects/${projectId}`, {
+    method: 'PUT',
+    body: JSON.stringify({ settings: { clickEffects } })
+  })
+  return toClickEffects(project.settings?.clickEffects)
+}
+
+export async function updateCursorSettings(projectId: string, cursor: CursorSettings): Promise<CursorSettings> {
+  const { project } = await request<{ project: any }>(`/projects/${projectId}`, {
+    method: 'PUT',
+    body: JSON.stringify({ settings: { cursor } })
+  })
+  return toCursorSettings(project.settings?.cursor)
+}
+
+export async function updateKeystrokeOverlay(projectId: string, keystrokes: KeystrokeOverlay): Promise<KeystrokeOverlay> {
+  const { project } = await request<{ project: any }>(`/projects/${projectId}`, {
+    method: 'PUT',
+    body: JSON.stringify({ settings: { keystrokes } })
+  })
+  return toKeystrokeOverlay(project.settings?.keystrokes)
+}
+
+export async function updateTypingSpeedUp(projectId: string, typingSpeedUp: TypingSpeedUp): Promise<TypingSpeedUp> {
+  const { project } = await request<{ project: any }>(`/projects/${projectId}`, {
+    method: 'PUT',
+    body: JSON.stringify({ settings: { typingSpeedUp } })
+  })
+  return toTypingSpeedUp(project.settings?.typingSpeedUp)
+}
+
+export async function updateWebcamOverlay(recordingId: string, overlay: WebcamOverlay): Promise<WebcamOverlay> {
+  const { webcamOverlay } = await request<{ webcamOverlay: any }>(`/recordings/${recordingId}/webcam-overlay`, {
+    method: 'PUT',
+    body: JSON.stringify(overlay)
+  })
+  return toWebcamOverlay(webcamOverlay)
+}
+
+// Returns the events too, since their positions are relative to the crop
+export async function updateRecordingCrop(
+  recordingId: string,
+  crop: CaptureCrop | null
+): Promise<Pick<Recording, 'crop' | 'events'>> {
+  const { recording } = await request<{ recording: any }>(`/recordings/${recordingId}/crop`, {
+    method: 'PUT',
+    body: JSON.stringify({ crop })
+  })
+  const updated = toCrop(recording.crop)
+  return { crop: updated, events: toUIEvents(recording.uiEvents, updated) }
+}
@@ -0,0 +1,65 @@
+export interface AudioLevel {
+  // RMS and peak of the latest frame, 0..1
+  rms: number
+  peak: number
+  // Seconds the input has stayed below the silence threshold
+  silentFor: number
+  // Whether any frame in the last CLIP_HOLD_MS reached full scale
+  clipping: boolean
+}
+
+export interface AudioLevelMeter {
+  stop: () => void
+}
+
+// -50 dBFS is quieter than any usable narration but above a live mic's noise floor
+const SILENCE_RMS = 0.003
+const CLIP_PEAK = 0.99
+const CLIP_HOLD_MS = 1500
+
+// Samples the stream's first audio track on every animation frame and reports its level.
+// Used by the studio's pre-flight check to catch muted, wrong or overdriven inputs.
+export function createAudioLevelMeter(stream: MediaStream, onLevel: (level: AudioLevel) => void): AudioLevelMeter {
+  const context = new AudioContext()
+  const source = context.createMediaStreamSource(stream)
+  const analyser = context.createAnalyser()
+  analyser.fftSize = 2048
+  source.connect(analyser)
+
+  const samples = new Float32Array(analyser.fftSize)
+  let frame = 0
+  let silentSince = performance.now()
+  let clippedAt = -Infinity
+
+  const tick = (now: number) => {
+    analyser.getFloatTimeDomainData(samples)
+
+    let sum = 0
+    let peak = 0
+    for (const sample of samples) {
+      sum += sample * sample
+      peak = Math.max(peak, Math.abs(sample))
+    }
+    const rms = Math.sqrt(sum / samples.length)
+
+    if (rms >= SILENCE_RMS) silentSince = now
+    if (peak >= CLIP_PEAK) clippedAt = now
+
+    onLevel({
+      rms,
+      peak,
+      silentFor: (now - silentSince) / 1000,
+      clipping: now - clippedAt < CLIP_HOLD_MS
+    })
+    frame = requestAnimationFrame(tick)
+  }
+  frame = requestAnimationFrame(tick)
+
+  return {
+    stop: () => {
+      cancelAnimationFrame(frame)
+      source.disconnect()
+      context.close().catch(() => {})
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { ease, hasKeyframe, propertyTrack, regionAt, valueAt } from '@/lib/keyframes'
+import type { Easing, VisualEffect } from '@/types'
+
+// Where the virtual camera looks: its zoom and the centre of its view, as a fraction of the frame
+export interface CameraState {
+  zoom: number
+  x: number
+  y: number
+}
+
+// `easing` is how the camera moves to the keyframe from the one before
+type CameraKeyframe = CameraState & { time: number; easing?: Easing }
+
+export const MAX_CAMERA_ZOOM = 4
+// Seconds the camera takes to move between targets; matches the export
+const CAMERA_TRANSITION = 0.6
+
+const FULL_FRAME: CameraState = { zoom: 1, x: 0.5, y: 0.5 }
+
+type Frame = { width: number; height: number }
+
+const fitZoom = (region: NonNullable<VisualEffect['coordinates']>, frame: Frame) =>
+  Math.min(frame.width / region.width, frame.height / region.height)
+
+// The zoom that fits a region in the frame, unless the effect asks for its own
+export function effectZoom(effect: VisualEffect, frame: Frame): number {
+  return Math.min(Math.max(effect.properties?.scale || fitZoom(effect.coordinates!, frame), 1), MAX_CAMERA_ZOOM)
+}
+
+// Where the camera looks during a zoom at `time`, following the zoom's keyframes
+export function zoomTarget(zoom: VisualEffect, frame: Frame, time: number): CameraState {
+  const region = regionAt(zoom, time)!
+  const scale = zoom.properties?.scale || hasKeyframe(zoom, 'scale')
+    ? valueAt(propertyTrack(zoom, 'scale', zoom.properties?.scale || fitZoom(zoom.coordinates!, frame)), time)
+    : fitZoom(region, frame)
+  return {
+    zoom: Math.min(Math.max(scale, 1), MAX_CAMERA_ZOOM),
+    x: (region.x + region.width / 2) / frame.width,
+    y: (region.y + region.height / 2) / frame.height
+  }
+}
+
+// The camera path the export follows for these zoom effects: it eases onto each region as the
+// effect starts and follows the effect's keyframes, moves straight on to a region that starts
+// within a transition, and otherwise eases back out to the full frame
+export function cameraKeyframes(zooms: VisualEffect[], frame: Frame): CameraKeyframe[] {
+  const sorted = zooms
+    .filter(zoom => zoom.coordinates?.width && zoom.coordinates?.height)
+    .sort((a, b) => a.startTime - b.startTime)
+  const keyframes: CameraKeyframe[] = [{ time: 0, ...FULL_FRAME }]
+
+  sorted.forEach((zoom, index) => {
+    const previous = keyframes[keyframes.length - 1]
+    const start = Math.max(zoom.startTime, previous.time)
+    const arrive = Math.max(Math.min(start + CAMERA_TRANSITION, zoom.endTime), start)
+
+    if (start > previous.time) {
+      keyframes.push({ ...previous, time: start })
+    }
+    keyframes.push({ time: arrive, ...zoomTarget(zoom, frame, arrive) })
+
+    const changes = zoom.keyframes
+      .map(keyframe => ({ time: zoom.startTime + keyframe.time, easing: keyframe.easing }))
+      .filter(({ time }) => time > arrive && time <= zoom.endTime)
+      .sort((a, b) => a.time - b.time)
+    for (const { time, easing } of changes) {
+      keyframes.push({ time, ...zoomTarget(zoom, frame, time), easing })
+    }
+    if (zoom.endTime > keyframes[keyframes.length - 1].time) {
+      keyframes.push({ time: zoom.endTime, ...zoomTarget(zoom, frame, zoom.endTime) })
+    }
+
+    const next = sorted[index + 1]
+    if (!next || next.startTime >= zoom.endTime + CAMERA_TRANSITION) {
+      keyframes.push({ time: Math.max(zoom.endTime, arrive) + CAMERA_TRANSITION, ...FULL_FRAME })
+    }
+  })
+
+  return keyframes
+}
+
+// Eases between the keyframes on either side of `time`, like the export's camera
+export function cameraAt(keyframes: CameraKeyframe[], time: number): CameraState {
+  const nextIndex = keyframes.findIndex(keyframe => keyframe.time > time)
+  if (nextIndex === -1) return keyframes[keyframes.length - 1]
+  if (nextIndex === 0) return keyframes[0]
+
+  const from = keyframes[nextIndex - 1]
+  const to = keyframes[nextIndex]
+  const eased = ease(to.easing || 'ease-in-out', (time - from.time) / (to.time - from.time))
+  return {
+    zoom: from.zoom + (to.zoom - from.zoom) * eased,
+    x: from.x + (to.x - from.x) * eased,
+    y: from.y + (to.y - from.y) * eased
+  }
+}
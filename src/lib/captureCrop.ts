@@ -0,0 +1,66 @@
+import type { CaptureSurface } from '@/lib/uiEventCapture'
+import type { CaptureCrop, UIEvent } from '@/types'
+
+export const MIN_CROP_SIZE = 16
+
+const even = (value: number) => Math.round(value / 2) * 2
+
+// Keeps a crop inside the frame, at least MIN_CROP_SIZE and with even dimensions for H.264
+export function clampCrop(crop: CaptureCrop, frame: { width: number; height: number }): CaptureCrop {
+  const width = Math.min(Math.max(even(crop.width), MIN_CROP_SIZE), even(frame.width))
+  const height = Math.min(Math.max(even(crop.height), MIN_CROP_SIZE), even(frame.height))
+  return {
+    x: Math.round(Math.min(Math.max(crop.x, 0), frame.width - width)),
+    y: Math.round(Math.min(Math.max(crop.y, 0), frame.height - height)),
+    width,
+    height
+  }
+}
+
+// Where this page's viewport sits in the captured surface, using the same geometry as
+// uiEventCapture. A shared tab is already just the viewport, so it needs no crop.
+export function getViewportCrop(surface: CaptureSurface): CaptureCrop | null {
+  const border = Math.max(0, (window.outerWidth - window.innerWidth) / 2)
+  const toolbar = Math.max(0, window.outerHeight - window.innerHeight - border)
+  let scaleX: number
+  let scaleY: number
+  let left: number
+  let top: number
+
+  switch (surface.displaySurface) {
+    case 'monitor':
+      scaleX = surface.width / window.screen.width
+      scaleY = surface.height / window.screen.height
+      left = window.screenX + border
+      top = window.screenY + toolbar
+      break
+    case 'window':
+      scaleX = surface.width / window.outerWidth
+      scaleY = surface.height / window.outerHeight
+      left = border
+      top = toolbar
+      break
+    default:
+      return null
+  }
+
+  return clampCrop({
+    x: left * scaleX,
+    y: top * scaleY,
+    width: window.innerWidth * scaleX,
+    height: window.innerHeight * scaleY
+  }, surface)
+}
+
+// Moves captured positions into the cropped frame. Positions that fall outside it are
+// dropped, like interactions outside the capture are when recording.
+export function cropUIEvents(events: UIEvent[], crop: CaptureCrop | null): UIEvent[] {
+  if (!crop) return events
+
+  return events.map((event) => {
+    const x = event.position && event.position.x - crop.x
+    const y = event.position && event.position.y - crop.y
+    const inside = x !== undefined && y !== undefined && x >= 0 && y >= 0 && x <= crop.width && y <= crop.height
+    return { ...event, position: inside ? { x, y } : undefined }
+  })
+}
@@ -0,0 +1,53 @@
+import type { ClickEffects, PunchIn, UIEvent } from '@/types'
+
+// How long a click's halo shows before the click, as a fraction of the click duration
+const HALO_LEAD = 0.25
+
+export interface ClickMark {
+  id: string
+  time: number
+  x: number
+  y: number
+}
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1)
+
+// The clicks the export marks: those inside the exported frame, outside re-recorded sections.
+// Event positions are already relative to the crop, and missing outside it.
+export function clickMarks(events: UIEvent[], punchIns: PunchIn[]): ClickMark[] {
+  return events
+    .filter(event => event.type === 'click' && event.position)
+    .filter(event => !punchIns.some(punchIn => event.timestamp >= punchIn.startTime && event.timestamp < punchIn.endTime))
+    .map(event => ({ id: event.id, time: event.timestamp, x: event.position!.x, y: event.position!.y }))
+}
+
+// The ring around a click at `time`, or null outside it
+export function rippleAt(mark: ClickMark, settings: ClickEffects, time: number) {
+  const elapsed = time - mark.time
+  if (!settings.ripple || elapsed < 0 || elapsed > settings.duration) return null
+
+  const progress = elapsed / settings.duration
+  return {
+    radius: settings.size * (0.2 + 0.8 * progress),
+    width: Math.max(2, settings.size * 0.1),
+    opacity: 1 - progress
+  }
+}
+
+// The soft disc that swells in just before a click and fades after it, or null outside it
+export function haloAt(mark: ClickMark, settings: ClickEffects, time: number) {
+  const start = Math.max(0, mark.time - settings.duration * HALO_LEAD)
+  const end = mark.time + settings.duration
+  if (!settings.halo || time < start || time > end) return null
+
+  const lead = mark.time - start
+  const swell = time < mark.time && lead > 0 ? (time - start) / lead : (end - time) / settings.duration
+  return { radius: settings.size * 0.6, opacity: 0.45 * clamp(swell) }
+}
+
+// How visible the magnifying lens is at `time`; it fades over a tenth of a second each way
+export function lensAt(mark: ClickMark, settings: ClickEffects, time: number): number {
+  const end = mark.time + settings.duration
+  if (!settings.magnify || time < mark.time || time > end) return 0
+  return clamp(Math.min((time - mark.time) / 0.1, (end - time) / 0.1))
+}
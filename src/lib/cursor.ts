@@ -0,0 +1,182 @@
+import type { CursorSettings, PunchIn, UIEvent } from '@/types'
+
+type Frame = { width: number; height: number }
+type TimeRange = { startTime: number; endTime: number }
+type Point = { x: number; y: number }
+
+// A pointer position in pixels of the exported frame. Clicks and the ends of rests stay
+// exactly where they were recorded when the path is smoothed.
+export interface PointerSample {
+  time: number
+  x: number
+  y: number
+  pinned?: boolean
+}
+
+// How often the recorder samples the pointer while it moves, in seconds
+const POINTER_SAMPLE_INTERVAL = 0.05
+
+// Movements smaller than this, in pixels, are jitter
+const JITTER = 3
+
+const POINTER_EVENTS: Array<UIEvent['type']> = ['move', 'click', 'hover']
+
+// The classic arrow, in a 14 by 21 box with its tip at (1, 1)
+const ARROW_PATH = 'M1 1 L1 17 L5 13.3 L7.8 19.8 L10.4 18.7 L7.7 12.4 L12.7 12.4 Z'
+const ARROW_BOX = { width: 14, height: 21 }
+
+// The recorded pointer positions inside the frame, in time order. Event positions are
+// already relative to the crop, and missing outside it.
+export function pointerSamples(events: UIEvent[]): PointerSample[] {
+  return events
+    .filter(event => POINTER_EVENTS.includes(event.type) && event.position)
+    .map(event => ({ time: event.timestamp, x: event.position!.x, y: event.position!.y, pinned: event.type === 'click' }))
+    .sort((a, b) => a.time - b.time)
+}
+
+// Drops jitter and marks where the pointer rested, as the export does: samples only arrive
+// while it moves, so a resting pointer holds still until just before the next sample
+export function pointerPath(samples: PointerSample[]): PointerSample[] {
+  const path: PointerSample[] = []
+  for (const sample of samples) {
+    const last = path[path.length - 1]
+    if (last && !sample.pinned && Math.hypot(sample.x - last.x, sample.y - last.y) < JITTER) continue
+
+    if (last && sample.time - last.time > POINTER_SAMPLE_INTERVAL * 3) {
+      path[path.length - 1] = { ...last, pinned: true }
+      path.push({ time: sample.time - POINTER_SAMPLE_INTERVAL, x: last.x, y: last.y, pinned: true })
+    }
+    path.push(sample)
+  }
+  return path
+}
+
+// Pulls each point that is not pinned towards the midpoint of its neighbours
+export function smoothPath(path: PointerSample[], smoothing: number): PointerSample[] {
+  return path.map((point, index) => {
+    const before = path[index - 1]
+    const after = path[index + 1]
+    if (point.pinned || !before || !after) return point
+    return {
+      ...point,
+      x: point.x + smoothing * ((before.x + after.x) / 2 - point.x),
+      y: point.y + smoothing * ((before.y + after.y) / 2 - point.y)
+    }
+  })
+}
+
+// Index of the first point after `time`, or the path's length when there is none
+function nextIndex(path: PointerSample[], time: number): number {
+  let low = 0
+  let high = path.length
+  while (low < high) {
+    const middle = (low + high) >> 1
+    if (path[middle].time > time) {
+      high = middle
+    } else {
+      low = middle + 1
+    }
+  }
+  return low
+}
+
+// Where the pointer is at `time` on a Catmull-Rom spline through the path, one cubic Bezier
+// curve per pair of points
+export function positionAt(path: PointerSample[], time: number): Point {
+  const next = nextIndex(path, time)
+  if (next === 0) return { x: path[0].x, y: path[0].y }
+  if (next === path.length) return { x: path[next - 1].x, y: path[next - 1].y }
+
+  const from = path[next - 1]
+  const to = path[next]
+  if (from.x === to.x && from.y === to.y) return { x: from.x, y: from.y }
+
+  const before = path[next - 2] || from
+  const after = path[next + 1] || to
+  const progress = (time - from.time) / (to.time - from.time)
+  const rest = 1 - progress
+  const bezier = (start: number, control1: number, control2: number, end: number) =>
+    rest * rest * rest * start + 3 * rest * rest * progress * control1 +
+    3 * rest * progress * progress * control2 + progress * progress * progress * end
+
+  return {
+    x: bezier(from.x, from.x + (to.x - before.x) / 6, to.x - (after.x - from.x) / 6, to.x),
+    y: bezier(from.y, from.y + (to.y - before.y) / 6, to.y - (after.y - from.y) / 6, to.y)
+  }
+}
+
+// When the cursor is left out: before the pointer is first seen, once it has rested for the
+// idle delay, and in re-recorded sections
+export function hiddenRanges(
+  path: PointerSample[],
+  settings: Pick<CursorSettings, 'hideWhenIdle' | 'idleDelay'>,
+  duration: number,
+  punchIns: PunchIn[] = []
+): TimeRange[] {
+  if (path.length === 0) return [{ startTime: 0, endTime: duration }]
+
+  const ranges: TimeRange[] = punchIns.map(({ startTime, endTime }) => ({ startTime, endTime }))
+  if (path[0].time > 0) {
+    ranges.push({ startTime: 0, endTime: path[0].time })
+  }
+  if (settings.hideWhenIdle) {
+    path.forEach((point, index) => {
+      const nextTime = index + 1 < path.length ? path[index + 1].time : duration
+      if (nextTime - point.time > settings.idleDelay) {
+        ranges.push({ startTime: point.time + settings.idleDelay, endTime: nextTime })
+      }
+    })
+  }
+  return ranges
+}
+
+export function isHidden(ranges: TimeRange[], time: number): boolean {
+  return ranges.some(range => time >= range.startTime && time < range.endTime)
+}
+
+export interface CursorImage {
+  svg: string
+  width: number
+  height: number
+  // The pixel of the image that sits on the pointer position
+  hotspot: Point
+}
+
+// The same image the export draws for a theme at its size in the frame
+export function cursorImage(settings: Pick<CursorSettings, 'theme' | 'size'>, frame: Frame): CursorImage {
+  const height = Math.max(12, Math.round(frame.height * settings.size))
+
+  if (settings.theme === 'light' || settings.theme === 'dark') {
+    const scale = height / ARROW_BOX.height
+    const width = Math.ceil(ARROW_BOX.width * scale)
+    const [fill, outline] = settings.theme === 'light' ? ['#ffffff', '#000000'] : ['#000000', '#ffffff']
+    return {
+      svg: `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" ` +
+        `viewBox="0 0 ${ARROW_BOX.width} ${ARROW_BOX.height}">` +
+        `<path d="${ARROW_PATH}" fill="${fill}" stroke="${outline}" stroke-width="1.2" stroke-linejoin="round"/></svg>`,
+      width,
+      height,
+      hotspot: { x: Math.round(scale), y: Math.round(scale) }
+    }
+  }
+
+  const size = Math.round(height * 0.6)
+  const stroke = Math.max(2, size * 0.12)
+  const radius = size / 2 - stroke / 2
+  const shape = settings.theme === 'dot'
+    ? `<circle cx="${size / 2}" cy="${size / 2}" r="${radius}" fill="#111827" fill-opacity="0.75" stroke="#ffffff" stroke-width="${stroke}"/>`
+    : `<circle cx="${size / 2}" cy="${size / 2}" r="${radius}" fill="#ffffff" fill-opacity="0.25" stroke="#111827" stroke-width="${stroke}"/>`
+  return {
+    svg: `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}">${shape}</svg>`,
+    width: size,
+    height: size,
+    hotspot: { x: Math.round(size / 2), y: Math.round(size / 2) }
+  }
+}
+
+// Side of the square blurred over the captured cursor, which is drawn at the screen's scale
+// and so sized from the full capture rather than the cropped frame
+export function maskSize(resolution: Frame, frame: Frame): number {
+  const size = Math.max(32, resolution.height * 0.035)
+  return Math.max(2, Math.floor(Math.min(size, frame.width, frame.height) / 2) * 2)
+}
@@ -0,0 +1,20 @@
+import type { IdleRange } from '@/types'
+
+export const IDLE_RANGE_SPEEDS = [2, 4, 8]
+
+// The accepted range the export cuts or speeds up at `time`, if any
+export function appliedIdleRangeAt(ranges: IdleRange[], time: number): IdleRange | undefined {
+  return ranges.find(range =>
+    (range.action === 'cut' || range.action === 'speed') && time >= range.startTime && time < range.endTime
+  )
+}
+
+// Seconds the accepted ranges take off the export
+export function savedSeconds(ranges: IdleRange[]): number {
+  return ranges.reduce((saved, range) => {
+    const length = range.endTime - range.startTime
+    if (range.action === 'cut') return saved + length
+    if (range.action === 'speed') return saved + length * (1 - 1 / range.speed)
+    return saved
+  }, 0)
+}
@@ -0,0 +1,93 @@
+import { annotationProperties } from '@/lib/annotations'
+import type { Easing, EffectKeyframe, KeyframeProperty, VisualEffect } from '@/types'
+
+// One animated value over the recording's timeline, as the export interpolates it
+type Track = Array<{ time: number; value: number; easing: Easing }>
+
+export const EASINGS: Array<{ value: Easing; label: string }> = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'ease-in-out', label: 'Ease In-Out' },
+  { value: 'spring', label: 'Spring' }
+]
+
+// The properties the export animates for each kind of effect
+export const KEYFRAME_PROPERTIES: Record<VisualEffect['type'], KeyframeProperty[]> = {
+  blur: ['x', 'y', 'width', 'height', 'strength'],
+  zoom: ['x', 'y', 'width', 'height', 'scale'],
+  highlight: ['x', 'y', 'width', 'height', 'opacity'],
+  annotation: ['x', 'y', 'opacity']
+}
+
+// Maps progress through a segment, from 0 to 1, onto the curve; the spring overshoots and
+// settles back onto the target by the end
+export function ease(easing: Easing, progress: number): number {
+  switch (easing) {
+    case 'linear':
+      return progress
+    case 'spring':
+      return 1 - Math.exp(-6 * progress) * Math.cos(2.5 * Math.PI * progress)
+    default:
+      return progress * progress * (3 - 2 * progress)
+  }
+}
+
+// The value an effect has before any keyframe changes it, with the export's defaults
+export function baseValue(effect: VisualEffect, property: KeyframeProperty): number | undefined {
+  switch (property) {
+    case 'x':
+    case 'y':
+    case 'width':
+    case 'height':
+      return effect.coordinates?.[property]
+    case 'strength':
+      return effect.properties?.strength ?? 10
+    case 'opacity':
+      if (effect.type === 'annotation') return annotationProperties(effect.properties).opacity
+      return effect.properties?.opacity ?? 0.3
+    default:
+      return effect.properties?.[property]
+  }
+}
+
+const isSet = (keyframe: EffectKeyframe, property: KeyframeProperty) =>
+  keyframe[property] !== undefined && keyframe[property] !== null
+
+// The track of one property from its base value at the effect's start. Keyframe times are
+// relative to the start and kept within the effect.
+export function propertyTrack(effect: VisualEffect, property: KeyframeProperty, base = baseValue(effect, property)): Track {
+  const track: Track = base === undefined ? [] : [{ time: effect.startTime, value: base, easing: 'linear' }]
+  const keyframes = effect.keyframes
+    .filter(keyframe => isSet(keyframe, property))
+    .sort((a, b) => a.time - b.time)
+
+  for (const keyframe of keyframes) {
+    const time = Math.min(Math.max(effect.startTime + keyframe.time, effect.startTime), effect.endTime)
+    if (track.length > 0 && track[track.length - 1].time >= time) {
+      track.pop()
+    }
+    track.push({ time, value: keyframe[property]!, easing: keyframe.easing })
+  }
+  return track
+}
+
+export function valueAt(track: Track, time: number): number {
+  const nextIndex = track.findIndex(point => point.time > time)
+  if (nextIndex === -1) return track[track.length - 1].value
+  if (nextIndex === 0) return track[0].value
+
+  const from = track[nextIndex - 1]
+  const to = track[nextIndex]
+  return from.value + (to.value - from.value) * ease(to.easing, (time - from.time) / (to.time - from.time))
+}
+
+export function hasKeyframe(effect: VisualEffect, property: KeyframeProperty): boolean {
+  return effect.keyframes.some(keyframe => isSet(keyframe, property))
+}
+
+// The effect's region at `time`, or undefined for effects without one
+export function regionAt(effect: VisualEffect, time: number): VisualEffect['coordinates'] {
+  if (!effect.coordinates) return undefined
+
+  const at = (property: 'x' | 'y' | 'width' | 'height') => valueAt(propertyTrack(effect, property), time)
+  return { x: at('x'), y: at('y'), width: at('width'), height: at('height') }
+}
@@ -0,0 +1,151 @@
+import type { KeystrokeOverlay, KeystrokePosition, PunchIn, UIEvent } from '@/types'
+
+type Frame = { width: number; height: number }
+
+// Keys pressed further apart than this, in seconds, start a new burst of typing
+const TYPING_GAP = 1
+
+// Typed text longer than this shows only its end
+const MAX_TYPED = 32
+
+const MODIFIER_KEYS = ['Meta', 'Control', 'Alt', 'Shift', 'CapsLock']
+
+const KEY_SYMBOLS: Record<string, string> = {
+  Meta: '⌘',
+  Ctrl: '⌃',
+  Alt: '⌥',
+  Shift: '⇧',
+  Enter: '⏎',
+  Backspace: '⌫',
+  Delete: '⌦',
+  Tab: '⇥',
+  Escape: 'Esc',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ' ': 'Space'
+}
+
+export const KEYSTROKE_POSITIONS: Array<{ value: KeystrokePosition; label: string }> = [
+  { value: 'bottom-center', label: 'Bottom center' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'bottom-right', label: 'Bottom right' },
+  { value: 'top-center', label: 'Top center' },
+  { value: 'top-left', label: 'Top left' },
+  { value: 'top-right', label: 'Top right' }
+]
+
+export const KEYSTROKE_THEMES = {
+  dark: { fill: '#111827', stroke: '#4b5563', text: '#ffffff', opacity: 0.9 },
+  light: { fill: '#ffffff', stroke: '#d1d5db', text: '#111827', opacity: 0.95 }
+}
+
+// What the overlay shows from startTime to endTime: a row of keycaps for a shortcut or
+// special key, or a single cap with the text typed so far
+export interface KeystrokeCaption {
+  startTime: number
+  endTime: number
+  keys: string[]
+}
+
+export interface KeycapLayout {
+  x: number
+  y: number
+  width: number
+  height: number
+  text: string
+}
+
+const keyLabel = (key: string) => KEY_SYMBOLS[key] || (key.length === 1 ? key.toUpperCase() : key)
+
+// Shortcuts are recorded as modifiers and a key joined by `+`, such as `Meta+K` or `Ctrl++`
+function shortcutKeys(shortcut: string): string[] {
+  const match = shortcut.match(/^((?:(?:Meta|Ctrl|Alt|Shift)\+)*)(.+)$/)
+  if (!match) return [shortcut]
+  const modifiers = match[1].split('+').filter(Boolean)
+  return [...modifiers, match[2]].map(keyLabel)
+}
+
+// The captions the export shows, as it builds them. Keys typed into sensitive fields are
+// never shown, and neither are keys pressed in re-recorded sections.
+export function keystrokeCaptions(
+  events: UIEvent[],
+  settings: Pick<KeystrokeOverlay, 'shortcuts' | 'typing' | 'duration'>,
+  punchIns: PunchIn[] = []
+): KeystrokeCaption[] {
+  const moments: Array<{ time: number; keys: string[] }> = []
+  let typed: string | null = null
+  let typedAt = -Infinity
+
+  const keypresses = events
+    .filter(event => event.type === 'keypress' && event.value)
+    .filter(event => !punchIns.some(punchIn => event.timestamp >= punchIn.startTime && event.timestamp < punchIn.endTime))
+    .sort((a, b) => a.timestamp - b.timestamp)
+
+  for (const event of keypresses) {
+    const key = event.value!
+    const shortcut = event.metadata?.shortcut as string | undefined
+    if (event.metadata?.sensitive) {
+      typed = null
+      continue
+    }
+    if (!shortcut && MODIFIER_KEYS.includes(key)) continue
+
+    const isTyping = !shortcut && (key.length === 1 || (key === 'Backspace' && typed !== null))
+    if (isTyping) {
+      if (!settings.typing) continue
+      if (typed === null || event.timestamp - typedAt > TYPING_GAP) {
+        typed = ''
+      }
+      typed = key === 'Backspace' ? typed.slice(0, -1) : typed + key
+      typedAt = event.timestamp
+      const text = typed.length > MAX_TYPED ? `…${typed.slice(-MAX_TYPED)}` : typed
+      if (text) {
+        moments.push({ time: event.timestamp, keys: [text] })
+      }
+      continue
+    }
+
+    typed = null
+    if (settings.shortcuts) {
+      moments.push({ time: event.timestamp, keys: shortcut ? shortcutKeys(shortcut) : [keyLabel(key)] })
+    }
+  }
+
+  return moments
+    .map((moment, index) => ({
+      startTime: moment.time,
+      endTime: Math.min(moment.time + settings.duration, moments[index + 1]?.time ?? Infinity),
+      keys: moment.keys
+    }))
+    .filter(caption => caption.endTime > caption.startTime)
+}
+
+export function captionAt(captions: KeystrokeCaption[], time: number): KeystrokeCaption | undefined {
+  return captions.find(caption => time >= caption.startTime && time < caption.endTime)
+}
+
+// Where each keycap of a caption goes in the frame, with the export's estimated text widths
+export function keycapLayout(
+  caption: Pick<KeystrokeCaption, 'keys'>,
+  settings: Pick<KeystrokeOverlay, 'position' | 'size'>,
+  frame: Frame
+): KeycapLayout[] {
+  const fontSize = frame.height * settings.size
+  const height = fontSize * 1.8
+  const gap = fontSize * 0.3
+  const margin = frame.height * 0.05
+  const widths = caption.keys.map(key => Math.max(height, [...key].length * fontSize * 0.62 + fontSize * 1.2))
+  const total = widths.reduce((sum, width) => sum + width, 0) + gap * (widths.length - 1)
+
+  const [vertical, horizontal] = settings.position.split('-')
+  let x = horizontal === 'left' ? margin : horizontal === 'right' ? frame.width - margin - total : (frame.width - total) / 2
+  const y = vertical === 'top' ? margin : frame.height - margin - height
+
+  return caption.keys.map((text, index) => {
+    const keycap = { x, y, width: widths[index], height, text }
+    x += widths[index] + gap
+    return keycap
+  })
+}
@@ -0,0 +1,54 @@
+export type InputKind = 'microphone' | 'camera'
+
+// Saved device ids are per browser profile; fall back to the label on another machine
+export function matchDevice(devices: MediaDeviceInfo[], id?: string, label?: string): MediaDeviceInfo | undefined {
+  return devices.find(device => id && device.deviceId === id) ||
+    devices.find(device => label && device.label === label)
+}
+
+export function describeMediaError(kind: InputKind, error: unknown): string {
+  const name = error instanceof DOMException ? error.name : ''
+  switch (name) {
+    case 'NotAllowedError':
+      return `Access to the ${kind} was blocked. Allow it in the browser's site settings, or turn the ${kind} off.`
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return `The selected ${kind} is not connected. Pick another one in Devices.`
+    case 'NotReadableError':
+      return `The ${kind} is in use by another application or could not be started.`
+    default:
+      return `Could not start the ${kind}${error instanceof Error ? `: ${error.message}` : '.'}`
+  }
+}
+
+export function getInputStream(kind: InputKind, deviceId?: string): Promise<MediaStream> {
+  const device = deviceId ? { deviceId: { exact: deviceId } } : {}
+  return navigator.mediaDevices.getUserMedia(kind === 'microphone'
+    ? { audio: { ...device, echoCancellation: true, noiseSuppression: true }, video: false }
+    : { video: { ...device, width: 1280, height: 720 }, audio: false })
+}
+
+export interface MixedStream {
+  stream: MediaStream
+  stop: () => void
+}
+
+// Puts the audio of `stream` and `extra` on one track next to the video of `stream`,
+// for recorders that must produce a single file
+export function mixAudioInto(stream: MediaStream, extra: MediaStream[]): MixedStream {
+  const sources = [stream, ...extra].filter(source => source.getAudioTracks().length > 0)
+  if (sources.length === 0) {
+    return { stream, stop: () => {} }
+  }
+
+  const context = new AudioContext()
+  const destination = context.createMediaStreamDestination()
+  sources.forEach(source => context.createMediaStreamSource(source).connect(destination))
+
+  return {
+    stream: new MediaStream([...stream.getVideoTracks(), ...destination.stream.getAudioTracks()]),
+    stop: () => {
+      context.close().catch(() => {})
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import type { RecordingMarker, UIEvent } from '@/types'
+
+// IndexedDB copy of recorder output that the server has not acknowledged yet,
+// so a crashed or closed tab can finish its upload on the next visit
+
+const DB_NAME = 'smartdemo-recordings'
+const DB_VERSION = 2
+const SESSIONS = 'sessions'
+const CHUNKS = 'chunks'
+const EVENTS = 'events'
+
+export interface StoredRecordingSession {
+  id: string
+  projectId: string
+  title: string
+  mimeType: string
+  resolution: { width: number; height: number }
+  startedAt: string
+  duration: number
+  // Only on sessions saved before events were stored in batches
+  uiEvents?: UIEvent[]
+  // Absent on sessions saved before markers were recorded
+  markers?: RecordingMarker[]
+  // Set on webcam and microphone tracks streamed alongside the screen session `screenUpload`
+  track?: { kind: 'webcam' | 'microphone'; offset: number; screenUpload: string }
+}
+
+export interface StoredRecordingChunk {
+  sessionId: string
+  seq: number
+  start: number
+  blob: Blob
+}
+
+// UI events recorded between two checkpoints, so a checkpoint only writes what is new
+export interface StoredEventBatch {
+  sessionId: string
+  seq: number
+  events: UIEvent[]
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = (event) => {
+        const db = request.result
+        if (event.oldVersion < 1) {
+          db.createObjectStore(SESSIONS, { keyPath: 'id' })
+          const chunks = db.createObjectStore(CHUNKS, { keyPath: ['sessionId', 'seq'] })
+          chunks.createIndex('sessionId', 'sessionId')
+        }
+        if (event.oldVersion < 2) {
+          const events = db.createObjectStore(EVENTS, { keyPath: ['sessionId', 'seq'] })
+          events.createIndex('sessionId', 'sessionId')
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(
+  name: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | Promise<T>
+): Promise<T> {
+  const db = await openDatabase()
+  const store = db.transaction(name, mode).objectStore(name)
+  const result = run(store)
+  return result instanceof IDBRequest ? promisify(result) : result
+}
+
+export async function saveSession(session: StoredRecordingSession): Promise<void> {
+  await withStore(SESSIONS, 'readwrite', store => store.put(session))
+}
+
+export async function listSessions(): Promise<StoredRecordingSession[]> {
+  return withStore(SESSIONS, 'readonly', store => store.getAll() as IDBRequest<StoredRecordingSession[]>)
+}
+
+export async function putChunk(chunk: StoredRecordingChunk): Promise<void> {
+  await withStore(CHUNKS, 'readwrite', store => store.put(chunk))
+}
+
+export async function getChunks(sessionId: string): Promise<StoredRecordingChunk[]> {
+  const chunks = await withStore(CHUNKS, 'readonly', store =>
+    store.index('sessionId').getAll(sessionId) as IDBRequest<StoredRecordingChunk[]>
+  )
+  return chunks.sort((a, b) => a.seq - b.seq)
+}
+
+export async function putEvents(batch: StoredEventBatch): Promise<void> {
+  await withStore(EVENTS, 'readwrite', store => store.put(batch))
+}
+
+export async function getEvents(sessionId: string): Promise<UIEvent[]> {
+  const batches = await withStore(EVENTS, 'readonly', store =>
+    store.index('sessionId').getAll(sessionId) as IDBRequest<StoredEventBatch[]>
+  )
+  return batches.sort((a, b) => a.seq - b.seq).flatMap(batch => batch.events)
+}
+
+// Drops chunks that lie entirely before the server's acknowledged offset
+export async function deleteChunksBefore(sessionId: string, offset: number): Promise<void> {
+  const chunks = await getChunks(sessionId)
+  const db = await openDatabase()
+  const store = db.transaction(CHUNKS, 'readwrite').objectStore(CHUNKS)
+  await Promise.all(
+    chunks
+      .filter(chunk => chunk.start + chunk.blob.size <= offset)
+      .map(chunk => promisify(store.delete([chunk.sessionId, chunk.seq])))
+  )
+}
+
+export async function deleteSession(sessionId: string): Promise<void> {
+  await deleteChunksBefore(sessionId, Number.POSITIVE_INFINITY)
+  const batchKeys = await withStore(EVENTS, 'readonly', store => store.index('sessionId').getAllKeys(sessionId))
+  const db = await openDatabase()
+  const events = db.transaction(EVENTS, 'readwrite').objectStore(EVENTS)
+  await Promise.all(batchKeys.map(key => promisify(events.delete(key))))
+  await withStore(SESSIONS, 'readwrite', store => store.delete(sessionId))
+}
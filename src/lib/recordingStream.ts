@@ -0,0 +1,189 @@
+import {
+  completeUploadSession,
+  createUploadSession,
+  getUploadStatus,
+  sendUploadChunk,
+  type UploadStatus
+} from '@/lib/api'
+import {
+  deleteChunksBefore,
+  deleteSession,
+  getChunks,
+  getEvents,
+  putChunk,
+  putEvents,
+  saveSession,
+  type StoredRecordingSession
+} from '@/lib/recordingStore'
+import type { Recording, RecordingMarker, UIEvent } from '@/types'
+
+export interface RecordingCheckpoint {
+  duration: number
+  uiEvents: UIEvent[]
+  markers: RecordingMarker[]
+}
+
+// Tracks carry no events or markers, so they push and finish without checkpoints
+export interface RecordingStream {
+  sessionId: string
+  push: (blob: Blob, checkpoint?: RecordingCheckpoint) => void
+  finish: (checkpoint?: RecordingCheckpoint) => Promise<Recording>
+  getAcknowledgedBytes: () => number
+}
+
+interface StartRecordingStreamOptions {
+  projectId: string
+  title: string
+  mimeType: string
+  resolution: { width: number; height: number }
+  takeOf?: string
+  // Streams a webcam or microphone track of the screen session `track.screenUpload`
+  track?: StoredRecordingSession['track']
+  onAcknowledged?: (bytes: number) => void
+}
+
+// Uploads the bytes of `source` (starting at upload offset `sourceStart`) that the server has
+// not acknowledged yet, declaring the final length with the last chunk
+async function sendRemainder(upload: UploadStatus, source: Blob, sourceStart: number): Promise<UploadStatus> {
+  const totalSize = sourceStart + source.size
+  while (upload.offset < totalSize) {
+    upload = await sendUploadChunk(upload, source, sourceStart, totalSize)
+  }
+  return upload
+}
+
+// Streams MediaRecorder output to a live upload session while recording. Recorder blobs
+// are kept in IndexedDB until the server acknowledges them, and are re-cut into the
+// fixed chunk size the upload protocol requires.
+export async function startRecordingStream(options: StartRecordingStreamOptions): Promise<RecordingStream> {
+  let upload = await createUploadSession({
+    projectId: options.projectId,
+    title: options.title,
+    mimeType: options.mimeType,
+    resolution: options.resolution,
+    takeOf: options.takeOf,
+    ...(options.track && {
+      track: options.track.kind,
+      trackOffset: options.track.offset,
+      screenUpload: options.track.screenUpload
+    })
+  })
+
+  const session: StoredRecordingSession = {
+    id: upload.id,
+    projectId: options.projectId,
+    title: options.title,
+    mimeType: options.mimeType,
+    resolution: options.resolution,
+    startedAt: new Date().toISOString(),
+    duration: 0,
+    markers: [],
+    track: options.track
+  }
+  await saveSession(session)
+
+  // Recorder blobs that are not fully acknowledged yet, starting at byte `pendingStart`
+  let pending: Blob[] = []
+  let pendingStart = 0
+  let totalBytes = 0
+  let seq = 0
+  let queue: Promise<void> = Promise.resolve()
+  let persisted: Promise<unknown> = Promise.resolve()
+  let savedEvents = 0
+  let eventSeq = 0
+
+  const acknowledge = (next: UploadStatus) => {
+    upload = next
+    while (pending.length > 0 && pendingStart + pending[0].size <= upload.offset) {
+      pendingStart += pending[0].size
+      pending = pending.slice(1)
+    }
+    deleteChunksBefore(session.id, upload.offset).catch((error) => {
+      console.warn('Could not prune acknowledged recording chunks:', error)
+    })
+    options.onAcknowledged?.(upload.offset)
+  }
+
+  const flush = async () => {
+    while (totalBytes - upload.offset >= upload.chunkSize) {
+      acknowledge(await sendUploadChunk(upload, new Blob(pending), pendingStart))
+    }
+  }
+
+  // Events only grow, so each checkpoint appends the ones recorded since the last
+  const saveCheckpoint = ({ duration, uiEvents, markers }: RecordingCheckpoint) => {
+    const events = uiEvents.slice(savedEvents)
+    savedEvents = uiEvents.length
+    return Promise.all([
+      saveSession({ ...session, duration, markers }),
+      events.length > 0 && putEvents({ sessionId: session.id, seq: eventSeq++, events })
+    ])
+  }
+
+  return {
+    sessionId: session.id,
+
+    push: (blob, checkpoint) => {
+      if (blob.size === 0) return
+      const chunk = { sessionId: session.id, seq: seq++, start: totalBytes, blob }
+      totalBytes += blob.size
+      pending.push(blob)
+
+      persisted = Promise.all([
+        putChunk(chunk),
+        checkpoint && saveCheckpoint(checkpoint)
+      ]).catch((error) => {
+        console.warn('Could not persist recording chunk locally:', error)
+      })
+
+      // Upload failures are retried on the next push and again when the recording finishes
+      queue = queue.then(flush).catch((error) => {
+        console.warn('Streaming upload is behind, will retry:', error)
+      })
+    },
+
+    finish: async (checkpoint) => {
+      await queue
+      await persisted
+      acknowledge(await sendRemainder(upload, new Blob(pending), pendingStart))
+      const recording = await completeUploadSession(session.id, { ...checkpoint, totalSize: totalBytes })
+      await deleteSession(session.id)
+      return recording
+    },
+
+    getAcknowledgedBytes: () => upload.offset
+  }
+}
+
+// Finishes an interrupted session from its IndexedDB copy, resuming at the server's offset.
+// A track can only be finished once its screen session has been.
+export async function recoverRecordingStream(
+  session: StoredRecordingSession,
+  onProgress?: (percent: number) => void
+): Promise<Recording> {
+  let upload = await getUploadStatus(session.id)
+  const chunks = await getChunks(session.id)
+  const sourceStart = chunks.length > 0 ? chunks[0].start : upload.offset
+  const source = new Blob(chunks.map(chunk => chunk.blob), { type: session.mimeType })
+  const totalSize = sourceStart + source.size
+
+  if (upload.status === 'active') {
+    if (sourceStart > upload.offset) {
+      throw new Error('Local copy is missing data the server never received')
+    }
+
+    while (upload.offset < totalSize) {
+      upload = await sendUploadChunk(upload, source, sourceStart, totalSize)
+      onProgress?.(Math.round((upload.offset / totalSize) * 100))
+    }
+  }
+
+  const recording = await completeUploadSession(session.id, session.track ? { totalSize } : {
+    totalSize,
+    duration: session.duration,
+    uiEvents: [...(session.uiEvents ?? []), ...await getEvents(session.id)],
+    markers: session.markers
+  })
+  await deleteSession(session.id)
+  return recording
+}
@@ -0,0 +1,72 @@
+import type { PunchIn, TypingAudio, TypingSpeedUp, UIEvent } from '@/types'
+
+type TimeRange = { startTime: number; endTime: number }
+
+// A stretch of a typing run the export plays `speed` times faster
+export interface TypingRange extends TimeRange {
+  speed: number
+  audio: TypingAudio
+}
+
+// Key presses further apart than this, in seconds, end a run of typing
+const TYPING_GAP = 1
+
+// Seconds at each end of a run spent easing between normal and full speed, in even steps
+const RAMP = 0.6
+const RAMP_STEPS = 3
+
+const PASSIVE_EVENTS: Array<UIEvent['type']> = ['move', 'hover']
+
+// The runs the export speeds up, as it finds them: at least `minKeys` key presses a second or
+// less apart, with no click, scroll or navigation in between and none in a re-recorded section
+export function typingRuns(events: UIEvent[], minKeys: number, punchIns: PunchIn[] = []): TimeRange[] {
+  const runs: TimeRange[] = []
+  let run: UIEvent[] = []
+  const endRun = () => {
+    if (run.length >= minKeys) {
+      runs.push({ startTime: run[0].timestamp, endTime: run[run.length - 1].timestamp })
+    }
+    run = []
+  }
+
+  const sorted = events
+    .filter(event => !PASSIVE_EVENTS.includes(event.type))
+    .sort((a, b) => a.timestamp - b.timestamp)
+  for (const event of sorted) {
+    const isPunchedIn = punchIns.some(punchIn => event.timestamp >= punchIn.startTime && event.timestamp < punchIn.endTime)
+    if (event.type !== 'keypress' || isPunchedIn) {
+      endRun()
+      continue
+    }
+    if (run.length > 0 && event.timestamp - run[run.length - 1].timestamp > TYPING_GAP) {
+      endRun()
+    }
+    run.push(event)
+  }
+  endRun()
+
+  return runs
+}
+
+// The stretches of a run at each speed, stepping up to full speed at its start and back down
+// at its end
+export function speedRamp(run: TimeRange, { speed, audio }: Pick<TypingSpeedUp, 'speed' | 'audio'>): TypingRange[] {
+  const ramp = Math.min(RAMP, (run.endTime - run.startTime) / 4)
+  const steps = Array.from({ length: RAMP_STEPS }, (_, step) => 1 + (speed - 1) * (step + 1) / (RAMP_STEPS + 1))
+  const speeds = [...steps, speed, ...[...steps].reverse()]
+  const boundaries = [
+    ...Array.from({ length: RAMP_STEPS + 1 }, (_, step) => run.startTime + ramp * step / RAMP_STEPS),
+    ...Array.from({ length: RAMP_STEPS + 1 }, (_, step) => run.endTime - ramp * (RAMP_STEPS - step) / RAMP_STEPS)
+  ]
+
+  return speeds.map((stepSpeed, index) => ({
+    startTime: boundaries[index],
+    endTime: boundaries[index + 1],
+    speed: stepSpeed,
+    audio
+  }))
+}
+
+export function typingRangeAt(ranges: TypingRange[], time: number): TypingRange | undefined {
+  return ranges.find(range => time >= range.startTime && time < range.endTime)
+}
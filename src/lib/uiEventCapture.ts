@@ -0,0 +1,268 @@
+import type { UIEvent } from '@/types'
+
+export interface CaptureSurface {
+  width: number
+  height: number
+  displaySurface?: string
+}
+
+export interface UIEventCapture {
+  start: () => void
+  pause: () => void
+  resume: () => void
+  stop: () => UIEvent[]
+  getEvents: () => UIEvent[]
+  getElapsed: () => number
+}
+
+interface UIEventCaptureOptions {
+  surface: CaptureSurface
+  onEvent?: (event: UIEvent) => void
+}
+
+const SCROLL_THROTTLE_MS = 250
+const HOVER_THROTTLE_MS = 500
+// Pointer samples for the drawn cursor; exports smooth the path between them
+const MOVE_THROTTLE_MS = 50
+const NAVIGATION_POLL_MS = 500
+
+const INTERACTIVE_SELECTOR = 'a, button, input, select, textarea, label, summary, [role="button"], [role="link"], [role="menuitem"], [role="tab"], [tabindex]'
+const SENSITIVE_AUTOCOMPLETE = ['current-password', 'new-password', 'one-time-code', 'cc-number', 'cc-csc', 'cc-exp']
+
+// Reads the real capture size and surface type from the display track, falling back
+// to the requested constraints while the track has not reported settings yet
+export function getCaptureSurface(track: MediaStreamTrack | undefined, fallback: { width: number; height: number }): CaptureSurface {
+  const settings = (track?.getSettings() || {}) as MediaTrackSettings & { displaySurface?: string }
+  return {
+    width: settings.width || fallback.width,
+    height: settings.height || fallback.height,
+    displaySurface: settings.displaySurface
+  }
+}
+
+// Maps a pointer position into the pixel space of the captured video. Only interactions
+// with this document are observable, so positions outside the capture are dropped.
+function toCapturePoint(surface: CaptureSurface, event: MouseEvent): { x: number; y: number } | null {
+  let x: number
+  let y: number
+
+  switch (surface.displaySurface) {
+    case 'monitor':
+      x = (event.screenX / window.screen.width) * surface.width
+      y = (event.screenY / window.screen.height) * surface.height
+      break
+    case 'window':
+      x = ((event.screenX - window.screenX) / window.outerWidth) * surface.width
+      y = ((event.screenY - window.screenY) / window.outerHeight) * surface.height
+      break
+    default:
+      x = (event.clientX / window.innerWidth) * surface.width
+      y = (event.clientY / window.innerHeight) * surface.height
+  }
+
+  if (x < 0 || y < 0 || x > surface.width || y > surface.height) return null
+  return { x: Math.round(x), y: Math.round(y) }
+}
+
+function describeElement(target: EventTarget | null): { label?: string; selector?: string } {
+  if (!(target instanceof Element)) return {}
+  const element = target.closest(INTERACTIVE_SELECTOR) || target
+
+  const selector = [
+    element.tagName.toLowerCase(),
+    element.id ? `#${element.id}` : '',
+    ...Array.from(element.classList).slice(0, 2).map(cls => `.${cls}`)
+  ].join('')
+
+  const text = (element as HTMLElement).innerText?.trim().replace(/\s+/g, ' ')
+  const label = element.getAttribute('aria-label') ||
+    element.getAttribute('title') ||
+    element.getAttribute('placeholder') ||
+    element.getAttribute('name') ||
+    (text ? text.slice(0, 60) : undefined) ||
+    element.tagName.toLowerCase()
+
+  return { label, selector }
+}
+
+function isSensitiveField(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLInputElement)) return false
+  if (target.type === 'password') return true
+  const autocomplete = target.getAttribute('autocomplete') || ''
+  return SENSITIVE_AUTOCOMPLETE.some(token => autocomplete.includes(token)) ||
+    target.dataset.sensitive !== undefined
+}
+
+function describeKey(event: KeyboardEvent): { value: string; shortcut?: string } {
+  const modifiers = [
+    event.metaKey && 'Meta',
+    event.ctrlKey && 'Ctrl',
+    event.altKey && 'Alt',
+    event.shiftKey && event.key.length > 1 && 'Shift'
+  ].filter(Boolean) as string[]
+
+  const key = event.key
+  if (modifiers.length > 0 && !['Meta', 'Control', 'Alt', 'Shift'].includes(key)) {
+    return { value: key, shortcut: [...modifiers, key.length === 1 ? key.toUpperCase() : key].join('+') }
+  }
+  return { value: key }
+}
+
+export function createUIEventCapture({ surface, onEvent }: UIEventCaptureOptions): UIEventCapture {
+  const events: UIEvent[] = []
+  let startedAt = 0
+  let pausedAt: number | null = null
+  let pausedTotal = 0
+  let stoppedAt: number | null = null
+  let lastScrollAt = 0
+  let lastHoverAt = 0
+  let lastHoverTarget: Element | null = null
+  let lastMoveAt = 0
+  let lastUrl = window.location.href
+  let navigationTimer: ReturnType<typeof setInterval> | null = null
+  let active = false
+
+  // Seconds since the recording started, excluding paused time, to line up with the video
+  const elapsed = () => ((stoppedAt ?? pausedAt ?? performance.now()) - startedAt - pausedTotal) / 1000
+
+  // The capture size is the recording's resolution, so events only carry what differs between them
+  const record = (event: Omit<UIEvent, 'id' | 'timestamp' | 'position'> & { position?: UIEvent['position'] | null }) => {
+    if (!active || pausedAt !== null) return
+    const uiEvent: UIEvent = {
+      ...event,
+      id: `evt_${events.length + 1}_${Math.random().toString(36).slice(2, 8)}`,
+      timestamp: Math.round(elapsed() * 1000) / 1000,
+      position: event.position || undefined
+    }
+    events.push(uiEvent)
+    onEvent?.(uiEvent)
+  }
+
+  const handleClick = (event: MouseEvent) => {
+    const { label, selector } = describeElement(event.target)
+    record({
+      type: 'click',
+      position: toCapturePoint(surface, event),
+      element: label,
+      metadata: { selector, button: event.button }
+    })
+  }
+
+  const handleKeydown = (event: KeyboardEvent) => {
+    if (event.repeat) return
+    const { label, selector } = describeElement(event.target)
+    const sensitive = isSensitiveField(event.target)
+    const { value, shortcut } = describeKey(event)
+    record({
+      type: 'keypress',
+      element: label,
+      value: sensitive ? '•' : value,
+      metadata: { selector, sensitive, ...(shortcut && !sensitive && { shortcut }) }
+    })
+  }
+
+  const handleScroll = () => {
+    const now = performance.now()
+    if (now - lastScrollAt < SCROLL_THROTTLE_MS) return
+    lastScrollAt = now
+    record({
+      type: 'scroll',
+      metadata: { scrollX: Math.round(window.scrollX), scrollY: Math.round(window.scrollY) }
+    })
+  }
+
+  const handleMouseover = (event: MouseEvent) => {
+    if (!(event.target instanceof Element)) return
+    const interactive = event.target.closest(INTERACTIVE_SELECTOR)
+    if (!interactive || interactive === lastHoverTarget) return
+
+    const now = performance.now()
+    if (now - lastHoverAt < HOVER_THROTTLE_MS) return
+    lastHoverAt = now
+    lastHoverTarget = interactive
+
+    const { label, selector } = describeElement(interactive)
+    record({
+      type: 'hover',
+      position: toCapturePoint(surface, event),
+      element: label,
+      metadata: { selector }
+    })
+  }
+
+  const handlePointermove = (event: PointerEvent) => {
+    const now = performance.now()
+    if (now - lastMoveAt < MOVE_THROTTLE_MS) return
+    const position = toCapturePoint(surface, event)
+    if (!position) return
+    lastMoveAt = now
+    record({ type: 'move', position })
+  }
+
+  // pushState navigations fire no event, so the URL is also polled
+  const checkNavigation = () => {
+    const url = window.location.href
+    if (url === lastUrl) return
+    record({
+      type: 'navigation',
+      metadata: { from: lastUrl, to: url }
+    })
+    lastUrl = url
+  }
+
+  return {
+    start: () => {
+      if (active) return
+      active = true
+      startedAt = performance.now()
+      lastUrl = window.location.href
+      document.addEventListener('click', handleClick, true)
+      document.addEventListener('keydown', handleKeydown, true)
+      document.addEventListener('mouseover', handleMouseover, true)
+      document.addEventListener('pointermove', handlePointermove, true)
+      window.addEventListener('scroll', handleScroll, true)
+      window.addEventListener('popstate', checkNavigation)
+      window.addEventListener('hashchange', checkNavigation)
+      navigationTimer = setInterval(checkNavigation, NAVIGATION_POLL_MS)
+    },
+
+    pause: () => {
+      if (active && pausedAt === null) {
+        pausedAt = performance.now()
+      }
+    },
+
+    resume: () => {
+      if (pausedAt !== null) {
+        pausedTotal += performance.now() - pausedAt
+        pausedAt = null
+      }
+    },
+
+    stop: () => {
+      if (!active) return [...events]
+      active = false
+      stoppedAt = performance.now()
+      if (pausedAt !== null) {
+        pausedTotal += stoppedAt - pausedAt
+        pausedAt = null
+      }
+      document.removeEventListener('click', handleClick, true)
+      document.removeEventListener('keydown', handleKeydown, true)
+      document.removeEventListener('mouseover', handleMouseover, true)
+      document.removeEventListener('pointermove', handlePointermove, true)
+      window.removeEventListener('scroll', handleScroll, true)
+      window.removeEventListener('popstate', checkNavigation)
+      window.removeEventListener('hashchange', checkNavigation)
+      if (navigationTimer) {
+        clearInterval(navigationTimer)
+        navigationTimer = null
+      }
+      return [...events]
+    },
+
+    getEvents: () => [...events],
+
+    getElapsed: () => elapsed()
+  }
+}
@@ -1,4 +1,5 @@
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom'
 import { 
   Play, 
   Pause, 
@@ -15,7 +16,18 @@ import {
   ZoomIn,
   Highlighter,
   Clock,
-  FileText
+  FileText,
+  Video,
+  Flag,
+  Crop,
+  Layers,
+  RotateCcw,
+  MessageSquare,
+  Trash2,
+  Diamond,
+  MousePointer2,
+  Keyboard,
+  FastForward
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
@@ -28,8 +40,50 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Label } from '@/components/ui/label'
 import { Switch } from '@/components/ui/switch'
 import { Progress } from '@/components/ui/progress'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
 import blink from '@/blink/client'
-import type { Project, ScriptLine, UIEvent } from '@/types'
+import {
+  activateTake,
+  addVisualEffect,
+  defaultClickEffects,
+  defaultCursorSettings,
+  defaultKeystrokeOverlay,
+  defaultTypingSpeedUp,
+  defaultWebcamOverlay,
+  deletePunchIn,
+  deleteVisualEffect,
+  detectIdleRanges,
+  generateAutoZoom,
+  getExportSettings,
+  getRecording,
+  getRecordingMedia,
+  listTakes,
+  updateClickEffects,
+  updateCursorSettings,
+  updateIdleRange,
+  updateKeystrokeOverlay,
+  updateRecordingCrop,
+  updateTrack,
+  updateTypingSpeedUp,
+  updateVisualEffect,
+  updateWebcamOverlay
+} from '@/lib/api'
+import { CropSelector } from '@/components/studio/CropSelector'
+import { TakeComparison } from '@/components/editor/TakeComparison'
+import { AnnotationLayer } from '@/components/editor/AnnotationLayer'
+import { KeyframeLane } from '@/components/editor/KeyframeLane'
+import { ClickEffectsLayer } from '@/components/editor/ClickEffectsLayer'
+import { CursorLayer } from '@/components/editor/CursorLayer'
+import { KeystrokeLayer } from '@/components/editor/KeystrokeLayer'
+import { annotationProperties } from '@/lib/annotations'
+import { clickMarks } from '@/lib/clickEffects'
+import { pointerSamples } from '@/lib/cursor'
+import { KEYSTROKE_POSITIONS, keystrokeCaptions } from '@/lib/keystrokes'
+import { cameraAt, cameraKeyframes, effectZoom, MAX_CAMERA_ZOOM } from '@/lib/camera'
+import { appliedIdleRangeAt, IDLE_RANGE_SPEEDS, savedSeconds } from '@/lib/deadTime'
+import { speedRamp, typingRangeAt, typingRuns } from '@/lib/typingRuns'
+import type { AnnotationKind, CaptureCrop, ClickEffects, CursorSettings, CursorTheme, IdleRange, IdleRangeAction, KeystrokeOverlay, KeystrokePosition, Project, Recording, ScriptLine, TrackKind, TypingAudio, TypingSpeedUp, UIEvent, VisualEffect, WebcamOverlay } from '@/types'
 
 interface Scene {
   id: string
@@ -77,8 +131,31 @@ const mockScenes: Scene[] = [
   }
 ]
 
+const IDLE_RANGE_STYLES: Record<IdleRangeAction, string> = {
+  suggested: 'border border-dashed border-amber-400 bg-amber-400/20 hover:bg-amber-400/40',
+  cut: 'bg-red-500/70 hover:bg-red-500',
+  speed: 'bg-sky-500/70 hover:bg-sky-500',
+  dismissed: 'hidden'
+}
+
+const idleRangeLabel = (range: IdleRange) => {
+  switch (range.action) {
+    case 'cut':
+      return 'Cut from exports'
+    case 'speed':
+      return `Sped up ${range.speed}x in exports`
+    default:
+      return 'Suggested idle time'
+  }
+}
+
 export function ProjectEditor() {
+  const { projectId } = useParams()
+  const [searchParams] = useSearchParams()
+  const recordingId = searchParams.get('recording')
+  const navigate = useNavigate()
   const [project, setProject] = useState<Project | null>(null)
+  const [recording, setRecording] = useState<Recording | null>(null)
   const [isPlaying, setIsPlaying] = useState(false)
   const [currentTime, setCurrentTime] = useState(0)
   const [duration, setDuration] = useState(105) // Total duration based on scenes
@@ -93,10 +170,100 @@ export function ProjectEditor() {
     clarity: 0.75
   })
   
+  const [webcamOverlay, setWebcamOverlay] = useState<WebcamOverlay>(defaultWebcamOverlay)
+  const [previewSize, setPreviewSize] = useState({ width: 0, height: 0 })
+  const [videoSize, setVideoSize] = useState({ width: 0, height: 0 })
+  const [webcamAspect, setWebcamAspect] = useState(16 / 9)
+  const [isCropping, setIsCropping] = useState(false)
+  const [takes, setTakes] = useState<Recording[]>([])
+  const [compareIds, setCompareIds] = useState<string[]>([])
+  const [isComparing, setIsComparing] = useState(false)
+  const [punchInRange, setPunchInRange] = useState({ startTime: 0, endTime: 5 })
+  const [annotationDraft, setAnnotationDraft] = useState({ kind: 'callout' as AnnotationKind, text: '', color: '#6366f1', length: 3 })
+  const [isPlacingAnnotation, setIsPlacingAnnotation] = useState(false)
+  const [autoZoomLevel, setAutoZoomLevel] = useState(2)
+  const [isGeneratingZoom, setIsGeneratingZoom] = useState(false)
+  const [selectedZoomId, setSelectedZoomId] = useState<string | null>(null)
+  const [selectedKeyframe, setSelectedKeyframe] = useState<{ effectId: string; index: number } | null>(null)
+  const [idleDetection, setIdleDetection] = useState({ minDuration: 2, noise: -35 })
+  const [isDetectingIdle, setIsDetectingIdle] = useState(false)
+  const [clickEffects, setClickEffects] = useState<ClickEffects>(defaultClickEffects)
+  const [cursorSettings, setCursorSettings] = useState<CursorSettings>(defaultCursorSettings)
+  const [keystrokeOverlay, setKeystrokeOverlay] = useState<KeystrokeOverlay>(defaultKeystrokeOverlay)
+  const [typingSpeedUp, setTypingSpeedUp] = useState<TypingSpeedUp>(defaultTypingSpeedUp)
+  
   const videoRef = useRef<HTMLVideoElement>(null)
+  const trackRefs = useRef<Partial<Record<TrackKind, HTMLMediaElement | null>>>({})
+  const punchInRefs = useRef<Record<string, HTMLVideoElement | null>>({})
+  const previewRef = useRef<HTMLDivElement>(null)
   const timelineRef = useRef<HTMLDivElement>(null)
+  const mediaRefreshedAtRef = useRef(0)
+  const overlaySaveRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const clickEffectsSaveRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const cursorSaveRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const keystrokeSaveRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const typingSaveRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  // Signed video URLs expire; fetch a fresh one when playback fails, at most once a minute
+  const refreshVideoUrl = async () => {
+    if (!recording || Date.now() - mediaRefreshedAtRef.current < 60_000) return
+    mediaRefreshedAtRef.current = Date.now()
+
+    try {
+      const media = await getRecordingMedia(recording.id)
+      if (media.video && media.video !== recording.videoUrl) {
+        const resumeAt = videoRef.current?.currentTime ?? 0
+        setRecording({
+          ...recording,
+          videoUrl: media.video,
+          audioUrl: media.audio || undefined,
+          tracks: Object.fromEntries(Object.entries(recording.tracks).map(([kind, track]) =>
+            [kind, { ...track, url: media.tracks[kind as TrackKind] || track.url }]
+          )),
+          punchIns: recording.punchIns.map(punchIn => ({ ...punchIn, url: media.punchIns[punchIn.id] || punchIn.url }))
+        })
+        requestAnimationFrame(() => {
+          if (videoRef.current) videoRef.current.currentTime = resumeAt
+        })
+      }
+    } catch (error) {
+      console.error(`Failed to refresh media for recording ${recording.id}:`, error)
+    }
+  }
+
+  useEffect(() => {
+    if (!recordingId) return
+
+    getRecording(recordingId)
+      .then((loaded) => {
+        setRecording(loaded)
+        setWebcamOverlay(loaded.webcamOverlay)
+        if (loaded.duration > 0) {
+          setDuration(loaded.duration)
+        }
+        return getExportSettings(loaded.projectId).then((settings) => {
+          setClickEffects(settings.clickEffects)
+          setCursorSettings(settings.cursor)
+          setKeystrokeOverlay(settings.keystrokes)
+          setTypingSpeedUp(settings.typingSpeedUp)
+        })
+      })
+      .catch((error) => {
+        console.error(`Failed to load recording ${recordingId} for project ${projectId}:`, error)
+      })
+
+    setCompareIds([])
+    listTakes(recordingId)
+      .then(setTakes)
+      .catch((error) => {
+        console.error(`Failed to load takes of recording ${recordingId}:`, error)
+      })
+  }, [recordingId, projectId])
 
   useEffect(() => {
+    // Real footage drives the clock through timeupdate events
+    if (recording?.videoUrl) return
+
     // Auto-play simulation
     const interval = setInterval(() => {
       if (isPlaying) {
@@ -108,14 +275,361 @@ export function ProjectEditor() {
     }, 100)
 
     return () => clearInterval(interval)
-  }, [isPlaying, duration])
+  }, [isPlaying, duration, recording])
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.volume = volume[0] / 100
+    }
+    if (trackRefs.current.microphone) {
+      trackRefs.current.microphone.volume = volume[0] / 100
+    }
+  }, [volume])
+
+  // Track the preview size so overlays line up with where the footage is drawn
+  useEffect(() => {
+    const container = previewRef.current
+    if (!container) return
+
+    const observer = new ResizeObserver(() => {
+      setPreviewSize({ width: container.clientWidth, height: container.clientHeight })
+    })
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [recording?.videoUrl])
+
+  // Webcam and microphone are separate files; keep them on the main video's clock
+  const syncTracks = (time: number) => {
+    // Over sped-up typing the narration may keep its normal speed, and so drift from the video
+    const keepsNarration = typingRangeAt(typingRanges, time)?.audio === 'narration'
+    for (const track of Object.values(recording?.tracks ?? {})) {
+      const element = trackRefs.current[track.kind]
+      if (!element) continue
+
+      const isNarration = keepsNarration && track.kind === 'microphone'
+      element.playbackRate = isNarration ? 1 : videoRef.current?.playbackRate ?? 1
+      const target = time - track.offset
+      if (target < 0) {
+        element.currentTime = 0
+        element.pause()
+        continue
+      }
+      if (!isNarration && Math.abs(element.currentTime - target) > 0.3) {
+        element.currentTime = target
+      }
+      if (videoRef.current && !videoRef.current.paused && element.paused) {
+        element.play().catch(() => {})
+      }
+    }
+
+    // Punch-ins play over the main video only inside the section they replace
+    for (const punchIn of recording?.punchIns ?? []) {
+      const element = punchInRefs.current[punchIn.id]
+      if (!element) continue
+
+      if (time < punchIn.startTime || time >= punchIn.endTime) {
+        element.pause()
+        continue
+      }
+      element.playbackRate = videoRef.current?.playbackRate ?? 1
+      const target = time - punchIn.startTime
+      if (Math.abs(element.currentTime - target) > 0.3) {
+        element.currentTime = target
+      }
+      if (videoRef.current && !videoRef.current.paused && element.paused) {
+        element.play().catch(() => {})
+      }
+    }
+  }
+
+  // Plays accepted idle ranges as the export will: cuts are skipped and sped-up ranges play
+  // faster, as does long typing where no idle range applies
+  const previewIdleRanges = (video: HTMLVideoElement) => {
+    const range = appliedIdleRangeAt(recording?.idleRanges ?? [], video.currentTime)
+    if (range?.action === 'cut' && !video.paused) {
+      video.currentTime = range.endTime
+      return
+    }
+    video.playbackRate = range?.action === 'speed' ? range.speed : typingRangeAt(typingRanges, video.currentTime)?.speed ?? 1
+  }
+
+  const pauseTracks = () => {
+    Object.values(trackRefs.current).forEach(element => element?.pause())
+    Object.values(punchInRefs.current).forEach(element => element?.pause())
+  }
+
+  // Punch-ins are recorded in the studio and spliced in on export
+  const recordPunchIn = () => {
+    if (!recording) return
+    const { startTime, endTime } = punchInRange
+    navigate(`/record?project=${recording.projectId}&punchIn=${recording.id}&start=${startTime}&end=${endTime}`)
+  }
+
+  // Called with the region drawn on the preview; the annotation starts at the playhead
+  const placeAnnotation = async (coordinates: CaptureCrop) => {
+    if (!recording) return
+    setIsPlacingAnnotation(false)
+
+    const { kind, color, length } = annotationDraft
+    const badges = recording.visualEffects.filter(effect =>
+      effect.type === 'annotation' && annotationProperties(effect.properties).kind === 'badge'
+    )
+    const text = annotationDraft.text.trim() || (kind === 'badge' ? String(badges.length + 1) : undefined)
+
+    try {
+      const effect = await addVisualEffect(recording.id, {
+        type: 'annotation',
+        startTime: currentTime,
+        endTime: Math.min(duration, currentTime + length),
+        coordinates,
+        properties: { kind, color, ...(text && (kind === 'callout' || kind === 'badge') && { text }) }
+      })
+      setRecording(prev => prev && { ...prev, visualEffects: [...prev.visualEffects, effect] })
+      setAnnotationDraft(prev => ({ ...prev, text: '' }))
+    } catch (error) {
+      console.error(`Failed to add annotation to recording ${recording.id}:`, error)
+    }
+  }
+
+  const generateZoom = async () => {
+    if (!recording) return
+
+    setIsGeneratingZoom(true)
+    try {
+      const visualEffects = await generateAutoZoom(recording.id, autoZoomLevel)
+      setRecording(prev => prev && { ...prev, visualEffects })
+      setSelectedZoomId(null)
+    } catch (error) {
+      console.error(`Failed to generate zoom effects for recording ${recording.id}:`, error)
+    } finally {
+      setIsGeneratingZoom(false)
+    }
+  }
+
+  // Edits apply at once in the preview and are saved when the control is released
+  const changeVisualEffect = (effect: VisualEffect) => {
+    setRecording(prev => prev && {
+      ...prev,
+      visualEffects: prev.visualEffects.map(other => (other.id === effect.id ? effect : other))
+    })
+  }
+
+  const saveVisualEffect = (effect: VisualEffect) => {
+    if (!recording) return
+
+    updateVisualEffect(recording.id, effect).catch((error) => {
+      console.error(`Failed to save visual effect ${effect.id} of recording ${recording.id}:`, error)
+    })
+  }
+
+  const removeVisualEffect = async (effectId: string) => {
+    if (!recording) return
+
+    try {
+      await deleteVisualEffect(recording.id, effectId)
+      setRecording(prev => prev && { ...prev, visualEffects: prev.visualEffects.filter(effect => effect.id !== effectId) })
+    } catch (error) {
+      console.error(`Failed to remove visual effect ${effectId} of recording ${recording.id}:`, error)
+    }
+  }
+
+  const detectIdle = async () => {
+    if (!recording) return
+
+    setIsDetectingIdle(true)
+    try {
+      const idleRanges = await detectIdleRanges(recording.id, idleDetection)
+      setRecording(prev => prev && { ...prev, idleRanges })
+    } catch (error) {
+      console.error(`Failed to detect idle ranges in recording ${recording.id}:`, error)
+    } finally {
+      setIsDetectingIdle(false)
+    }
+  }
+
+  const changeIdleRange = (range: IdleRange, changes: Partial<Pick<IdleRange, 'action' | 'speed'>>) => {
+    if (!recording) return
+
+    const next = { ...range, ...changes }
+    setRecording(prev => prev && {
+      ...prev,
+      idleRanges: prev.idleRanges.map(other => (other.id === range.id ? next : other))
+    })
+    updateIdleRange(recording.id, next).catch((error) => {
+      console.error(`Failed to update idle range ${range.id} of recording ${recording.id}:`, error)
+    })
+  }
+
+  const revertPunchIn = async (punchInId: string) => {
+    if (!recording) return
+
+    try {
+      await deletePunchIn(recording.id, punchInId)
+      setRecording(prev => prev && { ...prev, punchIns: prev.punchIns.filter(punchIn => punchIn.id !== punchInId) })
+    } catch (error) {
+      console.error(`Failed to revert punch-in ${punchInId} of recording ${recording.id}:`, error)
+    }
+  }
+
+  const toggleTrackMuted = (kind: TrackKind, muted: boolean) => {
+    const track = recording?.tracks[kind]
+    if (!recording || !track) return
+
+    setRecording({ ...recording, tracks: { ...recording.tracks, [kind]: { ...track, muted } } })
+    updateTrack(recording.id, kind, { muted }).catch((error) => {
+      console.error(`Failed to update ${kind} track for recording ${recording.id}:`, error)
+    })
+  }
+
+  const changeWebcamOverlay = (changes: Partial<WebcamOverlay>) => {
+    const next = { ...webcamOverlay, ...changes }
+    setWebcamOverlay(next)
+    if (!recording) return
+
+    if (overlaySaveRef.current) {
+      clearTimeout(overlaySaveRef.current)
+    }
+    overlaySaveRef.current = setTimeout(() => {
+      updateWebcamOverlay(recording.id, next).catch((error) => {
+        console.error(`Failed to save webcam overlay for recording ${recording.id}:`, error)
+      })
+    }, 500)
+  }
+
+  // Click marks are a project setting, so they apply to every recording in the project
+  const changeClickEffects = (changes: Partial<ClickEffects>) => {
+    const next = { ...clickEffects, ...changes }
+    setClickEffects(next)
+    if (!recording) return
+
+    if (clickEffectsSaveRef.current) {
+      clearTimeout(clickEffectsSaveRef.current)
+    }
+    clickEffectsSaveRef.current = setTimeout(() => {
+      updateClickEffects(recording.projectId, next).catch((error) => {
+        console.error(`Failed to save click effects for project ${recording.projectId}:`, error)
+      })
+    }, 500)
+  }
+
+  // The drawn cursor is a project setting too
+  const changeCursorSettings = (changes: Partial<CursorSettings>) => {
+    const next = { ...cursorSettings, ...changes }
+    setCursorSettings(next)
+    if (!recording) return
+
+    if (cursorSaveRef.current) {
+      clearTimeout(cursorSaveRef.current)
+    }
+    cursorSaveRef.current = setTimeout(() => {
+      updateCursorSettings(recording.projectId, next).catch((error) => {
+        console.error(`Failed to save cursor settings for project ${recording.projectId}:`, error)
+      })
+    }, 500)
+  }
+
+  const changeKeystrokeOverlay = (changes: Partial<KeystrokeOverlay>) => {
+    const next = { ...keystrokeOverlay, ...changes }
+    setKeystrokeOverlay(next)
+    if (!recording) return
+
+    if (keystrokeSaveRef.current) {
+      clearTimeout(keystrokeSaveRef.current)
+    }
+    keystrokeSaveRef.current = setTimeout(() => {
+      updateKeystrokeOverlay(recording.projectId, next).catch((error) => {
+        console.error(`Failed to save keystroke overlay for project ${recording.projectId}:`, error)
+      })
+    }, 500)
+  }
+
+  const changeTypingSpeedUp = (changes: Partial<TypingSpeedUp>) => {
+    const next = { ...typingSpeedUp, ...changes }
+    setTypingSpeedUp(next)
+    if (!recording) return
+
+    if (typingSaveRef.current) {
+      clearTimeout(typingSaveRef.current)
+    }
+    typingSaveRef.current = setTimeout(() => {
+      updateTypingSpeedUp(recording.projectId, next).catch((error) => {
+        console.error(`Failed to save typing speed-up for project ${recording.projectId}:`, error)
+      })
+    }, 500)
+  }
+
+  const changeCrop = (crop: CaptureCrop | null) => {
+    if (!recording) return
+
+    setRecording({ ...recording, crop })
+    updateRecordingCrop(recording.id, crop)
+      .then((updated) => setRecording(prev => prev && { ...prev, ...updated }))
+      .catch((error) => {
+        console.error(`Failed to save crop for recording ${recording.id}:`, error)
+      })
+  }
+
+  const makeTakeActive = async (take: Recording) => {
+    try {
+      await activateTake(take.id)
+      setTakes(prev => prev.map(item => ({ ...item, isActiveTake: item.id === take.id })))
+      setRecording(prev => prev && { ...prev, isActiveTake: prev.id === take.id })
+    } catch (error) {
+      console.error(`Failed to activate take ${take.id}:`, error)
+    }
+  }
+
+  // Side-by-side comparison holds two takes; picking a third replaces the oldest pick
+  const toggleCompare = (takeId: string, selected: boolean) => {
+    setCompareIds(prev => selected ? [...prev.filter(id => id !== takeId), takeId].slice(-2) : prev.filter(id => id !== takeId))
+  }
+
+  const getSceneHiddenRange = (scene: Scene) =>
+    webcamOverlay.hiddenRanges.find(range => range.startTime === scene.startTime && range.endTime === scene.endTime)
+
+  const toggleWebcamForScene = (scene: Scene, hidden: boolean) => {
+    const others = webcamOverlay.hiddenRanges.filter(range => range !== getSceneHiddenRange(scene))
+    changeWebcamOverlay({
+      hiddenRanges: hidden
+        ? [...others, { startTime: scene.startTime, endTime: scene.endTime }]
+        : others
+    })
+  }
+
+  const getWebcamPreviewStyle = (): React.CSSProperties => {
+    // Same geometry as the export: a 2% margin and a size relative to the video width
+    const margin = videoFrame.width * 0.02
+    const width = webcamOverlay.size * videoFrame.width
+    const height = webcamOverlay.shape === 'circle' ? width : width / webcamAspect
+    return {
+      left: videoFrame.left + margin + (videoFrame.width - width - margin * 2) * webcamOverlay.position.x,
+      top: videoFrame.top + margin + (videoFrame.height - height - margin * 2) * webcamOverlay.position.y,
+      width,
+      height,
+      borderRadius: webcamOverlay.shape === 'circle'
+        ? '50%'
+        : webcamOverlay.shape === 'rounded' ? Math.min(width, height) * 0.15 : 0
+    }
+  }
 
   const togglePlayback = () => {
+    const video = videoRef.current
+    if (video) {
+      if (video.paused) {
+        video.play().catch((error) => console.error('Playback failed:', error))
+      } else {
+        video.pause()
+      }
+    }
     setIsPlaying(!isPlaying)
   }
 
   const seekTo = (time: number) => {
-    setCurrentTime(Math.max(0, Math.min(duration, time)))
+    const clamped = Math.max(0, Math.min(duration, time))
+    if (videoRef.current) {
+      videoRef.current.currentTime = clamped
+    }
+    setCurrentTime(clamped)
   }
 
   const updateSceneScript = (sceneId: string, newText: string) => {
@@ -198,17 +712,100 @@ export function ProjectEditor() {
 
   const currentScene = getCurrentScene()
 
+  // Fit the exported frame into the preview; outside crop editing that is only the kept region
+  const crop = recording?.crop && !isCropping ? recording.crop : null
+  const region = crop || { x: 0, y: 0, width: videoSize.width, height: videoSize.height }
+  const previewScale = region.width
+    ? Math.min(previewSize.width / region.width, previewSize.height / region.height)
+    : 0
+  const videoFrame = {
+    left: (previewSize.width - region.width * previewScale) / 2,
+    top: (previewSize.height - region.height * previewScale) / 2,
+    width: region.width * previewScale,
+    height: region.height * previewScale
+  }
+  // The whole video is laid out at preview scale and clipped to the region
+  const croppedVideoStyle: React.CSSProperties | undefined = crop ? {
+    position: 'absolute',
+    maxWidth: 'none',
+    left: videoFrame.left - crop.x * previewScale,
+    top: videoFrame.top - crop.y * previewScale,
+    width: videoSize.width * previewScale,
+    height: videoSize.height * previewScale,
+    clipPath: `inset(${crop.y * previewScale}px ${(videoSize.width - crop.x - crop.width) * previewScale}px ` +
+      `${(videoSize.height - crop.y - crop.height) * previewScale}px ${crop.x * previewScale}px)`
+  } : undefined
+  const activePunchIn = recording?.punchIns.find(punchIn => currentTime >= punchIn.startTime && currentTime < punchIn.endTime)
+  const isWebcamVisible = Boolean(recording?.tracks.webcam) && webcamOverlay.enabled && videoFrame.width > 0 && !activePunchIn &&
+    !webcamOverlay.hiddenRanges.some(range => currentTime >= range.startTime && currentTime <= range.endTime)
+  const exportFrame = crop ? { width: crop.width, height: crop.height } : recording?.resolution
+  const annotations = recording?.visualEffects.filter(effect => effect.type === 'annotation') ?? []
+  const recordingEvents = recording?.events
+  const cursorSamples = useMemo(() => pointerSamples(recordingEvents ?? []), [recordingEvents])
+  const punchIns = recording?.punchIns
+  const captions = useMemo(
+    () => keystrokeCaptions(recordingEvents ?? [], keystrokeOverlay, punchIns),
+    [recordingEvents, keystrokeOverlay, punchIns]
+  )
+  const { enabled: isTypingSpedUp, minKeys, speed: typingSpeed, audio: typingAudio } = typingSpeedUp
+  const typingSpans = useMemo(
+    () => (isTypingSpedUp ? typingRuns(recordingEvents ?? [], minKeys, punchIns) : []),
+    [recordingEvents, isTypingSpedUp, minKeys, punchIns]
+  )
+  const typingRanges = useMemo(
+    () => typingSpans.flatMap(run => speedRamp(run, { speed: typingSpeed, audio: typingAudio })),
+    [typingSpans, typingSpeed, typingAudio]
+  )
+  const isTypingMuted = typingRangeAt(typingRanges, currentTime)?.audio === 'mute'
+  const isCursorPreviewed = Boolean(exportFrame && cursorSettings.enabled && videoRef.current && !isCropping &&
+    videoFrame.width > 0 && cursorSamples.length > 0)
+  const zooms = recording?.visualEffects.filter(effect => effect.type === 'zoom' && effect.coordinates) ?? []
+  const selectedZoom = zooms.find(zoom => zoom.id === selectedZoomId)
+  const animatableEffects = recording?.visualEffects
+    .filter(effect => effect.coordinates)
+    .sort((a, b) => a.startTime - b.startTime) ?? []
+
+  // Follow the export's camera; regions are drawn and cropped on the unzoomed frame
+  const camera = exportFrame && zooms.length > 0 && !isCropping && !isPlacingAnnotation
+    ? cameraAt(cameraKeyframes(zooms, exportFrame), currentTime)
+    : null
+  const cameraClipStyle: React.CSSProperties | undefined = camera && camera.zoom > 1 ? {
+    clipPath: `inset(${videoFrame.top}px ${previewSize.width - videoFrame.left - videoFrame.width}px ` +
+      `${previewSize.height - videoFrame.top - videoFrame.height}px ${videoFrame.left}px)`
+  } : undefined
+  const viewLeft = camera
+    ? Math.min(Math.max(camera.x * videoFrame.width - videoFrame.width / camera.zoom / 2, 0), videoFrame.width - videoFrame.width / camera.zoom)
+    : 0
+  const viewTop = camera
+    ? Math.min(Math.max(camera.y * videoFrame.height - videoFrame.height / camera.zoom / 2, 0), videoFrame.height - videoFrame.height / camera.zoom)
+    : 0
+  const cameraStyle: React.CSSProperties | undefined = camera && camera.zoom > 1 ? {
+    transformOrigin: '0 0',
+    transform: `translate(${videoFrame.left - (videoFrame.left + viewLeft) * camera.zoom}px, ` +
+      `${videoFrame.top - (videoFrame.top + viewTop) * camera.zoom}px) scale(${camera.zoom})`
+  } : undefined
+  const isPunchInValid = punchInRange.startTime >= 0 && punchInRange.endTime > punchInRange.startTime &&
+    punchInRange.endTime <= duration
+
   return (
     <div className="h-screen flex flex-col bg-slate-950 text-white">
       {/* Header */}
       <div className="flex items-center justify-between p-4 border-b border-slate-800 bg-slate-900">
         <div className="flex items-center gap-4">
           <h1 className="text-xl font-semibold text-white">
-            {project?.name || 'Product Demo Editor'}
+            {project?.name || recording?.title || 'Product Demo Editor'}
           </h1>
           <Badge variant="secondary" className="bg-slate-800 text-slate-300">
-            {project?.status || 'editing'}
+            {project?.status || recording?.processingStatus || 'editing'}
           </Badge>
+          {recording && takes.length > 1 && (
+            <Badge
+              variant="secondary"
+              className={recording.isActiveTake ? 'bg-slate-800 text-slate-300' : 'bg-amber-900/40 text-amber-300'}
+            >
+              Take {recording.takeNumber}{recording.isActiveTake ? '' : ' • not exported'}
+            </Badge>
+          )}
         </div>
         <div className="flex items-center gap-2">
           <Button variant="outline" size="sm" className="gap-2 border-slate-700 text-slate-300 hover:bg-slate-800">
@@ -228,8 +825,147 @@ export function ProjectEditor() {
         {/* Main Editor */}
         <div className="flex-1 flex flex-col">
           {/* Video Preview */}
-          <div className="flex-1 bg-black relative">
-            {/* Mock video preview */}
+          <div className="flex-1 bg-black relative" ref={previewRef}>
+            {recording?.videoUrl ? (
+              <>
+              {/* The camera moves the footage and what is drawn on it, but not the webcam */}
+              <div className="absolute inset-0 overflow-hidden" style={cameraClipStyle}>
+                <div className="absolute inset-0" style={cameraStyle}>
+                  <video
+                    ref={videoRef}
+                    src={recording.videoUrl}
+                    className={crop ? '' : 'w-full h-full object-contain'}
+                    style={croppedVideoStyle}
+                    // System audio plays from the screen file itself
+                    muted={Boolean(recording.tracks.systemAudio?.muted) || Boolean(activePunchIn) || isTypingMuted}
+                    onTimeUpdate={(e) => {
+                      previewIdleRanges(e.currentTarget)
+                      setCurrentTime(e.currentTarget.currentTime)
+                      syncTracks(e.currentTarget.currentTime)
+                    }}
+                    onSeeked={(e) => syncTracks(e.currentTarget.currentTime)}
+                    onPlay={(e) => syncTracks(e.currentTarget.currentTime)}
+                    onPause={pauseTracks}
+                    onLoadedMetadata={(e) => {
+                      // MediaRecorder webm files often report Infinity until fully indexed
+                      if (Number.isFinite(e.currentTarget.duration)) {
+                        setDuration(e.currentTarget.duration)
+                      }
+                      setVideoSize({ width: e.currentTarget.videoWidth, height: e.currentTarget.videoHeight })
+                    }}
+                    onEnded={() => setIsPlaying(false)}
+                    onError={refreshVideoUrl}
+                  />
+                  {recording.punchIns.map(punchIn => (
+                    <video
+                      key={punchIn.id}
+                      ref={(el) => { punchInRefs.current[punchIn.id] = el }}
+                      src={punchIn.url}
+                      className={`${crop ? '' : 'absolute inset-0 w-full h-full object-contain'} bg-black pointer-events-none ${
+                        punchIn === activePunchIn ? '' : 'invisible'
+                      }`}
+                      style={croppedVideoStyle}
+                      muted={!punchIn.hasAudio}
+                      playsInline
+                      onError={refreshVideoUrl}
+                    />
+                  ))}
+                  {/* The captured cursor is blurred out before anything is drawn over it, as on export */}
+                  {isCursorPreviewed && (
+                    <div className="absolute pointer-events-none" style={videoFrame}>
+                      <CursorLayer
+                        part="mask"
+                        samples={cursorSamples}
+                        settings={cursorSettings}
+                        punchIns={recording.punchIns}
+                        duration={duration}
+                        frame={exportFrame!}
+                        video={videoRef.current!}
+                        resolution={recording.resolution}
+                        crop={crop}
+                      />
+                    </div>
+                  )}
+                  {/* Annotations are drawn under the webcam, as on export */}
+                  {exportFrame && annotations.length > 0 && !isCropping && videoFrame.width > 0 && (
+                    <div className="absolute pointer-events-none" style={videoFrame}>
+                      <AnnotationLayer annotations={annotations} currentTime={currentTime} frame={exportFrame} />
+                    </div>
+                  )}
+                  {/* Clicks are marked over the annotations, as on export */}
+                  {exportFrame && clickEffects.enabled && videoRef.current && !isCropping && videoFrame.width > 0 && (
+                    <div className="absolute pointer-events-none" style={videoFrame}>
+                      <ClickEffectsLayer
+                        marks={clickMarks(recording.events, recording.punchIns)}
+                        settings={clickEffects}
+                        frame={exportFrame}
+                        video={videoRef.current}
+                        resolution={recording.resolution}
+                        crop={crop}
+                      />
+                    </div>
+                  )}
+                  {/* The drawn cursor goes over the click marks */}
+                  {isCursorPreviewed && (
+                    <div className="absolute pointer-events-none" style={videoFrame}>
+                      <CursorLayer
+                        part="cursor"
+                        samples={cursorSamples}
+                        settings={cursorSettings}
+                        punchIns={recording.punchIns}
+                        duration={duration}
+                        frame={exportFrame!}
+                        video={videoRef.current!}
+                        resolution={recording.resolution}
+                        crop={crop}
+                      />
+                    </div>
+                  )}
+                </div>
+              </div>
+              {/* Keycaps stay in place while the camera moves, as on export */}
+              {exportFrame && keystrokeOverlay.enabled && videoRef.current && !isCropping && videoFrame.width > 0 && (
+                <div className="absolute pointer-events-none" style={videoFrame}>
+                  <KeystrokeLayer captions={captions} settings={keystrokeOverlay} frame={exportFrame} video={videoRef.current} />
+                </div>
+              )}
+              {recording.tracks.webcam && (
+                <video
+                  ref={(el) => { trackRefs.current.webcam = el }}
+                  src={recording.tracks.webcam.url}
+                  className={`absolute object-cover pointer-events-none shadow-lg ${isWebcamVisible ? '' : 'invisible'}`}
+                  style={getWebcamPreviewStyle()}
+                  muted
+                  playsInline
+                  onLoadedMetadata={(e) => {
+                    if (e.currentTarget.videoHeight) {
+                      setWebcamAspect(e.currentTarget.videoWidth / e.currentTarget.videoHeight)
+                    }
+                  }}
+                  onError={refreshVideoUrl}
+                />
+              )}
+              {isCropping && videoFrame.width > 0 && (
+                <div className="absolute" style={videoFrame}>
+                  <CropSelector frame={recording.resolution} crop={recording.crop} onChange={changeCrop} />
+                </div>
+              )}
+              {exportFrame && isPlacingAnnotation && !isCropping && videoFrame.width > 0 && (
+                <div className="absolute" style={videoFrame}>
+                  <CropSelector frame={exportFrame} crop={null} onChange={placeAnnotation} />
+                </div>
+              )}
+              {recording.tracks.microphone && (
+                <audio
+                  ref={(el) => { trackRefs.current.microphone = el }}
+                  src={recording.tracks.microphone.url}
+                  muted={recording.tracks.microphone.muted || Boolean(activePunchIn) || isTypingMuted}
+                  onError={refreshVideoUrl}
+                />
+              )}
+              </>
+            ) : (
+            /* Mock video preview */
             <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-slate-900 to-slate-800">
               <div className="text-center">
                 <div className="w-24 h-24 bg-slate-700 rounded-full flex items-center justify-center mb-4 mx-auto">
@@ -244,6 +980,7 @@ export function ProjectEditor() {
                 )}
               </div>
             </div>
+            )}
             
             {/* Playback Controls Overlay */}
             <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-black/80 rounded-lg p-3 flex items-center gap-3">
@@ -290,7 +1027,7 @@ export function ProjectEditor() {
             <div className="mb-2 flex items-center justify-between">
               <h3 className="text-sm font-medium text-slate-300">Timeline & Scenes</h3>
               <div className="text-xs text-slate-400">
-                {scenes.length} scenes • {formatTime(duration)} total
+                {scenes.length} scenes • {recording?.markers.length ? `${recording.markers.length} markers • ` : ''}{formatTime(duration)} total
               </div>
             </div>
             
@@ -338,6 +1075,48 @@ export function ProjectEditor() {
                 </div>
               ))}
 
+              {/* Markers dropped during capture */}
+              {recording?.markers.map((marker, index) => (
+                <button
+                  key={`${marker.time}-${index}`}
+                  className="absolute top-0 bottom-6 z-10 flex flex-col items-center -translate-x-1/2 group"
+                  style={{ left: `${getTimelinePosition(marker.time)}%` }}
+                  title={`${formatTime(marker.time)} · ${marker.label}`}
+                  onClick={() => seekTo(marker.time)}
+                >
+                  <Flag className={`w-3 h-3 ${marker.source === 'teleprompter' ? 'text-sky-400' : 'text-amber-400'}`} />
+                  <div className="flex-1 w-px bg-amber-400/60 group-hover:bg-amber-300" />
+                </button>
+              ))}
+
+              {/* Idle time: suggestions outlined, cuts and speed-ups filled */}
+              {recording?.idleRanges.filter(range => range.action !== 'dismissed').map(range => (
+                <button
+                  key={range.id}
+                  className={`absolute bottom-6 h-3 rounded-sm ${IDLE_RANGE_STYLES[range.action]}`}
+                  style={{
+                    left: `${getTimelinePosition(range.startTime)}%`,
+                    width: `${getTimelinePosition(range.endTime - range.startTime)}%`
+                  }}
+                  title={`${formatTime(range.startTime)} - ${formatTime(range.endTime)} · ${idleRangeLabel(range)}`}
+                  onClick={() => seekTo(range.startTime)}
+                />
+              ))}
+
+              {/* Long typing the export speeds up */}
+              {typingSpans.map(run => (
+                <button
+                  key={run.startTime}
+                  className="absolute bottom-6 h-3 rounded-sm bg-violet-500/70 hover:bg-violet-500"
+                  style={{
+                    left: `${getTimelinePosition(run.startTime)}%`,
+                    width: `${getTimelinePosition(run.endTime - run.startTime)}%`
+                  }}
+                  title={`${formatTime(run.startTime)} - ${formatTime(run.endTime)} · Typing sped up ${typingSpeed}x in exports`}
+                  onClick={() => seekTo(run.startTime)}
+                />
+              ))}
+
               {/* Playhead */}
               <div
                 className="absolute top-0 bottom-0 w-0.5 bg-red-500 z-10 transition-all duration-100"
@@ -359,10 +1138,11 @@ export function ProjectEditor() {
         {/* Right Panel */}
         <div className="w-96 border-l border-slate-800 bg-slate-900">
           <Tabs defaultValue="script" className="h-full">
-            <TabsList className="grid w-full grid-cols-3 bg-slate-800">
+            <TabsList className="grid w-full grid-cols-4 bg-slate-800">
               <TabsTrigger value="script" className="data-[state=active]:bg-slate-700">Script</TabsTrigger>
               <TabsTrigger value="voice" className="data-[state=active]:bg-slate-700">Voice</TabsTrigger>
               <TabsTrigger value="effects" className="data-[state=active]:bg-slate-700">Effects</TabsTrigger>
+              <TabsTrigger value="takes" className="data-[state=active]:bg-slate-700">Takes</TabsTrigger>
             </TabsList>
 
             {/* Script Editor */}
@@ -508,6 +1288,34 @@ export function ProjectEditor() {
                   />
                 </div>
 
+                {recording && (recording.tracks.microphone || recording.tracks.systemAudio) && (
+                  <>
+                    <Separator className="bg-slate-800" />
+                    <div className="space-y-3">
+                      <Label className="text-slate-300">Audio Tracks</Label>
+                      {recording.tracks.microphone && (
+                        <div className="flex items-center justify-between">
+                          <Label className="text-sm text-slate-300">Microphone narration</Label>
+                          <Switch
+                            checked={!recording.tracks.microphone.muted}
+                            onCheckedChange={(enabled) => toggleTrackMuted('microphone', !enabled)}
+                          />
+                        </div>
+                      )}
+                      {recording.tracks.systemAudio && (
+                        <div className="flex items-center justify-between">
+                          <Label className="text-sm text-slate-300">System audio</Label>
+                          <Switch
+                            checked={!recording.tracks.systemAudio.muted}
+                            onCheckedChange={(enabled) => toggleTrackMuted('systemAudio', !enabled)}
+                          />
+                        </div>
+                      )}
+                      <p className="text-xs text-slate-400">Muted tracks are left out of exports.</p>
+                    </div>
+                  </>
+                )}
+
                 <Separator className="bg-slate-800" />
 
                 <Button 
@@ -526,6 +1334,169 @@ export function ProjectEditor() {
               <h3 className="font-medium text-white">Visual Effects</h3>
               
               <div className="space-y-4">
+                {recording?.videoUrl && (
+                  <Card className="bg-slate-800 border-slate-700">
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-sm text-white flex items-center gap-2">
+                        <Crop className="w-4 h-4" />
+                        Capture Region
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      <p className="text-xs text-slate-400">
+                        {recording.crop
+                          ? `Exports keep ${recording.crop.width}×${recording.crop.height} of the ${recording.resolution.width}×${recording.resolution.height} capture.`
+                          : `Exports keep the full ${recording.resolution.width}×${recording.resolution.height} capture.`}
+                      </p>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setIsCropping(!isCropping)}
+                          className="flex-1 gap-2 border-slate-600 text-slate-300 hover:bg-slate-700"
+                        >
+                          <Crop className="w-4 h-4" />
+                          {isCropping ? 'Done' : 'Select Region'}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => changeCrop(null)}
+                          disabled={!recording.crop}
+                          className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                        >
+                          Full Frame
+                        </Button>
+                      </div>
+                      {isCropping && (
+                        <p className="text-xs text-slate-400">Drag across the preview to draw the region to keep.</p>
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
+
+                {recording?.tracks.webcam && (
+                  <Card className="bg-slate-800 border-slate-700">
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-sm text-white flex items-center gap-2">
+                        <Video className="w-4 h-4" />
+                        Webcam Overlay
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      <div className="flex items-center justify-between">
+                        <Label className="text-sm text-slate-300">Show webcam</Label>
+                        <Switch
+                          checked={webcamOverlay.enabled}
+                          onCheckedChange={(enabled) => changeWebcamOverlay({ enabled })}
+                        />
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label className="text-sm text-slate-300">Shape</Label>
+                        <Select
+                          value={webcamOverlay.shape}
+                          onValueChange={(shape) => changeWebcamOverlay({ shape: shape as WebcamOverlay['shape'] })}
+                        >
+                          <SelectTrigger className="bg-slate-900 border-slate-600 text-white">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent className="bg-slate-800 border-slate-700">
+                            <SelectItem value="circle">Circle</SelectItem>
+                            <SelectItem value="rounded">Rounded rectangle</SelectItem>
+                            <SelectItem value="rectangle">Rectangle</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label className="text-sm text-slate-300">Size: {Math.round(webcamOverlay.size * 100)}%</Label>
+                        <Slider
+                          value={[webcamOverlay.size]}
+                          onValueChange={([size]) => changeWebcamOverlay({ size })}
+                          min={0.05}
+                          max={0.5}
+                          step={0.01}
+                        />
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label className="text-sm text-slate-300">Horizontal position</Label>
+                        <Slider
+                          value={[webcamOverlay.position.x]}
+                          onValueChange={([x]) => changeWebcamOverlay({ position: { ...webcamOverlay.position, x } })}
+                          min={0}
+                          max={1}
+                          step={0.01}
+                        />
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label className="text-sm text-slate-300">Vertical position</Label>
+                        <Slider
+                          value={[webcamOverlay.position.y]}
+                          onValueChange={([y]) => changeWebcamOverlay({ position: { ...webcamOverlay.position, y } })}
+                          min={0}
+                          max={1}
+                          step={0.01}
+                        />
+                      </div>
+
+                      {currentScene && (
+                        <div className="flex items-center justify-between">
+                          <Label className="text-sm text-slate-300">Hide during "{currentScene.title}"</Label>
+                          <Switch
+                            checked={Boolean(getSceneHiddenRange(currentScene))}
+                            onCheckedChange={(hidden) => toggleWebcamForScene(currentScene, hidden)}
+                          />
+                        </div>
+                      )}
+
+                      <Separator className="bg-slate-700" />
+
+                      <div className="flex items-center justify-between">
+                        <Label className="text-sm text-slate-300">Remove background color</Label>
+                        <Switch
+                          checked={webcamOverlay.chromaKey.enabled}
+                          onCheckedChange={(enabled) =>
+                            changeWebcamOverlay({ chromaKey: { ...webcamOverlay.chromaKey, enabled } })
+                          }
+                        />
+                      </div>
+                      {webcamOverlay.chromaKey.enabled && (
+                        <>
+                          <div className="flex items-center justify-between">
+                            <Label className="text-sm text-slate-300">Key color</Label>
+                            <input
+                              type="color"
+                              value={webcamOverlay.chromaKey.color}
+                              onChange={(e) =>
+                                changeWebcamOverlay({ chromaKey: { ...webcamOverlay.chromaKey, color: e.target.value } })
+                              }
+                              className="h-8 w-12 rounded border border-slate-600 bg-slate-900"
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label className="text-sm text-slate-300">
+                              Similarity: {Math.round(webcamOverlay.chromaKey.similarity * 100)}%
+                            </Label>
+                            <Slider
+                              value={[webcamOverlay.chromaKey.similarity]}
+                              onValueChange={([similarity]) =>
+                                changeWebcamOverlay({ chromaKey: { ...webcamOverlay.chromaKey, similarity } })
+                              }
+                              min={0.01}
+                              max={1}
+                              step={0.01}
+                            />
+                          </div>
+                          <p className="text-xs text-slate-400">The background is removed when the video is exported.</p>
+                        </>
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
+
                 <Card className="bg-slate-800 border-slate-700">
                   <CardHeader className="pb-2">
                     <CardTitle className="text-sm text-white">Blur Effects</CardTitle>
@@ -547,14 +1518,220 @@ export function ProjectEditor() {
                     <CardTitle className="text-sm text-white">Zoom & Pan</CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-3">
-                    <Button variant="outline" size="sm" className="w-full gap-2 border-slate-600 text-slate-300 hover:bg-slate-700">
+                    <div className="space-y-2">
+                      <Label className="text-sm text-slate-300">Zoom Level: {autoZoomLevel.toFixed(1)}x</Label>
+                      <Slider
+                        value={[autoZoomLevel]}
+                        onValueChange={([level]) => setAutoZoomLevel(level)}
+                        min={1.25}
+                        max={MAX_CAMERA_ZOOM}
+                        step={0.25}
+                      />
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={generateZoom}
+                      disabled={!recording || isGeneratingZoom}
+                      className="w-full gap-2 border-slate-600 text-slate-300 hover:bg-slate-700"
+                    >
                       <ZoomIn className="w-4 h-4" />
-                      Add Zoom Effect
+                      {isGeneratingZoom ? 'Generating...' : 'Follow Clicks and Typing'}
                     </Button>
+                    <p className="text-xs text-slate-400">
+                      Replaces earlier generated zooms; zooms you added yourself are kept.
+                    </p>
+
+                    {exportFrame && zooms.map(zoom => (
+                      <div key={zoom.id} className="flex items-center justify-between text-sm">
+                        <button
+                          className={`text-left truncate ${zoom.id === selectedZoomId ? 'text-white' : 'text-slate-300 hover:text-white'}`}
+                          onClick={() => {
+                            setSelectedZoomId(zoom.id)
+                            seekTo(zoom.startTime)
+                          }}
+                        >
+                          {formatTime(zoom.startTime)}–{formatTime(zoom.endTime)} · {effectZoom(zoom, exportFrame).toFixed(1)}x
+                        </button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeVisualEffect(zoom.id)}
+                          className="text-slate-400 hover:text-white hover:bg-slate-700"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+
+                    {exportFrame && selectedZoom && (
+                      <div className="space-y-2">
+                        <Label className="text-sm text-slate-300">
+                          Selected zoom: {effectZoom(selectedZoom, exportFrame).toFixed(1)}x
+                        </Label>
+                        <Slider
+                          value={[effectZoom(selectedZoom, exportFrame)]}
+                          onValueChange={([scale]) =>
+                            changeVisualEffect({ ...selectedZoom, properties: { ...selectedZoom.properties, scale } })
+                          }
+                          onValueCommit={([scale]) =>
+                            saveVisualEffect({ ...selectedZoom, properties: { ...selectedZoom.properties, scale } })
+                          }
+                          min={1}
+                          max={MAX_CAMERA_ZOOM}
+                          step={0.1}
+                        />
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card className="bg-slate-800 border-slate-700">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm text-white">Dead Time</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
                     <div className="space-y-2">
-                      <Label className="text-sm text-slate-300">Zoom Level</Label>
-                      <Slider defaultValue={[1.5]} min={1} max={3} step={0.1} />
+                      <Label className="text-sm text-slate-300">Shortest pause: {idleDetection.minDuration.toFixed(1)}s</Label>
+                      <Slider
+                        value={[idleDetection.minDuration]}
+                        onValueChange={([minDuration]) => setIdleDetection(prev => ({ ...prev, minDuration }))}
+                        min={1}
+                        max={10}
+                        step={0.5}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label className="text-sm text-slate-300">Silence below: {idleDetection.noise} dB</Label>
+                      <Slider
+                        value={[idleDetection.noise]}
+                        onValueChange={([noise]) => setIdleDetection(prev => ({ ...prev, noise }))}
+                        min={-60}
+                        max={-20}
+                        step={1}
+                      />
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={detectIdle}
+                      disabled={!recording || isDetectingIdle}
+                      className="w-full gap-2 border-slate-600 text-slate-300 hover:bg-slate-700"
+                    >
+                      <FastForward className="w-4 h-4" />
+                      {isDetectingIdle ? 'Analyzing...' : 'Find Idle Time'}
+                    </Button>
+                    <p className="text-xs text-slate-400">
+                      Suggests pauses with no narration, clicks, typing or pointer movement. Ranges you cut, sped up or dismissed are kept.
+                    </p>
+
+                    {recording?.idleRanges.map(range => (
+                      <div
+                        key={range.id}
+                        className={`flex items-center justify-between gap-2 text-sm ${range.action === 'dismissed' ? 'opacity-50' : ''}`}
+                      >
+                        <button className="text-slate-300 hover:text-white" onClick={() => seekTo(range.startTime)}>
+                          {formatTime(range.startTime)}–{formatTime(range.endTime)}
+                        </button>
+                        <div className="flex items-center gap-1">
+                          <Select
+                            value={range.action}
+                            onValueChange={(action) => changeIdleRange(range, { action: action as IdleRangeAction })}
+                          >
+                            <SelectTrigger className="h-8 w-28 bg-slate-700 border-slate-600 text-white">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="suggested">Suggested</SelectItem>
+                              <SelectItem value="cut">Cut</SelectItem>
+                              <SelectItem value="speed">Speed up</SelectItem>
+                              <SelectItem value="dismissed">Dismissed</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          {range.action === 'speed' && (
+                            <Select
+                              value={String(range.speed)}
+                              onValueChange={(speed) => changeIdleRange(range, { speed: Number(speed) })}
+                            >
+                              <SelectTrigger className="h-8 w-16 bg-slate-700 border-slate-600 text-white">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {IDLE_RANGE_SPEEDS.map(speed => (
+                                  <SelectItem key={speed} value={String(speed)}>{speed}x</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                    {recording && savedSeconds(recording.idleRanges) > 0 && (
+                      <p className="text-xs text-slate-400">
+                        Exports are {formatTime(savedSeconds(recording.idleRanges))} shorter.
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card className="bg-slate-800 border-slate-700">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm text-white">Typing Speed-up</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <Label className="text-sm text-slate-300">Speed up long typing</Label>
+                      <Switch
+                        checked={typingSpeedUp.enabled}
+                        onCheckedChange={(enabled) => changeTypingSpeedUp({ enabled })}
+                        disabled={!recording}
+                      />
                     </div>
+                    {typingSpeedUp.enabled && (
+                      <>
+                        <div className="space-y-2">
+                          <Label className="text-sm text-slate-300">At least {typingSpeedUp.minKeys} keys in a row</Label>
+                          <Slider
+                            value={[typingSpeedUp.minKeys]}
+                            onValueChange={([minKeys]) => changeTypingSpeedUp({ minKeys })}
+                            min={5}
+                            max={60}
+                            step={1}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label className="text-sm text-slate-300">Speed: {typingSpeedUp.speed}x</Label>
+                          <Slider
+                            value={[typingSpeedUp.speed]}
+                            onValueChange={([speed]) => changeTypingSpeedUp({ speed })}
+                            min={1.5}
+                            max={8}
+                            step={0.5}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label className="text-sm text-slate-300">Audio</Label>
+                          <Select
+                            value={typingSpeedUp.audio}
+                            onValueChange={(audio) => changeTypingSpeedUp({ audio: audio as TypingAudio })}
+                          >
+                            <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="mute">Mute the span</SelectItem>
+                              <SelectItem value="narration">Keep narration at normal speed</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <p className="text-xs text-slate-400">
+                          {typingSpans.length === 0
+                            ? 'No typing is long enough to speed up.'
+                            : `${typingSpans.length} typing ${typingSpans.length === 1 ? 'run is' : 'runs are'} sped up, easing in and out.`}
+                          {typingSpeedUp.audio === 'narration' && ' The export leaves typing you talk over at normal speed, so none of the narration is cut.'}
+                        </p>
+                      </>
+                    )}
                   </CardContent>
                 </Card>
 
@@ -565,15 +1742,546 @@ export function ProjectEditor() {
                   <CardContent className="space-y-3">
                     <div className="flex items-center justify-between">
                       <Label className="text-sm text-slate-300">Auto-highlight clicks</Label>
-                      <Switch defaultChecked />
+                      <Switch
+                        checked={clickEffects.enabled}
+                        onCheckedChange={(enabled) => changeClickEffects({ enabled })}
+                        disabled={!recording}
+                      />
                     </div>
+                    {clickEffects.enabled && (
+                      <>
+                        {([
+                          ['ripple', 'Ripple'],
+                          ['halo', 'Cursor halo'],
+                          ['magnify', 'Magnify under cursor']
+                        ] as const).map(([key, label]) => (
+                          <div key={key} className="flex items-center justify-between">
+                            <Label className="text-sm text-slate-300">{label}</Label>
+                            <Switch
+                              checked={clickEffects[key]}
+                              onCheckedChange={(checked) => changeClickEffects({ [key]: checked })}
+                            />
+                          </div>
+                        ))}
+                        <div className="flex items-center justify-between">
+                          <Label className="text-sm text-slate-300">Color</Label>
+                          <input
+                            type="color"
+                            value={clickEffects.color}
+                            onChange={(e) => changeClickEffects({ color: e.target.value })}
+                            className="h-8 w-12 rounded border border-slate-600 bg-slate-900"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label className="text-sm text-slate-300">Size: {clickEffects.size}px</Label>
+                          <Slider
+                            value={[clickEffects.size]}
+                            onValueChange={([size]) => changeClickEffects({ size })}
+                            min={10}
+                            max={200}
+                            step={2}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label className="text-sm text-slate-300">Duration: {clickEffects.duration.toFixed(1)}s</Label>
+                          <Slider
+                            value={[clickEffects.duration]}
+                            onValueChange={([duration]) => changeClickEffects({ duration })}
+                            min={0.2}
+                            max={3}
+                            step={0.1}
+                          />
+                        </div>
+                        {clickEffects.magnify && (
+                          <div className="space-y-2">
+                            <Label className="text-sm text-slate-300">Magnification: {clickEffects.magnification.toFixed(2)}x</Label>
+                            <Slider
+                              value={[clickEffects.magnification]}
+                              onValueChange={([magnification]) => changeClickEffects({ magnification })}
+                              min={1.25}
+                              max={4}
+                              step={0.25}
+                            />
+                          </div>
+                        )}
+                      </>
+                    )}
                     <Button variant="outline" size="sm" className="w-full gap-2 border-slate-600 text-slate-300 hover:bg-slate-700">
                       <Highlighter className="w-4 h-4" />
                       Add Highlight
                     </Button>
                   </CardContent>
                 </Card>
+
+                <Card className="bg-slate-800 border-slate-700">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm text-white flex items-center gap-2">
+                      <MousePointer2 className="w-4 h-4" />
+                      Cursor
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <Label className="text-sm text-slate-300">Replace captured cursor</Label>
+                      <Switch
+                        checked={cursorSettings.enabled}
+                        onCheckedChange={(enabled) => changeCursorSettings({ enabled })}
+                        disabled={!recording}
+                      />
+                    </div>
+                    {recording && cursorSettings.enabled && cursorSamples.length === 0 && (
+                      <p className="text-xs text-slate-400">
+                        This recording has no pointer positions, so exports leave its cursor as captured.
+                      </p>
+                    )}
+                    {cursorSettings.enabled && (
+                      <>
+                        <div className="space-y-2">
+                          <Label className="text-sm text-slate-300">Theme</Label>
+                          <Select
+                            value={cursorSettings.theme}
+                            onValueChange={(theme) => changeCursorSettings({ theme: theme as CursorTheme })}
+                          >
+                            <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="light">Light arrow</SelectItem>
+                              <SelectItem value="dark">Dark arrow</SelectItem>
+                              <SelectItem value="dot">Dot</SelectItem>
+                              <SelectItem value="ring">Ring</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-2">
+                          <Label className="text-sm text-slate-300">Size: {Math.round(cursorSettings.size * 100)}% of the frame</Label>
+                          <Slider
+                            value={[cursorSettings.size]}
+                            onValueChange={([size]) => changeCursorSettings({ size })}
+                            min={0.02}
+                            max={0.1}
+                            step={0.005}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label className="text-sm text-slate-300">Smoothing: {Math.round(cursorSettings.smoothing * 100)}%</Label>
+                          <Slider
+                            value={[cursorSettings.smoothing]}
+                            onValueChange={([smoothing]) => changeCursorSettings({ smoothing })}
+                            min={0}
+                            max={1}
+                            step={0.05}
+                          />
+                        </div>
+                        <div className="flex items-center justify-between">
+                          <Label className="text-sm text-slate-300">Hide when idle</Label>
+                          <Switch
+                            checked={cursorSettings.hideWhenIdle}
+                            onCheckedChange={(hideWhenIdle) => changeCursorSettings({ hideWhenIdle })}
+                          />
+                        </div>
+                        {cursorSettings.hideWhenIdle && (
+                          <div className="space-y-2">
+                            <Label className="text-sm text-slate-300">Hide after: {cursorSettings.idleDelay.toFixed(1)}s still</Label>
+                            <Slider
+                              value={[cursorSettings.idleDelay]}
+                              onValueChange={([idleDelay]) => changeCursorSettings({ idleDelay })}
+                              min={0.5}
+                              max={10}
+                              step={0.5}
+                            />
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card className="bg-slate-800 border-slate-700">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm text-white flex items-center gap-2">
+                      <Keyboard className="w-4 h-4" />
+                      Keystrokes
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <Label className="text-sm text-slate-300">Show keystrokes</Label>
+                      <Switch
+                        checked={keystrokeOverlay.enabled}
+                        onCheckedChange={(enabled) => changeKeystrokeOverlay({ enabled })}
+                        disabled={!recording}
+                      />
+                    </div>
+                    {keystrokeOverlay.enabled && (
+                      <>
+                        {([
+                          ['shortcuts', 'Shortcuts and special keys'],
+                          ['typing', 'Typed text']
+                        ] as const).map(([key, label]) => (
+                          <div key={key} className="flex items-center justify-between">
+                            <Label className="text-sm text-slate-300">{label}</Label>
+                            <Switch
+                              checked={keystrokeOverlay[key]}
+                              onCheckedChange={(checked) => changeKeystrokeOverlay({ [key]: checked })}
+                            />
+                          </div>
+                        ))}
+                        <p className="text-xs text-slate-400">Keys typed into password and other sensitive fields are never shown.</p>
+                        <div className="space-y-2">
+                          <Label className="text-sm text-slate-300">Position</Label>
+                          <Select
+                            value={keystrokeOverlay.position}
+                            onValueChange={(position) => changeKeystrokeOverlay({ position: position as KeystrokePosition })}
+                          >
+                            <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {KEYSTROKE_POSITIONS.map(position => (
+                                <SelectItem key={position.value} value={position.value}>{position.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-2">
+                          <Label className="text-sm text-slate-300">Style</Label>
+                          <Select
+                            value={keystrokeOverlay.theme}
+                            onValueChange={(theme) => changeKeystrokeOverlay({ theme: theme as KeystrokeOverlay['theme'] })}
+                          >
+                            <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="dark">Dark keycaps</SelectItem>
+                              <SelectItem value="light">Light keycaps</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-2">
+                          <Label className="text-sm text-slate-300">Size: {(keystrokeOverlay.size * 100).toFixed(1)}% of the frame</Label>
+                          <Slider
+                            value={[keystrokeOverlay.size]}
+                            onValueChange={([size]) => changeKeystrokeOverlay({ size })}
+                            min={0.02}
+                            max={0.08}
+                            step={0.005}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label className="text-sm text-slate-300">Shown for: {keystrokeOverlay.duration.toFixed(1)}s</Label>
+                          <Slider
+                            value={[keystrokeOverlay.duration]}
+                            onValueChange={([duration]) => changeKeystrokeOverlay({ duration })}
+                            min={0.5}
+                            max={5}
+                            step={0.1}
+                          />
+                        </div>
+                      </>
+                    )}
+                  </CardContent>
+                </Card>
+
+                {recording && exportFrame && (
+                  <Card className="bg-slate-800 border-slate-700">
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-sm text-white flex items-center gap-2">
+                        <MessageSquare className="w-4 h-4" />
+                        Annotations
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      <div className="space-y-2">
+                        <Label className="text-sm text-slate-300">Type</Label>
+                        <Select
+                          value={annotationDraft.kind}
+                          onValueChange={(kind) => setAnnotationDraft({ ...annotationDraft, kind: kind as AnnotationKind })}
+                        >
+                          <SelectTrigger className="bg-slate-900 border-slate-600 text-white">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent className="bg-slate-800 border-slate-700">
+                            <SelectItem value="callout">Text callout</SelectItem>
+                            <SelectItem value="arrow">Arrow</SelectItem>
+                            <SelectItem value="rectangle">Rectangle</SelectItem>
+                            <SelectItem value="badge">Numbered step</SelectItem>
+                            <SelectItem value="spotlight">Spotlight</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      {(annotationDraft.kind === 'callout' || annotationDraft.kind === 'badge') && (
+                        <Input
+                          value={annotationDraft.text}
+                          onChange={(e) => setAnnotationDraft({ ...annotationDraft, text: e.target.value })}
+                          placeholder={annotationDraft.kind === 'badge' ? 'Next step number' : 'Callout text'}
+                          className="bg-slate-900 border-slate-600 text-white"
+                        />
+                      )}
+
+                      {annotationDraft.kind !== 'spotlight' && (
+                        <div className="flex items-center justify-between">
+                          <Label className="text-sm text-slate-300">Color</Label>
+                          <input
+                            type="color"
+                            value={annotationDraft.color}
+                            onChange={(e) => setAnnotationDraft({ ...annotationDraft, color: e.target.value })}
+                            className="h-8 w-12 rounded border border-slate-600 bg-slate-900"
+                          />
+                        </div>
+                      )}
+
+                      <div className="space-y-2">
+                        <Label className="text-sm text-slate-300">Show for {annotationDraft.length}s</Label>
+                        <Slider
+                          value={[annotationDraft.length]}
+                          onValueChange={([length]) => setAnnotationDraft({ ...annotationDraft, length })}
+                          min={1}
+                          max={15}
+                          step={0.5}
+                        />
+                      </div>
+
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setIsPlacingAnnotation(!isPlacingAnnotation)}
+                        disabled={isCropping || (annotationDraft.kind === 'callout' && !annotationDraft.text.trim())}
+                        className="w-full gap-2 border-slate-600 text-slate-300 hover:bg-slate-700"
+                      >
+                        <MessageSquare className="w-4 h-4" />
+                        {isPlacingAnnotation ? 'Cancel' : `Place at ${formatTime(currentTime)}`}
+                      </Button>
+                      {isPlacingAnnotation && (
+                        <p className="text-xs text-slate-400">Drag across the preview to draw where the annotation goes.</p>
+                      )}
+
+                      {annotations.map(annotation => {
+                        const style = annotationProperties(annotation.properties)
+                        return (
+                          <div key={annotation.id} className="flex items-center justify-between text-sm">
+                            <button
+                              className="text-left text-slate-300 hover:text-white truncate"
+                              onClick={() => seekTo(annotation.startTime)}
+                            >
+                              {formatTime(annotation.startTime)}–{formatTime(annotation.endTime)} · {style.text || style.kind}
+                            </button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => removeVisualEffect(annotation.id)}
+                              className="text-slate-400 hover:text-white hover:bg-slate-700"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        )
+                      })}
+                    </CardContent>
+                  </Card>
+                )}
+
+                {recording && exportFrame && (
+                  <Card className="bg-slate-800 border-slate-700">
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-sm text-white flex items-center gap-2">
+                        <Diamond className="w-4 h-4" />
+                        Keyframes
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      {animatableEffects.length === 0 && (
+                        <p className="text-xs text-slate-400">Add a zoom or an annotation to animate it over time.</p>
+                      )}
+                      {animatableEffects.map(effect => (
+                        <KeyframeLane
+                          key={effect.id}
+                          effect={effect}
+                          currentTime={currentTime}
+                          frame={exportFrame}
+                          selected={selectedKeyframe?.effectId === effect.id ? selectedKeyframe.index : null}
+                          onSelect={(index) => setSelectedKeyframe(index === null ? null : { effectId: effect.id, index })}
+                          onSeek={seekTo}
+                          onChange={changeVisualEffect}
+                          onCommit={saveVisualEffect}
+                        />
+                      ))}
+                    </CardContent>
+                  </Card>
+                )}
+              </div>
+            </TabsContent>
+
+            {/* Takes */}
+            <TabsContent value="takes" className="flex-1 p-4 space-y-4 h-full overflow-y-auto">
+              <div className="flex items-center justify-between">
+                <h3 className="font-medium text-white">Takes</h3>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={!recording}
+                  onClick={() => recording && navigate(`/record?project=${recording.projectId}&takeOf=${recording.id}`)}
+                  className="gap-2 border-slate-700 text-slate-300 hover:bg-slate-800"
+                >
+                  <Video className="w-4 h-4" />
+                  Record New Take
+                </Button>
+              </div>
+
+              <p className="text-xs text-slate-400">
+                Only the active take is exported. Other takes keep their processed files so they can be compared or restored.
+              </p>
+
+              <div className="space-y-3">
+                {takes.map((take) => (
+                  <Card
+                    key={take.id}
+                    className={`bg-slate-800 border-slate-700 ${take.id === recording?.id ? 'ring-2 ring-indigo-500' : ''}`}
+                  >
+                    <CardContent className="p-4 space-y-3">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <Checkbox
+                            checked={compareIds.includes(take.id)}
+                            onCheckedChange={(checked) => toggleCompare(take.id, checked === true)}
+                            aria-label={`Compare take ${take.takeNumber}`}
+                          />
+                          <Layers className="w-4 h-4 text-slate-400" />
+                          <span className="font-medium text-white">Take {take.takeNumber}</span>
+                          {take.isActiveTake && (
+                            <Badge className="bg-green-600/20 text-green-300 border-green-700">Active</Badge>
+                          )}
+                        </div>
+                        <span className="text-xs text-slate-400">{formatTime(take.duration)}</span>
+                      </div>
+                      <p className="text-xs text-slate-400">
+                        {new Date(take.createdAt).toLocaleString()} • {take.processingStatus}
+                      </p>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={take.id === recording?.id}
+                          onClick={() => navigate(`/editor/${take.projectId}?recording=${take.id}`)}
+                          className="flex-1 border-slate-600 text-slate-300 hover:bg-slate-700"
+                        >
+                          {take.id === recording?.id ? 'Editing' : 'Open'}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={take.isActiveTake}
+                          onClick={() => makeTakeActive(take)}
+                          className="flex-1 border-slate-600 text-slate-300 hover:bg-slate-700"
+                        >
+                          Make Active
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
               </div>
+
+              {takes.length > 1 && (
+                <Button
+                  onClick={() => setIsComparing(true)}
+                  disabled={compareIds.length < 2}
+                  className="w-full gap-2 bg-indigo-600 hover:bg-indigo-700"
+                >
+                  <Layers className="w-4 h-4" />
+                  {compareIds.length < 2 ? 'Select two takes to compare' : 'Compare Side by Side'}
+                </Button>
+              )}
+
+              {recording?.videoUrl && (
+                <Card className="bg-slate-800 border-slate-700">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm text-white flex items-center gap-2">
+                      <Scissors className="w-4 h-4" />
+                      Re-record a Section
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <p className="text-xs text-slate-400">
+                      Record just this range again. The new footage replaces it exactly, so the rest of the recording keeps its timing.
+                    </p>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="space-y-1">
+                        <Label className="text-xs text-slate-400">Start (s)</Label>
+                        <Input
+                          type="number"
+                          min={0}
+                          step={0.1}
+                          value={punchInRange.startTime}
+                          onChange={(e) => setPunchInRange({ ...punchInRange, startTime: Number(e.target.value) })}
+                          className="bg-slate-900 border-slate-600 text-white"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs text-slate-400">End (s)</Label>
+                        <Input
+                          type="number"
+                          min={0}
+                          step={0.1}
+                          value={punchInRange.endTime}
+                          onChange={(e) => setPunchInRange({ ...punchInRange, endTime: Number(e.target.value) })}
+                          className="bg-slate-900 border-slate-600 text-white"
+                        />
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={!currentScene}
+                        onClick={() => currentScene && setPunchInRange({
+                          startTime: currentScene.startTime,
+                          endTime: Math.min(currentScene.endTime, duration)
+                        })}
+                        className="flex-1 border-slate-600 text-slate-300 hover:bg-slate-700"
+                      >
+                        Use Current Scene
+                      </Button>
+                      <Button
+                        size="sm"
+                        disabled={!isPunchInValid}
+                        onClick={recordPunchIn}
+                        className="flex-1 gap-2 bg-indigo-600 hover:bg-indigo-700"
+                      >
+                        <Video className="w-4 h-4" />
+                        Re-record
+                      </Button>
+                    </div>
+
+                    {recording.punchIns.map(punchIn => (
+                      <div key={punchIn.id} className="flex items-center justify-between text-sm">
+                        <button className="text-slate-300 hover:text-white" onClick={() => seekTo(punchIn.startTime)}>
+                          {formatTime(punchIn.startTime)} - {formatTime(punchIn.endTime)}
+                          {!punchIn.hasAudio && <span className="text-xs text-slate-500"> • no audio</span>}
+                        </button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => revertPunchIn(punchIn.id)}
+                          className="gap-1 text-slate-400 hover:text-white hover:bg-slate-700"
+                        >
+                          <RotateCcw className="w-3 h-3" />
+                          Revert
+                        </Button>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+
+              <TakeComparison
+                takes={takes.filter(take => compareIds.includes(take.id))}
+                open={isComparing}
+                onOpenChange={setIsComparing}
+                onActivate={makeTakeActive}
+              />
             </TabsContent>
           </Tabs>
         </div>
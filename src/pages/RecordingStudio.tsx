@@ -1,4 +1,6 @@
 import { useState, useRef, useEffect } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { toast } from 'sonner'
 import { 
   Video, 
   Mic, 
@@ -13,19 +15,86 @@ import {
   EyeOff,
   Volume2,
   VolumeX,
-  AlertCircle
+  AlertCircle,
+  Upload,
+  Trash2,
+  RotateCcw,
+  Flag,
+  Crop,
+  Layers,
+  Scissors
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Switch } from '@/components/ui/switch'
 import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Progress } from '@/components/ui/progress'
 import { Separator } from '@/components/ui/separator'
 import { Alert, AlertDescription } from '@/components/ui/alert'
+import { createUIEventCapture, getCaptureSurface, type UIEventCapture } from '@/lib/uiEventCapture'
+import {
+  abortUploadSession,
+  getProjectScript,
+  getRecordingDevices,
+  listProjects,
+  saveRecordingDevices,
+  updateRecordingCrop,
+  uploadPunchIn,
+  uploadRecording,
+  uploadRecordingTrack
+} from '@/lib/api'
+import { deleteSession, listSessions, type StoredRecordingSession } from '@/lib/recordingStore'
+import { recoverRecordingStream, startRecordingStream, type RecordingStream } from '@/lib/recordingStream'
+import { describeMediaError, getInputStream, mixAudioInto, type MixedStream } from '@/lib/mediaDevices'
+import { getViewportCrop } from '@/lib/captureCrop'
+import { CropSelector } from '@/components/studio/CropSelector'
+import { DeviceCheck } from '@/components/studio/DeviceCheck'
+import { Teleprompter } from '@/components/studio/Teleprompter'
+import type { CaptureCrop, ProjectSummary, RecordingDevices, RecordingMarker, ScriptLine, UIEvent } from '@/types'
+
+interface PendingRecording {
+  blob: Blob
+  duration: number
+  resolution: { width: number; height: number }
+  uiEvents: UIEvent[]
+  markers: RecordingMarker[]
+  crop: CaptureCrop | null
+}
+
+// Webcam and microphone are recorded by their own MediaRecorders and uploaded as separate tracks.
+// While the screen streams to the server they stream alongside it; otherwise they are kept in memory.
+interface TrackTake {
+  kind: 'webcam' | 'microphone'
+  blob: Promise<Blob | null>
+  stream: Promise<RecordingStream | null>
+  offset: number
+  resolution: { width: number; height: number }
+}
+
+// Pointer samples arrive many times a second and are not counted, so they cause no re-render
+const emptyEventCounts = (): Record<Exclude<UIEvent['type'], 'move'>, number> => ({
+  click: 0,
+  keypress: 0,
+  navigation: 0,
+  hover: 0,
+  scroll: 0
+})
 
 export function RecordingStudio() {
+  // The editor links here with ?project=…&takeOf=… to record a new take of a recording
+  const [searchParams, setSearchParams] = useSearchParams()
+  const takeOf = searchParams.get('takeOf')
+  // …and with ?project=…&punchIn=…&start=…&end=… to re-record one section of a recording
+  const punchIn = searchParams.get('punchIn')
+    ? {
+        recordingId: searchParams.get('punchIn')!,
+        startTime: Number(searchParams.get('start')),
+        endTime: Number(searchParams.get('end'))
+      }
+    : null
   const [isRecording, setIsRecording] = useState(false)
   const [isPaused, setIsPaused] = useState(false)
   const [recordingTime, setRecordingTime] = useState(0)
@@ -35,14 +104,39 @@ export function RecordingStudio() {
   const [recordingSource, setRecordingSource] = useState('screen')
   const [quality, setQuality] = useState('1080p')
   const [frameRate, setFrameRate] = useState('30')
-  const [currentProject, setCurrentProject] = useState<string | null>(null)
+  const [currentProject, setCurrentProject] = useState<string | null>(searchParams.get('project'))
   const [mediaStream, setMediaStream] = useState<MediaStream | null>(null)
   const [mediaRecorder, setMediaRecorder] = useState<MediaRecorder | null>(null)
   const [recordedChunks, setRecordedChunks] = useState<Blob[]>([])
   const [error, setError] = useState<string | null>(null)
+  const [eventCounts, setEventCounts] = useState(emptyEventCounts)
+  const [projects, setProjects] = useState<ProjectSummary[]>([])
+  const [pendingRecording, setPendingRecording] = useState<PendingRecording | null>(null)
+  const [recordingTitle, setRecordingTitle] = useState('')
+  const [isUploading, setIsUploading] = useState(false)
+  const [uploadProgress, setUploadProgress] = useState(0)
+  const [streamedBytes, setStreamedBytes] = useState<number | null>(null)
+  const [isFinalizing, setIsFinalizing] = useState(false)
+  const [interruptedSessions, setInterruptedSessions] = useState<StoredRecordingSession[]>([])
+  const [recoveringId, setRecoveringId] = useState<string | null>(null)
+  const [scriptSegments, setScriptSegments] = useState<ScriptLine[]>([])
+  const [teleprompterIndex, setTeleprompterIndex] = useState(0)
+  const [markers, setMarkers] = useState<RecordingMarker[]>([])
+  const [devices, setDevices] = useState<RecordingDevices>({})
+  const [captureRegion, setCaptureRegion] = useState<'full' | 'viewport'>('full')
+  const [captureFrame, setCaptureFrame] = useState<{ width: number; height: number } | null>(null)
+  const [crop, setCrop] = useState<CaptureCrop | null>(null)
   
+  const navigate = useNavigate()
   const videoRef = useRef<HTMLVideoElement>(null)
   const intervalRef = useRef<NodeJS.Timeout>()
+  const eventCaptureRef = useRef<UIEventCapture | null>(null)
+  const trackStreamsRef = useRef<Partial<Record<TrackTake['kind'], MediaStream>>>({})
+  const trackRecordersRef = useRef<MediaRecorder[]>([])
+  const trackTakesRef = useRef<TrackTake[]>([])
+  const markersRef = useRef<RecordingMarker[]>([])
+  const cropRef = useRef<CaptureCrop | null>(null)
+  const mixedStreamRef = useRef<MixedStream | null>(null)
 
   useEffect(() => {
     return () => {
@@ -55,6 +149,132 @@ export function RecordingStudio() {
     }
   }, [mediaStream])
 
+  useEffect(() => {
+    return () => {
+      eventCaptureRef.current?.stop()
+      Object.values(trackStreamsRef.current).forEach(stream => stream?.getTracks().forEach(track => track.stop()))
+    }
+  }, [])
+
+  useEffect(() => {
+    listProjects()
+      .then(setProjects)
+      .catch((err) => {
+        console.warn('Could not load projects:', err)
+      })
+  }, [])
+
+  useEffect(() => {
+    setScriptSegments([])
+    setTeleprompterIndex(0)
+    if (!currentProject) return
+
+    getProjectScript(currentProject)
+      .then(setScriptSegments)
+      .catch((err) => {
+        console.warn(`Could not load the script for project ${currentProject}:`, err)
+      })
+  }, [currentProject])
+
+  const segmentMarker = (index: number, time: number): RecordingMarker => {
+    const segment = scriptSegments[index]
+    return {
+      time: Math.round(time * 1000) / 1000,
+      label: segment.text.length > 80 ? `${segment.text.slice(0, 79)}…` : segment.text,
+      source: 'teleprompter',
+      segmentId: segment.id
+    }
+  }
+
+  // The ref feeds recorder checkpoints; state drives the markers list
+  const updateMarkers = (next: RecordingMarker[]) => {
+    markersRef.current = next
+    setMarkers(next)
+    setPendingRecording(prev => prev ? { ...prev, markers: next } : prev)
+  }
+
+  // Every segment reached while recording marks where that part of the script starts
+  const advanceTeleprompter = (index: number) => {
+    setTeleprompterIndex(index)
+    if (isRecording && eventCaptureRef.current) {
+      updateMarkers([...markersRef.current, segmentMarker(index, eventCaptureRef.current.getElapsed())])
+    }
+  }
+
+  const addMarker = (label?: string) => {
+    if (!isRecording || !eventCaptureRef.current) return
+    const manualCount = markersRef.current.filter(marker => marker.source === 'manual').length
+    updateMarkers([...markersRef.current, {
+      time: Math.round(eventCaptureRef.current.getElapsed() * 1000) / 1000,
+      label: label || `Marker ${manualCount + 1}`,
+      source: 'manual'
+    }])
+    toast.success('Marker added', { description: label || `Marker ${manualCount + 1}` })
+  }
+
+  const renameMarker = (index: number, label: string) => {
+    updateMarkers(markersRef.current.map((marker, i) => i === index ? { ...marker, label } : marker))
+  }
+
+  // M drops a marker while recording
+  useEffect(() => {
+    if (!isRecording) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null
+      if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return
+      if (event.key.toLowerCase() === 'm' && !event.ctrlKey && !event.metaKey && !event.altKey) {
+        event.preventDefault()
+        addMarker()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  })
+
+  useEffect(() => {
+    getRecordingDevices()
+      .then(setDevices)
+      .catch((err) => {
+        console.warn('Could not load saved recording devices:', err)
+      })
+  }, [])
+
+  // Takes and punch-ins belong to the project of the recording they retake
+  const changeProject = (projectId: string) => {
+    setCurrentProject(projectId)
+    if (takeOf || punchIn) {
+      setSearchParams({})
+    }
+  }
+
+  // A punch-in stops by itself once it covers the section it replaces
+  useEffect(() => {
+    if (punchIn && isRecording && !isPaused && recordingTime >= punchIn.endTime - punchIn.startTime) {
+      stopRecording()
+    }
+  })
+
+  const changeDevices = (next: RecordingDevices) => {
+    setDevices(next)
+    saveRecordingDevices(next).catch((err) => {
+      console.error('Failed to save recording devices:', err)
+      toast.error('Device choice could not be saved', { description: 'It applies to this session only.' })
+    })
+  }
+
+  const loadInterruptedSessions = () => {
+    listSessions()
+      .then(setInterruptedSessions)
+      .catch((err) => {
+        console.warn('Could not read locally saved recordings:', err)
+      })
+  }
+
+  // Recordings whose upload was cut short by a closed tab or crash can still be finished
+  useEffect(loadInterruptedSessions, [])
+
   const getDisplayMedia = async () => {
     try {
       setError(null)
@@ -68,69 +288,354 @@ export function RecordingStudio() {
         audio: hasSystemAudio
       }
 
-      const displayStream = await navigator.mediaDevices.getDisplayMedia(constraints)
-      
-      // Add microphone audio if enabled
-      if (hasAudio) {
-        try {
-          const audioStream = await navigator.mediaDevices.getUserMedia({ audio: true })
-          const audioTrack = audioStream.getAudioTracks()[0]
-          if (audioTrack) {
-            displayStream.addTrack(audioTrack)
+      // The screen recording only carries system audio; the microphone is recorded separately
+      return await navigator.mediaDevices.getDisplayMedia(constraints)
+    } catch (err) {
+      console.error('Error accessing display media:', err)
+      setError('Failed to access screen. Please make sure you grant permission to record your screen.')
+      throw err
+    }
+  }
+
+  // A missing or blocked input stops the take before it starts instead of silently recording without it
+  const getSideMedia = async (kind: 'webcam' | 'microphone') => {
+    const input = kind === 'webcam' ? 'camera' : 'microphone'
+    const saved = kind === 'webcam' ? devices.cameraId : devices.microphoneId
+    try {
+      return await getInputStream(input, saved)
+    } catch (mediaError) {
+      console.error(`Could not access ${input}:`, mediaError)
+      setError(describeMediaError(input, mediaError))
+      throw mediaError
+    }
+  }
+
+  const startTrackRecorder = (
+    kind: 'webcam' | 'microphone',
+    stream: MediaStream,
+    offset: number,
+    screenResolution: { width: number; height: number },
+    screenStream: RecordingStream | null,
+    title: string
+  ) => {
+    const mimeType = kind === 'webcam' ? 'video/webm' : 'audio/webm'
+    const recorder = new MediaRecorder(stream, { mimeType })
+    const chunks: Blob[] = []
+    const settings = stream.getVideoTracks()[0]?.getSettings()
+    const resolution = settings
+      ? { width: settings.width || 1280, height: settings.height || 720 }
+      : screenResolution
+
+    // Chunks wait for the upload session, so none are lost while it is created
+    const trackStream = screenStream && currentProject
+      ? startRecordingStream({
+          projectId: currentProject,
+          title: `${title} (${kind})`,
+          mimeType,
+          resolution,
+          track: { kind, offset, screenUpload: screenStream.sessionId }
+        }).catch((streamError) => {
+          console.warn(`Could not stream the ${kind} track, recording it locally:`, streamError)
+          return null
+        })
+      : Promise.resolve(null)
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        const data = event.data
+        trackStream.then((upload) => {
+          if (upload) {
+            upload.push(data)
+          } else {
+            chunks.push(data)
           }
-        } catch (audioError) {
-          console.warn('Could not access microphone:', audioError)
+        })
+      }
+    }
+
+    trackTakesRef.current.push({
+      kind,
+      blob: new Promise((resolve) => {
+        recorder.onstop = () => {
+          trackStream.then(() => resolve(chunks.length > 0 ? new Blob(chunks, { type: mimeType }) : null))
+        }
+        recorder.onerror = () => resolve(null)
+      }),
+      stream: trackStream,
+      offset,
+      resolution
+    })
+
+    trackRecordersRef.current.push(recorder)
+    recorder.start(1000)
+  }
+
+  const stopTrackRecorders = () => {
+    for (const recorder of trackRecordersRef.current) {
+      if (recorder.state !== 'inactive') {
+        recorder.stop()
+      }
+    }
+    trackRecordersRef.current = []
+    Object.values(trackStreamsRef.current).forEach(stream => stream?.getTracks().forEach(track => track.stop()))
+    trackStreamsRef.current = {}
+  }
+
+  // A failed track upload keeps the screen recording; that track is simply absent
+  const uploadTrackTakes = async (projectId: string, recordingId: string) => {
+    const takes = trackTakesRef.current
+    trackTakesRef.current = []
+
+    for (const take of takes) {
+      const blob = await take.blob
+      const stream = await take.stream
+
+      // A streamed track is finished once the screen recording it belongs to is
+      if (stream) {
+        try {
+          await stream.finish()
+        } catch (err) {
+          console.error(`Failed to finish ${take.kind} track upload:`, err)
+          toast.error(`${take.kind === 'webcam' ? 'Webcam' : 'Microphone'} track could not be uploaded`, {
+            description: 'It is saved in this browser and can be recovered from the Record page.'
+          })
         }
+        continue
       }
+      if (!blob) continue
 
-      return displayStream
+      try {
+        await uploadRecordingTrack({
+          projectId,
+          recordingId,
+          kind: take.kind,
+          media: blob,
+          offset: take.offset,
+          resolution: take.resolution
+        })
+      } catch (err) {
+        console.error(`Failed to upload ${take.kind} track:`, err)
+        toast.error(`${take.kind === 'webcam' ? 'Webcam' : 'Microphone'} track could not be uploaded`, {
+          description: 'The screen recording was saved without it.'
+        })
+      }
+    }
+  }
+
+  // The section keeps its recording's events and crop, so only the footage is uploaded
+  const uploadPunchInTake = async (video: Blob, resolution: { width: number; height: number }, withAudio: boolean) => {
+    if (!punchIn || !currentProject) return
+
+    try {
+      setError(null)
+      setIsUploading(true)
+      setUploadProgress(0)
+      await uploadPunchIn({
+        projectId: currentProject,
+        recordingId: punchIn.recordingId,
+        video,
+        startTime: punchIn.startTime,
+        endTime: punchIn.endTime,
+        hasAudio: withAudio,
+        resolution
+      }, setUploadProgress)
+      toast.success('Section re-recorded', { description: 'Opening the recording in the editor…' })
+      navigate(`/editor/${currentProject}?recording=${punchIn.recordingId}`)
     } catch (err) {
-      console.error('Error accessing display media:', err)
-      setError('Failed to access screen. Please make sure you grant permission to record your screen.')
-      throw err
+      console.error('Failed to upload punch-in:', err)
+      setError(err instanceof Error ? `Upload failed: ${err.message}` : 'Upload failed. Please try again.')
+      toast.error('The re-recorded section was not uploaded', {
+        action: { label: 'Retry', onClick: () => uploadPunchInTake(video, resolution, withAudio) }
+      })
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  // The recorder's stop handler reads the region through the ref
+  const changeCrop = (next: CaptureCrop | null) => {
+    cropRef.current = next
+    setCrop(next)
+  }
+
+  // The crop is saved after the upload; the footage is usable without it, so failures only warn
+  const saveCaptureCrop = async (recordingId: string, captured: CaptureCrop | null) => {
+    if (!captured) return
+    try {
+      await updateRecordingCrop(recordingId, captured)
+    } catch (err) {
+      console.error('Failed to save capture region:', err)
+      toast.warning('The capture region was not saved', { description: 'Select it again in the editor.' })
+    }
+  }
+
+  // Where the captured frame sits in the 16:9 preview, which letterboxes other aspect ratios
+  const getPreviewFrameStyle = (frame: { width: number; height: number }): React.CSSProperties => {
+    const ratio = (frame.width / frame.height) / (16 / 9)
+    const width = ratio >= 1 ? 100 : ratio * 100
+    const height = ratio >= 1 ? 100 / ratio : 100
+    return {
+      left: `${(100 - width) / 2}%`,
+      top: `${(100 - height) / 2}%`,
+      width: `${width}%`,
+      height: `${height}%`
     }
   }
 
   const startRecording = async () => {
     try {
       setError(null)
+      trackTakesRef.current = []
+      trackStreamsRef.current = {}
+      // Punch-ins replace screen and sound only; the webcam is hidden over them on export
+      if (hasWebcam && !punchIn) {
+        trackStreamsRef.current.webcam = await getSideMedia('webcam')
+      }
+      if (hasAudio) {
+        trackStreamsRef.current.microphone = await getSideMedia('microphone')
+      }
+
       const stream = await getDisplayMedia()
       setMediaStream(stream)
+
+      if (hasSystemAudio && stream.getAudioTracks().length === 0) {
+        toast.warning('No system audio', {
+          description: 'The shared surface has no audio. Share a browser tab with "Share tab audio" ticked to capture it.'
+        })
+      }
       
       if (videoRef.current) {
         videoRef.current.srcObject = stream
       }
 
+      // A punch-in is a single file, so the microphone is mixed into it instead of kept separate
+      const mixed = punchIn ? mixAudioInto(stream, Object.values(trackStreamsRef.current)) : null
+      mixedStreamRef.current = mixed
+
       // Create MediaRecorder
-      const recorder = new MediaRecorder(stream, {
+      const recorder = new MediaRecorder(mixed?.stream ?? stream, {
         mimeType: 'video/webm;codecs=vp9'
       })
+
+      // Capture UI interactions in the pixel space of the recorded video
+      const surface = getCaptureSurface(stream.getVideoTracks()[0], {
+        width: quality === '1080p' ? 1920 : 1280,
+        height: quality === '1080p' ? 1080 : 720
+      })
+      setEventCounts(emptyEventCounts())
+      const eventCapture = createUIEventCapture({
+        surface,
+        onEvent: (event) => {
+          if (event.type === 'move') return
+          const type = event.type
+          setEventCounts(prev => ({ ...prev, [type]: prev[type] + 1 }))
+        }
+      })
+      eventCaptureRef.current = eventCapture
+
+      const title = `Recording ${new Date().toLocaleString()}`
+      const resolution = { width: surface.width, height: surface.height }
+      setCaptureFrame(resolution)
+      changeCrop(captureRegion === 'viewport' ? getViewportCrop(surface) : null)
+      const checkpoint = () => ({
+        duration: Math.round(eventCapture.getElapsed() * 10) / 10,
+        uiEvents: eventCapture.getEvents(),
+        markers: markersRef.current
+      })
+      updateMarkers(scriptSegments.length > 0 ? [segmentMarker(teleprompterIndex, 0)] : [])
+
+      // With a project selected the recording streams to the server as it is captured;
+      // otherwise it is kept in memory and saved from the Save Recording card
+      let recordingStream: RecordingStream | null = null
+      if (currentProject && !punchIn) {
+        try {
+          recordingStream = await startRecordingStream({
+            projectId: currentProject,
+            title,
+            mimeType: 'video/webm',
+            resolution,
+            takeOf: takeOf ?? undefined,
+            onAcknowledged: setStreamedBytes
+          })
+          setStreamedBytes(0)
+        } catch (streamError) {
+          console.warn('Could not start streaming upload, recording locally:', streamError)
+          setStreamedBytes(null)
+        }
+      }
       
       const chunks: Blob[] = []
       
       recorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
-          chunks.push(event.data)
+          if (recordingStream) {
+            recordingStream.push(event.data, checkpoint())
+          } else {
+            chunks.push(event.data)
+          }
         }
       }
       
       recorder.onstop = () => {
+        const uiEvents = eventCapture.stop()
+
+        if (punchIn) {
+          const withAudio = Boolean(mixed?.stream.getAudioTracks().length)
+          uploadPunchInTake(new Blob(chunks, { type: 'video/webm' }), resolution, withAudio)
+          return
+        }
+
+        if (recordingStream) {
+          const projectId = currentProject
+          setIsFinalizing(true)
+          recordingStream.finish(checkpoint())
+            .then(async (recording) => {
+              await uploadTrackTakes(projectId!, recording.id)
+              await saveCaptureCrop(recording.id, cropRef.current)
+              toast.success('Recording uploaded', { description: 'Opening it in the editor…' })
+              navigate(`/editor/${projectId}?recording=${recording.id}`)
+            })
+            .catch((err) => {
+              console.error('Failed to finish streaming upload:', err)
+              setError('The upload could not be finished. The recording is saved in this browser and can be recovered below.')
+              loadInterruptedSessions()
+            })
+            .finally(() => {
+              setIsFinalizing(false)
+              setStreamedBytes(null)
+            })
+          return
+        }
+
         setRecordedChunks(chunks)
-        const blob = new Blob(chunks, { type: 'video/webm' })
-        const url = URL.createObjectURL(blob)
-        
-        // Create download link
-        const a = document.createElement('a')
-        a.href = url
-        a.download = `recording-${new Date().toISOString().slice(0, 19)}.webm`
-        document.body.appendChild(a)
-        a.click()
-        document.body.removeChild(a)
-        URL.revokeObjectURL(url)
+        setPendingRecording({
+          blob: new Blob(chunks, { type: 'video/webm' }),
+          duration: Math.round(eventCapture.getElapsed() * 10) / 10,
+          resolution,
+          uiEvents,
+          markers: markersRef.current,
+          crop: cropRef.current
+        })
+        setRecordingTitle(title)
+        setUploadProgress(0)
       }
       
       setMediaRecorder(recorder)
       recorder.start(1000) // Collect data every second
+      const screenStartedAt = performance.now()
+      eventCapture.start()
+      for (const [kind, trackStream] of Object.entries(trackStreamsRef.current)) {
+        if (trackStream && !punchIn) {
+          startTrackRecorder(
+            kind as TrackTake['kind'],
+            trackStream,
+            (performance.now() - screenStartedAt) / 1000,
+            resolution,
+            recordingStream,
+            title
+          )
+        }
+      }
       
       setIsRecording(true)
       setRecordingTime(0)
@@ -147,6 +652,7 @@ export function RecordingStudio() {
       
     } catch (error) {
       console.error('Failed to start recording:', error)
+      stopTrackRecorders()
       setIsRecording(false)
     }
   }
@@ -155,11 +661,15 @@ export function RecordingStudio() {
     if (mediaRecorder) {
       if (isPaused) {
         mediaRecorder.resume()
+        trackRecordersRef.current.forEach(recorder => recorder.resume())
+        eventCaptureRef.current?.resume()
         intervalRef.current = setInterval(() => {
           setRecordingTime(prev => prev + 1)
         }, 1000)
       } else {
         mediaRecorder.pause()
+        trackRecordersRef.current.forEach(recorder => recorder.pause())
+        eventCaptureRef.current?.pause()
         if (intervalRef.current) {
           clearInterval(intervalRef.current)
         }
@@ -180,6 +690,9 @@ export function RecordingStudio() {
       if (mediaRecorder && mediaRecorder.state !== 'inactive') {
         mediaRecorder.stop()
       }
+      stopTrackRecorders()
+      mixedStreamRef.current?.stop()
+      mixedStreamRef.current = null
       
       if (mediaStream) {
         mediaStream.getTracks().forEach(track => track.stop())
@@ -191,13 +704,122 @@ export function RecordingStudio() {
       }
       
       setRecordingTime(0)
-      setCurrentProject(null)
       
     } catch (error) {
       console.error('Failed to stop recording:', error)
     }
   }
 
+  const uploadPendingRecording = async () => {
+    if (!pendingRecording || !currentProject) return
+
+    try {
+      setError(null)
+      setIsUploading(true)
+      const recording = await uploadRecording({
+        projectId: currentProject,
+        title: recordingTitle.trim() || 'Untitled Recording',
+        video: pendingRecording.blob,
+        duration: pendingRecording.duration,
+        resolution: pendingRecording.resolution,
+        uiEvents: pendingRecording.uiEvents,
+        markers: pendingRecording.markers,
+        takeOf: takeOf ?? undefined
+      }, setUploadProgress)
+      await uploadTrackTakes(currentProject, recording.id)
+      await saveCaptureCrop(recording.id, pendingRecording.crop)
+
+      setPendingRecording(null)
+      toast.success('Recording uploaded', { description: 'Opening it in the editor…' })
+      navigate(`/editor/${currentProject}?recording=${recording.id}`)
+    } catch (err) {
+      console.error('Failed to upload recording:', err)
+      setError(err instanceof Error ? `Upload failed: ${err.message}` : 'Upload failed. Please try again.')
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  // Webcam and microphone sessions streamed alongside a screen session
+  const trackSessionsOf = (session: StoredRecordingSession) =>
+    interruptedSessions.filter(item => item.track?.screenUpload === session.id)
+
+  const recoverSession = async (session: StoredRecordingSession) => {
+    try {
+      setError(null)
+      setRecoveringId(session.id)
+      setUploadProgress(0)
+      const recording = await recoverRecordingStream(session, setUploadProgress)
+      setInterruptedSessions(prev => prev.filter(item => item.id !== session.id))
+
+      // The tracks can only attach once the screen recording exists
+      for (const track of trackSessionsOf(session)) {
+        try {
+          await recoverRecordingStream(track)
+          setInterruptedSessions(prev => prev.filter(item => item.id !== track.id))
+        } catch (err) {
+          console.error(`Failed to recover ${track.track?.kind} track:`, err)
+          toast.error(`${track.title} could not be recovered`, { description: 'It is still saved in this browser.' })
+        }
+      }
+      toast.success('Recording recovered', { description: 'Opening it in the editor…' })
+      navigate(`/editor/${session.projectId}?recording=${recording.id}`)
+    } catch (err) {
+      console.error('Failed to recover recording:', err)
+      setError(err instanceof Error ? `Recovery failed: ${err.message}` : 'Recovery failed. Please try again.')
+    } finally {
+      setRecoveringId(null)
+    }
+  }
+
+  const discardSession = async (session: StoredRecordingSession) => {
+    try {
+      for (const item of [session, ...trackSessionsOf(session)]) {
+        await abortUploadSession(item.id).catch((err) => {
+          console.warn('Could not abort upload session:', err)
+        })
+        await deleteSession(item.id)
+        setInterruptedSessions(prev => prev.filter(other => other.id !== item.id))
+      }
+    } catch (err) {
+      console.error('Failed to discard recording:', err)
+    }
+  }
+
+  const downloadPendingRecording = async () => {
+    if (!pendingRecording) return
+    const baseName = `recording-${new Date().toISOString().slice(0, 19)}`
+    const eventsBlob = new Blob(
+      [JSON.stringify({
+        resolution: pendingRecording.resolution,
+        uiEvents: pendingRecording.uiEvents,
+        markers: pendingRecording.markers,
+        crop: pendingRecording.crop
+      }, null, 2)],
+      { type: 'application/json' }
+    )
+
+    const files: Array<[Blob, string]> = [[pendingRecording.blob, `${baseName}.webm`], [eventsBlob, `${baseName}.events.json`]]
+    for (const take of trackTakesRef.current) {
+      const blob = await take.blob
+      if (blob) {
+        files.push([blob, `${baseName}.${take.kind}.webm`])
+      }
+    }
+
+    // Create download links for the video, its interaction events and the separate tracks
+    for (const [file, name] of files) {
+      const url = URL.createObjectURL(file)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = name
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+    }
+  }
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60)
     const secs = seconds % 60
@@ -231,6 +853,11 @@ export function RecordingStudio() {
     )
   }
 
+  // Tracks are listed on their own only when their screen session is gone
+  const interruptedRecordings = interruptedSessions.filter(session =>
+    !session.track || !interruptedSessions.some(screen => screen.id === session.track?.screenUpload)
+  )
+
   return (
     <div className="min-h-screen bg-slate-950 text-white">
       <div className="p-6 space-y-6">
@@ -253,6 +880,99 @@ export function RecordingStudio() {
           </Alert>
         )}
 
+        {takeOf && (
+          <Alert className="bg-indigo-900/20 border-indigo-800 text-indigo-200">
+            <Layers className="h-4 w-4" />
+            <AlertDescription>
+              <div className="flex items-center justify-between gap-4">
+                <p>
+                  This recording will be saved as a new take and become the active one. Earlier takes stay available in the editor.
+                </p>
+                {!isRecording && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setSearchParams({})}
+                    className="border-indigo-700 text-indigo-200 hover:bg-indigo-900/40"
+                  >
+                    Record Separately
+                  </Button>
+                )}
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {punchIn && (
+          <Alert className="bg-indigo-900/20 border-indigo-800 text-indigo-200">
+            <Scissors className="h-4 w-4" />
+            <AlertDescription>
+              <div className="space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <p>
+                    Re-recording {punchIn.startTime.toFixed(1)}s to {punchIn.endTime.toFixed(1)}s of a recording. Recording stops
+                    after {Math.ceil(punchIn.endTime - punchIn.startTime)} seconds and replaces that section; the webcam is not recorded.
+                  </p>
+                  {!isRecording && !isUploading && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => navigate(`/editor/${currentProject}?recording=${punchIn.recordingId}`)}
+                      className="border-indigo-700 text-indigo-200 hover:bg-indigo-900/40"
+                    >
+                      Back to Editor
+                    </Button>
+                  )}
+                </div>
+                {isUploading && <Progress value={uploadProgress} className="h-2" />}
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {interruptedRecordings.length > 0 && !isRecording && (
+          <Alert className="bg-amber-900/20 border-amber-800 text-amber-200">
+            <RotateCcw className="h-4 w-4" />
+            <AlertDescription>
+              <div className="space-y-3">
+                <p>
+                  {interruptedRecordings.length === 1 ? 'A recording was' : `${interruptedRecordings.length} recordings were`} interrupted before the upload finished.
+                </p>
+                {interruptedRecordings.map((session) => (
+                  <div key={session.id} className="flex items-center justify-between gap-4">
+                    <span className="text-sm text-slate-300">
+                      {session.title}
+                      {!session.track && ` • ${formatTime(Math.round(session.duration))}`}
+                      {recoveringId === session.id && ` • ${uploadProgress}%`}
+                    </span>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => recoverSession(session)}
+                        disabled={recoveringId !== null}
+                        className="gap-2 bg-indigo-600 hover:bg-indigo-700"
+                      >
+                        <Upload className="w-4 h-4" />
+                        Recover
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => discardSession(session)}
+                        disabled={recoveringId !== null}
+                        className="border-slate-700 text-slate-300 hover:bg-slate-800"
+                        title="Discard recording"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Recording Controls */}
           <div className="lg:col-span-2 space-y-6">
@@ -273,7 +993,7 @@ export function RecordingStudio() {
                 <div className="aspect-video bg-slate-800 rounded-lg flex items-center justify-center relative overflow-hidden border-2 border-dashed border-slate-700">
                   <video 
                     ref={videoRef}
-                    className="w-full h-full object-cover rounded-lg"
+                    className="w-full h-full object-contain rounded-lg"
                     autoPlay
                     muted
                     style={{ display: mediaStream ? 'block' : 'none' }}
@@ -291,15 +1011,28 @@ export function RecordingStudio() {
                     </div>
                   )}
                   
+                  {/* Drag on the live preview to keep only part of the captured frame */}
+                  {isRecording && mediaStream && captureFrame && (
+                    <div className="absolute" style={getPreviewFrameStyle(captureFrame)}>
+                      <CropSelector frame={captureFrame} crop={crop} onChange={changeCrop} />
+                    </div>
+                  )}
+
                   {/* Webcam overlay */}
-                  {hasWebcam && isRecording && (
-                    <div className="absolute bottom-4 right-4 w-32 h-24 bg-black rounded-lg border-2 border-white shadow-lg">
-                      <div className="w-full h-full flex items-center justify-center text-white text-xs">
-                        <div className="text-center">
-                          <div className="w-2 h-2 bg-red-500 rounded-full mx-auto mb-1 animate-pulse"></div>
-                          Webcam
-                        </div>
-                      </div>
+                  {hasWebcam && isRecording && trackStreamsRef.current.webcam && (
+                    <div className="absolute bottom-4 right-4 w-32 h-24 bg-black rounded-lg border-2 border-white shadow-lg overflow-hidden">
+                      <video
+                        ref={(el) => {
+                          if (el && el.srcObject !== trackStreamsRef.current.webcam) {
+                            el.srcObject = trackStreamsRef.current.webcam ?? null
+                          }
+                        }}
+                        className="w-full h-full object-cover"
+                        autoPlay
+                        muted
+                        playsInline
+                      />
+                      <div className="absolute top-1 left-1 w-2 h-2 bg-red-500 rounded-full animate-pulse" />
                     </div>
                   )}
                 </div>
@@ -307,7 +1040,7 @@ export function RecordingStudio() {
                 {/* Recording Controls */}
                 <div className="flex items-center justify-center gap-4 mt-6">
                   {!isRecording ? (
-                    <Button onClick={startRecording} className="gap-2 h-12 px-8 bg-indigo-600 hover:bg-indigo-700 text-white">
+                    <Button onClick={startRecording} disabled={isUploading || isFinalizing} className="gap-2 h-12 px-8 bg-indigo-600 hover:bg-indigo-700 text-white">
                       <Video className="w-5 h-5" />
                       Start Recording
                     </Button>
@@ -332,45 +1065,194 @@ export function RecordingStudio() {
                     </>
                   )}
                 </div>
+
+                {isRecording && (
+                  <div className="flex items-center justify-center gap-2 mt-3">
+                    {crop && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => changeCrop(null)}
+                        className="gap-2 border-slate-700 text-slate-300 hover:bg-slate-800"
+                        title="Keep the full captured frame"
+                      >
+                        <Crop className="w-4 h-4" />
+                        Full Frame
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => addMarker()}
+                      className="gap-2 border-slate-700 text-slate-300 hover:bg-slate-800"
+                      title="Add marker (M)"
+                    >
+                      <Flag className="w-4 h-4" />
+                      Add Marker
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => addMarker('Retake from here')}
+                      className="gap-2 border-slate-700 text-slate-300 hover:bg-slate-800"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      Retake From Here
+                    </Button>
+                  </div>
+                )}
+
+                {(streamedBytes !== null || isFinalizing) && (
+                  <p className="text-center text-xs text-slate-400 mt-3">
+                    {isFinalizing
+                      ? 'Finishing upload…'
+                      : `Streaming to project • ${(streamedBytes! / (1024 * 1024)).toFixed(1)} MB uploaded`}
+                  </p>
+                )}
               </CardContent>
             </Card>
 
+            {/* Save Recording */}
+            {pendingRecording && !isRecording && (
+              <Card className="bg-slate-900 border-slate-800">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-white">
+                    <Upload className="w-5 h-5" />
+                    Save Recording
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex items-center justify-between text-sm text-slate-400">
+                    <span>
+                      {formatTime(Math.round(pendingRecording.duration))} • {pendingRecording.resolution.width}x{pendingRecording.resolution.height}
+                      {pendingRecording.crop && ` • cropped to ${pendingRecording.crop.width}x${pendingRecording.crop.height}`}
+                    </span>
+                    <span>{pendingRecording.uiEvents.filter(event => event.type !== 'move').length} events • {pendingRecording.markers.length} markers • {(pendingRecording.blob.size / (1024 * 1024)).toFixed(1)} MB</span>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label className="text-slate-300">Title</Label>
+                    <Input
+                      value={recordingTitle}
+                      onChange={(e) => setRecordingTitle(e.target.value)}
+                      className="bg-slate-800 border-slate-700 text-white"
+                      disabled={isUploading}
+                    />
+                  </div>
+
+                  {!currentProject && (
+                    <p className="text-xs text-amber-400">Choose a project in Recording Settings to upload this recording.</p>
+                  )}
+
+                  {isUploading && (
+                    <div className="space-y-1">
+                      <Progress value={uploadProgress} className="bg-slate-800" />
+                      <p className="text-xs text-slate-400">Uploading… {uploadProgress}%</p>
+                    </div>
+                  )}
+
+                  <div className="flex gap-2">
+                    <Button
+                      onClick={uploadPendingRecording}
+                      disabled={!currentProject || isUploading}
+                      className="flex-1 gap-2 bg-indigo-600 hover:bg-indigo-700"
+                    >
+                      <Upload className="w-4 h-4" />
+                      Upload & Edit
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={downloadPendingRecording}
+                      disabled={isUploading}
+                      className="gap-2 border-slate-700 text-slate-300 hover:bg-slate-800"
+                    >
+                      <Download className="w-4 h-4" />
+                      Download
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => {
+                        trackTakesRef.current = []
+                        setPendingRecording(null)
+                      }}
+                      disabled={isUploading}
+                      className="border-slate-700 text-slate-300 hover:bg-slate-800"
+                      title="Discard recording"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Markers */}
+            {(isRecording || pendingRecording) && markers.length > 0 && (
+              <Card className="bg-slate-900 border-slate-800">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-white">
+                    <Flag className="w-5 h-5" />
+                    Markers
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {markers.map((marker, index) => (
+                    <div key={index} className="flex items-center gap-3">
+                      <span className="text-xs font-mono text-slate-400 min-w-[48px]">{formatTime(Math.floor(marker.time))}</span>
+                      <Input
+                        value={marker.label}
+                        onChange={(e) => renameMarker(index, e.target.value)}
+                        maxLength={200}
+                        className="h-8 bg-slate-800 border-slate-700 text-white text-sm"
+                      />
+                      <Badge variant="secondary" className="bg-slate-800 text-slate-400 text-xs">
+                        {marker.source === 'teleprompter' ? 'script' : 'manual'}
+                      </Badge>
+                    </div>
+                  ))}
+                  <p className="text-xs text-slate-500 pt-1">
+                    Markers show on the editor timeline and can become chapters or cut points on export.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
             {/* AI Event Detection */}
             {isRecording && (
               <Card className="bg-slate-900 border-slate-800">
                 <CardHeader>
-                  <CardTitle className="text-white">AI Event Detection</CardTitle>
+                  <CardTitle className="text-white">Interaction Capture</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-3">
                     <div className="flex items-center justify-between p-3 bg-slate-800 rounded-lg">
                       <span className="text-sm text-slate-300">Mouse clicks detected</span>
-                      <Badge className="bg-green-600 text-white animate-pulse">{Math.floor(recordingTime / 5) + 12}</Badge>
+                      <Badge className="bg-green-600 text-white">{eventCounts.click}</Badge>
                     </div>
                     <div className="flex items-center justify-between p-3 bg-slate-800 rounded-lg">
                       <span className="text-sm text-slate-300">Keyboard inputs</span>
-                      <Badge className="bg-blue-600 text-white">{Math.floor(recordingTime / 8) + 8}</Badge>
+                      <Badge className="bg-blue-600 text-white">{eventCounts.keypress}</Badge>
                     </div>
                     <div className="flex items-center justify-between p-3 bg-slate-800 rounded-lg">
                       <span className="text-sm text-slate-300">Page transitions</span>
-                      <Badge className="bg-purple-600 text-white">{Math.floor(recordingTime / 20) + 3}</Badge>
+                      <Badge className="bg-purple-600 text-white">{eventCounts.navigation}</Badge>
                     </div>
                     <div className="flex items-center justify-between p-3 bg-slate-800 rounded-lg">
                       <span className="text-sm text-slate-300">Hover events</span>
-                      <Badge className="bg-amber-600 text-white">{Math.floor(recordingTime / 3) + 15}</Badge>
+                      <Badge className="bg-amber-600 text-white">{eventCounts.hover}</Badge>
                     </div>
                     <div className="flex items-center justify-between p-3 bg-slate-800 rounded-lg">
-                      <span className="text-sm text-slate-300">Form interactions</span>
-                      <Badge className="bg-indigo-600 text-white">{Math.floor(recordingTime / 12) + 2}</Badge>
+                      <span className="text-sm text-slate-300">Scroll events</span>
+                      <Badge className="bg-indigo-600 text-white">{eventCounts.scroll}</Badge>
                     </div>
                   </div>
                   <div className="mt-4 p-3 bg-indigo-500/10 border border-indigo-500/20 rounded-lg">
                     <div className="flex items-center gap-2 mb-2">
                       <div className="w-2 h-2 bg-indigo-400 rounded-full animate-pulse"></div>
-                      <span className="text-sm font-medium text-indigo-300">AI Analysis Active</span>
+                      <span className="text-sm font-medium text-indigo-300">Capture Active</span>
                     </div>
                     <p className="text-xs text-slate-400">
-                      Automatically detecting UI patterns, user flows, and interaction hotspots for enhanced demo creation.
+                      Clicks, keypresses, scrolls, hovers and navigations are timestamped and mapped to the captured resolution for auto-zoom and step generation.
                     </p>
                   </div>
                 </CardContent>
@@ -380,6 +1262,27 @@ export function RecordingStudio() {
 
           {/* Settings Panel */}
           <div className="space-y-6">
+            {!isRecording && (
+              <DeviceCheck
+                microphoneEnabled={hasAudio}
+                cameraEnabled={hasWebcam}
+                systemAudioEnabled={hasSystemAudio}
+                devices={devices}
+                onDevicesChange={changeDevices}
+              />
+            )}
+
+            <Teleprompter
+              segments={scriptSegments}
+              activeIndex={teleprompterIndex}
+              isRunning={isRecording && !isPaused}
+              onAdvance={advanceTeleprompter}
+              onSegmentsChange={(segments) => {
+                setScriptSegments(segments)
+                setTeleprompterIndex(0)
+              }}
+            />
+
             {/* Recording Settings */}
             <Card className="bg-slate-900 border-slate-800">
               <CardHeader>
@@ -389,6 +1292,20 @@ export function RecordingStudio() {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label className="text-slate-300">Project</Label>
+                  <Select value={currentProject ?? undefined} onValueChange={changeProject} disabled={isRecording || isUploading || isFinalizing}>
+                    <SelectTrigger className="bg-slate-800 border-slate-700 text-white">
+                      <SelectValue placeholder={projects.length ? 'Select a project' : 'No projects available'} />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-800 border-slate-700">
+                      {projects.map((project) => (
+                        <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
                 <div className="space-y-2">
                   <Label className="text-slate-300">Recording Source</Label>
                   <Select value={recordingSource} onValueChange={setRecordingSource}>
@@ -403,6 +1320,26 @@ export function RecordingStudio() {
                   </Select>
                 </div>
 
+                <div className="space-y-2">
+                  <Label className="text-slate-300">Capture Region</Label>
+                  <Select
+                    value={captureRegion}
+                    onValueChange={(value) => setCaptureRegion(value as 'full' | 'viewport')}
+                    disabled={isRecording}
+                  >
+                    <SelectTrigger className="bg-slate-800 border-slate-700 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-800 border-slate-700">
+                      <SelectItem value="full">Everything Shared</SelectItem>
+                      <SelectItem value="viewport">This Browser Viewport</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-slate-500">
+                    The region can be redrawn on the preview while recording and changed later in the editor.
+                  </p>
+                </div>
+
                 <div className="space-y-2">
                   <Label className="text-slate-300">Quality</Label>
                   <Select value={quality} onValueChange={setQuality}>
@@ -437,7 +1374,7 @@ export function RecordingStudio() {
                       {hasWebcam ? <Eye className="w-4 h-4 text-slate-400" /> : <EyeOff className="w-4 h-4 text-slate-400" />}
                       <Label className="text-slate-300">Webcam Overlay</Label>
                     </div>
-                    <Switch checked={hasWebcam} onCheckedChange={setHasWebcam} />
+                    <Switch checked={hasWebcam} onCheckedChange={setHasWebcam} disabled={isRecording} />
                   </div>
 
                   <div className="flex items-center justify-between">
@@ -445,7 +1382,7 @@ export function RecordingStudio() {
                       {hasAudio ? <Volume2 className="w-4 h-4 text-slate-400" /> : <VolumeX className="w-4 h-4 text-slate-400" />}
                       <Label className="text-slate-300">Microphone</Label>
                     </div>
-                    <Switch checked={hasAudio} onCheckedChange={setHasAudio} />
+                    <Switch checked={hasAudio} onCheckedChange={setHasAudio} disabled={isRecording} />
                   </div>
 
                   <div className="flex items-center justify-between">
@@ -453,7 +1390,7 @@ export function RecordingStudio() {
                       <Volume2 className="w-4 h-4 text-slate-400" />
                       <Label className="text-slate-300">System Audio</Label>
                     </div>
-                    <Switch checked={hasSystemAudio} onCheckedChange={setHasSystemAudio} />
+                    <Switch checked={hasSystemAudio} onCheckedChange={setHasSystemAudio} disabled={isRecording} />
                   </div>
                 </div>
               </CardContent>
@@ -20,6 +20,20 @@ export interface Project {
   settings: ProjectSettings
 }
 
+// Input devices picked in the studio's pre-flight check, remembered per user
+export interface RecordingDevices {
+  microphoneId?: string
+  microphoneLabel?: string
+  cameraId?: string
+  cameraLabel?: string
+}
+
+export interface ProjectSummary {
+  id: string
+  name: string
+  status: string
+}
+
 export interface ProjectSettings {
   resolution: '720p' | '1080p'
   frameRate: 30 | 60
@@ -38,24 +52,191 @@ export interface VoiceSettings {
 export interface Recording {
   id: string
   projectId: string
+  title: string
+  // Takes of one logical recording share a group; only the active take is exported
+  takeGroup: string
+  takeNumber: number
+  isActiveTake: boolean
   videoUrl: string
   audioUrl?: string
   duration: number
+  resolution: { width: number; height: number }
+  processingStatus: 'pending' | 'processing' | 'completed' | 'failed'
   events: UIEvent[]
+  markers: RecordingMarker[]
+  script: ScriptLine[]
   transcript?: string
+  tracks: Partial<Record<TrackKind, RecordingTrack>>
+  punchIns: PunchIn[]
+  idleRanges: IdleRange[]
+  visualEffects: VisualEffect[]
+  webcamOverlay: WebcamOverlay
+  crop: CaptureCrop | null
   createdAt: string
 }
 
+// Region of the captured frame kept in exports, in pixels of the recording's resolution
+export interface CaptureCrop {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export type TrackKind = 'webcam' | 'microphone' | 'systemAudio'
+
+export interface RecordingTrack {
+  kind: TrackKind
+  url: string
+  offset: number
+  muted: boolean
+}
+
+// A re-recorded section that replaces startTime..endTime of the original in exports
+export interface PunchIn {
+  id: string
+  url: string
+  startTime: number
+  endTime: number
+  hasAudio: boolean
+}
+
+export type IdleRangeAction = 'suggested' | 'cut' | 'speed' | 'dismissed'
+
+// A stretch where nothing is said or done, found by the dead-time analysis. Exports leave out
+// `cut` ranges and play `speed` ranges `speed` times faster; the others play as recorded.
+export interface IdleRange {
+  id: string
+  startTime: number
+  endTime: number
+  action: IdleRangeAction
+  speed: number
+}
+
+// Drawn over the video on export, at coordinates in pixels of the exported (cropped) frame
+export interface VisualEffect {
+  id: string
+  type: 'blur' | 'zoom' | 'highlight' | 'annotation'
+  startTime: number
+  endTime: number
+  coordinates?: { x: number; y: number; width: number; height: number }
+  properties?: Record<string, any>
+  keyframes: EffectKeyframe[]
+}
+
+export type Easing = 'linear' | 'ease-in-out' | 'spring'
+
+export type KeyframeProperty = 'x' | 'y' | 'width' | 'height' | 'scale' | 'opacity' | 'strength'
+
+// A change to an effect part-way through it. `time` is in seconds from the effect's start;
+// each property set here is eased from its previous value along `easing`.
+export type EffectKeyframe = {
+  time: number
+  easing: Easing
+} & Partial<Record<KeyframeProperty, number>>
+
+export type AnnotationKind = 'callout' | 'arrow' | 'rectangle' | 'badge' | 'spotlight'
+
+// Styling kept in an annotation effect's properties. A spotlight dims everything outside
+// the effect's region; an arrow runs from the `arrowFrom` corner to the opposite one.
+export interface AnnotationProperties {
+  kind: AnnotationKind
+  text?: string
+  color: string
+  textColor: string
+  fontSize: number
+  strokeWidth: number
+  opacity: number
+  arrowFrom: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'
+  fadeIn: number
+  fadeOut: number
+}
+
+// How exports mark the recording's clicks; a project setting. `size` is the ripple's final
+// radius in pixels of the exported frame, and `duration` how long each click stays marked.
+export interface ClickEffects {
+  enabled: boolean
+  ripple: boolean
+  halo: boolean
+  magnify: boolean
+  color: string
+  size: number
+  duration: number
+  magnification: number
+}
+
+export type CursorTheme = 'light' | 'dark' | 'dot' | 'ring'
+
+// The cursor exports draw in place of the captured one; a project setting. `size` is its
+// height as a fraction of the frame's, and `idleDelay` how many seconds the pointer stays
+// still before it is hidden.
+export interface CursorSettings {
+  enabled: boolean
+  theme: CursorTheme
+  size: number
+  smoothing: number
+  hideWhenIdle: boolean
+  idleDelay: number
+}
+
+export type KeystrokePosition = 'top-left' | 'top-center' | 'top-right' | 'bottom-left' | 'bottom-center' | 'bottom-right'
+
+// Keycaps exports show for the recording's key presses; a project setting. `size` is the font
+// height as a fraction of the frame's, and `duration` how long a caption stays after its key.
+export interface KeystrokeOverlay {
+  enabled: boolean
+  shortcuts: boolean
+  typing: boolean
+  position: KeystrokePosition
+  theme: 'dark' | 'light'
+  size: number
+  duration: number
+}
+
+export type TypingAudio = 'mute' | 'narration'
+
+// Long runs of typing exports play faster; a project setting. Runs of at least `minKeys` key
+// presses play `speed` times faster, and `audio` decides whether the span is muted or the
+// narration keeps its normal speed.
+export interface TypingSpeedUp {
+  enabled: boolean
+  minKeys: number
+  speed: number
+  audio: TypingAudio
+}
+
+export interface WebcamOverlay {
+  enabled: boolean
+  shape: 'circle' | 'rounded' | 'rectangle'
+  size: number
+  position: { x: number; y: number }
+  hiddenRanges: Array<{ startTime: number; endTime: number }>
+  chromaKey: {
+    enabled: boolean
+    color: string
+    similarity: number
+    blend: number
+  }
+}
+
+// `move` events are pointer positions sampled while the pointer moves
 export interface UIEvent {
   id: string
-  type: 'click' | 'hover' | 'keypress' | 'scroll' | 'navigation'
+  type: 'click' | 'hover' | 'keypress' | 'scroll' | 'navigation' | 'move'
   timestamp: number
-  position: { x: number; y: number }
+  position?: { x: number; y: number }
   element?: string
   value?: string
   metadata?: Record<string, any>
 }
 
+export interface RecordingMarker {
+  time: number
+  label: string
+  source: 'teleprompter' | 'manual'
+  segmentId?: string
+}
+
 export interface ScriptLine {
   id: string
   text: string